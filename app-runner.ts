@@ -9,6 +9,7 @@ import { exec, ChildProcess } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { execSandboxed } from './worker-sandbox.js';
 
 const execAsync = promisify(exec);
 
@@ -39,7 +40,7 @@ export class AppRunner {
 
     // Install deps if needed
     try {
-      await execAsync('npm install', { cwd: projectPath, timeout: 120000 });
+      await execSandboxed('npm install', { cwd: projectPath, buildId, timeout: 120000 });
     } catch (err) {
       console.warn('[AppRunner] npm install failed (continuing):', err);
     }
@@ -0,0 +1,248 @@
+/**
+ * Checkpoints — A git ref for every completed build step, and rollback to one.
+ *
+ * When a step completes, the build loop and the phase agents record the
+ * project's HEAD under refs/build-checkpoints/<buildId>/<stepId> and store the
+ * SHA on the build_steps row (checkpoint_sha, checkpoint_ref). Work the step
+ * left uncommitted (builds without a GitHub token are never auto-committed) is
+ * committed locally first. Projects that are not git repositories are skipped.
+ *
+ * POST /api/builds/:id/rollback (server.ts) resets the workspace, and the
+ * remote branch when there is one, to a step's checkpoint, marks the steps
+ * after it rolled back and leaves the build paused at that step with a pause
+ * checkpoint (build-pause.ts), so POST /api/builds/:id/resume continues there.
+ */
+
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { readPauseState, type BuildPauseState } from './build-pause.js';
+
+const execFileAsync = promisify(execFile);
+
+const CHECKPOINT_REF_PREFIX = 'refs/build-checkpoints';
+/** Files commitAndPush keeps out of commits (they can hold the GitHub token). */
+const NEVER_COMMIT = ['.git-config.json', '.cursor-fix-prompt.tmp'];
+
+export interface StepCheckpoint {
+  sha: string;
+  ref: string;
+}
+
+export type RollbackResult =
+  | {
+    rolledBack: true;
+    buildId: string;
+    stepId: string;
+    stepNumber: number | null;
+    phase: string;
+    sha: string;
+    branch: string | null;
+    /** Whether the remote branch was force-pushed to the checkpoint. */
+    pushed: boolean;
+    pushError?: string;
+    stepsRolledBack: number;
+  }
+  | { rolledBack: false; status: 404 | 409; message: string };
+
+async function git(projectPath: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd: projectPath, maxBuffer: 10 * 1024 * 1024 });
+  return stdout.trim();
+}
+
+/** Git error text without credentials embedded in remote URLs. */
+export function redactGitError(err: unknown): string {
+  return (err instanceof Error ? err.message : String(err)).replace(/https:\/\/[^@\s/]+@/g, 'https://');
+}
+
+/** Whether the project directory is the top level of its own git repository. */
+export async function isProjectRepository(projectPath: string): Promise<boolean> {
+  try {
+    const topLevel = await git(projectPath, ['rev-parse', '--show-toplevel']);
+    return (await fs.realpath(topLevel)) === (await fs.realpath(projectPath));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Commit everything uncommitted in the working tree except NEVER_COMMIT and
+ * `exclude`, with a fallback identity when none is configured. Whether a
+ * commit was made.
+ */
+export async function commitPendingChanges(projectPath: string, message: string, exclude: string[] = []): Promise<boolean> {
+  if (!(await git(projectPath, ['status', '--porcelain']))) return false;
+  // git add refuses exclude pathspecs naming ignored paths, and those stay out anyway
+  const excluded = [...NEVER_COMMIT, ...exclude];
+  const ignored = new Set((await git(projectPath, ['check-ignore', '--', ...excluded]).catch(() => '')).split('\n'));
+  await git(projectPath, ['add', '-A', '--', '.', ...excluded.filter((file) => !ignored.has(file)).map((file) => `:(exclude)${file}`)]);
+  if (!(await git(projectPath, ['diff', '--cached', '--name-only']))) return false;
+  await git(projectPath, [...(await gitIdentityArgs(projectPath)), 'commit', '--no-verify', '-m', message]);
+  return true;
+}
+
+/** `-c` options giving git a committer identity when the repository has none. */
+export async function gitIdentityArgs(projectPath: string): Promise<string[]> {
+  const hasIdentity = await git(projectPath, ['config', 'user.email']).then(Boolean, () => false);
+  return hasIdentity ? [] : ['-c', 'user.name=MCP Build', '-c', 'user.email=build@localhost'];
+}
+
+export function getCheckpointRef(buildId: string, stepId: string): string {
+  return `${CHECKPOINT_REF_PREFIX}/${buildId}/${stepId}`;
+}
+
+/**
+ * Commit what the step left uncommitted and point the step's checkpoint ref at
+ * HEAD. Null when the project is not a git repository or has no commits yet.
+ */
+export async function createStepCheckpoint(projectPath: string, buildId: string, stepId: string): Promise<StepCheckpoint | null> {
+  if (!(await isProjectRepository(projectPath))) return null;
+
+  await commitPendingChanges(projectPath, `Checkpoint: build step ${stepId}`);
+
+  let sha: string;
+  try {
+    sha = await git(projectPath, ['rev-parse', 'HEAD']);
+  } catch {
+    return null;
+  }
+  const ref = getCheckpointRef(buildId, stepId);
+  await git(projectPath, ['update-ref', ref, sha]);
+  return { sha, ref };
+}
+
+/** Checkpoint a completed step and store it on its build_steps row. Never throws. */
+export async function checkpointBuildStep(
+  supabase: SupabaseClient,
+  projectPath: string,
+  buildId: string,
+  stepId: string | null
+): Promise<void> {
+  if (!stepId) return;
+  try {
+    const checkpoint = await createStepCheckpoint(projectPath, buildId, stepId);
+    if (!checkpoint) return;
+    await supabase.from('build_steps').update({
+      checkpoint_sha: checkpoint.sha,
+      checkpoint_ref: checkpoint.ref,
+    }).eq('id', stepId);
+  } catch (err) {
+    console.error(`[Checkpoints] Checkpoint of step ${stepId} failed (non-blocking):`, redactGitError(err));
+  }
+}
+
+/** Reset the workspace to `sha` and force-push the current branch when there is a remote. */
+async function resetWorkspace(projectPath: string, sha: string): Promise<{ branch: string | null; pushed: boolean; pushError?: string }> {
+  // The project's git config must survive even if an old commit tracked it
+  const kept = await Promise.all(NEVER_COMMIT.map((file) => fs.readFile(path.join(projectPath, file)).catch(() => null)));
+  await git(projectPath, ['reset', '--hard', sha]);
+  // Untracked files of later steps; ignored files (node_modules, .env) stay
+  await git(projectPath, ['clean', '-fd', ...NEVER_COMMIT.flatMap((file) => ['-e', file])]);
+  await Promise.all(NEVER_COMMIT.map((file, i) => kept[i] ? fs.writeFile(path.join(projectPath, file), kept[i]!) : undefined));
+
+  const branch = await git(projectPath, ['branch', '--show-current']).catch(() => '') || null;
+  const hasRemote = await git(projectPath, ['remote', 'get-url', 'origin']).then(() => true, () => false);
+  if (!branch || !hasRemote) return { branch, pushed: false };
+  try {
+    // commitAndPush leaves the token in the origin URL
+    await git(projectPath, ['push', '--force', 'origin', `HEAD:${branch}`]);
+    return { branch, pushed: true };
+  } catch (err) {
+    return { branch, pushed: false, pushError: redactGitError(err) };
+  }
+}
+
+/**
+ * Roll a build that is not running back to a step's checkpoint: workspace and
+ * remote branch, later steps marked rolled back, build paused at that step.
+ */
+export async function rollbackBuild(supabase: SupabaseClient, buildId: string, stepId: string): Promise<RollbackResult> {
+  const { data: build, error: buildError } = await supabase
+    .from('automated_builds')
+    .select('status, cursor_project_path, pause_state')
+    .eq('id', buildId)
+    .maybeSingle();
+  if (buildError) throw new Error(`Build lookup failed: ${buildError.message}`);
+  if (!build) return { rolledBack: false, status: 404, message: 'Build not found' };
+  if (build.status === 'running') {
+    return { rolledBack: false, status: 409, message: 'Build is running; pause it before rolling back' };
+  }
+
+  const { data: step, error: stepError } = await supabase
+    .from('build_steps')
+    .select('id, step_number, agent_phase, prompt_source, started_at, checkpoint_sha')
+    .eq('id', stepId)
+    .eq('build_id', buildId)
+    .maybeSingle();
+  if (stepError) throw new Error(`Step lookup failed: ${stepError.message}`);
+  if (!step) return { rolledBack: false, status: 404, message: 'Step not found' };
+  if (!step.checkpoint_sha) return { rolledBack: false, status: 409, message: 'Step has no checkpoint' };
+
+  const projectPath = typeof build.cursor_project_path === 'string' ? build.cursor_project_path : null;
+  if (!projectPath || !(await isProjectRepository(projectPath))) {
+    return { rolledBack: false, status: 409, message: 'Build workspace is not a git repository on this node' };
+  }
+  try {
+    await git(projectPath, ['cat-file', '-e', `${step.checkpoint_sha}^{commit}`]);
+  } catch {
+    return { rolledBack: false, status: 409, message: `Checkpoint ${step.checkpoint_sha} is missing from the workspace` };
+  }
+
+  const remote = await resetWorkspace(projectPath, step.checkpoint_sha);
+  const now = new Date().toISOString();
+
+  const { data: later, error: laterError } = await supabase
+    .from('build_steps')
+    .update({ status: 'rolled_back', rolled_back_at: now })
+    .eq('build_id', buildId)
+    .neq('id', stepId)
+    .gt('started_at', step.started_at)
+    .select('prompt_id, prompt_source');
+  if (laterError) throw new Error(`Marking later steps rolled back failed: ${laterError.message}`);
+
+  // Flowchart prompts of rolled back steps run again when the build resumes
+  const promptIds = (later ?? [])
+    .filter((row: { prompt_id: string | null; prompt_source: string | null }) =>
+      row.prompt_source === 'sequence' && row.prompt_id && !row.prompt_id.startsWith('cfg-'))
+    .map((row: { prompt_id: string | null }) => row.prompt_id as string);
+  if (promptIds.length > 0) {
+    await supabase.from('flowchart_items').update({ is_implemented: false }).in('id', promptIds);
+  }
+
+  const phase: string = step.agent_phase ?? 'developer';
+  const developer = phase === 'developer';
+  const previous = readPauseState(build.pause_state);
+  const pauseState: BuildPauseState = {
+    pausedAt: now,
+    phase,
+    currentStep: developer ? step.step_number ?? 0 : 0,
+    totalSteps: developer ? step.step_number ?? 0 : 0,
+    // Generated prompts come after the whole prompt sequence: continue with the agent loop
+    promptQueue: step.prompt_source === 'generated' ? [] : null,
+    model: previous?.model,
+    provider: previous?.provider,
+    feedbackSessionId: previous?.feedbackSessionId,
+  };
+  const { error: updateError } = await supabase.from('automated_builds').update({
+    status: 'paused',
+    current_agent_phase: phase,
+    ...(developer ? { current_step: step.step_number ?? 0, developer_completed_at: null } : {}),
+    pause_state: pauseState,
+    updated_at: now,
+  }).eq('id', buildId);
+  if (updateError) throw new Error(`Build update failed: ${updateError.message}`);
+
+  console.log(`[Checkpoints] Build ${buildId} rolled back to step ${step.step_number ?? stepId} (${step.checkpoint_sha.substring(0, 12)})`);
+  return {
+    rolledBack: true,
+    buildId,
+    stepId,
+    stepNumber: step.step_number ?? null,
+    phase,
+    sha: step.checkpoint_sha,
+    ...remote,
+    stepsRolledBack: later?.length ?? 0,
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Drain — Stop a dispatcher node without losing its builds (zero-downtime deploys).
+ *
+ * While draining, the node accepts no new builds and asks every running build to
+ * stop at its next step boundary. Worker processes are asked through a marker
+ * file (<log dir>/<buildId>.drain, path passed as BUILD_DRAIN_FILE) that the
+ * worker's stop check looks for. Stopped builds keep status 'running' and this
+ * node's lease, so they resume after the restart (build-recovery.ts) or on
+ * another node once the lease lapses (build-leases.ts).
+ */
+
+import { existsSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getBuildLogDir, isValidBuildId } from './build-stream.js';
+
+const DEFAULT_DRAIN_TIMEOUT_MS = 5 * 60_000;
+
+export interface DrainState {
+  startedAt: string;
+  /** When remaining builds are stopped mid-step and the node exits. */
+  deadline: string;
+  /** Builds that were running when the drain started. */
+  buildIds: string[];
+}
+
+/** How long a drain waits for step boundaries (MCP_DRAIN_TIMEOUT_MS, default 5 minutes). */
+export function getDrainTimeoutMs(): number {
+  const parsed = parseInt(process.env.MCP_DRAIN_TIMEOUT_MS || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_DRAIN_TIMEOUT_MS;
+}
+
+export function getDrainFilePath(buildId: string): string {
+  if (!isValidBuildId(buildId)) throw new Error(`Invalid build id: ${buildId}`);
+  return path.join(getBuildLogDir(), `${buildId}.drain`);
+}
+
+/** Ask a build's worker to stop at its next step boundary. */
+export async function requestWorkerDrain(buildId: string): Promise<void> {
+  const file = getDrainFilePath(buildId);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, new Date().toISOString(), 'utf-8');
+}
+
+/** Remove a stale drain request (before a build is started again). */
+export async function clearWorkerDrain(buildId: string): Promise<void> {
+  await fs.rm(getDrainFilePath(buildId), { force: true });
+}
+
+/** Worker side: whether the dispatcher asked this build to drain. Cheap enough for every stop check. */
+export function isDrainRequested(drainFile: string | undefined): boolean {
+  return !!drainFile && existsSync(drainFile);
+}
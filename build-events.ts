@@ -0,0 +1,215 @@
+/**
+ * Typed build events written to build_logs.
+ *
+ * Each event is one build_logs row with an event_type, a JSON payload (the
+ * existing `data` column), a phase and a sequence number assigned by the
+ * database (identity column, so events from the worker and the dispatcher
+ * interleave in one order). `message` keeps a human-readable line so existing
+ * log views keep working. Heartbeats only reach in-process listeners (live
+ * streams); they are not written to build_logs.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const BUILD_EVENT_TYPES = [
+  'log',
+  'step_started',
+  'step_completed',
+  'phase_changed',
+  'agent_tool_call',
+  'files_changed',
+  'build_error',
+  'heartbeat',
+] as const;
+
+export type BuildEventType = (typeof BUILD_EVENT_TYPES)[number];
+
+/** Delivered to listeners but never written to build_logs. */
+const TRANSIENT_EVENT_TYPES: ReadonlySet<BuildEventType> = new Set(['heartbeat']);
+
+export type BuildLogLevel = 'info' | 'warn' | 'error';
+
+/** Payload shape per event type. */
+export interface BuildEventPayloads {
+  log: { level: BuildLogLevel; source?: string; [key: string]: unknown };
+  step_started: {
+    stepNumber: number;
+    totalSteps?: number;
+    stepId?: string | null;
+    promptId?: string | null;
+    promptSource?: string;
+    title?: string;
+    model?: string;
+  };
+  step_completed: {
+    stepNumber: number;
+    totalSteps?: number;
+    stepId?: string | null;
+    promptId?: string | null;
+    status: 'completed' | 'failed';
+    durationMs?: number;
+    retryCount?: number;
+    error?: string | null;
+  };
+  phase_changed: { from: string | null; to: string };
+  agent_tool_call: { provider?: string; tool: string; detail?: string };
+  files_changed: { stepNumber?: number; files: string[] };
+  build_error: { message: string; source?: string; stepNumber?: number; [key: string]: unknown };
+  heartbeat: { currentStep?: number; totalSteps?: number };
+}
+
+/** An event type with its payload; switching on `type` narrows `payload`. */
+type TypedPayload = { [T in BuildEventType]: { type: T; payload: BuildEventPayloads[T] } }[BuildEventType];
+
+export interface BuildEvent<T extends BuildEventType = BuildEventType> {
+  buildId: string;
+  /** Database-assigned; null when the row could not be written (or is never written, for heartbeats). */
+  sequence: number | null;
+  type: T;
+  phase: string | null;
+  payload: BuildEventPayloads[T];
+  message: string;
+  createdAt: string;
+}
+
+/** Max length of the human-readable message column. */
+const MAX_MESSAGE_LENGTH = 2000;
+
+export type BuildEventListener = (event: BuildEvent) => void;
+
+const listeners = new Set<BuildEventListener>();
+
+/**
+ * Subscribe to every event emitted in this process (after its row is written).
+ * Returns the unsubscribe function. Listener errors are swallowed.
+ */
+export function onBuildEvent(listener: BuildEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// log_type must match DB CHECK constraint: 'build_log' or 'mcp_log'
+// Override via env if needed (e.g. MCP_BUILD_LOG_TYPE_ERROR='mcp_log')
+function logTypeFor(type: BuildEventType): string {
+  return type === 'build_error'
+    ? (process.env.MCP_BUILD_LOG_TYPE_ERROR ?? 'build_log')
+    : (process.env.MCP_BUILD_LOG_TYPE_INFO ?? 'build_log');
+}
+
+/** Default message for events emitted without one. */
+function describeEvent(event: TypedPayload): string {
+  switch (event.type) {
+    case 'step_started': {
+      const p = event.payload;
+      return `Step ${p.stepNumber}${p.totalSteps ? `/${p.totalSteps}` : ''} started${p.title ? `: ${p.title}` : ''}`;
+    }
+    case 'step_completed': {
+      const p = event.payload;
+      return `Step ${p.stepNumber}${p.totalSteps ? `/${p.totalSteps}` : ''} ${p.status}${p.error ? `: ${p.error}` : ''}`;
+    }
+    case 'phase_changed':
+      return `Phase changed: ${event.payload.from ?? 'none'} → ${event.payload.to}`;
+    case 'agent_tool_call':
+      return `Tool call: ${event.payload.tool}${event.payload.detail ? ` ${event.payload.detail}` : ''}`;
+    case 'files_changed': {
+      const { files } = event.payload;
+      return `${files.length} file(s) changed${files.length > 0 ? `: ${files.slice(0, 5).join(', ')}${files.length > 5 ? ', ...' : ''}` : ''}`;
+    }
+    case 'build_error':
+      return event.payload.message;
+    case 'heartbeat':
+      return 'Heartbeat';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Writes typed events for one build. Share one emitter between the build loop
+ * and the agent runners so the current phase follows the pipeline.
+ * Writes never throw: a failed insert is reported on stderr and the build goes on.
+ */
+export class BuildEventEmitter {
+  private phase: string | null;
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    readonly buildId: string,
+    phase: string | null = null
+  ) {
+    this.phase = phase;
+  }
+
+  get currentPhase(): string | null {
+    return this.phase;
+  }
+
+  async emit<T extends BuildEventType>(type: T, payload: BuildEventPayloads[T], message?: string): Promise<BuildEvent<T>> {
+    // TypeScript does not correlate T with the payload union; emit's signature already ties them
+    const text = message ?? describeEvent({ type, payload } as TypedPayload);
+    const event: BuildEvent<T> = {
+      buildId: this.buildId,
+      sequence: null,
+      type,
+      phase: this.phase,
+      payload,
+      message: text.length > MAX_MESSAGE_LENGTH ? `${text.substring(0, MAX_MESSAGE_LENGTH - 3)}...` : text,
+      createdAt: new Date().toISOString(),
+    };
+
+    if (!TRANSIENT_EVENT_TYPES.has(type)) await this.write(event);
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch {
+        // listeners must not break the build
+      }
+    }
+    return event;
+  }
+
+  /** Insert the event's build_logs row and record its sequence. */
+  private async write(event: BuildEvent): Promise<void> {
+    const { type } = event;
+    try {
+      const { data, error } = await this.supabase
+        .from('build_logs')
+        .insert({
+          build_id: this.buildId,
+          log_type: logTypeFor(type),
+          event_type: type,
+          phase: event.phase,
+          data: event.payload,
+          message: event.message,
+          created_at: event.createdAt,
+        })
+        .select('sequence')
+        .single();
+      if (error) {
+        console.error(`[BuildEvents] Failed to write ${type} event: ${error.message}`);
+      } else {
+        event.sequence = typeof data?.sequence === 'number' ? data.sequence : null;
+      }
+    } catch (err) {
+      console.error(`[BuildEvents] Failed to write ${type} event (non-blocking):`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  /** Move to a new phase; emits phase_changed unless already there. */
+  async setPhase(phase: string): Promise<void> {
+    if (phase === this.phase) return;
+    const from = this.phase;
+    this.phase = phase;
+    await this.emit('phase_changed', { from, to: phase });
+  }
+
+  /** Free-text line; errors become build_error events. */
+  async log(message: string, level: BuildLogLevel = 'info', extra: Record<string, unknown> = {}): Promise<BuildEvent> {
+    if (level === 'error') {
+      return this.emit('build_error', { ...extra, message }, message);
+    }
+    return this.emit('log', { ...extra, level }, message);
+  }
+}
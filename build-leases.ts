@@ -0,0 +1,181 @@
+/**
+ * BuildLeases — Expiring ownership of automated_builds rows across dispatcher nodes.
+ *
+ * Each dispatcher instance is a node (MCP_NODE_ID, default <hostname>:<port>).
+ * A node claims a build before starting it; the build loop renews the lease
+ * three times per TTL (build-runner.ts), and a node whose renewals stop loses its builds
+ * once the lease lapses (MCP_BUILD_LEASE_TTL_MS, default 60s). Surviving nodes
+ * scan for running builds with a lapsed lease and take them over.
+ *
+ * Claims go through the claim_build_lease() SQL function so the database clock
+ * decides expiry and two nodes never win the same build.
+ */
+
+import * as os from 'os';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const DEFAULT_LEASE_TTL_MS = 60_000;
+const DEFAULT_TAKEOVER_INTERVAL_MS = 30_000;
+
+/** This dispatcher's node id (MCP_NODE_ID, default <hostname>:<port>). */
+export function getNodeId(): string {
+  return process.env.MCP_NODE_ID?.trim() || `${os.hostname()}:${process.env.MCP_SERVER_PORT || '3001'}`;
+}
+
+/** Lease duration (MCP_BUILD_LEASE_TTL_MS); renewed every third of it. */
+export function getLeaseTtlMs(): number {
+  const parsed = parseInt(process.env.MCP_BUILD_LEASE_TTL_MS || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_LEASE_TTL_MS;
+}
+
+/** Extend a lease held by `owner`. Returns false when another node owns the build now. */
+export async function renewBuildLease(
+  supabase: SupabaseClient,
+  buildId: string,
+  owner: string,
+  ttlMs: number
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('renew_build_lease', {
+    p_build_id: buildId,
+    p_node_id: owner,
+    p_ttl_seconds: Math.ceil(ttlMs / 1000),
+  });
+  if (error) throw new Error(`Lease renewal failed: ${error.message}`);
+  return data === true;
+}
+
+/** A lease held by this node, as shown by /api/builds and /api/sessions. */
+export interface HeldLease {
+  buildId: string;
+  claimedAt: string;
+  /** Node whose lapsed lease this node took over, if any. */
+  takenOverFrom: string | null;
+}
+
+/** A running build whose lease lapsed. */
+export interface OrphanedBuild {
+  buildId: string;
+  previousOwner: string | null;
+  leaseExpiredAt: string;
+  /** Set when the previous owner drained and checkpointed the build. */
+  drainedAt: string | null;
+}
+
+export class BuildLeaseManager {
+  private held = new Map<string, HeldLease>();
+
+  constructor(
+    readonly nodeId: string = getNodeId(),
+    readonly ttlMs: number = getLeaseTtlMs()
+  ) {}
+
+  /**
+   * Claim a build for this node. Succeeds when the build is unleased, its lease
+   * lapsed, or this node already holds it.
+   */
+  async claim(supabase: SupabaseClient, buildId: string, takenOverFrom: string | null = null): Promise<boolean> {
+    const { data, error } = await supabase.rpc('claim_build_lease', {
+      p_build_id: buildId,
+      p_node_id: this.nodeId,
+      p_ttl_seconds: Math.ceil(this.ttlMs / 1000),
+    });
+    if (error) throw new Error(`Lease claim failed: ${error.message}`);
+    if (data !== true) return false;
+    const existing = this.held.get(buildId);
+    this.held.set(buildId, {
+      buildId,
+      claimedAt: existing?.claimedAt ?? new Date().toISOString(),
+      takenOverFrom: takenOverFrom ?? existing?.takenOverFrom ?? null,
+    });
+    return true;
+  }
+
+  /** Give up a build (finished or stopped) so it is not taken over. */
+  async release(supabase: SupabaseClient, buildId: string): Promise<void> {
+    this.held.delete(buildId);
+    const { error } = await supabase
+      .from('automated_builds')
+      .update({ lease_owner: null, lease_expires_at: null })
+      .eq('id', buildId)
+      .eq('lease_owner', this.nodeId);
+    if (error) throw new Error(`Lease release failed: ${error.message}`);
+  }
+
+  /**
+   * Give back a claim this node cannot run (no free slot, or the start failed):
+   * the lease lapses now instead of after the TTL, so a running build is taken
+   * over again by the next scan rather than left to use up resume attempts here.
+   */
+  async handOff(supabase: SupabaseClient, buildId: string): Promise<void> {
+    this.held.delete(buildId);
+    const { error } = await supabase
+      .from('automated_builds')
+      .update({ lease_expires_at: new Date().toISOString() })
+      .eq('id', buildId)
+      .eq('lease_owner', this.nodeId);
+    if (error) throw new Error(`Lease hand-off failed: ${error.message}`);
+  }
+
+  /** Node holding an unexpired lease on the build, or null. */
+  async activeOwner(supabase: SupabaseClient, buildId: string): Promise<string | null> {
+    const { data } = await supabase
+      .from('automated_builds')
+      .select('lease_owner, lease_expires_at')
+      .eq('id', buildId)
+      .maybeSingle();
+    if (typeof data?.lease_owner !== 'string' || !data.lease_expires_at) return null;
+    return new Date(data.lease_expires_at).getTime() > Date.now() ? data.lease_owner : null;
+  }
+
+  getHeldLease(buildId: string): HeldLease | undefined {
+    return this.held.get(buildId);
+  }
+
+  /** Running builds whose lease lapsed (candidates for takeover), oldest first. */
+  async findOrphaned(supabase: SupabaseClient, limit = 10): Promise<OrphanedBuild[]> {
+    const { data, error } = await supabase
+      .from('automated_builds')
+      .select('id, lease_owner, lease_expires_at, drained_at')
+      .eq('status', 'running')
+      .not('lease_expires_at', 'is', null)
+      .lt('lease_expires_at', new Date().toISOString())
+      .order('lease_expires_at', { ascending: true })
+      .limit(limit);
+    if (error) throw new Error(`Orphaned build scan failed: ${error.message}`);
+    return (data ?? []).map((row: { id: string; lease_owner: string | null; lease_expires_at: string; drained_at: string | null }) => ({
+      buildId: row.id,
+      previousOwner: row.lease_owner,
+      leaseExpiredAt: row.lease_expires_at,
+      drainedAt: row.drained_at ?? null,
+    }));
+  }
+
+  /**
+   * Periodically look for orphaned builds and hand them to `onOrphan`, which
+   * claims and restarts them (or skips them when this node has no free slot).
+   */
+  startTakeoverMonitor(
+    supabase: SupabaseClient,
+    onOrphan: (orphan: OrphanedBuild) => Promise<void>,
+    intervalMs = DEFAULT_TAKEOVER_INTERVAL_MS
+  ): NodeJS.Timeout {
+    let scanning = false;
+    return setInterval(async () => {
+      if (scanning) return;
+      scanning = true;
+      try {
+        for (const orphan of await this.findOrphaned(supabase)) {
+          try {
+            await onOrphan(orphan);
+          } catch (err) {
+            console.error(`[BuildLeases] Takeover of ${orphan.buildId} failed:`, err instanceof Error ? err.message : err);
+          }
+        }
+      } catch (err) {
+        console.error('[BuildLeases] Takeover scan failed:', err instanceof Error ? err.message : err);
+      } finally {
+        scanning = false;
+      }
+    }, intervalMs);
+  }
+}
@@ -2,32 +2,98 @@
  * BuildOrchestrator — Multi-build management, port allocation, and worker session tracking.
  *
  * Tracks concurrent builds, assigns preview ports from a configurable range,
- * and manages per-build worker sessions (PIDs, lifecycle, log files).
+ * manages per-build worker sessions (PIDs, lifecycle, log files, live status
+ * from worker heartbeats) and dispatches queued builds (see build-queue.ts)
+ * whenever a worker slot frees up.
  */
 
 import { ChildProcess } from 'child_process';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { BuildQueue, type QueuedBuild, type QueuedBuildInfo } from './build-queue.js';
+import { BuildQuotas, loadQuotaConfig, type BuildOwner, type QuotaDecision, type RunningCounts } from './build-quotas.js';
+import { getWorkerStallThresholdMs, type WorkerHeartbeat } from './worker-ipc.js';
+
+/** Starts a dequeued build (server.ts runBuild). */
+export type QueueDispatchFn = (entry: QueuedBuild) => Promise<void>;
+
+/** Called when a queued build is dropped because it hit a daily quota. */
+export type QueueRejectFn = (entry: QueuedBuild, decision: Extract<QuotaDecision, { allowed: false }>) => Promise<void>;
+
+/** Queue entry plus why it is waiting, if it is held back by a quota. */
+export interface QueuedBuildStatus extends QueuedBuildInfo {
+  deferral?: Extract<QuotaDecision, { allowed: false }>;
+}
+
+/** Latest state a worker reported over IPC (worker-ipc.ts); times are epoch ms. */
+export interface WorkerLiveStatus {
+  phase: string | null;
+  currentStep: number | null;
+  totalSteps: number | null;
+  lastHeartbeatAt: number;
+  /** Latest output from the build loop or from its agent CLI. */
+  lastOutputAt: number;
+}
 
 /** Metadata for a running worker session. */
 export interface WorkerSession {
   buildId: string;
   pid: number;
-  process: ChildProcess;
+  /** Absent for workers re-attached after a dispatcher restart (tracked by PID only). */
+  process?: ChildProcess;
   startedAt: string;
   logFile?: string;
   errFile?: string;
   /** Port assigned for app preview (if any). */
   port?: number;
+  /** Owner of the build, for per-user queue fairness and quotas. */
+  userId?: string | null;
+  /** Organization of the build's project, for org quotas. */
+  orgId?: string | null;
+  /** Set once the worker sent its first heartbeat. */
+  live?: WorkerLiveStatus;
+}
+
+/** Whether a session's worker process is still running. */
+function isSessionAlive(session: WorkerSession): boolean {
+  if (session.process) return session.process.exitCode === null && !session.process.killed;
+  try {
+    process.kill(session.pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** A build running in the dispatcher process (no worker session). */
+interface InProcessBuild {
+  buildId: string;
+  pid?: number;
+  port?: number;
+  userId?: string | null;
+  orgId?: string | null;
 }
 
 export class BuildOrchestrator {
-  private activeBuilds = new Map<string, { buildId: string; pid?: number; port?: number }>();
+  private activeBuilds = new Map<string, InProcessBuild>();
   private workerSessions = new Map<string, WorkerSession>();
   private maxConcurrentBuilds: number;
   private portRange: { start: number; end: number };
   private usedPorts = new Set<number>();
+  private queue: BuildQueue;
+  private quotas: BuildQuotas;
+  private dispatchFn: QueueDispatchFn | null = null;
+  private rejectFn: QueueRejectFn | null = null;
+  private dispatching: Promise<void> = Promise.resolve();
+  /** Set while the node drains: queued builds stay queued for the next start. */
+  private dispatchPaused = false;
+  /** Latest quota deferral per queued build, for queue status. */
+  private deferrals = new Map<string, Extract<QuotaDecision, { allowed: false }>>();
+  /** Where daily quota usage is counted (service role); daily limits are off without it. */
+  private quotaDb: SupabaseClient | null = null;
 
-  constructor(maxConcurrent?: number) {
+  constructor(maxConcurrent?: number, queue?: BuildQueue, quotas?: BuildQuotas) {
+    this.queue = queue ?? new BuildQueue();
+    this.quotas = quotas ?? new BuildQuotas(loadQuotaConfig());
     const parsedMax = parseInt(process.env.MCP_MAX_CONCURRENT_BUILDS || '5', 10);
     this.maxConcurrentBuilds = maxConcurrent ?? (Number.isFinite(parsedMax) && parsedMax > 0 ? parsedMax : 5);
 
@@ -43,19 +109,54 @@ export class BuildOrchestrator {
   // ──── Build slot management ────
 
   canStartBuild(): boolean {
-    return this.workerSessions.size < this.maxConcurrentBuilds;
+    return this.getActiveCount() < this.maxConcurrentBuilds;
   }
 
-  registerBuild(buildId: string): boolean {
-    if (!this.canStartBuild()) return false;
-    this.activeBuilds.set(buildId, { buildId });
-    return true;
+  /** Global slot check plus the owner's user/org concurrency quotas. */
+  checkQuota(owner: BuildOwner): QuotaDecision {
+    if (!this.canStartBuild()) {
+      return {
+        allowed: false,
+        action: 'defer',
+        reason: 'global_concurrent_limit',
+        scope: 'global',
+        limit: this.maxConcurrentBuilds,
+        current: this.getActiveCount(),
+        message: `Max concurrent builds reached (${this.getActiveCount()}/${this.maxConcurrentBuilds}). The build stays queued.`,
+      };
+    }
+    return this.quotas.checkConcurrent(owner, this.runningCounts());
+  }
+
+  /**
+   * Take a slot for a build about to start, worker or in-process: checks the
+   * global limit and the owner's concurrency quotas. A new start (`fresh`) is
+   * also counted against the daily quotas, which were checked when it left the
+   * queue; resumes, recoveries and takeovers are not. A worker build's session
+   * replaces the slot once it is spawned.
+   */
+  registerBuild(
+    buildId: string,
+    owner: BuildOwner = { userId: null, orgId: null },
+    options: { fresh?: boolean } = {}
+  ): QuotaDecision {
+    const decision = this.checkQuota(owner);
+    if (!decision.allowed) return decision;
+    this.activeBuilds.set(buildId, { buildId, userId: owner.userId, orgId: owner.orgId });
+    if (options.fresh && this.quotaDb) {
+      this.quotas.recordStart(this.quotaDb, buildId, owner).catch((err) => {
+        console.error(`[Orchestrator] Failed to record quota usage for ${buildId} (non-blocking):`, err instanceof Error ? err.message : err);
+      });
+    }
+    return decision;
   }
 
   unregisterBuild(buildId: string): void {
     const build = this.activeBuilds.get(buildId);
     if (build?.port) this.usedPorts.delete(build.port);
     this.activeBuilds.delete(buildId);
+    // A slot just freed up
+    if (this.queue.size > 0) void this.dispatchQueued();
   }
 
   // ──── Port allocation ────
@@ -76,17 +177,56 @@ export class BuildOrchestrator {
 
   // ──── Worker session management ────
 
-  /** Register a newly spawned worker process. */
+  /** Register a newly spawned worker process (its build already holds a slot from registerBuild). */
   registerWorker(session: WorkerSession): void {
     this.workerSessions.set(session.buildId, session);
   }
 
+  /**
+   * Track a worker that outlived a dispatcher restart. It was already counted
+   * against quotas when it started; its exit is detected by polling the PID.
+   */
+  adoptWorker(session: WorkerSession, onExit: () => void, pollMs = 5_000): void {
+    this.workerSessions.set(session.buildId, session);
+    const timer = setInterval(() => {
+      if (isSessionAlive(session)) return;
+      clearInterval(timer);
+      // stopWorker / reapDeadWorkers may have unregistered it already
+      if (this.workerSessions.get(session.buildId) === session) this.unregisterWorker(session.buildId);
+      onExit();
+    }, pollMs);
+    timer.unref();
+  }
+
   /** Remove a worker session (on exit/cleanup). */
   unregisterWorker(buildId: string): void {
     const session = this.workerSessions.get(buildId);
     if (session?.port) this.usedPorts.delete(session.port);
     this.workerSessions.delete(buildId);
     this.activeBuilds.delete(buildId);
+    // A slot just freed up
+    if (this.queue.size > 0) void this.dispatchQueued();
+  }
+
+  /** Store a worker's heartbeat (kept in memory only). */
+  recordHeartbeat(heartbeat: WorkerHeartbeat): void {
+    const session = this.workerSessions.get(heartbeat.buildId);
+    if (!session) return;
+    const now = Date.now();
+    const previous = session.live;
+    session.live = {
+      phase: heartbeat.phase,
+      currentStep: heartbeat.currentStep,
+      totalSteps: heartbeat.totalSteps,
+      lastHeartbeatAt: now,
+      lastOutputAt: Math.max(now - heartbeat.outputIdleMs, previous?.lastOutputAt ?? 0),
+    };
+  }
+
+  /** Agent CLIs run in the dispatcher: their output counts as the worker's output. */
+  noteAgentOutput(buildId: string): void {
+    const live = this.workerSessions.get(buildId)?.live;
+    if (live) live.lastOutputAt = Date.now();
   }
 
   /** Get a specific worker session by buildId. */
@@ -99,20 +239,31 @@ export class BuildOrchestrator {
     const session = this.workerSessions.get(buildId);
     if (!session) return false;
 
+    const child = session.process;
     try {
-      session.process.kill('SIGTERM');
-      // Force kill after 10 seconds
-      await new Promise<void>((resolve) => {
-        const timer = setTimeout(() => {
-          try { session.process.kill('SIGKILL'); } catch { /* already dead */ }
-          resolve();
-        }, 10_000);
-
-        session.process.on('exit', () => {
-          clearTimeout(timer);
-          resolve();
+      if (child) {
+        child.kill('SIGTERM');
+        // Force kill after 10 seconds
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(() => {
+            try { child.kill('SIGKILL'); } catch { /* already dead */ }
+            resolve();
+          }, 10_000);
+
+          child.on('exit', () => {
+            clearTimeout(timer);
+            resolve();
+          });
         });
-      });
+      } else {
+        // Adopted worker: no exit event, poll the PID
+        process.kill(session.pid, 'SIGTERM');
+        const deadline = Date.now() + 10_000;
+        while (isSessionAlive(session) && Date.now() < deadline) {
+          await new Promise((resolve) => setTimeout(resolve, 250));
+        }
+        if (isSessionAlive(session)) process.kill(session.pid, 'SIGKILL');
+      }
     } catch {
       // Process already dead
     }
@@ -121,10 +272,142 @@ export class BuildOrchestrator {
     return true;
   }
 
+  // ──── Build queue ────
+
+  /**
+   * Set how dequeued builds are started (must register a worker before resolving)
+   * and how builds rejected by a daily quota are reported.
+   */
+  setQueueDispatcher(fn: QueueDispatchFn, onReject?: QueueRejectFn): void {
+    this.dispatchFn = fn;
+    this.rejectFn = onReject ?? null;
+  }
+
+  /** Count daily quota usage in this database (the dispatcher's service role client). */
+  setQuotaClient(db: SupabaseClient | null): void {
+    this.quotaDb = db;
+  }
+
+  /** Restore the persisted queue (startup) and dispatch what fits. */
+  async loadQueue(): Promise<number> {
+    const restored = await this.queue.load();
+    if (restored > 0) void this.dispatchQueued();
+    return restored;
+  }
+
+  /** Stop starting queued builds (drain). */
+  pauseDispatch(): void {
+    this.dispatchPaused = true;
+  }
+
+  async enqueueBuild(entry: { buildId: string; userId: string | null; orgId?: string | null; priority?: number; resume?: boolean }): Promise<QueuedBuild> {
+    return this.queue.enqueue(entry);
+  }
+
+  async dequeueBuild(buildId: string): Promise<boolean> {
+    this.deferrals.delete(buildId);
+    return this.queue.remove(buildId);
+  }
+
+  isQueued(buildId: string): boolean {
+    return this.queue.has(buildId);
+  }
+
+  getQueuePosition(buildId: string): number | null {
+    return this.queue.position(buildId, this.runningByUser());
+  }
+
+  getQueuedBuilds(): QueuedBuildStatus[] {
+    const global = this.checkQuota({ userId: null, orgId: null });
+    return this.queue.list(this.runningByUser()).map((info) => {
+      const deferral = this.deferrals.get(info.buildId) ?? (global.allowed ? undefined : global);
+      return deferral ? { ...info, deferral } : info;
+    });
+  }
+
+  /** Why a queued build is waiting, if a quota holds it back. */
+  getQueueDeferral(buildId: string): Extract<QuotaDecision, { allowed: false }> | undefined {
+    return this.getQueuedBuilds().find((q) => q.buildId === buildId)?.deferral;
+  }
+
+  /**
+   * Start queued builds while worker slots are free. Runs are serialized so two
+   * freed slots never dispatch the same entry. Builds over a concurrency quota
+   * are skipped (they stay queued); new builds over a daily quota are dropped
+   * and reported. A build that fails to start is dropped from the queue (the error
+   * is logged by the dispatcher).
+   */
+  dispatchQueued(): Promise<void> {
+    this.dispatching = this.dispatching.then(async () => {
+      if (!this.dispatchFn || this.dispatchPaused) return;
+      while (this.queue.size > 0 && this.canStartBuild() && !this.dispatchPaused) {
+        const next = await this.nextDispatchable();
+        if (!next) break;
+        await this.queue.remove(next.buildId);
+        this.deferrals.delete(next.buildId);
+        try {
+          await this.dispatchFn(next);
+        } catch (err) {
+          console.error(`[Orchestrator] Failed to start queued build ${next.buildId}:`, err instanceof Error ? err.message : err);
+        }
+      }
+    });
+    return this.dispatching;
+  }
+
+  /**
+   * First queued build, in dispatch order, that passes its quotas. Daily limits
+   * are checked first, since waiting would not help; resumed builds only need
+   * a concurrency slot.
+   */
+  private async nextDispatchable(): Promise<QueuedBuild | null> {
+    for (const entry of this.queue.ordered(this.runningByUser())) {
+      const owner: BuildOwner = { userId: entry.userId, orgId: entry.orgId ?? null };
+      const daily = entry.resume ? { allowed: true as const } : await this.quotas.checkDaily(this.quotaDb, owner);
+      const decision = daily.allowed ? this.quotas.checkConcurrent(owner, this.runningCounts()) : daily;
+      if (decision.allowed) return entry;
+      if (decision.action === 'defer') {
+        this.deferrals.set(entry.buildId, decision);
+        continue;
+      }
+      await this.queue.remove(entry.buildId);
+      this.deferrals.delete(entry.buildId);
+      try {
+        await this.rejectFn?.(entry, decision);
+      } catch (err) {
+        console.error(`[Orchestrator] Failed to report quota rejection for ${entry.buildId}:`, err instanceof Error ? err.message : err);
+      }
+    }
+    return null;
+  }
+
+  /** Worker sessions and in-process builds, one entry per running build. */
+  private runningBuilds(): Array<{ userId?: string | null; orgId?: string | null }> {
+    const inProcess = Array.from(this.activeBuilds.values()).filter((build) => !this.workerSessions.has(build.buildId));
+    return [...this.workerSessions.values(), ...inProcess];
+  }
+
+  private runningCounts(): RunningCounts {
+    const byOrg = new Map<string, number>();
+    for (const build of this.runningBuilds()) {
+      if (build.orgId) byOrg.set(build.orgId, (byOrg.get(build.orgId) ?? 0) + 1);
+    }
+    return { byUser: this.runningByUser(), byOrg };
+  }
+
+  private runningByUser(): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const build of this.runningBuilds()) {
+      if (build.userId) counts.set(build.userId, (counts.get(build.userId) ?? 0) + 1);
+    }
+    return counts;
+  }
+
   // ──── Queries ────
 
+  /** Running builds: worker sessions plus in-process builds. */
   getActiveCount(): number {
-    return this.workerSessions.size;
+    return this.runningBuilds().length;
   }
 
   getAll(): { buildId: string; pid?: number; port?: number }[] {
@@ -138,14 +421,34 @@ export class BuildOrchestrator {
     startedAt: string;
     uptimeSeconds: number;
     logFile?: string;
+    /** Live status from heartbeats; null before the first one or for re-attached workers. */
+    live: {
+      phase: string | null;
+      currentStep: number | null;
+      totalSteps: number | null;
+      heartbeatAgeSeconds: number;
+      outputIdleSeconds: number;
+      stalled: boolean;
+    } | null;
   }> {
     const now = Date.now();
+    const stallMs = getWorkerStallThresholdMs();
     return Array.from(this.workerSessions.values()).map((s) => ({
       buildId: s.buildId,
       pid: s.pid,
       startedAt: s.startedAt,
       uptimeSeconds: Math.round((now - new Date(s.startedAt).getTime()) / 1000),
       logFile: s.logFile,
+      live: s.live
+        ? {
+          phase: s.live.phase,
+          currentStep: s.live.currentStep,
+          totalSteps: s.live.totalSteps,
+          heartbeatAgeSeconds: Math.round((now - s.live.lastHeartbeatAt) / 1000),
+          outputIdleSeconds: Math.round((now - s.live.lastOutputAt) / 1000),
+          stalled: now - s.live.lastOutputAt > stallMs,
+        }
+        : null,
     }));
   }
 
@@ -153,7 +456,7 @@ export class BuildOrchestrator {
   reapDeadWorkers(): number {
     let reaped = 0;
     for (const [buildId, session] of this.workerSessions) {
-      if (session.process.exitCode !== null || session.process.killed) {
+      if (!isSessionAlive(session)) {
         this.unregisterWorker(buildId);
         reaped++;
       }
@@ -163,12 +466,15 @@ export class BuildOrchestrator {
 
   /**
    * Start periodic liveness monitoring.
-   * Checks each active worker's heartbeat in the database. If a running build
-   * hasn't heartbeated in > STALL_THRESHOLD_MS, the worker is force-killed and
-   * the build marked as failed.
+   * Workers are judged on output idleness. Those spawned with an IPC channel
+   * report it in their heartbeats (worker-ipc.ts), with agent CLI output
+   * counted in, so no database query is needed. Re-attached workers have no
+   * channel, so the time of their newest build_logs row is used instead. A
+   * worker idle for longer than the stall threshold is force-killed and its
+   * build marked as failed.
    */
-  startLivenessMonitor(supabase: SupabaseClient, intervalMs = 60_000): NodeJS.Timeout {
-    const STALL_THRESHOLD_MS = 180_000; // 3 minutes
+  startLivenessMonitor(supabase: SupabaseClient, intervalMs = 15_000): NodeJS.Timeout {
+    const stallMs = getWorkerStallThresholdMs();
 
     return setInterval(async () => {
       // Also reap already-dead processes
@@ -176,26 +482,23 @@ export class BuildOrchestrator {
 
       for (const [buildId, session] of this.workerSessions) {
         try {
-          const { data } = await supabase
-            .from('automated_builds')
-            .select('last_heartbeat, status')
-            .eq('id', buildId)
-            .single();
-
-          if (data?.status === 'running' && data.last_heartbeat) {
-            const age = Date.now() - new Date(data.last_heartbeat).getTime();
-            if (age > STALL_THRESHOLD_MS) {
-              console.error(
-                `[Orchestrator] Worker ${buildId} (pid ${session.pid}) stalled ` +
-                `(heartbeat ${Math.round(age / 1000)}s ago). Killing.`
-              );
-              await this.stopWorker(buildId);
-              await supabase.from('automated_builds').update({
-                status: 'failed',
-                error_message: `Build stalled — no heartbeat for ${Math.round(age / 1000)}s. Automatically terminated.`,
-                completed_at: new Date().toISOString(),
-              }).eq('id', buildId);
-            }
+          const startedAt = new Date(session.startedAt).getTime();
+          if (session.process) {
+            const age = Date.now() - (session.live?.lastOutputAt ?? startedAt);
+            if (age > stallMs) await this.failStalledWorker(supabase, session, age);
+            continue;
+          }
+
+          const [{ data: build }, { data: lastLog }] = await Promise.all([
+            supabase.from('automated_builds').select('status').eq('id', buildId).single(),
+            supabase.from('build_logs').select('created_at').eq('build_id', buildId)
+              .order('created_at', { ascending: false }).limit(1).maybeSingle(),
+          ]);
+
+          if (build?.status === 'running') {
+            const lastOutputAt = Math.max(startedAt, lastLog?.created_at ? new Date(lastLog.created_at).getTime() : 0);
+            const age = Date.now() - lastOutputAt;
+            if (age > stallMs) await this.failStalledWorker(supabase, session, age);
           }
         } catch {
           // Non-blocking — continue checking other workers
@@ -203,4 +506,17 @@ export class BuildOrchestrator {
       }
     }, intervalMs);
   }
+
+  private async failStalledWorker(supabase: SupabaseClient, session: WorkerSession, age: number): Promise<void> {
+    console.error(
+      `[Orchestrator] Worker ${session.buildId} (pid ${session.pid}) stalled ` +
+      `(no output for ${Math.round(age / 1000)}s). Killing.`
+    );
+    await this.stopWorker(session.buildId);
+    await supabase.from('automated_builds').update({
+      status: 'failed',
+      error_message: `Build stalled — no output for ${Math.round(age / 1000)}s. Automatically terminated.`,
+      completed_at: new Date().toISOString(),
+    }).eq('id', session.buildId).eq('status', 'running');
+  }
 }
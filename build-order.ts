@@ -0,0 +1,203 @@
+/**
+ * Dependency order — Orders a phase's work (developer prompts, scope-check
+ * pages) from the project's flowchart_connections instead of sequence_order
+ * alone.
+ *
+ * A connection makes one item depend on the other: data models come before
+ * APIs and APIs before everything else (pages, features, ...), whichever way
+ * the connection points; between items of the same layer the source comes
+ * first. A prompt stands in for the items it is connected to, so a prompt for
+ * an API runs before a prompt for the page that uses it. Work runs after
+ * everything it depends on, directly or through other items; otherwise (and
+ * for items in a dependency cycle, which are reported) it keeps its order.
+ *
+ * On by default; configuration.automationSettings.dependencyOrder = false
+ * keeps sequence_order. configuration.prompts keep the order they are given in.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/** Item types built first, in this order; every other type comes after them. */
+const DATA_MODEL_TYPES = new Set(['data_model', 'database', 'table']);
+const API_TYPES = new Set(['api']);
+
+export interface DependencyGraphItem {
+  id: string;
+  type: string | null;
+  title: string | null;
+}
+
+export interface DependencyGraphConnection {
+  source_id: string;
+  target_id: string;
+}
+
+export interface DependencyGraph {
+  items: DependencyGraphItem[];
+  connections: DependencyGraphConnection[];
+}
+
+/** Work items that depend on each other, directly or through other flowchart items. */
+export interface DependencyCycle {
+  ids: string[];
+  titles: string[];
+}
+
+export interface DependencyOrder<T> {
+  items: T[];
+  cycles: DependencyCycle[];
+  /** Whether any item moved from its input position. */
+  reordered: boolean;
+  /** Work item id → ids of the work items it depends on, directly or through other items. */
+  dependencies: Map<string, Set<string>>;
+}
+
+export function isDependencyOrderEnabled(configuration: Record<string, unknown> | null | undefined): boolean {
+  const settings = configuration?.automationSettings as { dependencyOrder?: unknown } | undefined;
+  return settings?.dependencyOrder !== false;
+}
+
+/** The project's flowchart items and connections. Throws when they cannot be read. */
+export async function loadDependencyGraph(supabase: SupabaseClient, projectId: string): Promise<DependencyGraph> {
+  const [{ data: items, error: itemsError }, { data: connections, error: connectionsError }] = await Promise.all([
+    supabase.from('flowchart_items').select('id, type, title').eq('project_id', projectId),
+    supabase.from('flowchart_connections').select('source_id, target_id').eq('project_id', projectId),
+  ]);
+  if (itemsError) throw new Error(`Failed to load flowchart_items: ${itemsError.message}`);
+  if (connectionsError) throw new Error(`Failed to load flowchart_connections: ${connectionsError.message}`);
+  return {
+    items: (items ?? []) as DependencyGraphItem[],
+    connections: (connections ?? []) as DependencyGraphConnection[],
+  };
+}
+
+function layerOf(type: string | null | undefined): number {
+  if (type && DATA_MODEL_TYPES.has(type)) return 0;
+  if (type && API_TYPES.has(type)) return 1;
+  return 2;
+}
+
+/**
+ * Order `work` (flowchart items, in their current order) so that every item
+ * runs after the items it depends on. Stable: independent items keep their
+ * relative order.
+ */
+export function orderByDependencies<T extends { id: string }>(work: T[], graph: DependencyGraph): DependencyOrder<T> {
+  const itemsById = new Map(graph.items.map((item) => [item.id, item]));
+  const isPrompt = (id: string) => itemsById.get(id)?.type === 'prompt';
+
+  // before: item → items that depend on it; anchors: prompt → the items it stands in for
+  const before = new Map<string, Set<string>>();
+  const anchors = new Map<string, Set<string>>();
+  const add = (map: Map<string, Set<string>>, key: string, value: string) => {
+    if (!map.has(key)) map.set(key, new Set());
+    map.get(key)!.add(value);
+  };
+  for (const { source_id, target_id } of graph.connections) {
+    if (source_id === target_id) continue;
+    const sourcePrompt = isPrompt(source_id);
+    const targetPrompt = isPrompt(target_id);
+    if (sourcePrompt !== targetPrompt) {
+      add(anchors, sourcePrompt ? source_id : target_id, sourcePrompt ? target_id : source_id);
+      continue;
+    }
+    const sourceLayer = layerOf(itemsById.get(source_id)?.type);
+    const targetLayer = layerOf(itemsById.get(target_id)?.type);
+    if (targetLayer < sourceLayer) add(before, target_id, source_id);
+    else add(before, source_id, target_id);
+  }
+
+  /** What a work item stands for in the graph: itself and, for prompts, the items it is connected to. */
+  const standsFor = (id: string) => [id, ...(anchors.get(id) ?? [])];
+
+  // Work item owning each graph node it stands for
+  const ownersByNode = new Map<string, number[]>();
+  work.forEach((item, index) => {
+    for (const node of standsFor(item.id)) {
+      ownersByNode.set(node, [...(ownersByNode.get(node) ?? []), index]);
+    }
+  });
+
+  // successors[i]: other work items reachable from work item i in one or more steps. Nodes a
+  // work item stands for itself (a prompt's API and the page using it) never make it its own successor.
+  const successors = work.map((item, index) => {
+    const reached = new Set<string>();
+    const stack = standsFor(item.id).flatMap((node) => Array.from(before.get(node) ?? []));
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (reached.has(node)) continue;
+      reached.add(node);
+      stack.push(...(before.get(node) ?? []));
+    }
+    const found = new Set<number>();
+    for (const node of reached) {
+      for (const owner of ownersByNode.get(node) ?? []) if (owner !== index) found.add(owner);
+    }
+    return found;
+  });
+
+  const dependencies = new Map(work.map((item) => [item.id, new Set<string>()]));
+  successors.forEach((next, index) => next.forEach((other) => dependencies.get(work[other].id)!.add(work[index].id)));
+
+  const cycleMembers = findCycles(successors);
+  const inCycle = new Set(cycleMembers.flat());
+
+  // Kahn's algorithm taking the earliest ready item; when only cycles are left, the earliest member goes next
+  const blockers = work.map(() => 0);
+  successors.forEach((next) => next.forEach((other) => { blockers[other]++; }));
+  const done = work.map(() => false);
+  const order: number[] = [];
+  while (order.length < work.length) {
+    let pick = blockers.findIndex((count, index) => !done[index] && count === 0);
+    if (pick === -1) pick = done.findIndex((isDone, index) => !isDone && inCycle.has(index));
+    done[pick] = true;
+    order.push(pick);
+    successors[pick].forEach((other) => { if (!done[other]) blockers[other]--; });
+  }
+
+  return {
+    items: order.map((index) => work[index]),
+    cycles: cycleMembers.map((members) => ({
+      ids: members.map((index) => work[index].id),
+      titles: members.map((index) => itemsById.get(work[index].id)?.title ?? work[index].id),
+    })),
+    reordered: order.some((index, position) => index !== position),
+    dependencies,
+  };
+}
+
+/** Strongly connected groups of two or more work items, members in input order (Tarjan). */
+function findCycles(successors: Set<number>[]): number[][] {
+  const indexOf: number[] = successors.map(() => -1);
+  const lowLink: number[] = successors.map(() => 0);
+  const onStack: boolean[] = successors.map(() => false);
+  const stack: number[] = [];
+  const cycles: number[][] = [];
+  let counter = 0;
+
+  const visit = (node: number) => {
+    indexOf[node] = lowLink[node] = counter++;
+    stack.push(node);
+    onStack[node] = true;
+    for (const next of successors[node]) {
+      if (indexOf[next] === -1) {
+        visit(next);
+        lowLink[node] = Math.min(lowLink[node], lowLink[next]);
+      } else if (onStack[next]) {
+        lowLink[node] = Math.min(lowLink[node], indexOf[next]);
+      }
+    }
+    if (lowLink[node] !== indexOf[node]) return;
+    const members: number[] = [];
+    let member: number;
+    do {
+      member = stack.pop()!;
+      onStack[member] = false;
+      members.push(member);
+    } while (member !== node);
+    if (members.length > 1) cycles.push(members.sort((a, b) => a - b));
+  };
+
+  successors.forEach((_, node) => { if (indexOf[node] === -1) visit(node); });
+  return cycles.sort((a, b) => a[0] - b[0]);
+}
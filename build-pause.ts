@@ -0,0 +1,66 @@
+/**
+ * Pause — Stop a build at a step boundary and resume it later exactly there.
+ *
+ * POST /api/builds/:id/pause asks the running build to stop once its current
+ * step is done: worker processes through a marker file (<log dir>/<buildId>.pause,
+ * path passed as BUILD_PAUSE_FILE), in-process builds through the stop check.
+ * The build loop then writes a checkpoint (automated_builds.pause_state) and
+ * sets status 'paused', which frees the worker slot and releases the lease.
+ * POST /api/builds/:id/resume queues the build again; the loop restores the
+ * phase, step, remaining prompts, model and provider from the checkpoint.
+ */
+
+import { existsSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getBuildLogDir, isValidBuildId } from './build-stream.js';
+import type { BuildProvider, PromptQueueItem } from './build-runner.js';
+
+/** Checkpoint written when a build pauses (automated_builds.pause_state). */
+export interface BuildPauseState {
+  pausedAt: string;
+  phase: string;
+  /** Steps completed in the phase when the build paused. */
+  currentStep: number;
+  totalSteps: number;
+  /** Prompts of the developer / feedback phase that had not run yet, in order; null when not loaded yet. */
+  promptQueue: PromptQueueItem[] | null;
+  model?: string;
+  /**
+   * Where the build's agent phase pipeline (build-phases.ts), which may list a
+   * phase more than once, continues: at `phase` when it was interrupted, after
+   * it when it had finished.
+   */
+  phaseIndex?: number;
+  provider?: BuildProvider;
+  feedbackSessionId?: string;
+}
+
+export function getPauseFilePath(buildId: string): string {
+  if (!isValidBuildId(buildId)) throw new Error(`Invalid build id: ${buildId}`);
+  return path.join(getBuildLogDir(), `${buildId}.pause`);
+}
+
+/** Ask a build's worker to pause at its next step boundary. */
+export async function requestWorkerPause(buildId: string): Promise<void> {
+  const file = getPauseFilePath(buildId);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, new Date().toISOString(), 'utf-8');
+}
+
+/** Remove a handled or stale pause request (before a build is started again). */
+export async function clearWorkerPause(buildId: string): Promise<void> {
+  await fs.rm(getPauseFilePath(buildId), { force: true });
+}
+
+/** Worker side: whether the dispatcher asked this build to pause. Cheap enough for every stop check. */
+export function isPauseRequested(pauseFile: string | undefined): boolean {
+  return !!pauseFile && existsSync(pauseFile);
+}
+
+/** Checkpoint stored on a build row, if it is a usable one. */
+export function readPauseState(value: unknown): BuildPauseState | null {
+  const state = value as Partial<BuildPauseState> | null | undefined;
+  if (!state || typeof state.phase !== 'string' || (state.promptQueue !== null && !Array.isArray(state.promptQueue))) return null;
+  return state as BuildPauseState;
+}
@@ -0,0 +1,159 @@
+/**
+ * Agent phase registry — the phases a build runs after its developer phase.
+ *
+ * Each phase implements AgentPhase; the built-in Scope-Check, Design, UI Design
+ * Improvements and Debug agents are registered on import, others with
+ * registerAgentPhase or from the modules listed in MCP_BUILD_PHASE_MODULES
+ * (comma-separated absolute paths or package names, imported once per process
+ * by dispatcher and workers; a module registers its phases itself or exports
+ * them as default, one phase or a list).
+ *
+ * configuration.phases picks a build's pipeline: phase ids in the order they
+ * run, so phases can be skipped, reordered or repeated (e.g. ['design',
+ * 'debug', 'debug']). Without it the default pipeline runs. The developer phase
+ * always runs first and the feedback phase only on its own.
+ */
+
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BuildEventEmitter } from './build-events.js';
+import type { BuildProvider, ExecutePromptFn } from './build-runner.js';
+import { runScopeCheckAgent } from './scope-check-agent-runner.js';
+import { runDesignAgent } from './design-agent-runner.js';
+import { runUIDesignImprovementsAgent } from './ui-design-improvements-agent-runner.js';
+import { runDebugAgent, type ProjectChecksFn } from './debug-agent-runner.js';
+
+/** What the build loop hands every agent phase. */
+export interface AgentPhaseOptions {
+  supabase: SupabaseClient;
+  /** Shared build event emitter; a phase-scoped one is created when omitted. */
+  events?: BuildEventEmitter;
+  buildId: string;
+  projectId: string;
+  projectPath: string;
+  executePromptFn: ExecutePromptFn;
+  model?: string;
+  cursorApiKey?: string;
+  claudeApiKey?: string;
+  provider?: BuildProvider;
+  githubAuth?: { gitHubToken?: string; gitUserName?: string; gitUserEmail?: string };
+  userId: string;
+  shouldStop?: () => boolean;
+  resolveModelForStep?: (baseModel: string | undefined) => Promise<string | undefined>;
+  /** Replaces the Debug Agent's build/tsc/ESLint/runtime checks (replay builds return recorded issues per cycle). */
+  projectChecks?: ProjectChecksFn;
+  /** The build's automated_builds.configuration. */
+  configuration?: Record<string, unknown>;
+}
+
+export interface AgentPhase {
+  /** Id used in configuration.phases and stored as current_agent_phase while the phase runs. */
+  id: string;
+  /** Human-readable name for build logs ("Debug Agent"). */
+  label: string;
+  /**
+   * Run the phase to completion. Steps are recorded on build_steps with
+   * agent_phase = id; a phase returns early when shouldStop() is true and
+   * throws only on failures that should be logged against it.
+   */
+  run(options: AgentPhaseOptions): Promise<void>;
+}
+
+/** Agent phases of a build without configuration.phases. */
+export const DEFAULT_AGENT_PHASE_PIPELINE: readonly string[] = ['scope-check', 'design', 'ui-design-improvements', 'debug'];
+
+/** Phases the build loop runs itself; they cannot be registered or listed in configuration.phases. */
+const LOOP_PHASES = new Set(['developer', 'feedback']);
+
+const phases = new Map<string, AgentPhase>();
+
+export function registerAgentPhase(phase: AgentPhase): void {
+  if (LOOP_PHASES.has(phase.id)) {
+    throw new Error(`Agent phase id is reserved for the build loop: ${phase.id}`);
+  }
+  phases.set(phase.id, phase);
+}
+
+export function unregisterAgentPhase(id: string): void {
+  phases.delete(id);
+}
+
+export function hasAgentPhase(id: string): boolean {
+  return phases.has(id);
+}
+
+export function getAgentPhase(id: string): AgentPhase {
+  const phase = phases.get(id);
+  if (!phase) {
+    throw new Error(`Unknown agent phase: ${id}`);
+  }
+  return phase;
+}
+
+export function listAgentPhases(): AgentPhase[] {
+  return Array.from(phases.values());
+}
+
+let phaseModulesLoaded: Promise<void> | null = null;
+
+/** Import the MCP_BUILD_PHASE_MODULES once per process. Rejects when a module cannot be loaded. */
+export function loadAgentPhaseModules(): Promise<void> {
+  phaseModulesLoaded ??= (async () => {
+    const specifiers = (process.env.MCP_BUILD_PHASE_MODULES ?? '').split(',').map((spec) => spec.trim()).filter(Boolean);
+    for (const specifier of specifiers) {
+      const mod = await import(path.isAbsolute(specifier) ? pathToFileURL(specifier).href : specifier);
+      const exported: AgentPhase | AgentPhase[] | undefined = mod.default;
+      for (const phase of Array.isArray(exported) ? exported : exported ? [exported] : []) {
+        registerAgentPhase(phase);
+      }
+      console.error(`[BuildPhases] Loaded phase module ${specifier}`);
+    }
+  })();
+  return phaseModulesLoaded;
+}
+
+/** Agent phases a build runs after its developer phase, in order. */
+export function getPhasePipeline(configuration: Record<string, unknown> | null | undefined): string[] {
+  const configured = configuration?.phases;
+  return Array.isArray(configured) ? configured.map(String) : [...DEFAULT_AGENT_PHASE_PIPELINE];
+}
+
+/**
+ * Where in `pipeline` a run that starts in `currentPhase` begins: at the start
+ * after the developer phase, past the end for the feedback phase, else at the
+ * phase (at `pausedIndex` when the checkpoint recorded which occurrence). A
+ * checkpoint taken after the phase finished records the next index, which may
+ * be past the end when nothing is left to run.
+ */
+export function getPipelineStartIndex(pipeline: readonly string[], currentPhase: string, pausedIndex?: number): number {
+  if (currentPhase === 'developer') return 0;
+  if (currentPhase === 'feedback') return pipeline.length;
+  if (pausedIndex !== undefined && pipeline[pausedIndex] === currentPhase) return pausedIndex;
+  if (pausedIndex !== undefined && pausedIndex > 0 && pipeline[pausedIndex - 1] === currentPhase) return pausedIndex;
+  return Math.max(0, pipeline.indexOf(currentPhase));
+}
+
+/** Why configuration.phases cannot run, or null when it can (or is not set). Loads the phase modules first. */
+export async function validatePhasePipeline(configuration: Record<string, unknown> | null | undefined): Promise<string | null> {
+  try {
+    await loadAgentPhaseModules();
+  } catch (err) {
+    return `Failed to load agent phase modules (MCP_BUILD_PHASE_MODULES): ${err instanceof Error ? err.message : String(err)}`;
+  }
+  const configured = configuration?.phases;
+  if (configured === undefined || configured === null) return null;
+  if (!Array.isArray(configured) || configured.some((id) => typeof id !== 'string')) {
+    return 'configuration.phases must be a list of agent phase ids';
+  }
+  const unknown = configured.filter((id: string) => !phases.has(id));
+  if (unknown.length > 0) {
+    return `Unknown agent phases in configuration.phases: ${unknown.join(', ')} (registered: ${Array.from(phases.keys()).join(', ')})`;
+  }
+  return null;
+}
+
+registerAgentPhase({ id: 'scope-check', label: 'Scope-Check Agent', run: runScopeCheckAgent });
+registerAgentPhase({ id: 'design', label: 'Design Agent', run: runDesignAgent });
+registerAgentPhase({ id: 'ui-design-improvements', label: 'UI Design Improvements Agent', run: runUIDesignImprovementsAgent });
+registerAgentPhase({ id: 'debug', label: 'Debug Agent', run: runDebugAgent });
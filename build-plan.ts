@@ -0,0 +1,387 @@
+/**
+ * Build plan — What a build would do, worked out without running anything.
+ *
+ * POST /api/start-build with { dryRun: true } (server.ts) answers with a plan
+ * instead of queueing the build: the phases runBuildLoop would run from the
+ * build's current phase (the agent phase pipeline, build-phases.ts), the
+ * prompt queue it would load and the scope-check page order (both in
+ * dependency order, build-order.ts, with any cycles), the provider and model
+ * every step would use, duration estimates from the user's completed
+ * build_steps, and the missing prerequisites that would stop or degrade the
+ * build (API key, GitHub auth, cursorConfig, phases, prompts). Inputs are
+ * resolved with the same helpers the build uses; nothing is written.
+ */
+
+import { access } from 'fs/promises';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import {
+  fetchGithubAuth,
+  fetchUserApiKey,
+  loadPromptQueue,
+  mergeBuildCursorConfig,
+  resolveBuildModel,
+  resolveBuildProvider,
+  resolveStepModel,
+  resolveTimeoutPerStep,
+  validateBuildCursorConfig,
+  type AutomatedBuildRow,
+  type BuildCursorConfig,
+  type BuildProvider,
+  type PromptQueueItem,
+} from './build-runner.js';
+import { readPauseState } from './build-pause.js';
+import { getPhasePipeline, getPipelineStartIndex, validatePhasePipeline } from './build-phases.js';
+import { getProvider } from './providers/registry.js';
+import { isDependencyOrderEnabled, type DependencyCycle } from './build-order.js';
+import { loadScopeCheckPages } from './scope-check-agent-runner.js';
+
+/** Recent builds of the user whose completed steps feed the duration estimates. */
+const HISTORY_BUILD_LIMIT = 50;
+const HISTORY_STEP_LIMIT = 2000;
+
+export type BuildPrerequisite = 'cursor_config' | 'phases' | 'api_key' | 'github_auth' | 'prompts' | 'project_directory';
+
+export interface MissingPrerequisite {
+  prerequisite: BuildPrerequisite;
+  message: string;
+  /** Whether the build would fail (or end without running anything); otherwise it runs degraded. */
+  blocking: boolean;
+}
+
+export interface PlannedStep {
+  phase: string;
+  /** Step number within the phase, continuing after completed steps on resume. */
+  stepNumber: number;
+  promptId: string;
+  title: string;
+  source: PromptQueueItem['source'];
+  provider: BuildProvider;
+  model: string;
+  estimatedMs: number | null;
+}
+
+export interface PlannedPage {
+  pageId: string;
+  title: string;
+}
+
+export interface PlannedPhase {
+  phase: string;
+  provider: BuildProvider;
+  model: string;
+  /** Prompt steps of the developer and feedback phases; null for agent phases, which generate theirs while running. */
+  steps: PlannedStep[] | null;
+  /** Pages of the scope-check phase in the order it would implement them; null for other phases. */
+  pages: PlannedPage[] | null;
+  /** Prompts or pages of the phase that depend on each other; they keep their sequence_order. */
+  dependencyCycles: DependencyCycle[];
+  /** Prompt count, or the average step count of the phase in past builds. */
+  estimatedSteps: number | null;
+  estimatedMs: number | null;
+  /** Completed past steps of the phase the estimate is based on. */
+  historySamples: number;
+}
+
+export interface BuildPlan {
+  dryRun: true;
+  buildId: string;
+  /** No blocking prerequisite is missing. */
+  ready: boolean;
+  startPhase: string;
+  /** The build continues an existing project directory (cursor_project_path is set). */
+  resume: boolean;
+  /** The build continues from a pause checkpoint (build-pause.ts). */
+  fromPauseCheckpoint: boolean;
+  provider: BuildProvider;
+  /** Model from the build's configuration or checkpoint, before the provider applies its default. */
+  requestedModel: string | null;
+  model: string;
+  timeoutPerStepMs: number;
+  promptSource: string | null;
+  /** Flowchart prompts and scope-check pages are ordered by their flowchart_connections (build-order.ts). */
+  dependencyOrder: boolean;
+  phases: PlannedPhase[];
+  /** Sum of the phase estimates that have history. */
+  estimatedDurationMs: number | null;
+  /** Phases without history, left out of estimatedDurationMs. */
+  unestimatedPhases: string[];
+  missingPrerequisites: MissingPrerequisite[];
+}
+
+export type BuildPlanResult =
+  | { planned: true; plan: BuildPlan }
+  | { planned: false; status: 401 | 404; message: string };
+
+export interface PlanBuildFromPayloadOptions {
+  buildId: string;
+  supabaseUrl: string;
+  accessToken: string;
+  anonKey: string;
+  supabaseServiceRoleKey?: string;
+  targetSupabaseUrl?: string;
+  targetSupabaseAnonKey?: string;
+  feedbackSessionId?: string;
+}
+
+interface StepTiming {
+  build_id: string;
+  agent_phase: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+interface PhaseHistory {
+  /** Median duration of a completed step. */
+  medianStepMs: number;
+  /** Average completed steps per build that ran the phase. */
+  stepsPerBuild: number;
+  samples: number;
+}
+
+/** Completed step timings of the user's recent builds, by phase. Empty when they cannot be read. */
+async function loadPhaseHistory(supabase: SupabaseClient, userId: string): Promise<Map<string, PhaseHistory>> {
+  const history = new Map<string, PhaseHistory>();
+  try {
+    const { data: builds, error: buildsError } = await supabase
+      .from('automated_builds')
+      .select('id')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_BUILD_LIMIT);
+    if (buildsError) throw new Error(buildsError.message);
+    const buildIds = (builds ?? []).map((row: { id: string }) => row.id);
+    if (buildIds.length === 0) return history;
+
+    const { data: steps, error: stepsError } = await supabase
+      .from('build_steps')
+      .select('build_id, agent_phase, started_at, completed_at')
+      .in('build_id', buildIds)
+      .eq('status', 'completed')
+      .limit(HISTORY_STEP_LIMIT);
+    if (stepsError) throw new Error(stepsError.message);
+
+    const byPhase = new Map<string, { durations: number[]; builds: Set<string> }>();
+    for (const step of (steps ?? []) as StepTiming[]) {
+      if (!step.started_at || !step.completed_at) continue;
+      const durationMs = Date.parse(step.completed_at) - Date.parse(step.started_at);
+      if (!Number.isFinite(durationMs) || durationMs <= 0) continue;
+      const phase = step.agent_phase ?? 'developer';
+      const entry = byPhase.get(phase) ?? { durations: [], builds: new Set<string>() };
+      entry.durations.push(durationMs);
+      entry.builds.add(step.build_id);
+      byPhase.set(phase, entry);
+    }
+    for (const [phase, { durations, builds: phaseBuilds }] of byPhase) {
+      durations.sort((a, b) => a - b);
+      const middle = Math.floor(durations.length / 2);
+      const medianStepMs = durations.length % 2 === 1
+        ? durations[middle]
+        : Math.round((durations[middle - 1] + durations[middle]) / 2);
+      history.set(phase, {
+        medianStepMs,
+        stepsPerBuild: Math.max(1, Math.round(durations.length / phaseBuilds.size)),
+        samples: durations.length,
+      });
+    }
+  } catch (err) {
+    console.error('[BuildPlan] Step history lookup failed (non-blocking):', err instanceof Error ? err.message : err);
+  }
+  return history;
+}
+
+/**
+ * Plan a build from its row: what runBuildLoop would load and run, and what is
+ * missing for it. `apiKeyClient` reads the user's provider API key (the service
+ * role client when there is one, as for a real start).
+ */
+export async function planBuild(
+  supabase: SupabaseClient,
+  row: AutomatedBuildRow,
+  options: {
+    userId: string;
+    apiKeyClient?: SupabaseClient;
+    configOverrides?: Partial<BuildCursorConfig>;
+    feedbackSessionId?: string;
+  }
+): Promise<BuildPlan> {
+  const missing: MissingPrerequisite[] = [];
+  const pauseState = readPauseState(row.pause_state);
+  const startPhase = row.current_agent_phase ?? 'developer';
+  const existingProjectPath = row.cursor_project_path ?? undefined;
+  const isResume = !!existingProjectPath;
+  const configuration = row.configuration ?? {};
+  const mergedCursorConfig = mergeBuildCursorConfig(configuration);
+
+  if (!row.configuration || !row.configuration.cursorConfig) {
+    missing.push({ prerequisite: 'cursor_config', message: 'Build configuration or cursorConfig missing', blocking: true });
+  } else {
+    for (const [key, value] of Object.entries(options.configOverrides ?? {})) {
+      if (value !== undefined) mergedCursorConfig[key] = value;
+    }
+    const invalidConfig = validateBuildCursorConfig(mergedCursorConfig, isResume);
+    if (invalidConfig) missing.push({ prerequisite: 'cursor_config', message: invalidConfig, blocking: true });
+  }
+  const invalidPipeline = await validatePhasePipeline(configuration);
+  if (invalidPipeline) missing.push({ prerequisite: 'phases', message: invalidPipeline, blocking: true });
+
+  // Provider and model, as runBuildFromPayload and each step resolve them
+  const providerId = resolveBuildProvider(row, pauseState);
+  const provider = getProvider(providerId);
+  const requestedModel = resolveStepModel(
+    configuration as Record<string, unknown>,
+    resolveBuildModel(configuration, mergedCursorConfig, pauseState)
+  ) ?? null;
+  const model = provider.resolveModel(requestedModel ?? undefined);
+
+  const apiKey = await fetchUserApiKey(options.apiKeyClient ?? supabase, providerId, options.userId, { markUsed: false });
+  if (apiKey.error) {
+    missing.push({ prerequisite: 'api_key', message: apiKey.error, blocking: true });
+  }
+
+  const githubAuth = await fetchGithubAuth(supabase, options.userId);
+  if (!githubAuth?.gitHubToken) {
+    missing.push({
+      prerequisite: 'github_auth',
+      message: 'GitHub not connected: the build runs, but its work is not committed or pushed to GitHub.',
+      blocking: false,
+    });
+  }
+
+  if (isResume) {
+    try {
+      await access(existingProjectPath!.trim());
+    } catch {
+      missing.push({ prerequisite: 'project_directory', message: 'Project directory not found. Cannot resume.', blocking: true });
+    }
+  }
+
+  const { promptQueue, promptSource, messages, dependencyCycles } = await loadPromptQueue(
+    supabase,
+    row,
+    { isResume, pauseState, feedbackSessionId: options.feedbackSessionId ?? pauseState?.feedbackSessionId }
+  );
+  for (const { message, level } of messages) {
+    if (level === 'error') console.error(`[BuildPlan] ${message}`);
+  }
+  // A paused developer phase may have no prompts left but still owe its agent loop
+  if (promptQueue.length === 0 && startPhase === 'developer' && !pauseState) {
+    missing.push({
+      prerequisite: 'prompts',
+      message: isResume
+        ? 'All prompts already implemented; the build would finish without running a step.'
+        : 'No prompts found. Checked configuration.prompts and flowchart_items.',
+      blocking: true,
+    });
+  } else if (promptQueue.length === 0 && startPhase === 'feedback') {
+    missing.push({ prerequisite: 'prompts', message: 'No unimplemented feedback prompts found.', blocking: false });
+  }
+
+  // Phases runBuildLoop runs from the start phase: feedback only runs on its own
+  const pipeline = getPhasePipeline(configuration);
+  const phaseNames = [
+    ...(startPhase === 'developer' ? ['developer'] : []),
+    ...pipeline.slice(getPipelineStartIndex(pipeline, startPhase, pauseState?.phaseIndex)),
+    ...(startPhase === 'feedback' ? ['feedback'] : []),
+  ];
+
+  const projectId =
+    (configuration as { projectId?: string; project_id?: string }).projectId ??
+    (configuration as { projectId?: string; project_id?: string }).project_id ??
+    row.project_id;
+  const scopePages = phaseNames.includes('scope-check') && projectId
+    ? await loadScopeCheckPages(supabase, projectId, configuration)
+    : null;
+  if (scopePages?.graphError) console.error(`[BuildPlan] ${scopePages.graphError}`);
+
+  const history = await loadPhaseHistory(supabase, options.userId);
+  const completedSteps = startPhase === 'developer' && isResume ? (row.current_step ?? 0) : 0;
+
+  const phases: PlannedPhase[] = phaseNames.map((phase) => {
+    const past = history.get(phase);
+    const medianStepMs = past?.medianStepMs ?? null;
+    const promptPhase = phase === 'developer' || phase === 'feedback';
+    const steps: PlannedStep[] | null = promptPhase
+      ? promptQueue.map((item, index) => ({
+        phase,
+        stepNumber: completedSteps + index + 1,
+        promptId: item.id,
+        title: item.title ?? item.prompt_content.substring(0, 60),
+        source: item.source,
+        provider: providerId,
+        model,
+        estimatedMs: medianStepMs,
+      }))
+      : null;
+    const pages: PlannedPage[] | null = phase === 'scope-check' && scopePages
+      ? scopePages.pages.map((page) => ({ pageId: page.id, title: page.title ?? page.id }))
+      : null;
+    const estimatedSteps = steps ? steps.length : pages ? pages.length : past?.stepsPerBuild ?? null;
+    return {
+      phase,
+      provider: providerId,
+      model,
+      steps,
+      pages,
+      dependencyCycles: (phase === 'developer' ? dependencyCycles : phase === 'scope-check' ? scopePages?.cycles : null) ?? [],
+      estimatedSteps,
+      estimatedMs: medianStepMs !== null && estimatedSteps !== null ? medianStepMs * estimatedSteps : null,
+      historySamples: past?.samples ?? 0,
+    };
+  });
+
+  const estimated = phases.filter((phase) => phase.estimatedMs !== null);
+  return {
+    dryRun: true,
+    buildId: row.id,
+    ready: !missing.some((entry) => entry.blocking),
+    startPhase,
+    resume: isResume,
+    fromPauseCheckpoint: !!pauseState,
+    provider: providerId,
+    requestedModel,
+    model,
+    timeoutPerStepMs: resolveTimeoutPerStep(configuration),
+    promptSource: promptSource ?? null,
+    dependencyOrder: isDependencyOrderEnabled(configuration),
+    phases,
+    estimatedDurationMs: estimated.length > 0 ? estimated.reduce((sum, phase) => sum + phase.estimatedMs!, 0) : null,
+    unestimatedPhases: phases.filter((phase) => phase.estimatedMs === null).map((phase) => phase.phase),
+    missingPrerequisites: missing,
+  };
+}
+
+/** Plan a build from a start-build payload, with the clients and user check runBuildFromPayload uses. */
+export async function planBuildFromPayload(options: PlanBuildFromPayloadOptions): Promise<BuildPlanResult> {
+  const { buildId, supabaseUrl, accessToken, anonKey, supabaseServiceRoleKey, targetSupabaseUrl, targetSupabaseAnonKey } = options;
+  const supabaseUser = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+  });
+
+  const { data: { user }, error: userError } = await supabaseUser.auth.getUser(accessToken);
+  if (userError || !user) {
+    return { planned: false, status: 401, message: 'Invalid or expired access token' };
+  }
+
+  const { data: row, error: rowError } = await supabaseUser
+    .from('automated_builds')
+    .select('*')
+    .eq('id', buildId)
+    .maybeSingle();
+  if (rowError) throw new Error(`Build lookup failed: ${rowError.message}`);
+  if (!row) return { planned: false, status: 404, message: 'Build not found' };
+
+  const configOverrides: Partial<BuildCursorConfig> = {};
+  if (targetSupabaseUrl && targetSupabaseAnonKey) {
+    configOverrides.supabaseUrl = targetSupabaseUrl;
+    configOverrides.supabaseAnonKey = targetSupabaseAnonKey;
+  }
+  const plan = await planBuild(supabaseUser, row as AutomatedBuildRow, {
+    userId: user.id,
+    apiKeyClient: supabaseServiceRoleKey
+      ? createClient(supabaseUrl, supabaseServiceRoleKey, { auth: { autoRefreshToken: false, persistSession: false } })
+      : undefined,
+    configOverrides,
+    feedbackSessionId: options.feedbackSessionId,
+  });
+  return { planned: true, plan };
+}
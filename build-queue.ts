@@ -0,0 +1,187 @@
+/**
+ * BuildQueue — Durable queue of start-build requests.
+ *
+ * Entries are persisted to a JSON file (MCP_BUILD_QUEUE_FILE, default
+ * logs/build-queue.json) so queued builds survive a dispatcher restart. The
+ * file names builds and their owners only: credentials stay with the
+ * dispatcher and are looked up again when a build is dispatched.
+ * Dispatch order: higher priority first; within a priority, the user with the
+ * fewest running builds goes next (per-user fairness); then first come, first served.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export interface QueuedBuild {
+  buildId: string;
+  /** Owner of the build (automated_builds.user_id); null when it could not be resolved. */
+  userId: string | null;
+  /** Organization of the build's project, for org quotas; null when unknown. */
+  orgId?: string | null;
+  /** Higher runs first; defaults to 0. */
+  priority: number;
+  enqueuedAt: string;
+  /** Insertion counter; breaks ties between entries enqueued in the same millisecond. */
+  seq: number;
+  /** A paused build being resumed: needs a slot but not another daily quota start. */
+  resume?: boolean;
+}
+
+/** Queue entry as reported to clients. */
+export interface QueuedBuildInfo {
+  buildId: string;
+  userId: string | null;
+  priority: number;
+  enqueuedAt: string;
+  /** 1-based position in dispatch order. */
+  position: number;
+}
+
+interface QueueFile {
+  version: 1;
+  entries: QueuedBuild[];
+}
+
+export class BuildQueue {
+  private entries: QueuedBuild[] = [];
+  private nextSeq = 1;
+  private writeChain: Promise<void> = Promise.resolve();
+  private readonly filePath: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath
+      ?? process.env.MCP_BUILD_QUEUE_FILE
+      ?? path.join(process.cwd(), 'logs', 'build-queue.json');
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  has(buildId: string): boolean {
+    return this.entries.some((e) => e.buildId === buildId);
+  }
+
+  /** Load persisted entries (call once at startup). Returns the number restored. */
+  async load(): Promise<number> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf-8');
+      const parsed = JSON.parse(raw) as Partial<QueueFile>;
+      const stored: Array<QueuedBuild & { payload?: unknown }> = Array.isArray(parsed.entries) ? parsed.entries : [];
+      this.entries = stored
+        .filter((e) => typeof e?.buildId === 'string')
+        .map((e) => ({
+          buildId: e.buildId,
+          userId: e.userId ?? null,
+          orgId: e.orgId ?? null,
+          priority: e.priority ?? 0,
+          enqueuedAt: e.enqueuedAt,
+          seq: e.seq,
+          ...(e.resume ? { resume: true } : {}),
+        }));
+      // Files written before credentials left the queue: rewrite them without the tokens
+      if (stored.some((e) => e?.payload !== undefined)) await this.persist();
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[BuildQueue] Failed to load ${this.filePath}:`, err instanceof Error ? err.message : err);
+      }
+      this.entries = [];
+    }
+    this.nextSeq = this.entries.reduce((max, e) => Math.max(max, e.seq ?? 0), 0) + 1;
+    return this.entries.length;
+  }
+
+  /** Add a build; an already queued build keeps its place and only takes the new priority. */
+  async enqueue(entry: { buildId: string; userId: string | null; orgId?: string | null; priority?: number; resume?: boolean }): Promise<QueuedBuild> {
+    const existing = this.entries.find((e) => e.buildId === entry.buildId);
+    if (existing) {
+      if (entry.priority !== undefined) existing.priority = entry.priority;
+      await this.persist();
+      return existing;
+    }
+    const queued: QueuedBuild = {
+      buildId: entry.buildId,
+      userId: entry.userId,
+      orgId: entry.orgId ?? null,
+      priority: entry.priority ?? 0,
+      enqueuedAt: new Date().toISOString(),
+      seq: this.nextSeq++,
+      ...(entry.resume ? { resume: true } : {}),
+    };
+    this.entries.push(queued);
+    await this.persist();
+    return queued;
+  }
+
+  async remove(buildId: string): Promise<boolean> {
+    const before = this.entries.length;
+    this.entries = this.entries.filter((e) => e.buildId !== buildId);
+    if (this.entries.length === before) return false;
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * Entries in dispatch order, given the running builds per user. Simulates
+   * dispatching one at a time so a user with many queued builds does not
+   * starve others at the same priority.
+   */
+  ordered(runningByUser: Map<string, number> = new Map()): QueuedBuild[] {
+    const counts = new Map(runningByUser);
+    const remaining = [...this.entries];
+    const result: QueuedBuild[] = [];
+    const load = (e: QueuedBuild) => counts.get(e.userId ?? '') ?? 0;
+
+    while (remaining.length > 0) {
+      let best = 0;
+      for (let i = 1; i < remaining.length; i++) {
+        const a = remaining[i];
+        const b = remaining[best];
+        if (
+          a.priority > b.priority ||
+          (a.priority === b.priority && load(a) < load(b)) ||
+          (a.priority === b.priority && load(a) === load(b) && a.seq < b.seq)
+        ) {
+          best = i;
+        }
+      }
+      const [next] = remaining.splice(best, 1);
+      result.push(next);
+      // Anonymous builds are not grouped for fairness
+      if (next.userId) counts.set(next.userId, load(next) + 1);
+    }
+    return result;
+  }
+
+  list(runningByUser?: Map<string, number>): QueuedBuildInfo[] {
+    return this.ordered(runningByUser).map((e, i) => ({
+      buildId: e.buildId,
+      userId: e.userId,
+      priority: e.priority,
+      enqueuedAt: e.enqueuedAt,
+      position: i + 1,
+    }));
+  }
+
+  /** 1-based position of a build, or null when it is not queued. */
+  position(buildId: string, runningByUser?: Map<string, number>): number | null {
+    const index = this.ordered(runningByUser).findIndex((e) => e.buildId === buildId);
+    return index === -1 ? null : index + 1;
+  }
+
+  /** Write the queue atomically (temp file + rename); writes are serialized. */
+  private persist(): Promise<void> {
+    const snapshot: QueueFile = { version: 1, entries: this.entries.map((e) => ({ ...e })) };
+    this.writeChain = this.writeChain.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(snapshot, null, 2), { encoding: 'utf-8', mode: 0o600 });
+        await fs.rename(tmpPath, this.filePath);
+      } catch (err) {
+        console.error(`[BuildQueue] Failed to persist ${this.filePath}:`, err instanceof Error ? err.message : err);
+      }
+    });
+    return this.writeChain;
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * BuildQuotas — Per-user and per-organization build quotas.
+ *
+ * Rules come from a JSON file (MCP_BUILD_QUOTAS_FILE, default build-quotas.json;
+ * see build-quotas.example.json). Concurrency limits defer a build (it stays
+ * queued); daily limits reject it until the next UTC day. Daily usage is the
+ * build_quota_starts table, shared by every dispatcher node: only new starts
+ * are recorded there, so resuming, recovering or taking over a build does not
+ * use another daily slot.
+ */
+
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface QuotaLimits {
+  maxConcurrent?: number;
+  maxPerDay?: number;
+}
+
+export interface QuotaConfig {
+  defaults?: { user?: QuotaLimits; org?: QuotaLimits };
+  /** Overrides per user id. */
+  users?: Record<string, QuotaLimits>;
+  /** Overrides per organization id. */
+  orgs?: Record<string, QuotaLimits>;
+}
+
+export interface BuildOwner {
+  userId: string | null;
+  orgId: string | null;
+}
+
+/** Machine-readable reason codes shown by the dashboard. */
+export type QuotaReason =
+  | 'global_concurrent_limit'
+  | 'user_concurrent_limit'
+  | 'org_concurrent_limit'
+  | 'user_daily_limit'
+  | 'org_daily_limit';
+
+export type QuotaDecision =
+  | { allowed: true }
+  | {
+      allowed: false;
+      /** 'defer': stays queued until a slot frees up. 'reject': not started today. */
+      action: 'defer' | 'reject';
+      reason: QuotaReason;
+      scope: 'global' | 'user' | 'org';
+      limit: number;
+      current: number;
+      message: string;
+      /** When a rejected build may be retried (start of the next UTC day). */
+      retryAt?: string;
+    };
+
+/** Running builds per owner, from the orchestrator's worker sessions. */
+export interface RunningCounts {
+  byUser: Map<string, number>;
+  byOrg: Map<string, number>;
+}
+
+const startOfUtcDay = (): string => {
+  const d = new Date();
+  d.setUTCHours(0, 0, 0, 0);
+  return d.toISOString();
+};
+
+const nextUtcMidnight = (): string => {
+  const d = new Date();
+  d.setUTCHours(24, 0, 0, 0);
+  return d.toISOString();
+};
+
+const isLimit = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/** Read the quota config; a missing file means no quotas. */
+export function loadQuotaConfig(filePath?: string): QuotaConfig {
+  const file = filePath ?? process.env.MCP_BUILD_QUOTAS_FILE ?? path.join(process.cwd(), 'build-quotas.json');
+  try {
+    return JSON.parse(readFileSync(file, 'utf-8')) as QuotaConfig;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`[BuildQuotas] Failed to read ${file}; quotas disabled:`, err instanceof Error ? err.message : err);
+    }
+    return {};
+  }
+}
+
+export class BuildQuotas {
+  constructor(private readonly config: QuotaConfig = {}) {}
+
+  /** Effective limits: the owner's override on top of the defaults. */
+  limitsFor(scope: 'user' | 'org', id: string): QuotaLimits {
+    const overrides = scope === 'user' ? this.config.users : this.config.orgs;
+    return { ...(this.config.defaults?.[scope] ?? {}), ...(overrides?.[id] ?? {}) };
+  }
+
+  /** Builds started today (UTC) across all nodes. */
+  async startedToday(db: SupabaseClient, scope: 'user' | 'org', id: string): Promise<number> {
+    const { count, error } = await db
+      .from('build_quota_starts')
+      .select('id', { count: 'exact', head: true })
+      .eq(scope === 'user' ? 'user_id' : 'org_id', id)
+      .gte('started_at', startOfUtcDay());
+    if (error) throw new Error(`Quota usage lookup failed: ${error.message}`);
+    return count ?? 0;
+  }
+
+  /**
+   * Check a new build against the owner's daily limits. Without a database
+   * client daily limits are not enforced; a failed usage lookup lets the
+   * build through (non-blocking).
+   */
+  async checkDaily(db: SupabaseClient | null, owner: BuildOwner): Promise<QuotaDecision> {
+    if (!db) return { allowed: true };
+    for (const { scope, id } of ownerScopes(owner)) {
+      const { maxPerDay } = this.limitsFor(scope, id);
+      if (!isLimit(maxPerDay)) continue;
+      let current: number;
+      try {
+        current = await this.startedToday(db, scope, id);
+      } catch (err) {
+        console.error('[BuildQuotas] Daily quota not checked (non-blocking):', err instanceof Error ? err.message : err);
+        continue;
+      }
+      if (current >= maxPerDay) {
+        return {
+          allowed: false,
+          action: 'reject',
+          reason: `${scope}_daily_limit`,
+          scope,
+          limit: maxPerDay,
+          current,
+          message: `Daily build limit reached for this ${scope === 'user' ? 'user' : 'organization'} (${current}/${maxPerDay}).`,
+          retryAt: nextUtcMidnight(),
+        };
+      }
+    }
+    return { allowed: true };
+  }
+
+  /** Check one owner against its concurrency limits. */
+  checkConcurrent(owner: BuildOwner, running: RunningCounts): QuotaDecision {
+    for (const { scope, id } of ownerScopes(owner)) {
+      const { maxConcurrent } = this.limitsFor(scope, id);
+      const current = (scope === 'user' ? running.byUser : running.byOrg).get(id) ?? 0;
+      if (isLimit(maxConcurrent) && current >= maxConcurrent) {
+        return {
+          allowed: false,
+          action: 'defer',
+          reason: `${scope}_concurrent_limit`,
+          scope,
+          limit: maxConcurrent,
+          current,
+          message: `Concurrent build limit reached for this ${scope === 'user' ? 'user' : 'organization'} (${current}/${maxConcurrent}). The build stays queued.`,
+        };
+      }
+    }
+    return { allowed: true };
+  }
+
+  /** Count a new build start against the owner's daily limits. */
+  async recordStart(db: SupabaseClient, buildId: string, owner: BuildOwner): Promise<void> {
+    const { error } = await db.from('build_quota_starts').insert({
+      build_id: buildId,
+      user_id: owner.userId,
+      org_id: owner.orgId,
+      started_at: new Date().toISOString(),
+    });
+    if (error) throw new Error(`Quota usage insert failed: ${error.message}`);
+  }
+}
+
+/** The owner's user and org, where known. */
+function ownerScopes(owner: BuildOwner): Array<{ scope: 'user' | 'org'; id: string }> {
+  const scopes: Array<{ scope: 'user' | 'org'; id: string }> = [];
+  if (owner.userId) scopes.push({ scope: 'user', id: owner.userId });
+  if (owner.orgId) scopes.push({ scope: 'org', id: owner.orgId });
+  return scopes;
+}
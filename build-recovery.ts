@@ -0,0 +1,96 @@
+/**
+ * Build recovery — Startup reconciliation after a dispatcher restart.
+ *
+ * A restarted dispatcher has lost its worker handles and in-memory trackers.
+ * Builds it still leases (lease_owner = this node, see build-leases.ts) are
+ * re-attached when their worker process (automated_builds.worker_pid) is still
+ * alive, and re-spawned otherwise; runBuildLoop resumes from
+ * cursor_project_path / current_step. Each re-spawn counts against
+ * MCP_MAX_RESUME_ATTEMPTS (default 3) so a build that keeps crashing fails
+ * instead of looping; builds checkpointed by a drain (build-drain.ts) resume
+ * without using an attempt.
+ */
+
+import { readFile } from 'fs/promises';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const DEFAULT_MAX_RESUME_ATTEMPTS = 3;
+
+/** A running build leased by this node. */
+export interface OwnedBuild {
+  buildId: string;
+  workerPid: number | null;
+  resumeAttempts: number;
+  /** Set when a draining node checkpointed the build (build-drain.ts). */
+  drainedAt: string | null;
+}
+
+export type ResumeAttempt =
+  | { allowed: true; attempt: number }
+  | { allowed: false; attempts: number; max: number };
+
+export function getMaxResumeAttempts(): number {
+  const parsed = parseInt(process.env.MCP_MAX_RESUME_ATTEMPTS || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_MAX_RESUME_ATTEMPTS;
+}
+
+/** Running builds whose lease names this node (expired or not). */
+export async function findOwnedRunningBuilds(supabase: SupabaseClient, nodeId: string): Promise<OwnedBuild[]> {
+  const { data, error } = await supabase
+    .from('automated_builds')
+    .select('id, worker_pid, resume_attempts, drained_at')
+    .eq('status', 'running')
+    .eq('lease_owner', nodeId);
+  if (error) throw new Error(`Owned build scan failed: ${error.message}`);
+  return (data ?? []).map((row: { id: string; worker_pid: number | null; resume_attempts: number | null; drained_at: string | null }) => ({
+    buildId: row.id,
+    workerPid: typeof row.worker_pid === 'number' ? row.worker_pid : null,
+    resumeAttempts: row.resume_attempts ?? 0,
+    drainedAt: row.drained_at ?? null,
+  }));
+}
+
+/**
+ * Whether `pid` is still the worker of `buildId`. On Linux the process's
+ * command line and BUILD_ID are checked so a recycled PID is not adopted;
+ * elsewhere only liveness can be checked.
+ */
+export async function isBuildWorkerAlive(pid: number, buildId: string): Promise<boolean> {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    // ESRCH: gone. EPERM: alive but not ours, so not our worker either
+    return false;
+  }
+  try {
+    const cmdline = await readFile(`/proc/${pid}/cmdline`, 'utf-8');
+    if (!cmdline.includes('build-worker')) return false;
+    const environ = await readFile(`/proc/${pid}/environ`, 'utf-8');
+    return environ.split('\0').includes(`BUILD_ID=${buildId}`);
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'ENOENT' && process.platform !== 'linux';
+  }
+}
+
+/** Count a resume against the build's budget; refused once `max` resumes were used. */
+export async function recordResumeAttempt(
+  supabase: SupabaseClient,
+  buildId: string,
+  max: number = getMaxResumeAttempts()
+): Promise<ResumeAttempt> {
+  const { data, error } = await supabase
+    .from('automated_builds')
+    .select('resume_attempts')
+    .eq('id', buildId)
+    .maybeSingle();
+  if (error) throw new Error(`Resume attempt lookup failed: ${error.message}`);
+  const attempts = typeof data?.resume_attempts === 'number' ? data.resume_attempts : 0;
+  if (attempts >= max) return { allowed: false, attempts, max };
+  // Only the lease holder resumes a build, so read-then-write does not race
+  const { error: updateError } = await supabase
+    .from('automated_builds')
+    .update({ resume_attempts: attempts + 1 })
+    .eq('id', buildId);
+  if (updateError) throw new Error(`Resume attempt update failed: ${updateError.message}`);
+  return { allowed: true, attempt: attempts + 1 };
+}
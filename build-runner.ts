@@ -1,11 +1,17 @@
 import * as path from 'path';
 import { access } from 'fs/promises';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
-import { runDesignAgent } from './design-agent-runner.js';
-import { runUIDesignImprovementsAgent } from './ui-design-improvements-agent-runner.js';
-import { runDebugAgent } from './debug-agent-runner.js';
-import { runScopeCheckAgent } from './scope-check-agent-runner.js';
+import type { ProjectChecksFn } from './debug-agent-runner.js';
+import { getAgentPhase, getPhasePipeline, getPipelineStartIndex, validatePhasePipeline, type AgentPhaseOptions } from './build-phases.js';
 import { decryptCursorApiKey } from './crypto-utils.js';
+import { BuildEventEmitter, onBuildEvent, type BuildLogLevel } from './build-events.js';
+import { renewBuildLease } from './build-leases.js';
+import { readPauseState, type BuildPauseState } from './build-pause.js';
+import { checkpointBuildStep } from './build-checkpoints.js';
+import { isDependencyOrderEnabled, loadDependencyGraph, orderByDependencies, type DependencyCycle } from './build-order.js';
+import { rejectPendingStepActions, resolveStepAction, startStepRerun, takePendingStepActions, type PendingStepAction } from './build-step-actions.js';
+import { DEFAULT_PROVIDER_ID, resolveProviderId } from './providers/registry.js';
+import type { ProviderId } from './providers/types.js';
 
 /** Config passed to create-project (matches server CursorProjectConfig shape). */
 export interface BuildCursorConfig {
@@ -33,7 +39,15 @@ export interface BuildCursorConfig {
   designPatternStore?: string;
 }
 
-export type BuildProvider = 'cursor' | 'claude-code';
+/** Agent provider id, resolved against providers/registry. */
+export type BuildProvider = ProviderId;
+
+/** Dispatcher lease on the build (build-leases.ts), renewed three times per TTL. */
+export interface BuildLeaseConfig {
+  /** Node id holding the lease. */
+  owner: string;
+  ttlMs: number;
+}
 
 /** Args passed to execute-prompt (matches server ExecutePromptArgs shape). */
 export interface BuildExecutePromptArgs {
@@ -60,6 +74,10 @@ export interface BuildExecutePromptArgs {
   provider?: BuildProvider;
   /** Per-user Anthropic API key (passed to claude CLI via ANTHROPIC_API_KEY env var). */
   claudeApiKey?: string;
+  /** Agent phase running this prompt; tags the agent's build events. */
+  phase?: string;
+  /** False leaves the prompt's changes uncommitted and unpushed (scope-check worktrees merge them themselves). */
+  autoCommit?: boolean;
 }
 
 export type CreateProjectFn = (config: BuildCursorConfig) => Promise<unknown>;
@@ -104,6 +122,8 @@ export interface PromptQueueItem {
   title?: string;
   source: 'sequence' | 'generated' | 'custom';
   type: string;
+  /** build_steps row to run again instead of adding one (operator retry / edit, build-step-actions.ts). */
+  stepId?: string;
 }
 
 /** Active build tracker entry shared with server.ts. */
@@ -132,8 +152,14 @@ export interface RunBuildLoopOptions {
   /** AI provider for this build. */
   provider?: BuildProvider;
   shouldStop?: () => boolean;
+  /** When the run stops and this returns true, write a pause checkpoint (build-pause.ts). */
+  pauseRequested?: () => boolean;
   /** Optional feedback session ID for feedback-phase re-process. */
   feedbackSessionId?: string;
+  /** Overrides the Debug Agent's build/tsc/ESLint/runtime checks (used by replay builds). */
+  projectChecks?: ProjectChecksFn;
+  /** Renew this lease while the build runs; the build stops if another node takes it over. */
+  lease?: BuildLeaseConfig;
 }
 
 export interface RunBuildFromPayloadOptions {
@@ -152,8 +178,10 @@ export interface RunBuildFromPayloadOptions {
   activeBuildTracker?: Map<string, ActiveBuildEntry>;
   /** Optional stop signal for in-process builds. */
   shouldStop?: () => boolean;
+  pauseRequested?: () => boolean;
   /** Optional feedback session ID for feedback-phase re-process. */
   feedbackSessionId?: string;
+  lease?: BuildLeaseConfig;
 }
 
 /** Row from automated_builds (expected columns). */
@@ -169,6 +197,8 @@ export interface AutomatedBuildRow {
   /** Last completed step index (0-based, used for resume). */
   current_step?: number | null;
   total_steps?: number | null;
+  /** Checkpoint of a paused build (build-pause.ts). */
+  pause_state?: BuildPauseState | null;
   configuration?: {
     cursorConfig?: BuildCursorConfig;
     prompts?: string[];
@@ -190,6 +220,367 @@ export const parseMcpResult = (res: unknown): ExecutePromptResult => {
   }
 };
 
+// ──── Build inputs (shared by the build loop and build-plan.ts) ────
+
+/** Floor for the per-step timeout — first prompt scaffolding often takes 7-10 min. */
+export const MIN_TIMEOUT_PER_STEP_MS = 600_000;
+
+const hasString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/** cursorConfig with top-level configuration fields merged in (in case ScopesFlow stores them there). */
+export function mergeBuildCursorConfig(configuration: NonNullable<AutomatedBuildRow['configuration']>): Record<string, unknown> {
+  const cursorConfigObj = configuration.cursorConfig as unknown as Record<string, unknown>;
+  const configObj = configuration as unknown as Record<string, unknown>;
+  const mergedCursorConfig: Record<string, unknown> = {
+    ...(cursorConfigObj || {}),
+  };
+  // Merge top-level fields if they exist and aren't already in cursorConfig
+  if (configObj.projectName && !mergedCursorConfig.projectName) mergedCursorConfig.projectName = configObj.projectName;
+  if (configObj.name && !mergedCursorConfig.projectName && !mergedCursorConfig.name) mergedCursorConfig.projectName = configObj.name;
+  if (configObj.projectPath && !mergedCursorConfig.projectPath) mergedCursorConfig.projectPath = configObj.projectPath;
+  if (configObj.path && !mergedCursorConfig.projectPath && !mergedCursorConfig.path) mergedCursorConfig.projectPath = configObj.path;
+  if (configObj.gitRepository && !mergedCursorConfig.gitRepository) mergedCursorConfig.gitRepository = configObj.gitRepository;
+  if (configObj.supabaseUrl && !mergedCursorConfig.supabaseUrl) mergedCursorConfig.supabaseUrl = configObj.supabaseUrl;
+  if (configObj.supabase_url && !mergedCursorConfig.supabaseUrl) mergedCursorConfig.supabaseUrl = configObj.supabase_url;
+  if (configObj.supabase_anon_key && !mergedCursorConfig.supabaseAnonKey) mergedCursorConfig.supabaseAnonKey = configObj.supabase_anon_key;
+  if (configObj.designReference && !mergedCursorConfig.designReference) mergedCursorConfig.designReference = configObj.designReference;
+  if (configObj.designPatternId && !mergedCursorConfig.designPatternId) mergedCursorConfig.designPatternId = configObj.designPatternId;
+  if (configObj.model && !mergedCursorConfig.model) mergedCursorConfig.model = configObj.model;
+  if (mergedCursorConfig.supabase_url && !mergedCursorConfig.supabaseUrl) mergedCursorConfig.supabaseUrl = mergedCursorConfig.supabase_url;
+  if (mergedCursorConfig.supabase_anon_key && !mergedCursorConfig.supabaseAnonKey) mergedCursorConfig.supabaseAnonKey = mergedCursorConfig.supabase_anon_key;
+  return mergedCursorConfig;
+}
+
+/** Why the merged cursorConfig cannot start a build, or null when it can. */
+export function validateBuildCursorConfig(mergedCursorConfig: Record<string, unknown>, isResume: boolean): string | null {
+  const rawProjectName = mergedCursorConfig.projectName ?? mergedCursorConfig.name;
+  const missingFields: string[] = [];
+  if (!hasString(rawProjectName)) missingFields.push('projectName');
+  // framework/packageManager are only required for new project creation, not for
+  // cloned repos where cursor_project_path is already set (isResume = true).
+  if (!isResume) {
+    if (!hasString(mergedCursorConfig.framework)) missingFields.push('framework');
+    if (!hasString(mergedCursorConfig.packageManager)) missingFields.push('packageManager');
+  }
+  if (missingFields.length > 0) {
+    return `Missing required build configuration: ${missingFields.join(', ')}`;
+  }
+  if (hasString(mergedCursorConfig.supabaseUrl) !== hasString(mergedCursorConfig.supabaseAnonKey)) {
+    return 'Supabase configuration incomplete: both supabaseUrl and supabaseAnonKey are required for automated builds.';
+  }
+  return null;
+}
+
+/** Prompt queue of a build and where it came from. */
+export interface LoadedPromptQueue {
+  promptQueue: PromptQueueItem[];
+  promptSource?: string;
+  /** Lines for the build log; query failures are errors and leave the queue as far as it loaded. */
+  messages: Array<{ message: string; level: BuildLogLevel }>;
+  /** Flowchart prompts that depend on each other (build-order.ts); they keep their sequence_order. */
+  dependencyCycles?: DependencyCycle[];
+}
+
+/**
+ * Load the prompts the build will run: configuration.prompts (minus completed
+ * steps on resume), else the project's flowchart_items (unimplemented ones on
+ * resume, in dependency order; feedback-sourced ones in the feedback phase). A
+ * pause checkpoint's queue replaces either.
+ */
+export async function loadPromptQueue(
+  supabase: SupabaseClient,
+  row: AutomatedBuildRow,
+  options: { isResume: boolean; pauseState: BuildPauseState | null; feedbackSessionId?: string }
+): Promise<LoadedPromptQueue> {
+  const { isResume, pauseState } = options;
+  const configuration = row.configuration ?? {};
+  const configObj = configuration as unknown as Record<string, unknown>;
+  const currentAgentPhase = row.current_agent_phase ?? 'developer';
+  const messages: LoadedPromptQueue['messages'] = [];
+  const log = (message: string) => console.error(`[BuildRunner] ${message}`);
+
+  let promptQueue: PromptQueueItem[] = [];
+  let promptSource: string | undefined;
+  let dependencyCycles: DependencyCycle[] | undefined;
+
+  // Feedback phase loads prompts exclusively from flowchart_items (skip configuration.prompts)
+  const rawPrompts: string[] = currentAgentPhase === 'feedback'
+    ? []
+    : (Array.isArray(configuration.prompts) ? configuration.prompts : []);
+  if (rawPrompts.length > 0) {
+    promptSource = 'configuration.prompts';
+    const skipCount = isResume ? (row.current_step ?? 0) : 0;
+    promptQueue = rawPrompts.slice(skipCount).map((text, idx) => ({
+      id: `cfg-${skipCount + idx}`,
+      prompt_content: text,
+      title: text.length > 60 ? `${text.substring(0, 60)}...` : text,
+      source: 'sequence' as const,
+      type: 'prompt',
+    }));
+  }
+
+  if (promptQueue.length === 0) {
+    const projectId =
+      (configuration as { projectId?: string; project_id?: string }).projectId ??
+      (configuration as { projectId?: string; project_id?: string }).project_id ??
+      row.project_id;
+    if (projectId) {
+      try {
+        if (currentAgentPhase === 'feedback') {
+          // Feedback phase: only load feedback-sourced, unimplemented prompts
+          // When feedbackSessionId is set (Re-process / extension), run only prompts from that session
+          // Prefer payload (reliable) over DB config (timing/structure issues)
+          const feedbackSessionId =
+            options.feedbackSessionId ?? (configObj.feedbackSessionId as string | undefined);
+
+          const { data: feedbackRows, error: feedbackError } = await supabase
+            .from('flowchart_items')
+            .select('id, prompt, prompt_content, sequence_order, elements')
+            .eq('project_id', projectId)
+            .eq('type', 'prompt')
+            .eq('is_implemented', false)
+            .order('sequence_order', { ascending: true });
+
+          if (feedbackError) {
+            messages.push({ message: `Failed to query feedback flowchart_items: ${feedbackError.message}`, level: 'error' });
+          }
+
+          if (Array.isArray(feedbackRows)) {
+            // Filter in code for elements.source === 'feedback' (avoids PostgREST JSONB filter issues)
+            let feedbackOnly = feedbackRows.filter(
+              (r: { elements?: { source?: string } }) => r.elements?.source === 'feedback'
+            );
+            // Re-process: only prompts from this session
+            if (feedbackSessionId) {
+              feedbackOnly = feedbackOnly.filter(
+                (r: { elements?: { session_id?: string } }) => r.elements?.session_id === feedbackSessionId
+              );
+              log(`Feedback session-scoped: ${feedbackOnly.length} prompts for session ${feedbackSessionId}`);
+            }
+            log(`Feedback flowchart_items: ${feedbackRows.length} total unimplemented, ${feedbackOnly.length} with source=feedback${feedbackSessionId ? ` (session ${feedbackSessionId})` : ''}`);
+            messages.push({ message: `Found ${feedbackOnly.length} feedback prompts to execute`, level: 'info' });
+
+            const mapped = feedbackOnly
+              .filter((r: { prompt?: string; prompt_content?: string }) => (r.prompt_content ?? r.prompt ?? '').length > 0)
+              .map((r: { id: string; prompt?: string; prompt_content?: string }) => ({
+                id: r.id,
+                prompt_content: (r.prompt_content ?? r.prompt ?? ''),
+                title: (r.prompt_content ?? r.prompt ?? '').substring(0, 60),
+                source: 'sequence' as const,
+                type: 'prompt',
+              }));
+            if (mapped.length > 0) {
+              promptQueue = mapped;
+              promptSource = 'flowchart_items (feedback)';
+            }
+          }
+        } else {
+          let flowchartQuery = supabase
+            .from('flowchart_items')
+            .select('id, prompt, prompt_content, sequence_order')
+            .eq('project_id', projectId)
+            .eq('type', 'prompt');
+          if (isResume) {
+            flowchartQuery = flowchartQuery.eq('is_implemented', false);
+          }
+          const { data: flowchartRows, error: flowchartError } = await flowchartQuery.order('sequence_order', { ascending: true });
+          if (flowchartError) {
+            messages.push({ message: `Failed to query flowchart_items: ${flowchartError.message}`, level: 'error' });
+          }
+          if (Array.isArray(flowchartRows)) {
+            const mapped = flowchartRows
+              .filter((r: { prompt?: string; prompt_content?: string }) => (r.prompt_content ?? r.prompt ?? '').length > 0)
+              .map((r: { id: string; prompt?: string; prompt_content?: string }) => ({
+                id: r.id,
+                prompt_content: (r.prompt_content ?? r.prompt ?? ''),
+                title: (r.prompt_content ?? r.prompt ?? '').substring(0, 60),
+                source: 'sequence' as const,
+                type: 'prompt',
+              }));
+            if (mapped.length > 0) {
+              promptQueue = mapped;
+              promptSource = 'flowchart_items';
+            }
+            if (promptQueue.length > 1 && isDependencyOrderEnabled(configObj)) {
+              try {
+                const order = orderByDependencies(promptQueue, await loadDependencyGraph(supabase, projectId));
+                promptQueue = order.items;
+                dependencyCycles = order.cycles;
+                if (order.reordered) {
+                  promptSource = 'flowchart_items (dependency order)';
+                  messages.push({ message: `Ordered ${promptQueue.length} prompts by their flowchart dependencies`, level: 'info' });
+                }
+                for (const cycle of order.cycles) {
+                  messages.push({ message: `Dependency cycle between prompts, kept in sequence order: ${cycle.titles.join(', ')}`, level: 'warn' });
+                }
+              } catch (err) {
+                messages.push({ message: `Dependency ordering failed, using sequence order (non-blocking): ${err instanceof Error ? err.message : String(err)}`, level: 'warn' });
+              }
+            }
+          }
+        }
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        messages.push({ message: `Flowchart items query error (non-blocking): ${errorMessage}`, level: 'error' });
+        // Continue execution - prompts will remain empty and build will fail gracefully
+      }
+    }
+  }
+  if (pauseState?.promptQueue) {
+    promptQueue = [...pauseState.promptQueue];
+    promptSource = 'pause checkpoint';
+    dependencyCycles = undefined;
+  }
+  return { promptQueue, promptSource, messages, dependencyCycles };
+}
+
+/** Model the build starts with: the paused one, else currentModel, pendingModel or the configured model. */
+export function resolveBuildModel(
+  configuration: NonNullable<AutomatedBuildRow['configuration']>,
+  mergedCursorConfig: Record<string, unknown>,
+  pauseState: BuildPauseState | null
+): string | undefined {
+  const cfgObj = configuration as Record<string, unknown>;
+  const rawModel =
+    cfgObj.currentModel ??
+    cfgObj.pendingModel ??
+    mergedCursorConfig.model ??
+    cfgObj.model;
+  return pauseState?.model
+    ?? (typeof rawModel === 'string' && rawModel.trim().length > 0 ? rawModel.trim() : undefined);
+}
+
+/** Model for the next step: pendingModel if set, else currentModel, else the configured model, else `baseModel`. */
+export function resolveStepModel(configuration: Record<string, unknown>, baseModel: string | undefined): string | undefined {
+  const pick = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  return pick(configuration.pendingModel) ?? pick(configuration.currentModel) ?? pick(configuration.model) ?? baseModel;
+}
+
+/** Timeout per step from automationSettings (with the 10-min floor to prevent premature kills). */
+export function resolveTimeoutPerStep(configuration: NonNullable<AutomatedBuildRow['configuration']>): number {
+  const rawTimeoutPerStep =
+    ((configuration as { automationSettings?: { timeoutPerStep?: number } }).automationSettings?.timeoutPerStep) ?? MIN_TIMEOUT_PER_STEP_MS;
+  return Math.max(rawTimeoutPerStep, MIN_TIMEOUT_PER_STEP_MS);
+}
+
+/** Provider the build runs with: the paused one, else a non-default provider on the row or configuration. */
+export function resolveBuildProvider(row: AutomatedBuildRow, pauseState: BuildPauseState | null): BuildProvider {
+  // A non-default provider on either wins (the column may just carry its default)
+  const rowProvider = resolveProviderId((row as any).provider);
+  return pauseState?.provider
+    ? resolveProviderId(pauseState.provider)
+    : rowProvider !== DEFAULT_PROVIDER_ID
+      ? rowProvider
+      : resolveProviderId((row.configuration as { provider?: string } | undefined)?.provider);
+}
+
+export type BuildGithubAuth = NonNullable<RunBuildLoopOptions['githubAuth']>;
+
+/** The user's GitHub token (github_auth), if any. Never throws. */
+export async function fetchGithubAuth(supabase: SupabaseClient, userId: string): Promise<BuildGithubAuth | undefined> {
+  let githubAuth: BuildGithubAuth | undefined;
+  try {
+    console.log(`[BuildRunner] 🔍 Fetching GitHub auth for user_id: ${userId}`);
+    const { data: ghRow, error: ghError } = await supabase
+      .from('github_auth')
+      .select('access_token')
+      .eq('user_id', userId)
+      .maybeSingle();
+    
+    if (ghError) {
+      console.warn(`[BuildRunner] ⚠️ Error fetching GitHub auth: ${ghError.message}`);
+    } else if (ghRow && typeof ghRow === 'object') {
+      const row = ghRow as { access_token?: string };
+      githubAuth = {
+        gitHubToken: row.access_token,
+        // Note: login and email columns don't exist in github_auth table
+        gitUserName: undefined,
+        gitUserEmail: undefined,
+      };
+      if (githubAuth.gitHubToken) {
+        console.log(`[BuildRunner] ✅ GitHub auth found for user (token: ${githubAuth.gitHubToken.slice(0, 4)}...)`);
+      } else {
+        console.warn(`[BuildRunner] ⚠️ GitHub auth row found but access_token is empty`);
+      }
+    } else {
+      console.warn(`[BuildRunner] ⚠️ No GitHub auth found for user_id: ${userId}`);
+    }
+  } catch (error) {
+    console.warn(`[BuildRunner] ⚠️ Exception fetching GitHub auth:`, error instanceof Error ? error.message : 'Unknown error');
+  }
+  return githubAuth;
+}
+
+/** Per-user API key tables of the providers that use one. */
+const USER_API_KEY_SOURCES: Record<string, { table: string; label: string }> = {
+  cursor: { table: 'cursor_api_keys', label: 'Cursor' },
+  'claude-code': { table: 'claude_api_keys', label: 'Claude' },
+};
+
+/**
+ * The user's decrypted API key for `provider`, or the message to show when it
+ * is unusable. `markUsed` stamps last_used_at (a build is about to use it).
+ */
+export async function fetchUserApiKey(
+  dbClient: SupabaseClient,
+  provider: BuildProvider,
+  userId: string,
+  options: { markUsed: boolean }
+): Promise<{ apiKey?: string; error?: string }> {
+  const source = USER_API_KEY_SOURCES[provider];
+  if (!source) return {};
+  const { table, label } = source;
+  try {
+    console.log(`[BuildRunner] 🔍 Fetching ${label} API key for user_id: ${userId}`);
+    const { data: keyRow, error: keyError } = await dbClient
+      .from(table)
+      .select('api_key_ciphertext, revoked_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (keyError) {
+      console.warn(`[BuildRunner] ⚠️ Error fetching ${label} API key: ${keyError.message}`);
+      return { error: `Failed to fetch your ${label} API key. Please try again.` };
+    }
+    if (!keyRow || typeof keyRow !== 'object') {
+      console.warn(`[BuildRunner] ⚠️ No ${label} API key found for user_id: ${userId}`);
+      return { error: `${label} API key not configured. Please add your key in Settings.` };
+    }
+    const row = keyRow as { api_key_ciphertext?: string; revoked_at?: string | null };
+    if (row.revoked_at) {
+      console.warn(`[BuildRunner] ⚠️ ${label} API key has been revoked`);
+      return { error: `Your ${label} API key was revoked. Please add a new key in Settings.` };
+    }
+    if (!row.api_key_ciphertext) {
+      console.warn(`[BuildRunner] ⚠️ ${label} API key row found but api_key_ciphertext is empty`);
+      return { error: `Your ${label} API key appears empty. Please re-save your key in Settings.` };
+    }
+    let result: { apiKey?: string; error?: string };
+    try {
+      result = { apiKey: decryptCursorApiKey(row.api_key_ciphertext) };
+      console.log(`[BuildRunner] ✅ ${label} API key decrypted successfully — user credits will be used`);
+    } catch (decryptErr) {
+      console.warn(
+        `[BuildRunner] ⚠️ Failed to decrypt ${label} API key:`,
+        decryptErr instanceof Error ? decryptErr.message : 'unknown error'
+      );
+      result = {
+        error: `Failed to decrypt your ${label} API key. Ensure CURSOR_KEYS_ENCRYPTION_SECRET is set on the MCP server and matches the Supabase Edge Functions secret.`,
+      };
+    }
+    if (options.markUsed) {
+      try {
+        await dbClient.from(table).update({ last_used_at: new Date().toISOString() }).eq('user_id', userId);
+      } catch { /* non-blocking */ }
+    }
+    return result;
+  } catch (error) {
+    console.warn(`[BuildRunner] ⚠️ Exception fetching ${label} API key:`, error instanceof Error ? error.message : 'Unknown error');
+    return { error: `Failed to fetch your ${label} API key. Please try again.` };
+  }
+}
+
 /**
  * Build loop: load build + config + prompts from DB, create project, run prompts,
  * write build_logs and update automated_builds (status, progress).
@@ -199,7 +590,19 @@ export async function runBuildLoop(
   buildId: string,
   options: RunBuildLoopOptions
 ): Promise<void> {
-  const { createProjectFn, executePromptFn, githubAuth, configOverrides, activeBuildTracker, cursorApiKey, claudeApiKey, provider, shouldStop, feedbackSessionId: optionsFeedbackSessionId } = options;
+  const { createProjectFn, executePromptFn, githubAuth, configOverrides, activeBuildTracker, cursorApiKey, claudeApiKey, provider, feedbackSessionId: optionsFeedbackSessionId, projectChecks, lease } = options;
+
+  // Set by the heartbeat when another node took over the lease
+  let leaseLost = false;
+  const shouldStop = () => leaseLost || (options.shouldStop?.() ?? false);
+
+  // Where the run stands, for a pause checkpoint. promptQueue stays null until
+  // the queue is loaded (a resume then rebuilds it from the configuration).
+  const position: { phase?: string; phaseIndex?: number; currentStep: number; totalSteps: number; promptQueue: PromptQueueItem[] | null; model?: string } = {
+    currentStep: 0,
+    totalSteps: 0,
+    promptQueue: null,
+  };
 
   const log = (message: string, level: 'info' | 'error' = 'info') => {
     console.error(`[BuildRunner] ${message}`);
@@ -313,36 +716,14 @@ export async function runBuildLoop(
     }
   };
 
-  // log_type must match DB CHECK constraint: 'build_log' or 'mcp_log'
-  // Override via env if needed (e.g. MCP_BUILD_LOG_TYPE_ERROR='mcp_log')
-  const LOG_TYPE_INFO = process.env.MCP_BUILD_LOG_TYPE_INFO ?? 'build_log';
-  const LOG_TYPE_ERROR = process.env.MCP_BUILD_LOG_TYPE_ERROR ?? 'build_log';
-  const levelToLogType = (level: string): string =>
-    level === 'error' ? LOG_TYPE_ERROR : LOG_TYPE_INFO;
+  // Typed build events (phase, sequence, payload); appendLog writes 'log' / 'build_error' events
+  const events = new BuildEventEmitter(supabase, buildId);
 
-  const appendLog = async (message: string, level: string = 'info') => {
+  const appendLog = async (message: string, level: BuildLogLevel = 'info') => {
     try {
       // Attempt to refresh token before database operation
       await refreshTokenIfNeeded();
-      
-      const logTypeValue = levelToLogType(level);
-      // Debug: log what we're trying to insert
-      if (process.env.DEBUG_BUILD_LOGS === 'true') {
-        console.error(`[BuildRunner] appendLog: level="${level}", log_type="${logTypeValue}", LOG_TYPE_INFO="${LOG_TYPE_INFO}", LOG_TYPE_ERROR="${LOG_TYPE_ERROR}"`);
-      }
-      
-      const { error } = await supabase.from('build_logs').insert({
-        build_id: buildId,
-        log_type: logTypeValue,
-        message,
-        created_at: new Date().toISOString(),
-      });
-      
-      if (error) {
-        log(`Failed to append log: ${error.message}`, 'error');
-        console.error(`[BuildRunner] Failed insert details: log_type="${logTypeValue}", level="${level}", env MCP_BUILD_LOG_TYPE_INFO="${process.env.MCP_BUILD_LOG_TYPE_INFO}", env MCP_BUILD_LOG_TYPE_ERROR="${process.env.MCP_BUILD_LOG_TYPE_ERROR}"`);
-        // Continue execution - don't throw (graceful degradation)
-      }
+      await events.log(message, level);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
       log(`Log append error (non-blocking): ${errorMessage}`, 'error');
@@ -350,9 +731,66 @@ export async function runBuildLoop(
     }
   };
 
+  /** step_completed for a finished prompt, plus files_changed when it touched files. */
+  const emitStepResult = async (
+    stepNumber: number,
+    totalSteps: number,
+    stepId: string | null,
+    promptId: string | null | undefined,
+    result: ExecutePromptResult,
+    durationMs: number,
+    retryCount = 0
+  ) => {
+    await events.emit('step_completed', {
+      stepNumber,
+      totalSteps,
+      stepId,
+      promptId: promptId ?? null,
+      status: result.success ? 'completed' : 'failed',
+      durationMs,
+      retryCount,
+      error: result.error ?? null,
+    });
+    if (result.filesChanged && result.filesChanged.length > 0) {
+      await events.emit('files_changed', { stepNumber, files: result.filesChanged });
+    }
+  };
+
   const stopIfRequested = async (context: string): Promise<boolean> => {
-    if (!shouldStop || !shouldStop()) return false;
-    await appendLog(`Stop requested; exiting ${context}.`, 'info');
+    if (!shouldStop()) return false;
+    const pausing = !leaseLost && (options.pauseRequested?.() ?? false);
+    await appendLog(leaseLost
+      ? `Build lease was taken over by another node; exiting ${context}.`
+      : pausing
+        ? `Pause requested; checkpointing and exiting ${context}.`
+        : `Stop requested; exiting ${context}.`, 'info');
+    if (pausing) {
+      const phase = events.currentPhase ?? position.phase ?? 'developer';
+      const pauseState: BuildPauseState = {
+        pausedAt: new Date().toISOString(),
+        phase,
+        currentStep: position.currentStep,
+        totalSteps: position.totalSteps,
+        promptQueue: position.promptQueue ? [...position.promptQueue] : null,
+        model: position.model,
+        phaseIndex: position.phaseIndex,
+        provider,
+        feedbackSessionId: optionsFeedbackSessionId,
+      };
+      const { error } = await supabase.from('automated_builds').update({
+        status: 'paused',
+        current_agent_phase: phase,
+        ...(phase === 'developer' ? { current_step: position.currentStep } : {}),
+        pause_state: pauseState,
+        updated_at: pauseState.pausedAt,
+      }).eq('id', buildId);
+      if (error) await appendLog(`Failed to save pause checkpoint: ${error.message}`, 'error');
+    } else if (!leaseLost && events.currentPhase) {
+      // Checkpoint the phase so a resumed run continues here (current_step is saved after every step)
+      try {
+        await supabase.from('automated_builds').update({ current_agent_phase: events.currentPhase }).eq('id', buildId);
+      } catch { /* non-blocking */ }
+    }
     if (activeBuildTracker) {
       activeBuildTracker.delete(buildId);
     }
@@ -376,10 +814,7 @@ export async function runBuildLoop(
       if (!cfg || typeof cfg !== 'object') return baseModel;
 
       const pending = typeof cfg.pendingModel === 'string' && cfg.pendingModel.trim() ? cfg.pendingModel.trim() : undefined;
-      const current = typeof cfg.currentModel === 'string' && cfg.currentModel.trim() ? cfg.currentModel.trim() : undefined;
-      const configModel = typeof cfg.model === 'string' && cfg.model.trim() ? cfg.model.trim() : undefined;
-
-      const effectiveModel = pending ?? current ?? configModel ?? baseModel;
+      const effectiveModel = resolveStepModel(cfg, baseModel);
 
       if (pending) {
         const updated = { ...cfg, currentModel: pending, pendingModel: undefined };
@@ -408,8 +843,21 @@ export async function runBuildLoop(
   }
 
   const row = buildRow as AutomatedBuildRow;
+  const pauseState = readPauseState(row.pause_state);
+  Object.assign(position, {
+    phase: row.current_agent_phase ?? 'developer',
+    currentStep: row.current_step ?? 0,
+    totalSteps: row.total_steps ?? 0,
+    promptQueue: pauseState?.promptQueue ?? null,
+    model: pauseState?.model,
+  });
   if (await stopIfRequested('build runner')) return;
   const currentAgentPhase = row.current_agent_phase ?? 'developer';
+  if (pauseState) {
+    // The checkpoint is consumed by this run; a later pause writes a new one
+    await supabase.from('automated_builds').update({ pause_state: null }).eq('id', buildId);
+    await appendLog(`Resuming from pause checkpoint (phase ${pauseState.phase}, step ${pauseState.currentStep}${pauseState.model ? `, model ${pauseState.model}` : ''}).`);
+  }
   const configuration = row.configuration;
   const cursorConfig = configuration?.cursorConfig;
 
@@ -429,26 +877,7 @@ export async function runBuildLoop(
   console.error('[BuildRunner] Full configuration from DB:', JSON.stringify(sanitizeRecord(configuration), null, 2));
   console.error('[BuildRunner] cursorConfig from DB:', JSON.stringify(sanitizeRecord(cursorConfig), null, 2));
 
-  // Merge any top-level configuration fields into cursorConfig (in case ScopesFlow stores them there)
-  const cursorConfigObj = cursorConfig as unknown as Record<string, unknown>;
-  const configObj = configuration as unknown as Record<string, unknown>;
-  const mergedCursorConfig: Record<string, unknown> = {
-    ...(cursorConfigObj || {}),
-  };
-  // Merge top-level fields if they exist and aren't already in cursorConfig
-  if (configObj.projectName && !mergedCursorConfig.projectName) mergedCursorConfig.projectName = configObj.projectName;
-  if (configObj.name && !mergedCursorConfig.projectName && !mergedCursorConfig.name) mergedCursorConfig.projectName = configObj.name;
-  if (configObj.projectPath && !mergedCursorConfig.projectPath) mergedCursorConfig.projectPath = configObj.projectPath;
-  if (configObj.path && !mergedCursorConfig.projectPath && !mergedCursorConfig.path) mergedCursorConfig.projectPath = configObj.path;
-  if (configObj.gitRepository && !mergedCursorConfig.gitRepository) mergedCursorConfig.gitRepository = configObj.gitRepository;
-  if (configObj.supabaseUrl && !mergedCursorConfig.supabaseUrl) mergedCursorConfig.supabaseUrl = configObj.supabaseUrl;
-  if (configObj.supabase_url && !mergedCursorConfig.supabaseUrl) mergedCursorConfig.supabaseUrl = configObj.supabase_url;
-  if (configObj.supabase_anon_key && !mergedCursorConfig.supabaseAnonKey) mergedCursorConfig.supabaseAnonKey = configObj.supabase_anon_key;
-  if (configObj.designReference && !mergedCursorConfig.designReference) mergedCursorConfig.designReference = configObj.designReference;
-  if (configObj.designPatternId && !mergedCursorConfig.designPatternId) mergedCursorConfig.designPatternId = configObj.designPatternId;
-  if (configObj.model && !mergedCursorConfig.model) mergedCursorConfig.model = configObj.model;
-  if (mergedCursorConfig.supabase_url && !mergedCursorConfig.supabaseUrl) mergedCursorConfig.supabaseUrl = mergedCursorConfig.supabase_url;
-  if (mergedCursorConfig.supabase_anon_key && !mergedCursorConfig.supabaseAnonKey) mergedCursorConfig.supabaseAnonKey = mergedCursorConfig.supabase_anon_key;
+  const mergedCursorConfig = mergeBuildCursorConfig(configuration);
 
   if (configOverrides && typeof configOverrides === 'object') {
     const overrideEntries = Object.entries(configOverrides).filter(([, value]) => value !== undefined);
@@ -468,122 +897,17 @@ export async function runBuildLoop(
   console.error('[BuildRunner] Merged cursorConfig:', JSON.stringify(sanitizeRecord(mergedCursorConfig), null, 2));
 
   // Build prompt queue as typed objects
-  let promptQueue: PromptQueueItem[] = [];
-  let promptSource: string | undefined;
-
-  // Feedback phase loads prompts exclusively from flowchart_items (skip configuration.prompts)
-  const rawPrompts: string[] = currentAgentPhase === 'feedback'
-    ? []
-    : (Array.isArray(configuration.prompts) ? configuration.prompts : []);
-  if (rawPrompts.length > 0) {
-    promptSource = 'configuration.prompts';
-    const skipCount = isResume ? (row.current_step ?? 0) : 0;
-    promptQueue = rawPrompts.slice(skipCount).map((text, idx) => ({
-      id: `cfg-${skipCount + idx}`,
-      prompt_content: text,
-      title: text.length > 60 ? `${text.substring(0, 60)}...` : text,
-      source: 'sequence' as const,
-      type: 'prompt',
-    }));
-  }
-
-  if (promptQueue.length === 0) {
-    const projectId =
-      (configuration as { projectId?: string; project_id?: string }).projectId ??
-      (configuration as { projectId?: string; project_id?: string }).project_id ??
-      row.project_id;
-    if (projectId) {
-      try {
-        // Attempt to refresh token before database operation
-        await refreshTokenIfNeeded();
-        
-        if (currentAgentPhase === 'feedback') {
-          // Feedback phase: only load feedback-sourced, unimplemented prompts
-          // When feedbackSessionId is set (Re-process / extension), run only prompts from that session
-          // Prefer payload (reliable) over DB config (timing/structure issues)
-          const feedbackSessionId =
-            optionsFeedbackSessionId ?? (configObj.feedbackSessionId as string | undefined);
-
-          const { data: feedbackRows, error: feedbackError } = await supabase
-            .from('flowchart_items')
-            .select('id, prompt, prompt_content, sequence_order, elements')
-            .eq('project_id', projectId)
-            .eq('type', 'prompt')
-            .eq('is_implemented', false)
-            .order('sequence_order', { ascending: true });
-
-          if (feedbackError) {
-            log(`Failed to query feedback flowchart_items: ${feedbackError.message}`, 'error');
-            await appendLog(`Failed to query feedback flowchart_items: ${feedbackError.message}`, 'error');
-          }
-
-          if (Array.isArray(feedbackRows)) {
-            // Filter in code for elements.source === 'feedback' (avoids PostgREST JSONB filter issues)
-            let feedbackOnly = feedbackRows.filter(
-              (r: { elements?: { source?: string } }) => r.elements?.source === 'feedback'
-            );
-            // Re-process: only prompts from this session
-            if (feedbackSessionId) {
-              feedbackOnly = feedbackOnly.filter(
-                (r: { elements?: { session_id?: string } }) => r.elements?.session_id === feedbackSessionId
-              );
-              log(`Feedback session-scoped: ${feedbackOnly.length} prompts for session ${feedbackSessionId}`);
-            }
-            log(`Feedback flowchart_items: ${feedbackRows.length} total unimplemented, ${feedbackOnly.length} with source=feedback${feedbackSessionId ? ` (session ${feedbackSessionId})` : ''}`);
-            await appendLog(`Found ${feedbackOnly.length} feedback prompts to execute`);
-
-            const mapped = feedbackOnly
-              .filter((r: { prompt?: string; prompt_content?: string }) => (r.prompt_content ?? r.prompt ?? '').length > 0)
-              .map((r: { id: string; prompt?: string; prompt_content?: string }) => ({
-                id: r.id,
-                prompt_content: (r.prompt_content ?? r.prompt ?? ''),
-                title: (r.prompt_content ?? r.prompt ?? '').substring(0, 60),
-                source: 'sequence' as const,
-                type: 'prompt',
-              }));
-            if (mapped.length > 0) {
-              promptQueue = mapped;
-              promptSource = 'flowchart_items (feedback)';
-            }
-          }
-        } else {
-          let flowchartQuery = supabase
-            .from('flowchart_items')
-            .select('id, prompt, prompt_content, sequence_order')
-            .eq('project_id', projectId)
-            .eq('type', 'prompt');
-          if (isResume) {
-            flowchartQuery = flowchartQuery.eq('is_implemented', false);
-          }
-          const { data: flowchartRows, error: flowchartError } = await flowchartQuery.order('sequence_order', { ascending: true });
-          if (flowchartError) {
-            log(`Failed to query flowchart_items: ${flowchartError.message}`, 'error');
-            await appendLog(`Failed to query flowchart_items: ${flowchartError.message}`, 'error');
-          }
-          if (Array.isArray(flowchartRows)) {
-            const mapped = flowchartRows
-              .filter((r: { prompt?: string; prompt_content?: string }) => (r.prompt_content ?? r.prompt ?? '').length > 0)
-              .map((r: { id: string; prompt?: string; prompt_content?: string }) => ({
-                id: r.id,
-                prompt_content: (r.prompt_content ?? r.prompt ?? ''),
-                title: (r.prompt_content ?? r.prompt ?? '').substring(0, 60),
-                source: 'sequence' as const,
-                type: 'prompt',
-              }));
-            if (mapped.length > 0) {
-              promptQueue = mapped;
-              promptSource = 'flowchart_items';
-            }
-          }
-        }
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-        log(`Flowchart items query error (non-blocking): ${errorMessage}`, 'error');
-        // Continue execution - prompts will remain empty and build will fail gracefully
-      }
-    }
+  await refreshTokenIfNeeded();
+  const loaded = await loadPromptQueue(supabase, row, { isResume, pauseState, feedbackSessionId: optionsFeedbackSessionId });
+  for (const { message, level } of loaded.messages) {
+    if (level === 'error') log(message, 'error');
+    await appendLog(message, level);
   }
-  if (promptQueue.length === 0) {
+  const promptQueue = loaded.promptQueue;
+  const promptSource = loaded.promptSource;
+  position.promptQueue = promptQueue;
+  // A paused developer phase may have no prompts left but still owe its agent loop
+  if (promptQueue.length === 0 && !(pauseState && currentAgentPhase === 'developer')) {
     if (currentAgentPhase === 'developer') {
       if (isResume) {
         await appendLog('All prompts already implemented. Awaiting ScopesFlow to finalize.');
@@ -602,54 +926,52 @@ export async function runBuildLoop(
     await appendLog(`Loaded ${promptQueue.length} prompts from ${promptSource ?? 'unknown source'}`);
   }
 
-  const hasString = (value: unknown): value is string =>
-    typeof value === 'string' && value.trim().length > 0;
-
   const rawProjectName =
     (mergedCursorConfig as { projectName?: unknown; name?: unknown }).projectName ??
     (mergedCursorConfig as { projectName?: unknown; name?: unknown }).name;
   const rawProjectPath =
     (mergedCursorConfig as { projectPath?: unknown; path?: unknown }).projectPath ??
     (mergedCursorConfig as { projectPath?: unknown; path?: unknown }).path;
-  const rawFramework = (mergedCursorConfig as { framework?: unknown }).framework;
-  const rawPackageManager = (mergedCursorConfig as { packageManager?: unknown }).packageManager;
 
-  const missingFields: string[] = [];
-  if (!hasString(rawProjectName)) missingFields.push('projectName');
-  // framework/packageManager are only required for new project creation, not for
-  // cloned repos where cursor_project_path is already set (isResume = true).
-  if (!isResume) {
-    if (!hasString(rawFramework)) missingFields.push('framework');
-    if (!hasString(rawPackageManager)) missingFields.push('packageManager');
-  }
-  if (missingFields.length > 0) {
-    const message = `Missing required build configuration: ${missingFields.join(', ')}`;
-    log(message, 'error');
-    await appendLog(message, 'error');
+  const invalidConfig = validateBuildCursorConfig(mergedCursorConfig, isResume) ?? await validatePhasePipeline(configuration);
+  if (invalidConfig) {
+    log(invalidConfig, 'error');
+    await appendLog(invalidConfig, 'error');
     await updateStatus('failed');
     return;
   }
 
   await appendLog('Configuration valid, starting project creation');
 
-  const rawSupabaseUrl = (mergedCursorConfig as { supabaseUrl?: unknown }).supabaseUrl;
-  const rawSupabaseAnonKey = (mergedCursorConfig as { supabaseAnonKey?: unknown }).supabaseAnonKey;
-  if ((hasString(rawSupabaseUrl) && !hasString(rawSupabaseAnonKey)) || (!hasString(rawSupabaseUrl) && hasString(rawSupabaseAnonKey))) {
-    const message =
-      'Supabase configuration incomplete: both supabaseUrl and supabaseAnonKey are required for automated builds.';
-    log(message, 'error');
-    await appendLog(message, 'error');
-    await updateStatus('failed');
-    return;
-  }
-
   // ──── HEARTBEAT ────
-  const HEARTBEAT_INTERVAL_MS = 15_000;
-  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  // Liveness goes to the dispatcher over IPC (worker-ipc.ts). The database only
+  // hears about state changes: last_heartbeat moves with each phase and step
+  // (the dashboard watches it), and the lease is renewed three times per TTL.
+  let leaseTimer: ReturnType<typeof setInterval> | null = null;
+  const stopStateHeartbeat = onBuildEvent((event) => {
+    if (event.buildId !== buildId || (event.type !== 'phase_changed' && event.type !== 'step_started')) return;
+    Promise.resolve(supabase.from('automated_builds').update({ last_heartbeat: event.createdAt }).eq('id', buildId))
+      .catch((err) => console.error('[Build Runner] last_heartbeat update failed (non-blocking):', err));
+  });
 
   try {
     await updateStatus('running', 0);
     await appendLog('Build started');
+    await events.setPhase(currentAgentPhase);
+
+    // Runs during project creation too, so the lease never lapses under a live build
+    if (lease) {
+      leaseTimer = setInterval(async () => {
+        try {
+          if (!leaseLost && !(await renewBuildLease(supabase, buildId, lease.owner, lease.ttlMs))) {
+            leaseLost = true;
+            await appendLog(`Another node took over this build's lease; stopping the run on ${lease.owner}.`, 'warn');
+          }
+        } catch (err) {
+          console.error('[Build Runner] Lease renewal failed:', err);
+        }
+      }, Math.max(1_000, Math.floor(lease.ttlMs / 3)));
+    }
 
     const projectName = (rawProjectName as string).trim();
     const baseDir =
@@ -692,17 +1014,6 @@ export async function runBuildLoop(
       await appendLog('Project created');
     }
 
-    // Start heartbeat (dashboard watches last_heartbeat to detect stale builds)
-    heartbeatTimer = setInterval(async () => {
-      try {
-        await supabase.from('automated_builds').update({
-          last_heartbeat: new Date().toISOString(),
-        }).eq('id', buildId);
-      } catch (err) {
-        console.error('[Build Runner] Heartbeat failed:', err);
-      }
-    }, HEARTBEAT_INTERVAL_MS);
-
     // Derive projectId for tracker
     const projectId =
       (configuration as { projectId?: string; project_id?: string }).projectId ??
@@ -710,19 +1021,9 @@ export async function runBuildLoop(
       row.project_id ?? '';
 
     // Extract model from configuration (currentModel, pendingModel, or model/cursorConfig.model)
-    const cfgObj = configuration as Record<string, unknown>;
-    const rawModel =
-      cfgObj.currentModel ??
-      cfgObj.pendingModel ??
-      (mergedCursorConfig as { model?: unknown }).model ??
-      cfgObj.model;
-    let model = typeof rawModel === 'string' && rawModel.trim().length > 0 ? rawModel.trim() : undefined;
-
-    // Timeout per step from automationSettings (with 10-min floor to prevent premature kills)
-    const MIN_TIMEOUT_PER_STEP_MS = 600_000; // 10 min floor — first prompt scaffolding often takes 7-10 min
-    const rawTimeoutPerStep =
-      ((configuration as { automationSettings?: { timeoutPerStep?: number } }).automationSettings?.timeoutPerStep) ?? MIN_TIMEOUT_PER_STEP_MS;
-    const timeoutPerStep = Math.max(rawTimeoutPerStep, MIN_TIMEOUT_PER_STEP_MS);
+    let model = resolveBuildModel(configuration, mergedCursorConfig, pauseState);
+
+    const timeoutPerStep = resolveTimeoutPerStep(configuration);
 
     if (activeBuildTracker && !activeBuildTracker.has(buildId)) {
       activeBuildTracker.set(buildId, {
@@ -742,404 +1043,502 @@ export async function runBuildLoop(
       let totalSteps = completedSteps + promptQueue.length || 1;
       let currentStep = completedSteps;
 
-    await appendLog(`Starting prompt execution (${totalSteps} prompt${totalSteps === 1 ? '' : 's'})`);
+      await appendLog(`Starting prompt execution (${totalSteps} prompt${totalSteps === 1 ? '' : 's'})`);
 
-    let isFirstPrompt = true;
+      let isFirstPrompt = true;
 
-      while (promptQueue.length > 0) {
-      if (await stopIfRequested('developer prompt loop')) return;
-      // ──── Check for custom prompts ────
-      try {
-        const { data: customPrompts } = await supabase
-          .from('build_custom_prompts')
-          .select('*')
-          .eq('build_id', buildId)
-          .eq('status', 'pending')
-          .order('created_at');
+      /**
+       * Apply operator step actions (build-step-actions.ts): retried and edited
+       * steps go to the front of the queue, skipped prompts leave it and count
+       * as the next step.
+       */
+      const applyStepActions = async (): Promise<void> => {
+        let actions: PendingStepAction[];
+        try {
+          actions = await takePendingStepActions(supabase, buildId);
+        } catch (err) {
+          console.error('[Build Runner] Step action check failed (non-blocking):', err);
+          return;
+        }
+        const reruns: PromptQueueItem[] = [];
+        for (const action of actions) {
+          if (action.action === 'skip') {
+            const index = promptQueue.findIndex((item) => item.id === action.promptId);
+            if (index === -1) {
+              await resolveStepAction(supabase, action.stepId, 'rejected', { status: 'cancelled' }, 'Prompt is not pending in this build');
+              continue;
+            }
+            const [skipped] = promptQueue.splice(index, 1);
+            currentStep++;
+            await resolveStepAction(supabase, action.stepId, 'applied', {
+              status: 'skipped',
+              step_number: currentStep,
+              prompt_content: skipped.prompt_content,
+              prompt_source: skipped.source,
+              completed_at: new Date().toISOString(),
+            });
+            await appendLog(`Skipping prompt "${skipped.title ?? skipped.id}" (operator request)`);
+            continue;
+          }
+          if (!action.prompt) {
+            await resolveStepAction(supabase, action.stepId, 'rejected', {}, 'Step has no prompt to run');
+            continue;
+          }
+          reruns.push({
+            id: action.promptId ?? action.stepId,
+            prompt_content: action.prompt,
+            title: `${action.action === 'edit' ? 'Edited' : 'Retried'} step ${action.stepNumber ?? ''}`.trim(),
+            source: action.promptSource,
+            type: 'prompt',
+            stepId: action.stepId,
+          });
+          await resolveStepAction(supabase, action.stepId, 'applied');
+          await appendLog(`Step ${action.stepNumber ?? '?'} will run again${action.action === 'edit' ? ' with an edited prompt' : ''} (operator request)`);
+        }
+        promptQueue.unshift(...reruns);
+        totalSteps += reruns.length;
+      };
 
-        if (customPrompts && customPrompts.length > 0) {
-          const customPrompt = customPrompts[0];
+      /** Run one queued prompt as the next step: build_steps row, execution with retries, progress. */
+      const runPromptStep = async (promptItem: PromptQueueItem): Promise<void> => {
+        currentStep++;
+        const promptContent = promptItem.prompt_content;
+        const preview = promptContent.length > 60
+          ? `${promptContent.substring(0, 60).replace(/\n/g, ' ')}...`
+          : promptContent.replace(/\n/g, ' ');
+        await appendLog(`Running prompt ${currentStep}/${totalSteps}: ${preview}`);
 
-          // Mark as executing
-          await supabase.from('build_custom_prompts')
-            .update({ status: 'executing', executed_at: new Date().toISOString() })
-            .eq('id', customPrompt.id);
+        // Resolve model for this step (applies pendingModel if set, promotes to currentModel)
+        model = (await resolveModelForStep(model)) ?? model;
 
-          await appendLog(
-            `Executing custom prompt: ${customPrompt.prompt_title ?? customPrompt.prompt_content.substring(0, 50)}...`
-          );
+        console.log(`[BuildRunner] Starting prompt ${currentStep}/${totalSteps}`);
+        console.log(`[BuildRunner] buildId=${buildId}, projectPath=${projectPath}, model=${model ?? 'default'}`);
 
-          // Build synthetic queue item
-          const syntheticItem: PromptQueueItem = {
-            id: customPrompt.id,
-            prompt_content: customPrompt.prompt_content,
-            title: customPrompt.prompt_title ?? 'Custom Prompt',
-            source: 'custom',
-            type: 'prompt',
-          };
+        // ──── Record step start in build_steps ────
+        const stepStartMs = Date.now();
+        const stepStartTime = new Date().toISOString();
 
-          // Position: 'next' = front of queue, anything else = back
-          if (customPrompt.position === 'next') {
-            promptQueue.unshift(syntheticItem);
-          } else {
-            promptQueue.push(syntheticItem);
+        let stepRowId: string | null = null;
+        if (promptItem.stepId) {
+          // Operator retry / edit: the step runs again on its own row
+          await startStepRerun(supabase, promptItem.stepId, promptContent, stepStartTime);
+          stepRowId = promptItem.stepId;
+        } else {
+          try {
+            const { data: stepRow } = await supabase.from('build_steps').insert({
+              build_id: buildId,
+              step_number: currentStep,
+              prompt_id: promptItem.id,
+              prompt_content: promptContent,
+              prompt_source: promptItem.source,
+              status: 'running',
+              started_at: stepStartTime,
+              retry_count: 0,
+            }).select().single();
+            stepRowId = stepRow?.id ?? null;
+          } catch (err) {
+            console.error('[Build Runner] Failed to insert build_steps row (non-blocking):', err);
           }
-          totalSteps += 1;
         }
-      } catch (err) {
-        console.error('[Build Runner] Custom prompt check failed (non-blocking):', err);
-      }
-
-      const promptItem = promptQueue.shift()!;
-      currentStep++;
-      const promptContent = promptItem.prompt_content;
-      const preview = promptContent.length > 60
-        ? `${promptContent.substring(0, 60).replace(/\n/g, ' ')}...`
-        : promptContent.replace(/\n/g, ' ');
-      await appendLog(`Running prompt ${currentStep}/${totalSteps}: ${preview}`);
+        await events.emit('step_started', {
+          stepNumber: currentStep,
+          totalSteps,
+          stepId: stepRowId,
+          promptId: promptItem.id,
+          promptSource: promptItem.source,
+          title: promptItem.title,
+          model,
+        });
 
-      // Resolve model for this step (applies pendingModel if set, promotes to currentModel)
-      model = (await resolveModelForStep(model)) ?? model;
+        // ──── Execute with retry ────
+        const MAX_STEP_RETRIES = 2;
+        let retryCount = 0;
+        let execResult: ExecutePromptResult = { success: false, error: 'Not executed' };
 
-      console.log(`[BuildRunner] Starting prompt ${currentStep}/${totalSteps}`);
-      console.log(`[BuildRunner] buildId=${buildId}, projectPath=${projectPath}, model=${model ?? 'default'}`);
+        while (retryCount <= MAX_STEP_RETRIES) {
+          const executeArgs: BuildExecutePromptArgs = {
+            prompt: promptContent,
+            projectPath,
+            timeout: timeoutPerStep,
+            context: `Step ${currentStep} of automated build`,
+            isFirstPrompt,
+            retryCount,
+            isRetry: retryCount > 0,
+            supabaseClient: supabase,
+            userId: row.user_id,
+            buildId,
+            model,
+            cursorApiKey,
+            claudeApiKey,
+            provider,
+            promptId: promptItem.id,
+            phase: 'developer',
+          };
+          if (githubAuth) {
+            if (githubAuth.gitHubToken) {
+              executeArgs.gitHubToken = githubAuth.gitHubToken;
+            }
+            if (githubAuth.gitUserName) executeArgs.gitUserName = githubAuth.gitUserName;
+            if (githubAuth.gitUserEmail) executeArgs.gitUserEmail = githubAuth.gitUserEmail;
+          }
 
-      // ──── Record step start in build_steps ────
-      const stepStartMs = Date.now();
-      const stepStartTime = new Date().toISOString();
+          const rawResult = await withTimeout(
+            executePromptFn(executeArgs),
+            timeoutPerStep + RUNNER_TIMEOUT_BUFFER_MS,
+            `step ${currentStep}`,
+          );
+          execResult = parseMcpResult(rawResult);
 
-      let stepRowId: string | null = null;
-      try {
-        const { data: stepRow } = await supabase.from('build_steps').insert({
-          build_id: buildId,
-          step_number: currentStep,
-          prompt_id: promptItem.id,
-          prompt_content: promptContent,
-          prompt_source: promptItem.source,
-          status: 'running',
-          started_at: stepStartTime,
-          retry_count: 0,
-        }).select().single();
-        stepRowId = stepRow?.id ?? null;
-      } catch (err) {
-        console.error('[Build Runner] Failed to insert build_steps row (non-blocking):', err);
-      }
+          if (execResult.success) break;
 
-      // ──── Execute with retry ────
-      const MAX_STEP_RETRIES = 2;
-      let retryCount = 0;
-      let execResult: ExecutePromptResult = { success: false, error: 'Not executed' };
-
-      while (retryCount <= MAX_STEP_RETRIES) {
-        const executeArgs: BuildExecutePromptArgs = {
-          prompt: promptContent,
-          projectPath,
-          timeout: timeoutPerStep,
-          context: `Step ${currentStep} of automated build`,
-          isFirstPrompt,
-          retryCount,
-          isRetry: retryCount > 0,
-          supabaseClient: supabase,
-          userId: row.user_id,
-          buildId,
-          model,
-          cursorApiKey,
-          claudeApiKey,
-          provider,
-          promptId: promptItem.id,
-        };
-        if (githubAuth) {
-          if (githubAuth.gitHubToken) {
-            executeArgs.gitHubToken = githubAuth.gitHubToken;
+          retryCount++;
+          if (retryCount > MAX_STEP_RETRIES) {
+            await appendLog(
+              `Step ${currentStep} permanently failed after ${MAX_STEP_RETRIES + 1} attempts.`,
+              'error'
+            );
+            break;
           }
-          if (githubAuth.gitUserName) executeArgs.gitUserName = githubAuth.gitUserName;
-          if (githubAuth.gitUserEmail) executeArgs.gitUserEmail = githubAuth.gitUserEmail;
-        }
-
-        const rawResult = await withTimeout(
-          executePromptFn(executeArgs),
-          timeoutPerStep + RUNNER_TIMEOUT_BUFFER_MS,
-          `step ${currentStep}`,
-        );
-        execResult = parseMcpResult(rawResult);
-
-        if (execResult.success) break;
 
-        retryCount++;
-        if (retryCount > MAX_STEP_RETRIES) {
           await appendLog(
-            `Step ${currentStep} permanently failed after ${MAX_STEP_RETRIES + 1} attempts.`,
+            `Step ${currentStep} failed (attempt ${retryCount}/${MAX_STEP_RETRIES + 1}): ${execResult.error}`,
             'error'
           );
-          break;
+
+          // Update step to 'retrying'
+          if (stepRowId) {
+            try {
+              await supabase.from('build_steps').update({
+                status: 'retrying',
+                retry_count: retryCount,
+                error_message: execResult.error ?? null,
+              }).eq('id', stepRowId);
+            } catch { /* non-blocking */ }
+          }
+
+          // Exponential backoff
+          await new Promise(r => setTimeout(r, 5000 * retryCount));
         }
 
-        await appendLog(
-          `Step ${currentStep} failed (attempt ${retryCount}/${MAX_STEP_RETRIES + 1}): ${execResult.error}`,
-          'error'
-        );
+        // ──── Update step row with final result ────
+        const stepStatus = execResult.success ? 'completed' : 'failed';
 
-        // Update step to 'retrying'
         if (stepRowId) {
           try {
             await supabase.from('build_steps').update({
-              status: 'retrying',
-              retry_count: retryCount,
+              status: stepStatus,
+              completed_at: new Date().toISOString(),
+              duration_ms: Date.now() - stepStartMs,
+              files_changed: execResult.filesChanged ?? [],
               error_message: execResult.error ?? null,
+              retry_count: retryCount,
+              has_migrations: execResult.hasMigrations ?? false,
+              migrations: execResult.migrations ?? [],
             }).eq('id', stepRowId);
+          } catch (err) {
+            console.error('[Build Runner] Failed to update build_steps row (non-blocking):', err);
+          }
+        }
+        if (execResult.success) await checkpointBuildStep(supabase, projectPath, buildId, stepRowId);
+        await emitStepResult(currentStep, totalSteps, stepRowId, promptItem.id, execResult, Date.now() - stepStartMs, retryCount);
+
+        // ──── Update custom prompt status ────
+        if (promptItem.source === 'custom') {
+          try {
+            await supabase.from('build_custom_prompts')
+              .update({
+                status: execResult.success ? 'completed' : 'failed',
+                step_id: stepRowId ?? null,
+              })
+              .eq('id', promptItem.id);
           } catch { /* non-blocking */ }
         }
 
-        // Exponential backoff
-        await new Promise(r => setTimeout(r, 5000 * retryCount));
-      }
+        if (!execResult.success) {
+          await appendLog(
+            `Skipping failed step ${currentStep}, continuing with next prompt`,
+            'error'
+          );
+        }
 
-      // ──── Update step row with final result ────
-      const stepStatus = execResult.success ? 'completed' : 'failed';
+        isFirstPrompt = false;
+        await appendLog(`Prompt ${currentStep}/${totalSteps} ${stepStatus}`);
+        const progress = Math.round((currentStep / totalSteps) * 100);
+        await updateStatus('running', progress, currentStep);
 
-      if (stepRowId) {
-        try {
-          await supabase.from('build_steps').update({
-            status: stepStatus,
-            completed_at: new Date().toISOString(),
-            duration_ms: Date.now() - stepStartMs,
-            files_changed: execResult.filesChanged ?? [],
-            error_message: execResult.error ?? null,
-            retry_count: retryCount,
-            has_migrations: execResult.hasMigrations ?? false,
-            migrations: execResult.migrations ?? [],
-          }).eq('id', stepRowId);
-        } catch (err) {
-          console.error('[Build Runner] Failed to update build_steps row (non-blocking):', err);
+        // ──── Update active build tracker ────
+        if (activeBuildTracker) {
+          activeBuildTracker.set(buildId, {
+            buildId,
+            projectId,
+            projectName,
+            startedAt: stepStartTime,
+            currentStep,
+            totalSteps,
+            status: 'running',
+            projectPath,
+          });
         }
-      }
+      };
 
-      // ──── Update custom prompt status ────
-      if (promptItem.source === 'custom') {
+      while (true) {
+        Object.assign(position, { currentStep, totalSteps, model });
+        if (await stopIfRequested('developer prompt loop')) return;
+        await applyStepActions();
+        if (promptQueue.length === 0) break;
+        // ──── Check for custom prompts ────
         try {
-          await supabase.from('build_custom_prompts')
-            .update({
-              status: execResult.success ? 'completed' : 'failed',
-              step_id: stepRowId ?? null,
-            })
-            .eq('id', promptItem.id);
-        } catch { /* non-blocking */ }
-      }
+          const { data: customPrompts } = await supabase
+            .from('build_custom_prompts')
+            .select('*')
+            .eq('build_id', buildId)
+            .eq('status', 'pending')
+            .order('created_at');
+
+          if (customPrompts && customPrompts.length > 0) {
+            const customPrompt = customPrompts[0];
+
+            // Mark as executing
+            await supabase.from('build_custom_prompts')
+              .update({ status: 'executing', executed_at: new Date().toISOString() })
+              .eq('id', customPrompt.id);
+
+            await appendLog(
+              `Executing custom prompt: ${customPrompt.prompt_title ?? customPrompt.prompt_content.substring(0, 50)}...`
+            );
 
-      if (!execResult.success) {
-        await appendLog(
-          `Skipping failed step ${currentStep}, continuing with next prompt`,
-          'error'
-        );
-      }
+            // Build synthetic queue item
+            const syntheticItem: PromptQueueItem = {
+              id: customPrompt.id,
+              prompt_content: customPrompt.prompt_content,
+              title: customPrompt.prompt_title ?? 'Custom Prompt',
+              source: 'custom',
+              type: 'prompt',
+            };
+
+            // Position: 'next' = front of queue, anything else = back
+            if (customPrompt.position === 'next') {
+              promptQueue.unshift(syntheticItem);
+            } else {
+              promptQueue.push(syntheticItem);
+            }
+            totalSteps += 1;
+          }
+        } catch (err) {
+          console.error('[Build Runner] Custom prompt check failed (non-blocking):', err);
+        }
 
-      isFirstPrompt = false;
-      await appendLog(`Prompt ${currentStep}/${totalSteps} ${stepStatus}`);
-      const progress = Math.round((currentStep / totalSteps) * 100);
-      await updateStatus('running', progress, currentStep);
-
-      // ──── Update active build tracker ────
-      if (activeBuildTracker) {
-        activeBuildTracker.set(buildId, {
-          buildId,
-          projectId,
-          projectName,
-          startedAt: stepStartTime,
-          currentStep,
-          totalSteps,
-          status: 'running',
-          projectPath,
-        });
+        await runPromptStep(promptQueue.shift()!);
+        Object.assign(position, { currentStep, totalSteps, model });
+        if (await stopIfRequested('developer prompt loop')) return;
       }
-      if (await stopIfRequested('developer prompt loop')) return;
-    }
-
-    // ══════ DEVELOPER AGENT CONTINUOUS LOOP ══════
-    // After initial prompt queue is exhausted, enter analysis→generate→execute
-    // loop until GitHub analysis reports ≥ 90% completion.
-
-    const COMPLETION_THRESHOLD = 90;
-    const MAX_AGENT_LOOPS = 50;
-    const MAX_CONSECUTIVE_ERRORS = 3;
-    const MAX_NO_PROMPT_RETRIES = 3;
-    const NO_PROMPT_RETRY_DELAY_MS = 10000;
-    let agentLoopCount = 0;
-    let consecutiveErrors = 0;
-    let noPromptRetries = 0;
-
-    await appendLog('Initial prompt queue exhausted. Entering Developer Agent loop...');
 
-    while (agentLoopCount < MAX_AGENT_LOOPS) {
-      if (await stopIfRequested('developer agent loop')) return;
-      agentLoopCount++;
-      consecutiveErrors = 0;
+      // ══════ DEVELOPER AGENT CONTINUOUS LOOP ══════
+      // After initial prompt queue is exhausted, enter analysis→generate→execute
+      // loop until GitHub analysis reports ≥ 90% completion.
+
+      const COMPLETION_THRESHOLD = 90;
+      const MAX_AGENT_LOOPS = 50;
+      const MAX_CONSECUTIVE_ERRORS = 3;
+      const MAX_NO_PROMPT_RETRIES = 3;
+      const NO_PROMPT_RETRY_DELAY_MS = 10000;
+      let agentLoopCount = 0;
+      let consecutiveErrors = 0;
+      let noPromptRetries = 0;
+
+      await appendLog('Initial prompt queue exhausted. Entering Developer Agent loop...');
+
+      while (agentLoopCount < MAX_AGENT_LOOPS) {
+        Object.assign(position, { currentStep, totalSteps, model });
+        if (await stopIfRequested('developer agent loop')) return;
+        // Steps an operator retried or edited after the prompt queue ran out go before the next analysis
+        await applyStepActions();
+        if (promptQueue.length > 0) {
+          await runPromptStep(promptQueue.shift()!);
+          continue;
+        }
+        agentLoopCount++;
+        consecutiveErrors = 0;
 
-      const { data: buildCheck } = await supabase
-        .from('automated_builds')
-        .select('status')
-        .eq('id', buildId)
-        .single();
-      if (buildCheck?.status === 'cancelled') {
-        await appendLog('Build cancelled, exiting agent loop');
-        break;
-      }
+        const { data: buildCheck } = await supabase
+          .from('automated_builds')
+          .select('status')
+          .eq('id', buildId)
+          .single();
+        if (buildCheck?.status === 'cancelled') {
+          await appendLog('Build cancelled, exiting agent loop');
+          break;
+        }
 
-      await supabase.from('automated_builds')
-        .update({ agent_loop_count: agentLoopCount })
-        .eq('id', buildId);
+        await supabase.from('automated_builds')
+          .update({ agent_loop_count: agentLoopCount })
+          .eq('id', buildId);
 
-      await appendLog(`Developer Agent loop ${agentLoopCount}/${MAX_AGENT_LOOPS}: Analyzing project...`);
+        await appendLog(`Developer Agent loop ${agentLoopCount}/${MAX_AGENT_LOOPS}: Analyzing project...`);
 
-      let phaseResult: {
-        completionPct: number;
-        phaseComplete: boolean;
-        nextPrompt?: { id: string; prompt_content: string; title: string; source: string; type: string };
-        shouldRetry?: boolean;
-        error?: string;
-      };
+        let phaseResult: {
+          completionPct: number;
+          phaseComplete: boolean;
+          nextPrompt?: { id: string; prompt_content: string; title: string; source: string; type: string };
+          shouldRetry?: boolean;
+          error?: string;
+        };
 
-      try {
-        const { data, error } = await supabase.functions.invoke('agent-phase-continue', {
-          body: { buildId, projectId, phase: 'developer' },
-        });
+        try {
+          const { data, error } = await supabase.functions.invoke('agent-phase-continue', {
+            body: { buildId, projectId, phase: 'developer' },
+          });
+
+          if (error) {
+            consecutiveErrors++;
+            await appendLog(`Agent loop error: ${error.message}`, 'error');
+            if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
+              await appendLog(`${MAX_CONSECUTIVE_ERRORS} consecutive errors, exiting agent loop`, 'error');
+              break;
+            }
+            await new Promise(r => setTimeout(r, 5000));
+            continue;
+          }
 
-        if (error) {
+          phaseResult = data;
+        } catch (err) {
           consecutiveErrors++;
-          await appendLog(`Agent loop error: ${error.message}`, 'error');
-          if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
-            await appendLog(`${MAX_CONSECUTIVE_ERRORS} consecutive errors, exiting agent loop`, 'error');
-            break;
-          }
+          const msg = err instanceof Error ? err.message : String(err);
+          await appendLog(`Agent loop exception: ${msg}`, 'error');
+          if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) break;
           await new Promise(r => setTimeout(r, 5000));
           continue;
         }
 
-        phaseResult = data;
-      } catch (err) {
-        consecutiveErrors++;
-        const msg = err instanceof Error ? err.message : String(err);
-        await appendLog(`Agent loop exception: ${msg}`, 'error');
-        if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) break;
-        await new Promise(r => setTimeout(r, 5000));
-        continue;
-      }
-
-      await appendLog(`GitHub analysis: ${phaseResult.completionPct}% complete`);
-      await supabase.from('automated_builds')
-        .update({ developer_completion_pct: phaseResult.completionPct })
-        .eq('id', buildId);
-
-      if (phaseResult.phaseComplete || phaseResult.completionPct >= COMPLETION_THRESHOLD) {
-        await appendLog(`Developer Agent reached ${phaseResult.completionPct}% — phase complete!`);
+        await appendLog(`GitHub analysis: ${phaseResult.completionPct}% complete`);
         await supabase.from('automated_builds')
-          .update({
-            developer_completed_at: new Date().toISOString(),
-            developer_completion_pct: phaseResult.completionPct,
-          })
+          .update({ developer_completion_pct: phaseResult.completionPct })
           .eq('id', buildId);
-        break;
-      }
 
-      if (phaseResult.nextPrompt) {
-        noPromptRetries = 0;
-        currentStep++;
-        totalSteps++;
+        if (phaseResult.phaseComplete || phaseResult.completionPct >= COMPLETION_THRESHOLD) {
+          await appendLog(`Developer Agent reached ${phaseResult.completionPct}% — phase complete!`);
+          await supabase.from('automated_builds')
+            .update({
+              developer_completed_at: new Date().toISOString(),
+              developer_completion_pct: phaseResult.completionPct,
+            })
+            .eq('id', buildId);
+          break;
+        }
 
-        const promptContent = phaseResult.nextPrompt.prompt_content;
-        const preview = promptContent.length > 60
-          ? `${promptContent.substring(0, 60).replace(/\n/g, ' ')}...`
-          : promptContent.replace(/\n/g, ' ');
+        if (phaseResult.nextPrompt) {
+          noPromptRetries = 0;
+          currentStep++;
+          totalSteps++;
 
-        await appendLog(`Agent loop prompt ${currentStep}/${totalSteps}: ${preview}`);
+          const promptContent = phaseResult.nextPrompt.prompt_content;
+          const preview = promptContent.length > 60
+            ? `${promptContent.substring(0, 60).replace(/\n/g, ' ')}...`
+            : promptContent.replace(/\n/g, ' ');
 
-        // Resolve model for this step (applies pendingModel if set, promotes to currentModel)
-        model = (await resolveModelForStep(model)) ?? model;
+          await appendLog(`Agent loop prompt ${currentStep}/${totalSteps}: ${preview}`);
 
-        let stepRowId: string | null = null;
-        try {
-          const { data: stepRow } = await supabase.from('build_steps').insert({
-            build_id: buildId,
-            step_number: currentStep,
-            prompt_id: phaseResult.nextPrompt.id,
-            prompt_content: promptContent,
-            prompt_source: 'generated',
-            agent_phase: 'developer',
-            status: 'running',
-            started_at: new Date().toISOString(),
-            retry_count: 0,
-          }).select().single();
-          stepRowId = stepRow?.id ?? null;
-        } catch { /* non-blocking */ }
-
-        const stepStartMs = Date.now();
-        const executeArgs: BuildExecutePromptArgs = {
-          prompt: promptContent,
-          projectPath,
-          timeout: timeoutPerStep,
-          context: `Developer Agent loop ${agentLoopCount}`,
-          isFirstPrompt: false,
-          retryCount: 0,
-          isRetry: false,
-          supabaseClient: supabase,
-          userId: row.user_id,
-          buildId,
-          model,
-          cursorApiKey,
-          claudeApiKey,
-          provider,
-          promptId: phaseResult.nextPrompt.id,
-        };
-        if (githubAuth) {
-          if (githubAuth.gitHubToken) executeArgs.gitHubToken = githubAuth.gitHubToken;
-          if (githubAuth.gitUserName) executeArgs.gitUserName = githubAuth.gitUserName;
-          if (githubAuth.gitUserEmail) executeArgs.gitUserEmail = githubAuth.gitUserEmail;
-        }
-
-        const rawResult = await withTimeout(
-          executePromptFn(executeArgs),
-          timeoutPerStep + RUNNER_TIMEOUT_BUFFER_MS,
-          `agent loop ${agentLoopCount}`,
-        );
-        const execResult = parseMcpResult(rawResult);
+          // Resolve model for this step (applies pendingModel if set, promotes to currentModel)
+          model = (await resolveModelForStep(model)) ?? model;
 
-        if (stepRowId) {
+          let stepRowId: string | null = null;
           try {
-            await supabase.from('build_steps').update({
-              status: execResult.success ? 'completed' : 'failed',
-              completed_at: new Date().toISOString(),
-              duration_ms: Date.now() - stepStartMs,
-              files_changed: execResult.filesChanged ?? [],
-              error_message: execResult.error ?? null,
-            }).eq('id', stepRowId);
+            const { data: stepRow } = await supabase.from('build_steps').insert({
+              build_id: buildId,
+              step_number: currentStep,
+              prompt_id: phaseResult.nextPrompt.id,
+              prompt_content: promptContent,
+              prompt_source: 'generated',
+              agent_phase: 'developer',
+              status: 'running',
+              started_at: new Date().toISOString(),
+              retry_count: 0,
+            }).select().single();
+            stepRowId = stepRow?.id ?? null;
           } catch { /* non-blocking */ }
-        }
+          await events.emit('step_started', {
+            stepNumber: currentStep,
+            totalSteps,
+            stepId: stepRowId,
+            promptId: phaseResult.nextPrompt.id,
+            promptSource: 'generated',
+            title: phaseResult.nextPrompt.title,
+            model,
+          });
 
-        await appendLog(`Agent loop prompt ${execResult.success ? 'completed' : 'failed'}`);
-        const progress = Math.round((currentStep / totalSteps) * 100);
-        await updateStatus('running', Math.min(progress, 89), currentStep);
-      } else {
-        const shouldRetry =
-          phaseResult.shouldRetry === true ||
-          (phaseResult.completionPct < COMPLETION_THRESHOLD);
+          const stepStartMs = Date.now();
+          const executeArgs: BuildExecutePromptArgs = {
+            prompt: promptContent,
+            projectPath,
+            timeout: timeoutPerStep,
+            context: `Developer Agent loop ${agentLoopCount}`,
+            isFirstPrompt: false,
+            retryCount: 0,
+            isRetry: false,
+            supabaseClient: supabase,
+            userId: row.user_id,
+            buildId,
+            model,
+            cursorApiKey,
+            claudeApiKey,
+            provider,
+            promptId: phaseResult.nextPrompt.id,
+            phase: 'developer',
+          };
+          if (githubAuth) {
+            if (githubAuth.gitHubToken) executeArgs.gitHubToken = githubAuth.gitHubToken;
+            if (githubAuth.gitUserName) executeArgs.gitUserName = githubAuth.gitUserName;
+            if (githubAuth.gitUserEmail) executeArgs.gitUserEmail = githubAuth.gitUserEmail;
+          }
 
-        if (shouldRetry && noPromptRetries < MAX_NO_PROMPT_RETRIES) {
-          noPromptRetries++;
-          const errorDetail = phaseResult.error ? ` (${phaseResult.error})` : '';
-          await appendLog(
-            `No prompt generated${errorDetail}. Retrying (${noPromptRetries}/${MAX_NO_PROMPT_RETRIES})...`
+          const rawResult = await withTimeout(
+            executePromptFn(executeArgs),
+            timeoutPerStep + RUNNER_TIMEOUT_BUFFER_MS,
+            `agent loop ${agentLoopCount}`,
           );
-          await new Promise(r => setTimeout(r, NO_PROMPT_RETRY_DELAY_MS));
-          continue;
-        }
+          const execResult = parseMcpResult(rawResult);
 
-        await appendLog('No more prompts could be generated after retries. Ending developer loop.');
-        break;
+          if (stepRowId) {
+            try {
+              await supabase.from('build_steps').update({
+                status: execResult.success ? 'completed' : 'failed',
+                completed_at: new Date().toISOString(),
+                duration_ms: Date.now() - stepStartMs,
+                files_changed: execResult.filesChanged ?? [],
+                error_message: execResult.error ?? null,
+              }).eq('id', stepRowId);
+            } catch { /* non-blocking */ }
+          }
+          if (execResult.success) await checkpointBuildStep(supabase, projectPath, buildId, stepRowId);
+          await emitStepResult(currentStep, totalSteps, stepRowId, phaseResult.nextPrompt.id, execResult, Date.now() - stepStartMs);
+
+          await appendLog(`Agent loop prompt ${execResult.success ? 'completed' : 'failed'}`);
+          const progress = Math.round((currentStep / totalSteps) * 100);
+          await updateStatus('running', Math.min(progress, 89), currentStep);
+        } else {
+          const shouldRetry =
+            phaseResult.shouldRetry === true ||
+            (phaseResult.completionPct < COMPLETION_THRESHOLD);
+
+          if (shouldRetry && noPromptRetries < MAX_NO_PROMPT_RETRIES) {
+            noPromptRetries++;
+            const errorDetail = phaseResult.error ? ` (${phaseResult.error})` : '';
+            await appendLog(
+              `No prompt generated${errorDetail}. Retrying (${noPromptRetries}/${MAX_NO_PROMPT_RETRIES})...`
+            );
+            await new Promise(r => setTimeout(r, NO_PROMPT_RETRY_DELAY_MS));
+            continue;
+          }
+
+          await appendLog('No more prompts could be generated after retries. Ending developer loop.');
+          break;
+        }
       }
-    }
 
+      await rejectPendingStepActions(supabase, buildId, 'The developer phase ended before the action was applied');
     }
 
-    // Guard: only run scope-check/design/debug when developer phase actually completed
+    // Guard: only run the agent phases when developer phase actually completed
     if (currentAgentPhase === 'developer') {
       const { data: buildAfterDev } = await supabase
         .from('automated_builds')
@@ -1150,7 +1549,7 @@ export async function runBuildLoop(
       const developerActuallyCompleted = !!buildAfterDev?.developer_completed_at;
 
       if (!developerActuallyCompleted) {
-        await appendLog('Developer phase did not complete (no prompts or errors). Skipping scope-check/design/debug.');
+        await appendLog('Developer phase did not complete (no prompts or errors). Skipping the agent phases.');
         await updateStatus('running');
         return;
       }
@@ -1158,12 +1557,14 @@ export async function runBuildLoop(
 
     // ══════ AGENT PIPELINE ORCHESTRATION ══════
 
-    const phaseOrder = ['developer', 'scope-check', 'design', 'ui-design-improvements', 'debug', 'feedback'] as const;
-    const startIndex = phaseOrder.indexOf(currentAgentPhase as (typeof phaseOrder)[number]);
-    const normalizedStartIndex = startIndex === -1 ? 0 : startIndex;
+    // Agent phases from configuration.phases (build-phases.ts); a resumed run continues at its phase
+    const pipeline = getPhasePipeline(configuration);
+    const pipelineStart = getPipelineStartIndex(pipeline, currentAgentPhase, pauseState?.phaseIndex);
 
-    const agentOptions = {
+    position.model = model;
+    const agentOptions: AgentPhaseOptions = {
       supabase,
+      events,
       buildId,
       projectId,
       projectPath,
@@ -1176,71 +1577,38 @@ export async function runBuildLoop(
       userId: row.user_id,
       shouldStop,
       resolveModelForStep: (base: string | undefined) => resolveModelForStep(base),
+      projectChecks,
+      configuration,
     };
 
-    // Phase 2: Scope-Check Agent
-    if (normalizedStartIndex <= 1) {
-      if (await stopIfRequested('scope-check phase')) return;
-      try {
-        await appendLog('Starting Scope-Check Agent phase...');
-        await runScopeCheckAgent(agentOptions);
-        await appendLog('Scope-Check Agent phase completed.');
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        await appendLog(`Scope-Check Agent failed: ${msg}`, 'error');
-      }
-    } else {
-      await appendLog(`Skipping Scope-Check Agent (current phase: ${currentAgentPhase})`);
-    }
-
-    // Phase 3: Design Agent
-    if (normalizedStartIndex <= 2) {
-      if (await stopIfRequested('design phase')) return;
-      try {
-        await appendLog('Starting Design Agent phase...');
-        await runDesignAgent(agentOptions);
-        await appendLog('Design Agent phase completed.');
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        await appendLog(`Design Agent failed: ${msg}`, 'error');
-      }
-    } else {
-      await appendLog(`Skipping Design Agent (current phase: ${currentAgentPhase})`);
-    }
-
-    // Phase 4: UI Design Improvements Agent (runs after Design, before Debug)
-    if (normalizedStartIndex <= 3) {
-      if (await stopIfRequested('ui-design-improvements phase')) return;
-      try {
-        await appendLog('Starting UI Design Improvements Agent phase...');
-        await runUIDesignImprovementsAgent(agentOptions);
-        await appendLog('UI Design Improvements Agent phase completed.');
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        await appendLog(`UI Design Improvements Agent failed: ${msg}`, 'error');
+    // position.phaseIndex is the next phase to run: it moves past a phase only once the phase finished
+    position.phaseIndex = pipelineStart;
+    for (let index = 0; index < pipeline.length; index++) {
+      const phase = getAgentPhase(pipeline[index]);
+      if (index < pipelineStart) {
+        await appendLog(`Skipping ${phase.label} (current phase: ${currentAgentPhase})`);
+        continue;
       }
-    } else {
-      await appendLog(`Skipping UI Design Improvements Agent (current phase: ${currentAgentPhase})`);
-    }
-
-    // Phase 5: Debug Agent
-    if (normalizedStartIndex <= 4) {
-      if (await stopIfRequested('debug phase')) return;
+      if (await stopIfRequested(`${phase.id} phase`)) return;
       try {
-        await appendLog('Starting Debug Agent phase...');
-        await runDebugAgent(agentOptions);
-        await appendLog('Debug Agent phase completed.');
+        await events.setPhase(phase.id);
+        await supabase.from('automated_builds').update({ current_agent_phase: phase.id }).eq('id', buildId);
+        await appendLog(`Starting ${phase.label} phase...`);
+        await phase.run(agentOptions);
+        if (!shouldStop()) await appendLog(`${phase.label} phase completed.`);
       } catch (err) {
         const msg = err instanceof Error ? err.message : String(err);
-        await appendLog(`Debug Agent failed: ${msg}`, 'error');
+        await appendLog(`${phase.label} failed: ${msg}`, 'error');
       }
-    } else {
-      await appendLog(`Skipping Debug Agent (current phase: ${currentAgentPhase})`);
+      // A phase that returned because of a stop is resumed from its start
+      if (await stopIfRequested(`${phase.id} phase (interrupted)`)) return;
+      position.phaseIndex = index + 1;
     }
 
     // Phase 6: Feedback Agent (executes feedback-generated prompts)
     if (currentAgentPhase === 'feedback') {
       if (await stopIfRequested('feedback phase')) return;
+      await events.setPhase('feedback');
       await appendLog('Starting Feedback Agent phase...');
 
       await supabase.from('automated_builds').update({
@@ -1253,6 +1621,7 @@ export async function runBuildLoop(
       const feedbackTotal = promptQueue.length;
 
       while (promptQueue.length > 0) {
+        Object.assign(position, { currentStep: feedbackStep, totalSteps: feedbackTotal, model });
         if (await stopIfRequested('feedback prompt loop')) return;
 
         const promptItem = promptQueue.shift()!;
@@ -1286,6 +1655,15 @@ export async function runBuildLoop(
         } catch (err) {
           console.error('[Build Runner] Failed to insert feedback build_steps row:', err);
         }
+        await events.emit('step_started', {
+          stepNumber: feedbackStep,
+          totalSteps: feedbackTotal,
+          stepId: stepRowId,
+          promptId: promptItem.id,
+          promptSource: promptItem.source,
+          title: promptItem.title,
+          model,
+        });
 
         const MAX_STEP_RETRIES = 2;
         let retryCount = 0;
@@ -1308,6 +1686,7 @@ export async function runBuildLoop(
             claudeApiKey,
             provider,
             promptId: promptItem.id,
+            phase: 'feedback',
           };
           if (githubAuth) {
             if (githubAuth.gitHubToken) executeArgs.gitHubToken = githubAuth.gitHubToken;
@@ -1360,6 +1739,8 @@ export async function runBuildLoop(
             }).eq('id', stepRowId);
           } catch { /* non-blocking */ }
         }
+        if (execResult.success) await checkpointBuildStep(supabase, projectPath, buildId, stepRowId);
+        await emitStepResult(feedbackStep, feedbackTotal, stepRowId, promptItem.id, execResult, Date.now() - stepStartMs, retryCount);
 
         // Mark the flowchart_item as implemented
         try {
@@ -1389,6 +1770,7 @@ export async function runBuildLoop(
     }
 
     // ══════ ALL PHASES COMPLETE ══════
+    if (await stopIfRequested('build runner before completing')) return;
     await updateStatus('completed', 100);
     await appendLog('All agent phases completed. Build is MVP-ready.');
 
@@ -1404,9 +1786,10 @@ export async function runBuildLoop(
       activeBuildTracker.delete(buildId);
     }
   } finally {
-    if (heartbeatTimer) {
-      clearInterval(heartbeatTimer);
+    if (leaseTimer) {
+      clearInterval(leaseTimer);
     }
+    stopStateHeartbeat();
   }
 }
 
@@ -1415,16 +1798,24 @@ export async function runBuildLoop(
  * then run the build loop with config overrides.
  */
 export async function runBuildFromPayload(options: RunBuildFromPayloadOptions): Promise<void> {
-  const { buildId, supabaseUrl, accessToken, anonKey, supabaseServiceRoleKey, targetSupabaseUrl, targetSupabaseAnonKey, createProjectFn, executePromptFn, activeBuildTracker, shouldStop, feedbackSessionId } = options;
-
-  const supabaseUser: SupabaseClient = createClient(supabaseUrl, anonKey, {
-    global: { headers: { Authorization: `Bearer ${accessToken}` } },
-  });
+  const { buildId, supabaseUrl, accessToken, anonKey, supabaseServiceRoleKey, targetSupabaseUrl, targetSupabaseAnonKey, createProjectFn, executePromptFn, activeBuildTracker, shouldStop, pauseRequested, lease } = options;
+
+  // A build taken over from another node has no user JWT: read it with the service role
+  const serviceOnly = !accessToken && !!supabaseServiceRoleKey;
+  const supabaseUser: SupabaseClient = serviceOnly
+    ? createClient(supabaseUrl, supabaseServiceRoleKey!, { auth: { autoRefreshToken: false, persistSession: false } })
+    : createClient(supabaseUrl, anonKey, {
+        global: { headers: { Authorization: `Bearer ${accessToken}` } },
+      });
 
-  const { data: { user }, error: userError } = await supabaseUser.auth.getUser(accessToken);
-  if (userError || !user) {
-    console.error('[BuildRunner] Build start: invalid user', userError?.message ?? 'no user');
-    return;
+  let userId: string | undefined;
+  if (!serviceOnly) {
+    const { data: { user }, error: userError } = await supabaseUser.auth.getUser(accessToken);
+    if (userError || !user) {
+      console.error('[BuildRunner] Build start: invalid user', userError?.message ?? 'no user');
+      return;
+    }
+    userId = user.id;
   }
 
   const { data: buildRow, error: buildError } = await supabaseUser
@@ -1437,6 +1828,10 @@ export async function runBuildFromPayload(options: RunBuildFromPayloadOptions):
     console.error('[BuildRunner] Build start: build not found', buildId, buildError?.message);
     return;
   }
+  const user = { id: userId ?? (buildRow as AutomatedBuildRow).user_id };
+  // A paused build resumes with the provider and feedback session it paused with
+  const pauseState = readPauseState((buildRow as AutomatedBuildRow).pause_state);
+  const feedbackSessionId = options.feedbackSessionId ?? pauseState?.feedbackSessionId;
 
   const configuration = (buildRow as AutomatedBuildRow).configuration;
   const cursorConfig = configuration && typeof configuration === 'object' && 'cursorConfig' in configuration
@@ -1448,36 +1843,7 @@ export async function runBuildFromPayload(options: RunBuildFromPayloadOptions):
     return;
   }
 
-  let githubAuth: { gitHubToken?: string; gitUserName?: string; gitUserEmail?: string } | undefined;
-  try {
-    console.log(`[BuildRunner] 🔍 Fetching GitHub auth for user_id: ${user.id}`);
-    const { data: ghRow, error: ghError } = await supabaseUser
-      .from('github_auth')
-      .select('access_token')
-      .eq('user_id', user.id)
-      .maybeSingle();
-    
-    if (ghError) {
-      console.warn(`[BuildRunner] ⚠️ Error fetching GitHub auth: ${ghError.message}`);
-    } else if (ghRow && typeof ghRow === 'object') {
-      const row = ghRow as { access_token?: string };
-      githubAuth = {
-        gitHubToken: row.access_token,
-        // Note: login and email columns don't exist in github_auth table
-        gitUserName: undefined,
-        gitUserEmail: undefined,
-      };
-      if (githubAuth.gitHubToken) {
-        console.log(`[BuildRunner] ✅ GitHub auth found for user (token: ${githubAuth.gitHubToken.slice(0, 4)}...)`);
-      } else {
-        console.warn(`[BuildRunner] ⚠️ GitHub auth row found but access_token is empty`);
-      }
-    } else {
-      console.warn(`[BuildRunner] ⚠️ No GitHub auth found for user_id: ${user.id}`);
-    }
-  } catch (error) {
-    console.warn(`[BuildRunner] ⚠️ Exception fetching GitHub auth:`, error instanceof Error ? error.message : 'Unknown error');
-  }
+  const githubAuth = await fetchGithubAuth(supabaseUser, user.id);
 
   // Use service role client for build loop (avoids JWT expiry during long builds).
   // Falls back to user-token client when service role key is not available.
@@ -1491,10 +1857,7 @@ export async function runBuildFromPayload(options: RunBuildFromPayloadOptions):
   }
 
   // ──── Determine provider from build row or configuration ────
-  const buildProvider: BuildProvider =
-    (buildRow as any).provider === 'claude-code'
-      ? 'claude-code'
-      : ((configuration as { provider?: string }).provider === 'claude-code' ? 'claude-code' : 'cursor');
+  const buildProvider = resolveBuildProvider(buildRow as AutomatedBuildRow, pauseState);
 
   console.log(`[BuildRunner] 🔧 Build provider: ${buildProvider}`);
 
@@ -1502,52 +1865,10 @@ export async function runBuildFromPayload(options: RunBuildFromPayloadOptions):
   let cursorApiKey: string | undefined;
   let cursorApiKeyError: string | undefined;
   if (buildProvider === 'cursor') {
-    try {
-      const dbClient = supabaseServiceRoleKey
-        ? createClient(supabaseUrl, supabaseServiceRoleKey, { auth: { autoRefreshToken: false, persistSession: false } })
-        : supabaseUser;
-      console.log(`[BuildRunner] 🔍 Fetching Cursor API key for user_id: ${user.id}`);
-      const { data: keyRow, error: keyError } = await dbClient
-        .from('cursor_api_keys')
-        .select('api_key_ciphertext, revoked_at')
-        .eq('user_id', user.id)
-        .maybeSingle();
-
-      if (keyError) {
-        console.warn(`[BuildRunner] ⚠️ Error fetching Cursor API key: ${keyError.message}`);
-        cursorApiKeyError = 'Failed to fetch your Cursor API key. Please try again.';
-      } else if (keyRow && typeof keyRow === 'object') {
-        const row = keyRow as { api_key_ciphertext?: string; revoked_at?: string | null };
-        if (row.revoked_at) {
-          console.warn('[BuildRunner] ⚠️ Cursor API key has been revoked');
-          cursorApiKeyError = 'Your Cursor API key was revoked. Please add a new key in Settings.';
-        } else if (row.api_key_ciphertext) {
-          try {
-            cursorApiKey = decryptCursorApiKey(row.api_key_ciphertext);
-            console.log('[BuildRunner] ✅ Cursor API key decrypted successfully — user credits will be used');
-          } catch (decryptErr) {
-            console.warn(
-              '[BuildRunner] ⚠️ Failed to decrypt Cursor API key:',
-              decryptErr instanceof Error ? decryptErr.message : 'unknown error'
-            );
-            cursorApiKeyError =
-              'Failed to decrypt your Cursor API key. Ensure CURSOR_KEYS_ENCRYPTION_SECRET is set on the MCP server and matches the Supabase Edge Functions secret.';
-          }
-          try {
-            await dbClient.from('cursor_api_keys').update({ last_used_at: new Date().toISOString() }).eq('user_id', user.id);
-          } catch { /* non-blocking */ }
-        } else {
-          console.warn('[BuildRunner] ⚠️ Cursor API key row found but api_key_ciphertext is empty');
-          cursorApiKeyError = 'Your Cursor API key appears empty. Please re-save your key in Settings.';
-        }
-      } else {
-        console.warn(`[BuildRunner] ⚠️ No Cursor API key found for user_id: ${user.id}`);
-        cursorApiKeyError = 'Cursor API key not configured. Please add your key in Settings.';
-      }
-    } catch (error) {
-      console.warn('[BuildRunner] ⚠️ Exception fetching Cursor API key:', error instanceof Error ? error.message : 'Unknown error');
-      cursorApiKeyError = 'Failed to fetch your Cursor API key. Please try again.';
-    }
+    const dbClient = supabaseServiceRoleKey
+      ? createClient(supabaseUrl, supabaseServiceRoleKey, { auth: { autoRefreshToken: false, persistSession: false } })
+      : supabaseUser;
+    ({ apiKey: cursorApiKey, error: cursorApiKeyError } = await fetchUserApiKey(dbClient, buildProvider, user.id, { markUsed: true }));
 
     if (!cursorApiKey) {
       const userMessage =
@@ -1558,12 +1879,7 @@ export async function runBuildFromPayload(options: RunBuildFromPayloadOptions):
           .from('automated_builds')
           .update({ status: 'failed', updated_at: new Date().toISOString() })
           .eq('id', buildId);
-        await supabaseForBuild.from('build_logs').insert({
-          build_id: buildId,
-          log_type: 'build_log',
-          message: userMessage,
-          created_at: new Date().toISOString(),
-        });
+        await new BuildEventEmitter(supabaseForBuild, buildId).log(userMessage, 'error', { source: 'api-key' });
       } catch { /* non-blocking */ }
       return;
     }
@@ -1575,52 +1891,10 @@ export async function runBuildFromPayload(options: RunBuildFromPayloadOptions):
   let claudeApiKey: string | undefined;
   let claudeApiKeyError: string | undefined;
   if (buildProvider === 'claude-code') {
-    try {
-      const dbClient = supabaseServiceRoleKey
-        ? createClient(supabaseUrl, supabaseServiceRoleKey, { auth: { autoRefreshToken: false, persistSession: false } })
-        : supabaseUser;
-      console.log(`[BuildRunner] 🔍 Fetching Claude API key for user_id: ${user.id}`);
-      const { data: keyRow, error: keyError } = await dbClient
-        .from('claude_api_keys')
-        .select('api_key_ciphertext, revoked_at')
-        .eq('user_id', user.id)
-        .maybeSingle();
-
-      if (keyError) {
-        console.warn(`[BuildRunner] ⚠️ Error fetching Claude API key: ${keyError.message}`);
-        claudeApiKeyError = 'Failed to fetch your Claude API key. Please try again.';
-      } else if (keyRow && typeof keyRow === 'object') {
-        const row = keyRow as { api_key_ciphertext?: string; revoked_at?: string | null };
-        if (row.revoked_at) {
-          console.warn('[BuildRunner] ⚠️ Claude API key has been revoked');
-          claudeApiKeyError = 'Your Claude API key was revoked. Please add a new key in Settings.';
-        } else if (row.api_key_ciphertext) {
-          try {
-            claudeApiKey = decryptCursorApiKey(row.api_key_ciphertext);
-            console.log('[BuildRunner] ✅ Claude API key decrypted successfully — user credits will be used');
-          } catch (decryptErr) {
-            console.warn(
-              '[BuildRunner] ⚠️ Failed to decrypt Claude API key:',
-              decryptErr instanceof Error ? decryptErr.message : 'unknown error'
-            );
-            claudeApiKeyError =
-              'Failed to decrypt your Claude API key. Ensure CURSOR_KEYS_ENCRYPTION_SECRET is set on the MCP server and matches the Supabase Edge Functions secret.';
-          }
-          try {
-            await dbClient.from('claude_api_keys').update({ last_used_at: new Date().toISOString() }).eq('user_id', user.id);
-          } catch { /* non-blocking */ }
-        } else {
-          console.warn('[BuildRunner] ⚠️ Claude API key row found but api_key_ciphertext is empty');
-          claudeApiKeyError = 'Your Claude API key appears empty. Please re-save your key in Settings.';
-        }
-      } else {
-        console.warn(`[BuildRunner] ⚠️ No Claude API key found for user_id: ${user.id}`);
-        claudeApiKeyError = 'Claude API key not configured. Please add your key in Settings.';
-      }
-    } catch (error) {
-      console.warn('[BuildRunner] ⚠️ Exception fetching Claude API key:', error instanceof Error ? error.message : 'Unknown error');
-      claudeApiKeyError = 'Failed to fetch your Claude API key. Please try again.';
-    }
+    const dbClient = supabaseServiceRoleKey
+      ? createClient(supabaseUrl, supabaseServiceRoleKey, { auth: { autoRefreshToken: false, persistSession: false } })
+      : supabaseUser;
+    ({ apiKey: claudeApiKey, error: claudeApiKeyError } = await fetchUserApiKey(dbClient, buildProvider, user.id, { markUsed: true }));
 
     if (!claudeApiKey) {
       const userMessage =
@@ -1631,12 +1905,7 @@ export async function runBuildFromPayload(options: RunBuildFromPayloadOptions):
           .from('automated_builds')
           .update({ status: 'failed', updated_at: new Date().toISOString() })
           .eq('id', buildId);
-        await supabaseForBuild.from('build_logs').insert({
-          build_id: buildId,
-          log_type: 'build_log',
-          message: userMessage,
-          created_at: new Date().toISOString(),
-        });
+        await new BuildEventEmitter(supabaseForBuild, buildId).log(userMessage, 'error', { source: 'api-key' });
       } catch { /* non-blocking */ }
       return;
     }
@@ -1667,6 +1936,8 @@ export async function runBuildFromPayload(options: RunBuildFromPayloadOptions):
     claudeApiKey,
     provider: buildProvider,
     shouldStop,
+    pauseRequested,
     feedbackSessionId,
+    lease,
   });
 }
@@ -0,0 +1,244 @@
+/**
+ * Step actions — Operator retry, skip and edit-and-rerun of single build steps.
+ *
+ * POST /api/builds/:id/steps/:stepId/retry and .../edit (body { prompt }) mark a
+ * finished build_steps row; POST /api/builds/:id/prompts/:promptId/skip adds a
+ * 'skipped' row for a prompt that has not run yet, numbered where it would have
+ * run. The developer phase of the build loop (build-runner.ts) picks requests
+ * up at its next step boundary: retried and edited steps run again, next,
+ * against the current workspace and update their own row; skipped prompts
+ * leave the queue and take the next step number. The request and its
+ * outcome stay on the row (operator_action, operator_action_status,
+ * operator_action_note, rerun_count, original_prompt_content).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { readPauseState } from './build-pause.js';
+import { loadPromptQueue, type AutomatedBuildRow, type PromptQueueItem } from './build-runner.js';
+
+export type StepAction = 'retry' | 'skip' | 'edit';
+
+/** Step statuses that can be retried or edited (the step is not running). */
+const RERUNNABLE_STEP_STATUSES = new Set(['completed', 'failed', 'skipped']);
+/** Build statuses whose loop still picks up step actions (a paused build on resume). */
+const ACTIONABLE_BUILD_STATUSES = new Set(['running', 'paused']);
+
+/** Outcome of an operator request, mapped to the HTTP response by server.ts. */
+export type StepActionRequestResult =
+  | { accepted: true; buildId: string; stepId: string; action: StepAction }
+  | { accepted: false; status: 404 | 409; message: string };
+
+/** A requested action the build loop has not applied yet. */
+export interface PendingStepAction {
+  stepId: string;
+  action: StepAction;
+  stepNumber: number | null;
+  promptId: string | null;
+  promptSource: PromptQueueItem['source'];
+  /** Prompt to run again: the edited one for 'edit', the step's own for 'retry'. Null for 'skip'. */
+  prompt: string | null;
+}
+
+interface PendingStepRow {
+  id: string;
+  operator_action: StepAction;
+  step_number: number | null;
+  prompt_id: string | null;
+  prompt_source: string | null;
+  prompt_content: string | null;
+  edited_prompt_content: string | null;
+}
+
+/** Refuse actions on builds whose developer phase is over or that are not running or paused. */
+async function checkBuildAcceptsActions(
+  supabase: SupabaseClient,
+  buildId: string
+): Promise<Extract<StepActionRequestResult, { accepted: false }> | null> {
+  const { data: build, error } = await supabase
+    .from('automated_builds')
+    .select('status, current_agent_phase')
+    .eq('id', buildId)
+    .maybeSingle();
+  if (error) throw new Error(`Build lookup failed: ${error.message}`);
+  if (!build) return { accepted: false, status: 404, message: 'Build not found' };
+  const phase = build.current_agent_phase ?? 'developer';
+  if (!ACTIONABLE_BUILD_STATUSES.has(build.status) || phase !== 'developer') {
+    return {
+      accepted: false,
+      status: 409,
+      message: `Build is ${build.status ?? 'not started'} in the ${phase} phase; step actions apply while the developer phase runs or is paused`,
+    };
+  }
+  return null;
+}
+
+/** Ask the build loop to run a finished step again, with its own prompt ('retry') or `prompt` ('edit'). */
+export async function requestStepRerun(
+  supabase: SupabaseClient,
+  buildId: string,
+  stepId: string,
+  action: 'retry' | 'edit',
+  prompt?: string
+): Promise<StepActionRequestResult> {
+  const refused = await checkBuildAcceptsActions(supabase, buildId);
+  if (refused) return refused;
+
+  const { data: step, error } = await supabase
+    .from('build_steps')
+    .select('id, status, operator_action_status')
+    .eq('id', stepId)
+    .eq('build_id', buildId)
+    .maybeSingle();
+  if (error) throw new Error(`Step lookup failed: ${error.message}`);
+  if (!step) return { accepted: false, status: 404, message: 'Step not found' };
+  if (step.operator_action_status === 'pending') {
+    return { accepted: false, status: 409, message: 'Step already has a pending action' };
+  }
+  if (!RERUNNABLE_STEP_STATUSES.has(step.status)) {
+    return { accepted: false, status: 409, message: `Step is ${step.status}; only completed, failed or skipped steps can be re-run` };
+  }
+
+  const { error: updateError } = await supabase.from('build_steps').update({
+    operator_action: action,
+    operator_action_status: 'pending',
+    operator_action_at: new Date().toISOString(),
+    operator_action_note: null,
+    edited_prompt_content: action === 'edit' ? prompt : null,
+  }).eq('id', stepId);
+  if (updateError) throw new Error(`Step action failed: ${updateError.message}`);
+  return { accepted: true, buildId, stepId, action };
+}
+
+/**
+ * Ask the build loop to drop a prompt it has not run yet. The prompt is looked
+ * up in what the build still has to run (loadPromptQueue) and recorded as a
+ * 'skipped' step row like the ones the loop writes, with a pending action.
+ */
+export async function requestPromptSkip(
+  supabase: SupabaseClient,
+  buildId: string,
+  promptId: string
+): Promise<StepActionRequestResult> {
+  const refused = await checkBuildAcceptsActions(supabase, buildId);
+  if (refused) return refused;
+
+  const { data: existing, error } = await supabase
+    .from('build_steps')
+    .select('id, status, step_number, operator_action, operator_action_status')
+    .eq('build_id', buildId)
+    .eq('prompt_id', promptId)
+    .neq('status', 'cancelled')
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`Step lookup failed: ${error.message}`);
+  if (existing?.operator_action === 'skip') {
+    return {
+      accepted: false,
+      status: 409,
+      message: existing.operator_action_status === 'pending' ? 'Prompt already has a pending skip' : 'Prompt was already skipped',
+    };
+  }
+  if (existing) {
+    return { accepted: false, status: 409, message: `Prompt already ran as step ${existing.step_number}; retry or edit that step instead` };
+  }
+
+  const { data: build, error: buildError } = await supabase.from('automated_builds').select('*').eq('id', buildId).single();
+  if (buildError || !build) throw new Error(`Build lookup failed: ${buildError?.message ?? 'no row returned'}`);
+  const { promptQueue } = await loadPromptQueue(supabase, build as AutomatedBuildRow, {
+    isResume: true,
+    pauseState: build.status === 'paused' ? readPauseState(build.pause_state) : null,
+  });
+  const index = promptQueue.findIndex((item) => item.id === promptId);
+  if (index === -1) return { accepted: false, status: 404, message: 'Prompt is not pending in this build' };
+  const prompt = promptQueue[index];
+
+  const now = new Date().toISOString();
+  const { data: row, error: insertError } = await supabase.from('build_steps').insert({
+    build_id: buildId,
+    step_number: (build.current_step ?? 0) + index + 1,
+    prompt_id: promptId,
+    prompt_content: prompt.prompt_content,
+    prompt_source: prompt.source,
+    status: 'skipped',
+    started_at: now,
+    retry_count: 0,
+    operator_action: 'skip',
+    operator_action_status: 'pending',
+    operator_action_at: now,
+  }).select('id').single();
+  if (insertError || !row) throw new Error(`Step action failed: ${insertError?.message ?? 'no row returned'}`);
+  return { accepted: true, buildId, stepId: row.id, action: 'skip' };
+}
+
+/** Build loop side: actions waiting to be applied, oldest first. */
+export async function takePendingStepActions(supabase: SupabaseClient, buildId: string): Promise<PendingStepAction[]> {
+  const { data, error } = await supabase
+    .from('build_steps')
+    .select('id, operator_action, step_number, prompt_id, prompt_source, prompt_content, edited_prompt_content')
+    .eq('build_id', buildId)
+    .eq('operator_action_status', 'pending')
+    .order('operator_action_at');
+  if (error) throw new Error(`Step action lookup failed: ${error.message}`);
+  return ((data ?? []) as PendingStepRow[]).map((row) => ({
+    stepId: row.id,
+    action: row.operator_action,
+    stepNumber: row.step_number,
+    promptId: row.prompt_id,
+    promptSource: (row.prompt_source ?? 'sequence') as PromptQueueItem['source'],
+    prompt: row.operator_action === 'edit' ? row.edited_prompt_content : row.operator_action === 'retry' ? row.prompt_content : null,
+  }));
+}
+
+/** Record that an action was applied or refused, with any step fields that change with it. */
+export async function resolveStepAction(
+  supabase: SupabaseClient,
+  stepId: string,
+  outcome: 'applied' | 'rejected',
+  fields: Record<string, unknown> = {},
+  note: string | null = null
+): Promise<void> {
+  try {
+    await supabase.from('build_steps').update({
+      ...fields,
+      operator_action_status: outcome,
+      operator_action_note: note,
+    }).eq('id', stepId);
+  } catch (err) {
+    console.error('[StepActions] Failed to record step action outcome (non-blocking):', err);
+  }
+}
+
+/** Refuse what is still pending once the developer phase is over; skipped prompts that never ran are cancelled. */
+export async function rejectPendingStepActions(supabase: SupabaseClient, buildId: string, note: string): Promise<void> {
+  try {
+    for (const action of await takePendingStepActions(supabase, buildId)) {
+      await resolveStepAction(supabase, action.stepId, 'rejected', action.action === 'skip' ? { status: 'cancelled' } : {}, note);
+    }
+  } catch (err) {
+    console.error('[StepActions] Failed to reject pending step actions (non-blocking):', err);
+  }
+}
+
+/** Reset a step's row before it runs again; the first edit keeps the original prompt. */
+export async function startStepRerun(supabase: SupabaseClient, stepId: string, prompt: string, startedAt: string): Promise<void> {
+  try {
+    const { data: step } = await supabase
+      .from('build_steps')
+      .select('prompt_content, original_prompt_content, rerun_count')
+      .eq('id', stepId)
+      .single();
+    const edited = step && step.prompt_content !== prompt;
+    await supabase.from('build_steps').update({
+      status: 'running',
+      started_at: startedAt,
+      completed_at: null,
+      error_message: null,
+      retry_count: 0,
+      prompt_content: prompt,
+      original_prompt_content: step?.original_prompt_content ?? (edited ? step.prompt_content : null),
+      rerun_count: (step?.rerun_count ?? 0) + 1,
+    }).eq('id', stepId);
+  } catch (err) {
+    console.error('[StepActions] Failed to reset step for re-run (non-blocking):', err);
+  }
+}
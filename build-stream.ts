@@ -0,0 +1,215 @@
+/**
+ * Live build streams for GET /api/builds/:id/stream (SSE and WebSocket).
+ *
+ * A stream merges the worker's stdout/stderr log files (written by
+ * runBuildWorker, tailed by polling) with the build events emitted in this
+ * process. The cursor holds a byte offset per log file and the offset of the
+ * last in-process event, so a client can reconnect and resume without gaps
+ * or duplicates.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { BuildEvent } from './build-events.js';
+
+export interface BuildStreamCursor {
+  /** Bytes of <buildId>.out.log already delivered. */
+  out: number;
+  /** Bytes of <buildId>.err.log already delivered. */
+  err: number;
+  /** Offset of the last in-process event delivered. */
+  event: number;
+}
+
+export type BuildStreamMessage =
+  | { type: 'log'; stream: 'out' | 'err'; line: string; cursor: string }
+  | { type: 'event'; event: BuildEvent; cursor: string }
+  | { type: 'end'; cursor: string };
+
+export interface BuildLogPaths {
+  out: string;
+  err: string;
+}
+
+export interface BuildStreamSubscribeOptions {
+  cursor?: BuildStreamCursor;
+  /** Whether the build is still running; once false and the logs are drained, the stream ends. */
+  isActive: () => boolean;
+  pollMs?: number;
+}
+
+const BUILD_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const DEFAULT_POLL_MS = 500;
+/** Max bytes read from one log file per poll. */
+const MAX_READ_BYTES = 256 * 1024;
+const MAX_EVENTS_PER_BUILD = 1000;
+const MAX_BUFFERED_BUILDS = 50;
+
+/** Build ids become file names, so only allow safe characters. */
+export function isValidBuildId(buildId: string): boolean {
+  return BUILD_ID_PATTERN.test(buildId);
+}
+
+/** Directory for worker log files (MCP_BUILD_LOG_DIR, default ./logs/builds). */
+export function getBuildLogDir(): string {
+  return process.env.MCP_BUILD_LOG_DIR || path.join(process.cwd(), 'logs', 'builds');
+}
+
+export function getBuildLogPaths(buildId: string): BuildLogPaths {
+  if (!isValidBuildId(buildId)) throw new Error(`Invalid build id: ${buildId}`);
+  const dir = getBuildLogDir();
+  return {
+    out: path.join(dir, `${buildId}.out.log`),
+    err: path.join(dir, `${buildId}.err.log`),
+  };
+}
+
+/** Cursor wire format: "<out>.<err>.<event>" (also the SSE event id). */
+export function formatStreamCursor(cursor: BuildStreamCursor): string {
+  return `${cursor.out}.${cursor.err}.${cursor.event}`;
+}
+
+/** Parse a cursor string; anything malformed starts from the beginning. */
+export function parseStreamCursor(value: string | null | undefined): BuildStreamCursor {
+  const parts = (value ?? '').split('.').map((part) => Number(part));
+  if (parts.length !== 3 || parts.some((n) => !Number.isInteger(n) || n < 0)) {
+    return { out: 0, err: 0, event: 0 };
+  }
+  return { out: parts[0], err: parts[1], event: parts[2] };
+}
+
+interface BufferedEvent {
+  offset: number;
+  event: BuildEvent;
+}
+
+/**
+ * Buffers recent in-process events per build and serves merged streams.
+ * One hub per dispatcher; feed it from onBuildEvent.
+ */
+export class BuildStreamHub {
+  private buffers = new Map<string, { next: number; events: BufferedEvent[] }>();
+  private subscribers = new Map<string, Set<(entry: BufferedEvent) => void>>();
+
+  publish(event: BuildEvent): void {
+    let buffer = this.buffers.get(event.buildId);
+    if (!buffer) {
+      buffer = { next: 1, events: [] };
+      this.buffers.set(event.buildId, buffer);
+      this.evictOldBuffers();
+    }
+    const entry: BufferedEvent = { offset: buffer.next++, event };
+    buffer.events.push(entry);
+    if (buffer.events.length > MAX_EVENTS_PER_BUILD) buffer.events.shift();
+    for (const notify of this.subscribers.get(event.buildId) ?? []) notify(entry);
+  }
+
+  /**
+   * Stream a build from `options.cursor`: buffered events first, then new events
+   * and log lines as they arrive. Ends with an 'end' message once the build is
+   * inactive and both log files are drained. Returns the unsubscribe function.
+   */
+  subscribe(
+    buildId: string,
+    options: BuildStreamSubscribeOptions,
+    onMessage: (message: BuildStreamMessage) => void
+  ): () => void {
+    const paths = getBuildLogPaths(buildId);
+    const cursor: BuildStreamCursor = { ...(options.cursor ?? { out: 0, err: 0, event: 0 }) };
+    const pollMs = options.pollMs ?? DEFAULT_POLL_MS;
+    let closed = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const send = (message: BuildStreamMessage) => {
+      if (!closed) onMessage(message);
+    };
+
+    const deliverEvent = (entry: BufferedEvent) => {
+      if (entry.offset <= cursor.event) return;
+      cursor.event = entry.offset;
+      send({ type: 'event', event: entry.event, cursor: formatStreamCursor(cursor) });
+    };
+
+    /** Send complete lines past the cursor; a trailing partial line waits unless `final`. */
+    const readNewLines = async (stream: 'out' | 'err', final: boolean): Promise<boolean> => {
+      let handle: fs.FileHandle;
+      try {
+        handle = await fs.open(paths[stream], 'r');
+      } catch {
+        return false; // not written yet (or in-process build)
+      }
+      try {
+        const { size } = await handle.stat();
+        if (size < cursor[stream]) cursor[stream] = 0; // truncated
+        if (size === cursor[stream]) return false;
+
+        const length = Math.min(size - cursor[stream], MAX_READ_BYTES);
+        const chunk = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(chunk, 0, length, cursor[stream]);
+        const lastNewline = chunk.subarray(0, bytesRead).lastIndexOf(0x0a);
+        const fullChunk = bytesRead === MAX_READ_BYTES;
+        if (lastNewline === -1 && !final && !fullChunk) return false;
+
+        const consumed = lastNewline === -1 ? bytesRead : lastNewline + 1;
+        const lines = chunk.subarray(0, consumed).toString('utf-8').split('\n');
+        if (lines[lines.length - 1] === '') lines.pop();
+        for (const [index, line] of lines.entries()) {
+          const terminated = index < lines.length - 1 || lastNewline !== -1;
+          cursor[stream] += Buffer.byteLength(line, 'utf-8') + (terminated ? 1 : 0);
+          send({ type: 'log', stream, line: line.replace(/\r$/, ''), cursor: formatStreamCursor(cursor) });
+        }
+        return consumed > 0;
+      } finally {
+        await handle.close();
+      }
+    };
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      if (timer) clearTimeout(timer);
+      const set = this.subscribers.get(buildId);
+      set?.delete(deliverEvent);
+      if (set && set.size === 0) this.subscribers.delete(buildId);
+    };
+
+    const poll = async () => {
+      if (closed) return;
+      const active = options.isActive();
+      let progressed = false;
+      try {
+        progressed = await readNewLines('out', !active);
+        progressed = (await readNewLines('err', !active)) || progressed;
+      } catch (err) {
+        console.error(`[BuildStream] Failed to read logs for ${buildId}:`, err instanceof Error ? err.message : err);
+      }
+      if (closed) return;
+      if (!active && !progressed) {
+        send({ type: 'end', cursor: formatStreamCursor(cursor) });
+        close();
+        return;
+      }
+      // Drain remaining output without waiting once the build has finished
+      timer = setTimeout(() => void poll(), active ? pollMs : 0);
+    };
+
+    for (const entry of this.buffers.get(buildId)?.events ?? []) deliverEvent(entry);
+    let set = this.subscribers.get(buildId);
+    if (!set) {
+      set = new Set();
+      this.subscribers.set(buildId, set);
+    }
+    set.add(deliverEvent);
+    void poll();
+
+    return close;
+  }
+
+  /** Drop the oldest buffers of builds nobody is watching. */
+  private evictOldBuffers(): void {
+    for (const buildId of this.buffers.keys()) {
+      if (this.buffers.size <= MAX_BUFFERED_BUILDS) return;
+      if (!this.subscribers.has(buildId)) this.buffers.delete(buildId);
+    }
+  }
+}
@@ -11,10 +11,15 @@
  *
  * The dispatcher also passes these to the child via env:
  *   SUPABASE_ACCESS_TOKEN  — user JWT (optional when service role key is set)
+ *   BUILD_LEASE_OWNER      — dispatcher node holding the build's lease (renewed by the heartbeat)
+ *   BUILD_LEASE_TTL_MS     — lease duration
+ *   BUILD_DRAIN_FILE       — marker file; once it exists the build stops at the next step boundary
+ *   BUILD_PAUSE_FILE       — marker file; once it exists the build pauses at the next step boundary
+ *
+ * When spawned with an IPC channel the worker also sends heartbeats (phase,
+ * step, output idle time) to the dispatcher; see worker-ipc.ts.
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import * as dotenv from 'dotenv';
 import {
   runBuildFromPayload,
@@ -22,11 +27,13 @@ import {
   type BuildCursorConfig,
   type BuildExecutePromptArgs,
 } from './build-runner.js';
+import { detectProviders } from './providers/registry.js';
+import { isDrainRequested } from './build-drain.js';
+import { isPauseRequested } from './build-pause.js';
+import { startWorkerHeartbeat } from './worker-ipc.js';
 
 dotenv.config();
 
-const execAsync = promisify(exec);
-
 // ──── Read env ────
 const BUILD_ID = process.env.BUILD_ID?.trim();
 const SUPABASE_URL = process.env.SUPABASE_URL?.trim();
@@ -36,6 +43,10 @@ const SERVICE_ROLE_KEY = process.env.MCP_SUPABASE_SERVICE_ROLE_KEY?.trim();
 const FEEDBACK_SESSION_ID = process.env.FEEDBACK_SESSION_ID?.trim();
 const TARGET_SUPABASE_URL = process.env.TARGET_SUPABASE_URL?.trim();
 const TARGET_SUPABASE_ANON_KEY = process.env.TARGET_SUPABASE_ANON_KEY?.trim();
+const BUILD_LEASE_OWNER = process.env.BUILD_LEASE_OWNER?.trim();
+const BUILD_LEASE_TTL_MS = parseInt(process.env.BUILD_LEASE_TTL_MS || '', 10);
+const BUILD_DRAIN_FILE = process.env.BUILD_DRAIN_FILE?.trim();
+const BUILD_PAUSE_FILE = process.env.BUILD_PAUSE_FILE?.trim();
 
 if (!BUILD_ID || !SUPABASE_URL || !SUPABASE_ANON_KEY) {
   console.error('[BuildWorker] Missing required env: BUILD_ID, SUPABASE_URL, SUPABASE_ANON_KEY');
@@ -55,60 +66,18 @@ console.log(JSON.stringify({
   timestamp: new Date().toISOString(),
 }));
 
-// ──── Minimal "MCP-like" functions for the worker ────
-// The worker doesn't run the full CursorMCPServer; instead it provides
-// lightweight createProject and executePrompt functions that call
-// cursor-agent directly (same logic as server.ts but self-contained).
-
-/** Check if cursor-agent CLI is available. */
-async function checkCursorAgent(): Promise<boolean> {
-  try {
-    const isWindows = process.platform === 'win32';
-    const command = isWindows
-      ? 'wsl -d Ubuntu bash -c "~/.local/bin/cursor-agent --version"'
-      : 'cursor-agent --version';
-    const { stdout } = await execAsync(command);
-    console.log(`[BuildWorker] cursor-agent detected: ${stdout.trim()}`);
-    return true;
-  } catch {
-    console.warn('[BuildWorker] cursor-agent not available');
-    return false;
-  }
-}
-
-/** Check if claude CLI is available. */
-async function checkClaudeCode(): Promise<boolean> {
-  const isWindows = process.platform === 'win32';
-  try {
-    const versionCmd = isWindows
-      ? 'wsl -d Ubuntu bash -c "claude --version"'
-      : 'claude --version';
-    const { stdout } = await execAsync(versionCmd);
-    console.log(`[BuildWorker] Claude Code detected: ${stdout.trim()}`);
-  } catch {
-    console.warn('[BuildWorker] Claude Code CLI not found');
-    return false;
-  }
-
-  try {
-    const authCmd = isWindows
-      ? 'wsl -d Ubuntu bash -c "claude auth status"'
-      : 'claude auth status';
-    await execAsync(authCmd);
-    console.log('[BuildWorker] Claude Code authenticated and ready');
-    return true;
-  } catch {
-    console.warn('[BuildWorker] Claude Code found but NOT authenticated. Run: claude auth login');
-    return false;
-  }
-}
-
 // ──── Main ────
 async function main() {
-  const hasCursorAgent = await checkCursorAgent();
-  const hasClaudeCode = await checkClaudeCode();
-  if (!hasCursorAgent && !hasClaudeCode) {
-    console.error('[BuildWorker] Cannot run build without cursor-agent or Claude Code CLI.');
+  const detections = await detectProviders();
+  for (const [id, detection] of Object.entries(detections)) {
+    if (detection.available) {
+      console.log(`[BuildWorker] ${id} detected: ${detection.version ?? 'unknown version'}`);
+    } else {
+      console.warn(`[BuildWorker] ${id} not available: ${detection.reason ?? 'unknown reason'}`);
+    }
+  }
+  if (!Object.values(detections).some((d) => d.available)) {
+    console.error(`[BuildWorker] Cannot run build without an agent CLI (${Object.keys(detections).join(', ')}).`);
     process.exit(1);
   }
 
@@ -180,6 +149,9 @@ async function main() {
         userId: args.userId,
         buildId: args.buildId,
         model: args.model,
+        provider: args.provider,
+        phase: args.phase,
+        autoCommit: args.autoCommit,
         cursorApiKey: args.cursorApiKey,
         claudeApiKey: args.claudeApiKey,
         supabaseUrl: SUPABASE_URL,
@@ -198,6 +170,9 @@ async function main() {
   // In-memory tracker (only this build)
   const activeBuildTracker = new Map<string, ActiveBuildEntry>();
 
+  // Live status for the dispatcher (stall detection, /api/sessions)
+  const stopHeartbeat = startWorkerHeartbeat(BUILD_ID!);
+
   try {
     await runBuildFromPayload({
       buildId: BUILD_ID!,
@@ -210,18 +185,25 @@ async function main() {
       createProjectFn,
       executePromptFn,
       activeBuildTracker,
+      shouldStop: () => isDrainRequested(BUILD_DRAIN_FILE) || isPauseRequested(BUILD_PAUSE_FILE),
+      pauseRequested: () => isPauseRequested(BUILD_PAUSE_FILE),
       feedbackSessionId: FEEDBACK_SESSION_ID,
+      lease: BUILD_LEASE_OWNER && BUILD_LEASE_TTL_MS > 0
+        ? { owner: BUILD_LEASE_OWNER, ttlMs: BUILD_LEASE_TTL_MS }
+        : undefined,
     });
 
+    stopHeartbeat();
     console.log(JSON.stringify({
       event: 'worker_done',
       buildId: BUILD_ID,
       pid: process.pid,
-      result: 'completed',
+      result: isPauseRequested(BUILD_PAUSE_FILE) ? 'paused' : isDrainRequested(BUILD_DRAIN_FILE) ? 'drained' : 'completed',
       timestamp: new Date().toISOString(),
     }));
     process.exit(0);
   } catch (err) {
+    stopHeartbeat();
     const message = err instanceof Error ? err.message : String(err);
     console.error(JSON.stringify({
       event: 'worker_done',
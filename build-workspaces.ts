@@ -0,0 +1,364 @@
+/**
+ * Build workspaces — Retention, node_modules pruning and the low-disk guard
+ * for project directories created by builds (createProject, /api/clone-project).
+ *
+ * A workspace is <projects dir>/builds/<buildId>, or the build's
+ * cursor_project_path when it lives elsewhere under the projects dir.
+ * Directories outside the projects dir are listed but never removed.
+ *
+ * Retention (finished = completed, failed or cancelled; running and queued
+ * builds are never touched):
+ *   MCP_WORKSPACE_MAX_AGE_DAYS         remove finished workspaces older than this (default 7)
+ *   MCP_WORKSPACE_FAILED_MAX_AGE_DAYS  same for failed / cancelled builds (default 2)
+ *   MCP_WORKSPACE_USER_QUOTA_GB        per-user disk budget; oldest finished workspaces go first
+ *   MCP_WORKSPACE_PRUNE_AFTER_HOURS    drop node_modules of finished workspaces still kept (default 1)
+ *   MCP_MIN_FREE_DISK_GB               refuse new builds below this much free space (default 5)
+ *
+ * Removals and prunes are recorded on automated_builds (workspace_deleted_at,
+ * workspace_pruned_at). Workspaces no build row points to (or all of them,
+ * without a database client) are aged out by modification time.
+ */
+
+import { exec, execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isValidBuildId } from './build-stream.js';
+import { getProjectsBaseDir } from './worker-sandbox.js';
+
+const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+const FINISHED_STATUSES = new Set(['completed', 'failed', 'cancelled']);
+const DEFAULT_GC_INTERVAL_MS = 60 * 60_000;
+const DAY_MS = 24 * 60 * 60_000;
+const GB = 1024 ** 3;
+
+export interface WorkspaceRetention {
+  maxAgeDays: number;
+  failedMaxAgeDays: number;
+  userQuotaGb?: number;
+  pruneAfterHours: number;
+  minFreeDiskGb: number;
+}
+
+/** A workspace as listed by GET /api/workspaces. */
+export interface WorkspaceInfo {
+  /** Null for directories no build row points to. */
+  buildId: string | null;
+  path: string;
+  sizeBytes: number;
+  nodeModulesBytes: number;
+  modifiedAt: string;
+  status: string | null;
+  userId: string | null;
+  completedAt: string | null;
+  prunedAt: string | null;
+  /** Running, queued or previewed on this node. */
+  active: boolean;
+  /** Outside the projects dir: listed, never removed. */
+  external: boolean;
+}
+
+export type WorkspaceRemovalReason = 'age' | 'failed_age' | 'user_quota' | 'orphan';
+
+export interface WorkspaceGcResult {
+  removed: Array<{ buildId: string | null; path: string; reason: WorkspaceRemovalReason; bytes: number }>;
+  pruned: Array<{ buildId: string | null; path: string; bytes: number }>;
+  freedBytes: number;
+}
+
+export interface DiskGuardResult {
+  ok: boolean;
+  freeGb: number | null;
+  minFreeGb: number;
+}
+
+interface BuildWorkspaceRow {
+  id: string;
+  user_id: string | null;
+  status: string | null;
+  cursor_project_path: string | null;
+  completed_at: string | null;
+  updated_at: string | null;
+  workspace_pruned_at: string | null;
+}
+
+const nonNegative = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export function getWorkspaceRetention(): WorkspaceRetention {
+  const quota = Number(process.env.MCP_WORKSPACE_USER_QUOTA_GB);
+  return {
+    maxAgeDays: nonNegative(process.env.MCP_WORKSPACE_MAX_AGE_DAYS, 7),
+    failedMaxAgeDays: nonNegative(process.env.MCP_WORKSPACE_FAILED_MAX_AGE_DAYS, 2),
+    userQuotaGb: Number.isFinite(quota) && quota > 0 ? quota : undefined,
+    pruneAfterHours: nonNegative(process.env.MCP_WORKSPACE_PRUNE_AFTER_HOURS, 1),
+    minFreeDiskGb: nonNegative(process.env.MCP_MIN_FREE_DISK_GB, 5),
+  };
+}
+
+/** Free and total space of the filesystem holding `dir`. Works on Linux/macOS; returns null on Windows/error. */
+export async function getDiskSpace(dir = '/'): Promise<{ freeGb: number; totalGb: number } | null> {
+  try {
+    if (process.platform === 'win32') {
+      const { stdout } = await execAsync('wmic logicaldisk where "DeviceID=\'C:\'" get FreeSpace,Size /format:csv');
+      const lines = stdout.trim().split('\n').filter(l => l.trim().length > 0);
+      const lastLine = lines[lines.length - 1];
+      const parts = lastLine.split(',').filter(p => p.trim().length > 0);
+      if (parts.length >= 2) {
+        const freeBytes = parseInt(parts[parts.length - 2], 10);
+        const totalBytes = parseInt(parts[parts.length - 1], 10);
+        return {
+          freeGb: Math.round((freeBytes / 1073741824) * 10) / 10,
+          totalGb: Math.round((totalBytes / 1073741824) * 10) / 10,
+        };
+      }
+      return null;
+    }
+    const { stdout } = await execFileAsync('df', ['-Pk', dir]);
+    const parts = stdout.trim().split('\n').pop()!.trim().split(/\s+/);
+    return {
+      freeGb: Math.round((parseInt(parts[3], 10) * 1024 / GB) * 10) / 10,
+      totalGb: Math.round((parseInt(parts[1], 10) * 1024 / GB) * 10) / 10,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Disk usage of a directory in bytes (0 when it cannot be read). */
+async function dirSizeBytes(dir: string): Promise<number> {
+  try {
+    const { stdout } = await execFileAsync('du', ['-sk', dir], { maxBuffer: 1024 * 1024 });
+    return (parseInt(stdout.split(/\s+/)[0], 10) || 0) * 1024;
+  } catch {
+    return 0;
+  }
+}
+
+/** node_modules directories of the projects in a workspace (not nested ones). */
+async function findNodeModules(dir: string, depth = 3): Promise<string[]> {
+  let entries: import('fs').Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const found: string[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name === '.git') continue;
+    const child = path.join(dir, entry.name);
+    if (entry.name === 'node_modules') found.push(child);
+    else if (depth > 1) found.push(...(await findNodeModules(child, depth - 1)));
+  }
+  return found;
+}
+
+function isInside(child: string, parent: string): boolean {
+  const relative = path.relative(parent, child);
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+export class WorkspaceManager {
+  private gcRunning: Promise<WorkspaceGcResult> | null = null;
+
+  constructor(
+    /** Whether a build is running, queued or previewed on this node; its workspace is left alone. */
+    private readonly isActive: (buildId: string) => boolean,
+    readonly retention: WorkspaceRetention = getWorkspaceRetention()
+  ) {}
+
+  get baseDir(): string {
+    return path.resolve(getProjectsBaseDir());
+  }
+
+  /** All workspaces with their sizes, largest first. */
+  async list(supabase: SupabaseClient | null): Promise<WorkspaceInfo[]> {
+    const buildsDir = path.join(this.baseDir, 'builds');
+    const rows = supabase ? await this.loadBuildRows(supabase) : [];
+    const byPath = new Map<string, BuildWorkspaceRow | null>();
+
+    try {
+      for (const entry of await fs.readdir(buildsDir, { withFileTypes: true })) {
+        if (entry.isDirectory()) byPath.set(path.join(buildsDir, entry.name), null);
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    }
+    for (const row of rows) {
+      const own = path.join(buildsDir, row.id);
+      const projectPath = row.cursor_project_path ? path.resolve(row.cursor_project_path) : null;
+      if (byPath.has(own) || !projectPath || isInside(projectPath, own)) {
+        if (byPath.has(own)) byPath.set(own, row);
+        continue;
+      }
+      byPath.set(projectPath, row);
+    }
+
+    const workspaces: WorkspaceInfo[] = [];
+    for (const [dir, row] of byPath) {
+      const stat = await fs.stat(dir).catch(() => null);
+      if (!stat?.isDirectory()) continue;
+      const dirName = path.basename(dir);
+      const buildId = row?.id ?? (path.dirname(dir) === buildsDir && isValidBuildId(dirName) ? dirName : null);
+      let nodeModulesBytes = 0;
+      for (const modules of await findNodeModules(dir)) nodeModulesBytes += await dirSizeBytes(modules);
+      workspaces.push({
+        buildId,
+        path: dir,
+        sizeBytes: await dirSizeBytes(dir),
+        nodeModulesBytes,
+        modifiedAt: stat.mtime.toISOString(),
+        status: row?.status ?? null,
+        userId: row?.user_id ?? null,
+        completedAt: row?.completed_at ?? row?.updated_at ?? null,
+        prunedAt: row?.workspace_pruned_at ?? null,
+        active: !!buildId && this.isActive(buildId),
+        external: !isInside(dir, this.baseDir),
+      });
+    }
+    return workspaces.sort((a, b) => b.sizeBytes - a.sizeBytes);
+  }
+
+  /**
+   * Apply the retention rules once: remove expired workspaces, then the oldest
+   * finished ones of users over their quota, then prune node_modules of the
+   * finished workspaces that are left. Concurrent calls share one run.
+   */
+  gc(supabase: SupabaseClient | null): Promise<WorkspaceGcResult> {
+    if (!this.gcRunning) {
+      this.gcRunning = this.runGc(supabase).finally(() => {
+        this.gcRunning = null;
+      });
+    }
+    return this.gcRunning;
+  }
+
+  /** Whether the projects filesystem has room for another build. */
+  async checkDiskGuard(): Promise<DiskGuardResult> {
+    const disk = await getDiskSpace(await this.existingBaseDir());
+    const minFreeGb = this.retention.minFreeDiskGb;
+    // Unknown free space must not block builds
+    return { ok: !disk || disk.freeGb >= minFreeGb, freeGb: disk?.freeGb ?? null, minFreeGb };
+  }
+
+  /** Run gc every `intervalMs`; failures are logged and retried next time. */
+  startGcMonitor(supabase: SupabaseClient | null, intervalMs = DEFAULT_GC_INTERVAL_MS): NodeJS.Timeout {
+    const timer = setInterval(async () => {
+      try {
+        const result = await this.gc(supabase);
+        if (result.removed.length + result.pruned.length > 0) {
+          console.error(
+            `[Workspaces] Removed ${result.removed.length}, pruned ${result.pruned.length} workspace(s); ` +
+            `freed ${Math.round(result.freedBytes / 1024 / 1024)} MB`
+          );
+        }
+      } catch (err) {
+        console.error('[Workspaces] GC failed:', err instanceof Error ? err.message : err);
+      }
+    }, intervalMs);
+    timer.unref();
+    return timer;
+  }
+
+  private async runGc(supabase: SupabaseClient | null): Promise<WorkspaceGcResult> {
+    const result: WorkspaceGcResult = { removed: [], pruned: [], freedBytes: 0 };
+    const now = Date.now();
+    const { maxAgeDays, failedMaxAgeDays, userQuotaGb, pruneAfterHours } = this.retention;
+    const kept: WorkspaceInfo[] = [];
+
+    const remove = async (workspace: WorkspaceInfo, reason: WorkspaceRemovalReason) => {
+      await fs.rm(workspace.path, { recursive: true, force: true });
+      result.removed.push({ buildId: workspace.buildId, path: workspace.path, reason, bytes: workspace.sizeBytes });
+      result.freedBytes += workspace.sizeBytes;
+      if (supabase && workspace.buildId && workspace.status !== null) {
+        await this.markBuild(supabase, workspace.buildId, { workspace_deleted_at: new Date().toISOString() });
+      }
+    };
+
+    const workspaces = await this.list(supabase);
+    for (const workspace of workspaces) {
+      if (workspace.active || workspace.external) {
+        kept.push(workspace);
+        continue;
+      }
+      const finished = workspace.status !== null && FINISHED_STATUSES.has(workspace.status);
+      const finishedAt = new Date(workspace.completedAt ?? workspace.modifiedAt).getTime();
+      const age = now - finishedAt;
+      if (workspace.status === null) {
+        // No build row to go by: age out on modification time
+        if (age > maxAgeDays * DAY_MS) await remove(workspace, 'orphan');
+        else kept.push(workspace);
+      } else if (finished && workspace.status !== 'completed' && age > failedMaxAgeDays * DAY_MS) {
+        await remove(workspace, 'failed_age');
+      } else if (finished && age > maxAgeDays * DAY_MS) {
+        await remove(workspace, 'age');
+      } else {
+        kept.push(workspace);
+      }
+    }
+
+    if (userQuotaGb) {
+      const byUser = new Map<string, WorkspaceInfo[]>();
+      for (const workspace of kept) {
+        if (workspace.userId) byUser.set(workspace.userId, [...(byUser.get(workspace.userId) ?? []), workspace]);
+      }
+      for (const owned of byUser.values()) {
+        let used = owned.reduce((sum, w) => sum + w.sizeBytes, 0);
+        const removable = owned
+          .filter((w) => !w.active && !w.external && w.status !== null && FINISHED_STATUSES.has(w.status))
+          .sort((a, b) => new Date(a.completedAt ?? a.modifiedAt).getTime() - new Date(b.completedAt ?? b.modifiedAt).getTime());
+        for (const workspace of removable) {
+          if (used <= userQuotaGb * GB) break;
+          await remove(workspace, 'user_quota');
+          kept.splice(kept.indexOf(workspace), 1);
+          used -= workspace.sizeBytes;
+        }
+      }
+    }
+
+    for (const workspace of kept) {
+      if (workspace.active || workspace.external || workspace.nodeModulesBytes === 0) continue;
+      if (workspace.status === null || !FINISHED_STATUSES.has(workspace.status)) continue;
+      if (now - new Date(workspace.completedAt ?? workspace.modifiedAt).getTime() < pruneAfterHours * 60 * 60_000) continue;
+      for (const modules of await findNodeModules(workspace.path)) {
+        await fs.rm(modules, { recursive: true, force: true });
+      }
+      result.pruned.push({ buildId: workspace.buildId, path: workspace.path, bytes: workspace.nodeModulesBytes });
+      result.freedBytes += workspace.nodeModulesBytes;
+      if (supabase && workspace.buildId) {
+        await this.markBuild(supabase, workspace.buildId, { workspace_pruned_at: new Date().toISOString() });
+      }
+    }
+    return result;
+  }
+
+  /** Builds that still have a workspace on disk (by their row). */
+  private async loadBuildRows(supabase: SupabaseClient): Promise<BuildWorkspaceRow[]> {
+    const { data, error } = await supabase
+      .from('automated_builds')
+      .select('id, user_id, status, cursor_project_path, completed_at, updated_at, workspace_pruned_at')
+      .not('cursor_project_path', 'is', null)
+      .is('workspace_deleted_at', null);
+    if (error) throw new Error(`Workspace build lookup failed: ${error.message}`);
+    return (data ?? []) as BuildWorkspaceRow[];
+  }
+
+  private async markBuild(supabase: SupabaseClient, buildId: string, update: Record<string, string>): Promise<void> {
+    const { error } = await supabase.from('automated_builds').update(update).eq('id', buildId);
+    if (error) console.error(`[Workspaces] Failed to record workspace change for ${buildId}: ${error.message}`);
+  }
+
+  /** Nearest existing ancestor of the projects dir (df needs a real path). */
+  private async existingBaseDir(): Promise<string> {
+    let dir = this.baseDir;
+    while (!(await fs.access(dir).then(() => true, () => false)) && path.dirname(dir) !== dir) {
+      dir = path.dirname(dir);
+    }
+    return dir;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Worktrees — Separate git worktrees of a build's project, so prompts can run
+ * side by side and be merged back one at a time.
+ *
+ * A worktree is created from the project's HEAD on its own branch under
+ * .git/build-worktrees/<buildId>/<name> (inside the repository, so it is
+ * writable wherever the project is and never shows up in git status). The
+ * project's untracked .env files are copied in and node_modules is linked, so
+ * agents can build and validate there. The prompt's changes are committed on
+ * the worktree branch and merged into the project; a conflicting merge is
+ * aborted and left to the caller. Merges are local; pushProject sends them
+ * to the project's remote.
+ */
+
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import { commitPendingChanges, gitIdentityArgs, isProjectRepository, redactGitError } from './build-checkpoints.js';
+
+const execFileAsync = promisify(execFile);
+
+const WORKTREE_DIR = 'build-worktrees';
+const WORKTREE_BRANCH_PREFIX = 'build-worktrees';
+/** Untracked project files copied into every worktree. */
+const COPIED_FILES = ['.env', '.env.local'];
+/** Linked into worktrees and kept out of their commits. */
+const LINKED_DIRS = ['node_modules'];
+
+export interface ProjectWorktree {
+  /** Directory the worktree is checked out in. */
+  path: string;
+  branch: string;
+}
+
+export type WorktreeMergeResult =
+  | { merged: true; sha: string }
+  | { merged: false; conflict: boolean; message: string };
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 });
+  return stdout.trim();
+}
+
+/** Whether the project can get worktrees: the top level of a git repository with at least one commit. */
+export async function canUseWorktrees(projectPath: string): Promise<boolean> {
+  if (!(await isProjectRepository(projectPath))) return false;
+  return git(projectPath, ['rev-parse', '--verify', 'HEAD']).then(() => true, () => false);
+}
+
+/**
+ * Check out the project's HEAD in a new worktree on its own branch. `name`
+ * (e.g. a page id) must be unique within the build.
+ */
+export async function createWorktree(projectPath: string, buildId: string, name: string): Promise<ProjectWorktree> {
+  const gitDir = path.resolve(projectPath, await git(projectPath, ['rev-parse', '--git-common-dir']));
+  const worktreePath = path.join(gitDir, WORKTREE_DIR, buildId, name);
+  const branch = `${WORKTREE_BRANCH_PREFIX}/${buildId}/${name}`;
+  await fs.mkdir(path.dirname(worktreePath), { recursive: true });
+  await git(projectPath, ['worktree', 'add', '-b', branch, worktreePath, 'HEAD']);
+
+  for (const file of COPIED_FILES) {
+    await fs.copyFile(path.join(projectPath, file), path.join(worktreePath, file)).catch(() => undefined);
+  }
+  for (const dir of LINKED_DIRS) {
+    const target = path.join(projectPath, dir);
+    if (await fs.stat(target).then((stat) => stat.isDirectory(), () => false)) {
+      await fs.symlink(target, path.join(worktreePath, dir), 'junction').catch(() => undefined);
+    }
+  }
+  return { path: worktreePath, branch };
+}
+
+/** Commit what ran in the worktree on its branch. Whether there was anything to commit. */
+export function commitWorktree(worktree: ProjectWorktree, message: string): Promise<boolean> {
+  return commitPendingChanges(worktree.path, message, LINKED_DIRS);
+}
+
+/**
+ * Merge a worktree's branch into the project's current branch. A conflicting
+ * merge is aborted, leaving the project as it was.
+ */
+export async function mergeWorktree(projectPath: string, worktree: ProjectWorktree, message: string): Promise<WorktreeMergeResult> {
+  try {
+    await git(projectPath, [...(await gitIdentityArgs(projectPath)), 'merge', '--no-ff', '--no-edit', '-m', message, worktree.branch]);
+    return { merged: true, sha: await git(projectPath, ['rev-parse', 'HEAD']) };
+  } catch (err) {
+    const conflicted = await git(projectPath, ['diff', '--name-only', '--diff-filter=U']).catch(() => '');
+    await git(projectPath, ['merge', '--abort']).catch(() => undefined);
+    return {
+      merged: false,
+      conflict: conflicted.length > 0,
+      message: conflicted ? `Merge conflict in ${conflicted.split('\n').join(', ')}` : redactGitError(err),
+    };
+  }
+}
+
+/**
+ * Push the project's current branch to origin, as commitAndPush (server.ts)
+ * does after a prompt that ran in the project. An https origin is pushed to
+ * with `gitHubToken`, which is not stored in the remote URL.
+ */
+export async function pushProject(projectPath: string, gitHubToken?: string): Promise<{ pushed: boolean; message?: string }> {
+  try {
+    const branch = await git(projectPath, ['branch', '--show-current']);
+    if (!branch) return { pushed: false, message: 'No branch checked out' };
+    const origin = await git(projectPath, ['remote', 'get-url', 'origin']).catch(() => '');
+    if (!origin) return { pushed: false, message: 'No remote repository configured' };
+    const target = gitHubToken && origin.startsWith('https://')
+      ? origin.replace(/^https:\/\/([^@/]*@)?/, `https://${gitHubToken}@`)
+      : 'origin';
+    await git(projectPath, ['push', target, `HEAD:${branch}`]);
+    return { pushed: true };
+  } catch (err) {
+    return { pushed: false, message: redactGitError(err) };
+  }
+}
+
+/** Remove a worktree and its branch. Never throws. */
+export async function removeWorktree(projectPath: string, worktree: ProjectWorktree): Promise<void> {
+  try {
+    await git(projectPath, ['worktree', 'remove', '--force', worktree.path]);
+  } catch (err) {
+    console.error(`[Worktrees] Removing worktree ${worktree.path} failed (non-blocking):`, redactGitError(err));
+    await fs.rm(worktree.path, { recursive: true, force: true }).catch(() => undefined);
+    await git(projectPath, ['worktree', 'prune']).catch(() => undefined);
+  }
+  await git(projectPath, ['branch', '-D', worktree.branch]).catch(() => undefined);
+}
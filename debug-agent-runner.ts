@@ -1,8 +1,10 @@
 import { exec, spawn } from 'child_process';
 import { promisify } from 'util';
 import * as http from 'http';
-import { SupabaseClient } from '@supabase/supabase-js';
-import { withTimeout, type ExecutePromptFn, type BuildExecutePromptArgs, type BuildProvider } from './build-runner.js';
+import { withTimeout, type BuildExecutePromptArgs } from './build-runner.js';
+import { BuildEventEmitter } from './build-events.js';
+import { checkpointBuildStep } from './build-checkpoints.js';
+import type { AgentPhaseOptions } from './build-phases.js';
 
 const execAsync = promisify(exec);
 
@@ -27,23 +29,7 @@ const RUNTIME_ERROR_PATTERNS = [
   /\.(?:map|filter|reduce|forEach|find|some|every)\s+is not a function/,
 ];
 
-interface DebugAgentOptions {
-  supabase: SupabaseClient;
-  buildId: string;
-  projectId: string;
-  projectPath: string;
-  executePromptFn: ExecutePromptFn;
-  model?: string;
-  cursorApiKey?: string;
-  claudeApiKey?: string;
-  provider?: BuildProvider;
-  githubAuth?: { gitHubToken?: string; gitUserName?: string; gitUserEmail?: string };
-  userId: string;
-  shouldStop?: () => boolean;
-  resolveModelForStep?: (baseModel: string | undefined) => Promise<string | undefined>;
-}
-
-interface FoundIssue {
+export interface FoundIssue {
   issue_type: string;
   severity: string;
   file_path?: string;
@@ -51,6 +37,8 @@ interface FoundIssue {
   error_message: string;
 }
 
+export type ProjectChecksFn = (projectPath: string, cycle: number) => Promise<FoundIssue[]>;
+
 function httpGet(url: string, timeoutMs = 10_000): Promise<{ status: number; body: string }> {
   return new Promise((resolve, reject) => {
     const req = http.get(url, { timeout: timeoutMs }, (res) => {
@@ -225,23 +213,20 @@ async function runRuntimeSmokeTest(
   return issues;
 }
 
-export async function runDebugAgent(options: DebugAgentOptions): Promise<void> {
+export async function runDebugAgent(options: AgentPhaseOptions): Promise<void> {
   const {
     supabase, buildId, projectId, projectPath,
     executePromptFn, model, cursorApiKey, claudeApiKey, provider, githubAuth, userId, shouldStop,
-    resolveModelForStep,
+    resolveModelForStep, projectChecks,
   } = options;
 
   let effectiveModel = model;
 
+  const events = options.events ?? new BuildEventEmitter(supabase, buildId, 'debug');
+
   const log = (msg: string) => {
     console.error(`[DebugAgent] ${msg}`);
-    supabase.from('build_logs').insert({
-      build_id: buildId,
-      log_type: 'build_log',
-      message: msg,
-      created_at: new Date().toISOString(),
-    }).then(() => {});
+    void events.log(msg, 'info', { source: 'debug' });
   };
 
   log('Debug Agent starting...');
@@ -271,101 +256,106 @@ export async function runDebugAgent(options: DebugAgentOptions): Promise<void> {
 
     const issues: FoundIssue[] = [];
 
-    // ── 1. npm run build ──
-    try {
-      await execAsync('npm run build', {
-        cwd: projectPath,
-        timeout: BUILD_TIMEOUT_MS,
-        env: { ...process.env, CI: 'true' },
-      });
-      log('npm run build: PASS');
-    } catch (err: unknown) {
-      const execErr = err as { stderr?: string; stdout?: string };
-      const stderr = execErr.stderr ?? execErr.stdout ?? String(err);
-      const errorLines = stderr.split('\n').filter(
-        (l: string) => l.includes('error') || l.includes('Error')
-      );
-      for (const line of errorLines.slice(0, 20)) {
-        issues.push({
-          issue_type: 'build_error',
-          severity: 'critical',
-          error_message: line.trim(),
-        });
-      }
-      if (issues.length === 0) {
-        issues.push({
-          issue_type: 'build_error',
-          severity: 'critical',
-          error_message: stderr.slice(0, 2000),
+    if (projectChecks) {
+      issues.push(...await projectChecks(projectPath, cycle));
+      log(`Project checks: ${issues.length} issues`);
+    } else {
+      // ── 1. npm run build ──
+      try {
+        await execAsync('npm run build', {
+          cwd: projectPath,
+          timeout: BUILD_TIMEOUT_MS,
+          env: { ...process.env, CI: 'true' },
         });
-      }
-      log(`npm run build: FAIL (${issues.length} errors)`);
-    }
-
-    // ── 2. TypeScript check ──
-    try {
-      await execAsync('npx tsc --noEmit --pretty false 2>&1 || true', {
-        cwd: projectPath,
-        timeout: TSC_TIMEOUT_MS,
-      });
-      log('tsc --noEmit: PASS');
-    } catch (err: unknown) {
-      const execErr = err as { stdout?: string; stderr?: string };
-      const output = execErr.stdout ?? execErr.stderr ?? String(err);
-      const tsErrors = output.split('\n').filter(
-        (l: string) => /\.tsx?.*error TS/.test(l)
-      );
-      for (const line of tsErrors.slice(0, 30)) {
-        const match = line.match(/(.+?)\((\d+),\d+\):\s*error\s+TS\d+:\s*(.+)/);
-        if (match) {
+        log('npm run build: PASS');
+      } catch (err: unknown) {
+        const execErr = err as { stderr?: string; stdout?: string };
+        const stderr = execErr.stderr ?? execErr.stdout ?? String(err);
+        const errorLines = stderr.split('\n').filter(
+          (l: string) => l.includes('error') || l.includes('Error')
+        );
+        for (const line of errorLines.slice(0, 20)) {
           issues.push({
-            issue_type: 'typescript_error',
-            severity: 'high',
-            file_path: match[1],
-            line_number: parseInt(match[2], 10),
-            error_message: match[3],
+            issue_type: 'build_error',
+            severity: 'critical',
+            error_message: line.trim(),
           });
         }
+        if (issues.length === 0) {
+          issues.push({
+            issue_type: 'build_error',
+            severity: 'critical',
+            error_message: stderr.slice(0, 2000),
+          });
+        }
+        log(`npm run build: FAIL (${issues.length} errors)`);
       }
-      log(`tsc --noEmit: ${tsErrors.length} errors`);
-    }
 
-    // ── 3. ESLint ──
-    try {
-      const { stdout } = await execAsync(
-        'npx eslint src/ --format json --no-error-on-unmatched-pattern 2>/dev/null || true',
-        { cwd: projectPath, timeout: ESLINT_TIMEOUT_MS },
-      );
+      // ── 2. TypeScript check ──
       try {
-        const eslintResults = JSON.parse(stdout);
-        for (const file of eslintResults) {
-          for (const msg of (file.messages || []).slice(0, 10)) {
-            if (msg.severity >= 2) {
-              issues.push({
-                issue_type: 'lint_error',
-                severity: 'medium',
-                file_path: file.filePath,
-                line_number: msg.line,
-                error_message: `${msg.ruleId}: ${msg.message}`,
-              });
-            }
+        await execAsync('npx tsc --noEmit --pretty false 2>&1 || true', {
+          cwd: projectPath,
+          timeout: TSC_TIMEOUT_MS,
+        });
+        log('tsc --noEmit: PASS');
+      } catch (err: unknown) {
+        const execErr = err as { stdout?: string; stderr?: string };
+        const output = execErr.stdout ?? execErr.stderr ?? String(err);
+        const tsErrors = output.split('\n').filter(
+          (l: string) => /\.tsx?.*error TS/.test(l)
+        );
+        for (const line of tsErrors.slice(0, 30)) {
+          const match = line.match(/(.+?)\((\d+),\d+\):\s*error\s+TS\d+:\s*(.+)/);
+          if (match) {
+            issues.push({
+              issue_type: 'typescript_error',
+              severity: 'high',
+              file_path: match[1],
+              line_number: parseInt(match[2], 10),
+              error_message: match[3],
+            });
           }
         }
-      } catch { /* ESLint output wasn't valid JSON */ }
-      log(`ESLint: ${issues.filter(i => i.issue_type === 'lint_error').length} errors`);
-    } catch {
-      log('ESLint: skipped (not available)');
-    }
+        log(`tsc --noEmit: ${tsErrors.length} errors`);
+      }
 
-    // ── 4. Runtime smoke test ──
-    if (stopIfRequested('pre-runtime-check')) return;
-    const staticIssueCount = issues.length;
-    if (staticIssueCount === 0) {
-      log('Static checks passed. Running runtime smoke test...');
-      const runtimeIssues = await runRuntimeSmokeTest(projectPath, log);
-      issues.push(...runtimeIssues);
-    } else {
-      log(`Skipping runtime smoke test (${staticIssueCount} static issues to fix first)`);
+      // ── 3. ESLint ──
+      try {
+        const { stdout } = await execAsync(
+          'npx eslint src/ --format json --no-error-on-unmatched-pattern 2>/dev/null || true',
+          { cwd: projectPath, timeout: ESLINT_TIMEOUT_MS },
+        );
+        try {
+          const eslintResults = JSON.parse(stdout);
+          for (const file of eslintResults) {
+            for (const msg of (file.messages || []).slice(0, 10)) {
+              if (msg.severity >= 2) {
+                issues.push({
+                  issue_type: 'lint_error',
+                  severity: 'medium',
+                  file_path: file.filePath,
+                  line_number: msg.line,
+                  error_message: `${msg.ruleId}: ${msg.message}`,
+                });
+              }
+            }
+          }
+        } catch { /* ESLint output wasn't valid JSON */ }
+        log(`ESLint: ${issues.filter(i => i.issue_type === 'lint_error').length} errors`);
+      } catch {
+        log('ESLint: skipped (not available)');
+      }
+
+      // ── 4. Runtime smoke test ──
+      if (stopIfRequested('pre-runtime-check')) return;
+      const staticIssueCount = issues.length;
+      if (staticIssueCount === 0) {
+        log('Static checks passed. Running runtime smoke test...');
+        const runtimeIssues = await runRuntimeSmokeTest(projectPath, log);
+        issues.push(...runtimeIssues);
+      } else {
+        log(`Skipping runtime smoke test (${staticIssueCount} static issues to fix first)`);
+      }
     }
 
     // ── 5. Check if clean ──
@@ -390,6 +380,17 @@ export async function runDebugAgent(options: DebugAgentOptions): Promise<void> {
     }));
 
     await supabase.from('debug_issues').insert(rows);
+    for (const issue of issues) {
+      void events.emit('build_error', {
+        message: issue.error_message,
+        source: 'debug',
+        issueType: issue.issue_type,
+        severity: issue.severity,
+        filePath: issue.file_path ?? null,
+        lineNumber: issue.line_number ?? null,
+        cycle,
+      });
+    }
 
     // ── 7. Generate consolidated fix prompt ──
     const issuesSummary = issues.slice(0, MAX_ISSUES_PER_PROMPT).map(i => {
@@ -434,6 +435,7 @@ export async function runDebugAgent(options: DebugAgentOptions): Promise<void> {
       supabaseClient: supabase,
       userId,
       buildId,
+      phase: 'debug',
     };
     if (githubAuth?.gitHubToken) args.gitHubToken = githubAuth.gitHubToken;
     if (githubAuth?.gitUserName) args.gitUserName = githubAuth.gitUserName;
@@ -450,6 +452,7 @@ export async function runDebugAgent(options: DebugAgentOptions): Promise<void> {
           completed_at: new Date().toISOString(),
         }).eq('id', stepRowId);
       } catch { /* non-blocking */ }
+      await checkpointBuildStep(supabase, projectPath, buildId, stepRowId);
     }
 
     totalFixed += issues.length;
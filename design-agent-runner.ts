@@ -1,28 +1,14 @@
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { SupabaseClient } from '@supabase/supabase-js';
-import { withTimeout, type ExecutePromptFn, type BuildExecutePromptArgs, type BuildProvider } from './build-runner.js';
+import { withTimeout, type BuildExecutePromptArgs } from './build-runner.js';
+import { BuildEventEmitter } from './build-events.js';
+import { checkpointBuildStep } from './build-checkpoints.js';
+import type { AgentPhaseOptions } from './build-phases.js';
 
 const MAX_FILES_TO_AUDIT = 100;
 const MAX_DESIGN_FIX_PROMPTS = 30;
 
-interface DesignAgentOptions {
-  supabase: SupabaseClient;
-  buildId: string;
-  projectId: string;
-  projectPath: string;
-  executePromptFn: ExecutePromptFn;
-  model?: string;
-  cursorApiKey?: string;
-  claudeApiKey?: string;
-  provider?: BuildProvider;
-  githubAuth?: { gitHubToken?: string; gitUserName?: string; gitUserEmail?: string };
-  userId: string;
-  shouldStop?: () => boolean;
-  resolveModelForStep?: (baseModel: string | undefined) => Promise<string | undefined>;
-}
-
-export async function runDesignAgent(options: DesignAgentOptions): Promise<void> {
+export async function runDesignAgent(options: AgentPhaseOptions): Promise<void> {
   const {
     supabase, buildId, projectId, projectPath,
     executePromptFn, model, cursorApiKey, claudeApiKey, provider, githubAuth, userId, shouldStop,
@@ -31,14 +17,11 @@ export async function runDesignAgent(options: DesignAgentOptions): Promise<void>
 
   let effectiveModel = model;
 
+  const events = options.events ?? new BuildEventEmitter(supabase, buildId, 'design');
+
   const log = (msg: string) => {
     console.error(`[DesignAgent] ${msg}`);
-    supabase.from('build_logs').insert({
-      build_id: buildId,
-      log_type: 'build_log',
-      message: msg,
-      created_at: new Date().toISOString(),
-    }).then(() => {});
+    void events.log(msg, 'info', { source: 'design' });
   };
 
   log('Design Agent starting...');
@@ -236,6 +219,7 @@ export async function runDesignAgent(options: DesignAgentOptions): Promise<void>
         supabaseClient: supabase,
         userId,
         buildId,
+        phase: 'design',
       };
       if (githubAuth?.gitHubToken) args.gitHubToken = githubAuth.gitHubToken;
       if (githubAuth?.gitUserName) args.gitUserName = githubAuth.gitUserName;
@@ -257,6 +241,7 @@ export async function runDesignAgent(options: DesignAgentOptions): Promise<void>
             completed_at: new Date().toISOString(),
           }).eq('id', stepRowId);
         } catch { /* non-blocking */ }
+        await checkpointBuildStep(supabase, projectPath, buildId, stepRowId);
       }
 
       log(`Fixed ${fileIssues.length} issues in ${filePath}`);
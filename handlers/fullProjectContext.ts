@@ -1,77 +1,112 @@
-import { createClient } from '@supabase/supabase-js';
+import {
+  getScopeRepository,
+  type ScopeContext,
+  type ScopeRepository,
+  type FlowchartItemRow,
+  type FlowchartConnectionRow,
+} from '../scope-repository.js';
 
-export async function getFullProjectContext(
-  projectId: string,
-  apiKey: string
-) {
-  const supabaseUrl = process.env.SUPABASE_URL || '';
-  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
-  
-  const supabase = createClient(supabaseUrl, supabaseKey);
-
-  // Verify API key and get organization
-  const { data: org, error: orgError } = await supabase
-    .from('organizations')
-    .select('id')
-    .eq('api_key', apiKey)
-    .single();
-
-  if (orgError || !org) {
-    throw new Error('Invalid API key');
+/** Rough token estimate (~4 characters per token) for the serialized value. */
+function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value).length / 4);
+}
+
+/** Max characters of description kept when an item is summarized. */
+const SUMMARY_DESCRIPTION_CHARS = 160;
+
+function summarizeItem(item: FlowchartItemRow) {
+  const description = item.description || '';
+  return {
+    id: item.id,
+    type: item.type,
+    title: item.title,
+    summary: description.length > SUMMARY_DESCRIPTION_CHARS
+      ? `${description.slice(0, SUMMARY_DESCRIPTION_CHARS)}…`
+      : description,
+  };
+}
+
+/**
+ * Score items by relevance to the focus node (graph distance over connections)
+ * and focus keyword (term matches). Well-connected items get a small boost so
+ * central pages win ties when there is no focus at all.
+ */
+function scoreItems(
+  items: FlowchartItemRow[],
+  connections: FlowchartConnectionRow[],
+  focusNodeId?: string,
+  focusKeyword?: string
+): Map<string, number> {
+  const neighbours = new Map<string, string[]>();
+  for (const conn of connections) {
+    neighbours.set(conn.source_id, [...(neighbours.get(conn.source_id) ?? []), conn.target_id]);
+    neighbours.set(conn.target_id, [...(neighbours.get(conn.target_id) ?? []), conn.source_id]);
   }
 
-  // Get project with organization check
-  const { data: project, error: projectError } = await supabase
-    .from('projects')
-    .select(`
-      *,
-      organization:organization_id (
-        id,
-        name
-      )
-    `)
-    .eq('id', projectId)
-    .eq('organization_id', org.id)
-    .single();
-
-  if (projectError || !project) {
-    throw new Error('Project not found or access denied');
+  const distance = new Map<string, number>();
+  if (focusNodeId) {
+    distance.set(focusNodeId, 0);
+    const queue = [focusNodeId];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const next of neighbours.get(current) ?? []) {
+        if (!distance.has(next)) {
+          distance.set(next, distance.get(current)! + 1);
+          queue.push(next);
+        }
+      }
+    }
   }
 
-  // Get all flowchart items
-  const { data: items } = await supabase
-    .from('flowchart_items')
-    .select('*')
-    .eq('project_id', projectId)
-    .order('created_at', { ascending: true });
-
-  // Get all connections
-  const { data: connections } = await supabase
-    .from('flowchart_connections')
-    .select('*')
-    .eq('project_id', projectId);
-
-  // Get project versions
-  const { data: versions } = await supabase
-    .from('project_versions')
-    .select('*')
-    .eq('project_id', projectId)
-    .order('created_at', { ascending: false })
-    .limit(10);
-
-  // Get project members
-  const { data: members } = await supabase
-    .from('project_members')
-    .select(`
-      *,
-      profiles:user_id (
-        name,
-        email
-      )
-    `)
-    .eq('project_id', projectId);
+  const terms = (focusKeyword || '').toLowerCase().split(/\s+/).filter((t) => t.length > 0);
 
-  return {
+  const scores = new Map<string, number>();
+  for (const item of items) {
+    let score = Math.min(neighbours.get(item.id)?.length ?? 0, 10) * 0.1;
+
+    const d = distance.get(item.id);
+    if (d !== undefined) score += 100 / (1 + d);
+
+    if (terms.length > 0) {
+      const title = (item.title || '').toLowerCase();
+      const description = (item.description || '').toLowerCase();
+      const requirements = JSON.stringify(item.technical_requirements ?? '').toLowerCase();
+      for (const term of terms) {
+        if (title.includes(term)) score += 10;
+        if (description.includes(term)) score += 5;
+        if (requirements.includes(term)) score += 3;
+      }
+    }
+
+    scores.set(item.id, score);
+  }
+  return scores;
+}
+
+export async function getFullProjectContext(
+  ctx: ScopeContext,
+  options: {
+    /**
+     * Token budget for the whole response; versions are then listed without
+     * their snapshot_data. When omitted the whole project is returned.
+     */
+    maxTokens?: number;
+    /** Rank items by graph distance from this node. */
+    focusNodeId?: string;
+    /** Rank items by matches on title, description and technical requirements. */
+    focusKeyword?: string;
+  } = {},
+  repo: ScopeRepository = getScopeRepository()
+) {
+  const [project, items, connections, versions, members] = await Promise.all([
+    repo.getProject(ctx),
+    repo.listItems(ctx),
+    repo.listConnections(ctx),
+    repo.listVersions(ctx, 10),
+    repo.listMembers(ctx),
+  ]);
+
+  const base = {
     project: {
       id: project.id,
       name: project.title,
@@ -81,18 +116,110 @@ export async function getFullProjectContext(
       updatedAt: project.updated_at,
     },
     organization: project.organization,
-    items: items || [],
-    connections: connections || [],
-    versions: versions || [],
-    members: (members || []).map((m: any) => ({
-      role: m.role,
-      user: m.profiles,
-    })),
-    stats: {
-      itemsCount: items?.length || 0,
-      connectionsCount: connections?.length || 0,
-      versionsCount: versions?.length || 0,
-      membersCount: members?.length || 0,
+    versions,
+    members,
+  };
+
+  const stats = {
+    itemsCount: items.length,
+    connectionsCount: connections.length,
+    versionsCount: versions.length,
+    membersCount: members.length,
+  };
+
+  if (options.maxTokens === undefined) {
+    return { ...base, items, connections, stats };
+  }
+
+  // ──── Pack items into the budget, most relevant first ────
+
+  const scores = scoreItems(items, connections, options.focusNodeId, options.focusKeyword);
+  const ranked = items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => (scores.get(b.item.id)! - scores.get(a.item.id)!) || a.index - b.index)
+    .map(({ item }) => item);
+
+  // Version snapshots hold a copy of the whole project, so only their metadata fits a budget
+  const budgetedBase = {
+    ...base,
+    versions: versions.map(({ snapshot_data: _snapshot, ...version }) => version),
+  };
+
+  // Everything starts out omitted (listed by ID only); budget metadata is reserved up front
+  const BUDGET_METADATA_TOKENS = 80;
+  const fixedTokens = estimateTokens(budgetedBase) + estimateTokens(stats) + BUDGET_METADATA_TOKENS
+    + estimateTokens(items.map((item) => item.id));
+  if (fixedTokens > options.maxTokens) {
+    throw new Error(`maxTokens (${options.maxTokens}) is below the ~${fixedTokens} tokens needed for the project metadata and item IDs`);
+  }
+  let remaining = options.maxTokens - fixedTokens;
+  const included = new Set<string>();
+  const packedConnections: FlowchartConnectionRow[] = [];
+
+  const connectionsByItem = new Map<string, FlowchartConnectionRow[]>();
+  const addConnection = (itemId: string, conn: FlowchartConnectionRow) => {
+    const list = connectionsByItem.get(itemId) ?? [];
+    list.push(conn);
+    connectionsByItem.set(itemId, list);
+  };
+  for (const conn of connections) {
+    addConnection(conn.source_id, conn);
+    if (conn.target_id !== conn.source_id) addConnection(conn.target_id, conn);
+  }
+
+  // Pass 1: give as many items as possible a summary, most relevant first
+  for (const item of ranked) {
+    // Connections to items already packed come along with this one
+    const linking = (connectionsByItem.get(item.id) ?? []).filter(
+      (c) => (c.source_id === item.id && (included.has(c.target_id) || c.target_id === item.id))
+        || (c.target_id === item.id && included.has(c.source_id))
+    );
+    const cost = estimateTokens(summarizeItem(item)) + (linking.length > 0 ? estimateTokens(linking) : 0)
+      - estimateTokens(item.id);
+    if (cost <= remaining) {
+      remaining -= cost;
+      included.add(item.id);
+      packedConnections.push(...linking);
+    }
+  }
+
+  // Pass 2: upgrade summaries to full items while the budget allows, most relevant first
+  const fullIds = new Set<string>();
+  for (const item of ranked) {
+    if (!included.has(item.id)) continue;
+    const upgradeCost = estimateTokens(item) - estimateTokens(summarizeItem(item));
+    if (upgradeCost <= remaining) {
+      remaining -= upgradeCost;
+      fullIds.add(item.id);
+    }
+  }
+
+  const fullItems = ranked.filter((item) => fullIds.has(item.id));
+  const summarizedItems = ranked
+    .filter((item) => included.has(item.id) && !fullIds.has(item.id))
+    .map(summarizeItem);
+  const omittedItemIds = ranked.filter((item) => !included.has(item.id)).map((item) => item.id);
+
+  const result = {
+    ...budgetedBase,
+    items: fullItems,
+    summarizedItems,
+    connections: packedConnections,
+    stats,
+    omitted: {
+      itemsCount: omittedItemIds.length,
+      itemIds: omittedItemIds,
+      connectionsCount: connections.length - packedConnections.length,
+    },
+    budget: {
+      maxTokens: options.maxTokens,
+      estimatedTokens: 0,
+      focusNodeId: options.focusNodeId ?? null,
+      focusKeyword: options.focusKeyword ?? null,
+      fullItemsCount: fullItems.length,
+      summarizedItemsCount: summarizedItems.length,
     },
   };
+  result.budget.estimatedTokens = estimateTokens(result);
+  return result;
 }
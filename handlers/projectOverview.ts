@@ -1,57 +1,14 @@
-import { createClient } from '@supabase/supabase-js';
-
-export async function getProjectOverview(projectId: string, apiKey: string) {
-  const supabaseUrl = process.env.SUPABASE_URL || '';
-  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
-  
-  const supabase = createClient(supabaseUrl, supabaseKey);
-
-  // Verify API key and get organization
-  const { data: org, error: orgError } = await supabase
-    .from('organizations')
-    .select('id')
-    .eq('api_key', apiKey)
-    .single();
-
-  if (orgError || !org) {
-    throw new Error('Invalid API key');
-  }
-
-  // Get project with organization check
-  const { data: project, error: projectError } = await supabase
-    .from('projects')
-    .select(`
-      *,
-      organization:organization_id (
-        id,
-        name
-      )
-    `)
-    .eq('id', projectId)
-    .eq('organization_id', org.id)
-    .single();
-
-  if (projectError || !project) {
-    throw new Error('Project not found or access denied');
-  }
-
-  // Get project members
-  const { data: members } = await supabase
-    .from('project_members')
-    .select(`
-      *,
-      profiles:user_id (
-        name,
-        email
-      )
-    `)
-    .eq('project_id', projectId);
-
-  // Get flowchart items count
-  const { count: itemsCount } = await supabase
-    .from('flowchart_items')
-    .select('*', { count: 'exact', head: true })
-    .eq('project_id', projectId);
+import { getScopeRepository, type ScopeContext, type ScopeRepository } from '../scope-repository.js';
+
+export async function getProjectOverview(
+  ctx: ScopeContext,
+  repo: ScopeRepository = getScopeRepository()
+) {
+  const [project, members, itemsCount] = await Promise.all([
+    repo.getProject(ctx),
+    repo.listMembers(ctx),
+    repo.countItems(ctx),
+  ]);
 
   return {
     project: {
@@ -63,12 +20,9 @@ export async function getProjectOverview(projectId: string, apiKey: string) {
       updatedAt: project.updated_at,
     },
     organization: project.organization,
-    members: (members || []).map((m: any) => ({
-      role: m.role,
-      user: m.profiles,
-    })),
+    members,
     stats: {
-      itemsCount: itemsCount || 0,
+      itemsCount,
     },
   };
 }
@@ -1,98 +1,119 @@
-import { createClient } from '@supabase/supabase-js';
+import {
+  getScopeRepository,
+  type ScopeContext,
+  type ScopeRepository,
+  type FlowchartConnectionRow,
+} from '../scope-repository.js';
+
+export type TraversalDirection = 'upstream' | 'downstream' | 'both';
+
+/** Edge type of a connection: its `type` column, falling back to the label. */
+function edgeTypeOf(conn: FlowchartConnectionRow): string {
+  return conn.type || conn.label || 'default';
+}
 
 export async function getRelationshipTraversal(
-  projectId: string,
-  apiKey: string,
+  ctx: ScopeContext,
   nodeId: string,
-  depth: number = 2
+  depth: number = 2,
+  options: {
+    /** downstream follows source → target, upstream follows target → source. */
+    direction?: TraversalDirection;
+    /** Only follow connections whose edge type is in this list. */
+    edgeTypes?: string[];
+  } = {},
+  repo: ScopeRepository = getScopeRepository()
 ) {
-  const supabaseUrl = process.env.SUPABASE_URL || '';
-  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
-  
-  const supabase = createClient(supabaseUrl, supabaseKey);
-
-  // Verify API key and get organization
-  const { data: org, error: orgError } = await supabase
-    .from('organizations')
-    .select('id')
-    .eq('api_key', apiKey)
-    .single();
-
-  if (orgError || !org) {
-    throw new Error('Invalid API key');
-  }
-
-  // Verify project access
-  const { data: project, error: projectError } = await supabase
-    .from('projects')
-    .select('id, organization_id')
-    .eq('id', projectId)
-    .eq('organization_id', org.id)
-    .single();
-
-  if (projectError || !project) {
-    throw new Error('Project not found or access denied');
-  }
-
-  // Get the starting node
-  const { data: startNode, error: nodeError } = await supabase
-    .from('flowchart_items')
-    .select('*')
-    .eq('id', nodeId)
-    .eq('project_id', projectId)
-    .single();
-
-  if (nodeError || !startNode) {
-    throw new Error('Node not found');
-  }
+  const direction = options.direction ?? 'both';
+  const edgeTypes = options.edgeTypes && options.edgeTypes.length > 0 ? new Set(options.edgeTypes) : null;
 
   // Get all connections for the project
-  const { data: connections } = await supabase
-    .from('flowchart_connections')
-    .select('*')
-    .eq('project_id', projectId);
+  const connections = (await repo.listConnections(ctx)).filter(
+    (conn) => !edgeTypes || edgeTypes.has(edgeTypeOf(conn))
+  );
+
+  // Adjacency list in the directions we are allowed to walk
+  const adjacency = new Map<string, Array<{ nextId: string; conn: FlowchartConnectionRow }>>();
+  const addEdge = (from: string, nextId: string, conn: FlowchartConnectionRow) => {
+    const list = adjacency.get(from) ?? [];
+    list.push({ nextId, conn });
+    adjacency.set(from, list);
+  };
+  for (const conn of connections) {
+    if (direction !== 'upstream') addEdge(conn.source_id, conn.target_id, conn);
+    if (direction !== 'downstream') addEdge(conn.target_id, conn.source_id, conn);
+  }
 
-  // Build relationship graph
-  const visited = new Set<string>();
-  const relatedNodes: any[] = [];
-  const queue: Array<{ nodeId: string; depth: number }> = [{ nodeId, depth: 0 }];
+  // BFS; the first visit of a node is along a shortest path, so remember how we got there
+  const reached = new Map<string, { depth: number; parentId: string | null; viaEdgeId: string | null }>();
+  reached.set(nodeId, { depth: 0, parentId: null, viaEdgeId: null });
+  const traversedEdges = new Map<string, FlowchartConnectionRow>();
+  const queue: string[] = [nodeId];
 
   while (queue.length > 0) {
-    const { nodeId: currentId, depth: currentDepth } = queue.shift()!;
-
-    if (visited.has(currentId) || currentDepth > depth) {
+    const currentId = queue.shift()!;
+    const currentDepth = reached.get(currentId)!.depth;
+    if (currentDepth >= depth) {
       continue;
     }
 
-    visited.add(currentId);
-
-    // Get node details
-    const { data: node } = await supabase
-      .from('flowchart_items')
-      .select('*')
-      .eq('id', currentId)
-      .single();
-
-    if (node) {
-      relatedNodes.push({
-        ...node,
-        depth: currentDepth,
-      });
+    for (const { nextId, conn } of adjacency.get(currentId) ?? []) {
+      traversedEdges.set(conn.id, conn);
+      if (!reached.has(nextId)) {
+        reached.set(nextId, { depth: currentDepth + 1, parentId: currentId, viaEdgeId: conn.id });
+        queue.push(nextId);
+      }
     }
+  }
 
-    // Find connected nodes
-    const connected = (connections || []).filter(
-      (conn: any) => conn.source_id === currentId || conn.target_id === currentId
-    );
+  // Load every reached node in a single query
+  const nodes = await repo.getItemsByIds(ctx, Array.from(reached.keys()));
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
 
-    for (const conn of connected) {
-      const nextNodeId = conn.source_id === currentId ? conn.target_id : conn.source_id;
-      if (!visited.has(nextNodeId)) {
-        queue.push({ nodeId: nextNodeId, depth: currentDepth + 1 });
-      }
-    }
+  const startNode = nodesById.get(nodeId);
+  if (!startNode) {
+    throw new Error('Node not found');
   }
 
+  const pathTo = (targetId: string) => {
+    const nodeIds: string[] = [];
+    const edgeIds: string[] = [];
+    let cursor: string | null = targetId;
+    while (cursor) {
+      const step: { parentId: string | null; viaEdgeId: string | null } = reached.get(cursor)!;
+      nodeIds.unshift(cursor);
+      if (step.viaEdgeId) edgeIds.unshift(step.viaEdgeId);
+      cursor = step.parentId;
+    }
+    return { nodeIds, edgeIds };
+  };
+
+  const relatedNodes = Array.from(reached.entries())
+    .filter(([id]) => nodesById.has(id))
+    .map(([id, step]) => {
+      const node = nodesById.get(id)!;
+      const path = pathTo(id);
+      return {
+        id: node.id,
+        type: node.type,
+        title: node.title,
+        description: node.description,
+        depth: step.depth,
+        path: path.nodeIds,
+        pathEdges: path.edgeIds,
+      };
+    });
+
+  const edges = Array.from(traversedEdges.values())
+    .filter((conn) => nodesById.has(conn.source_id) && nodesById.has(conn.target_id))
+    .map((conn) => ({
+      id: conn.id,
+      sourceId: conn.source_id,
+      targetId: conn.target_id,
+      type: edgeTypeOf(conn),
+      label: conn.label ?? null,
+    }));
+
   return {
     startNode: {
       id: startNode.id,
@@ -100,13 +121,10 @@ export async function getRelationshipTraversal(
       title: startNode.title,
       description: startNode.description,
     },
-    relatedNodes: relatedNodes.map((node) => ({
-      id: node.id,
-      type: node.type,
-      title: node.title,
-      description: node.description,
-      depth: node.depth,
-    })),
+    relatedNodes,
+    edges,
+    direction,
+    edgeTypes: edgeTypes ? Array.from(edgeTypes) : null,
     count: relatedNodes.length,
   };
 }
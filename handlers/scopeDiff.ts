@@ -0,0 +1,187 @@
+import {
+  getScopeRepository,
+  type ScopeContext,
+  type ScopeRepository,
+  type ProjectVersionRow,
+} from '../scope-repository.js';
+
+type Row = { id?: string; [column: string]: unknown };
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RowDiff<T> {
+  added: T[];
+  removed: T[];
+  modified: Array<{ id: string; before: T; after: T; changes: FieldChange[] }>;
+}
+
+/** Columns that change on every save and say nothing about scope. */
+const IGNORED_FIELDS = new Set(['created_at', 'updated_at']);
+
+/** JSON with sorted object keys, so equal values compare equal regardless of key order. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function rowKey(row: Row): string {
+  if (typeof row.id === 'string') return row.id;
+  return `${String(row.source_id)}->${String(row.target_id)}`;
+}
+
+/**
+ * Added, removed and modified rows between two lists, matched by id. With
+ * `columns`, only those fields are compared (e.g. the columns a version
+ * snapshot stored, when diffing it against live rows that have more).
+ */
+export function diffRows<T extends Row>(before: T[], after: T[], columns?: Set<string>): RowDiff<T> {
+  const beforeById = new Map(before.map((row) => [rowKey(row), row]));
+  const afterById = new Map(after.map((row) => [rowKey(row), row]));
+
+  const diff: RowDiff<T> = { added: [], removed: [], modified: [] };
+
+  for (const [id, row] of afterById) {
+    if (!beforeById.has(id)) diff.added.push(row);
+  }
+  for (const [id, row] of beforeById) {
+    const next = afterById.get(id);
+    if (!next) {
+      diff.removed.push(row);
+      continue;
+    }
+    const fields = new Set([...Object.keys(row), ...Object.keys(next)]);
+    const changes: FieldChange[] = [];
+    for (const field of fields) {
+      if (IGNORED_FIELDS.has(field) || (columns && !columns.has(field))) continue;
+      if (stableStringify(row[field]) !== stableStringify(next[field])) {
+        changes.push({ field, before: row[field] ?? null, after: next[field] ?? null });
+      }
+    }
+    if (changes.length > 0) diff.modified.push({ id, before: row, after: next, changes });
+  }
+
+  return diff;
+}
+
+interface SnapshotRows {
+  items: Row[];
+  connections: Row[];
+}
+
+/**
+ * Items and connections stored in project_versions.snapshot_data, written as
+ * `{ items: flowchart_items rows, connections: flowchart_connections rows }`
+ * (connections may be missing in snapshots of projects without any). Throws
+ * for anything else rather than diffing it as an empty project.
+ */
+function snapshotRows(version: ProjectVersionRow): SnapshotRows {
+  const snapshot = version.snapshot_data as Record<string, unknown> | null | undefined;
+  const isRows = (value: unknown): value is Row[] =>
+    Array.isArray(value) && value.every((row) => row !== null && typeof row === 'object' && !Array.isArray(row));
+  if (!snapshot || typeof snapshot !== 'object' || !isRows(snapshot.items)
+    || (snapshot.connections !== undefined && !isRows(snapshot.connections))) {
+    throw new Error(
+      `Version ${version.id} has an unrecognised snapshot (expected snapshot_data.items and snapshot_data.connections arrays)`
+    );
+  }
+  return { items: snapshot.items, connections: (snapshot.connections as Row[] | undefined) ?? [] };
+}
+
+/** Every column present in the given snapshot rows. */
+function snapshotColumns(...lists: Row[][]): Set<string> {
+  const columns = new Set<string>();
+  for (const rows of lists) {
+    for (const row of rows) Object.keys(row).forEach((column) => columns.add(column));
+  }
+  return columns;
+}
+
+function describeVersion(version: ProjectVersionRow) {
+  return {
+    versionId: version.id as string | null,
+    versionNumber: version.version_number,
+    versionName: version.version_name,
+    createdAt: version.created_at,
+    current: false,
+  };
+}
+
+export async function getScopeDiff(
+  ctx: ScopeContext,
+  fromVersionId: string,
+  toVersionId?: string,
+  repo: ScopeRepository = getScopeRepository()
+) {
+  const fromVersion = await repo.getVersion(ctx, fromVersionId);
+  if (!fromVersion) {
+    throw new Error(`Version ${fromVersionId} not found`);
+  }
+  const before = snapshotRows(fromVersion);
+
+  let after: SnapshotRows;
+  let to: ReturnType<typeof describeVersion>;
+  let afterIsSnapshot = false;
+  if (toVersionId) {
+    const toVersion = await repo.getVersion(ctx, toVersionId);
+    if (!toVersion) {
+      throw new Error(`Version ${toVersionId} not found`);
+    }
+    after = snapshotRows(toVersion);
+    afterIsSnapshot = true;
+    to = describeVersion(toVersion);
+  } else {
+    // Compare against the live project
+    const [items, connections] = await Promise.all([repo.listItems(ctx), repo.listConnections(ctx)]);
+    after = { items, connections };
+    to = { versionId: null, versionNumber: null, versionName: null, createdAt: new Date().toISOString(), current: true };
+  }
+
+  // Live rows carry columns a snapshot may not have stored; those are not changes
+  const items = diffRows(
+    before.items,
+    after.items,
+    snapshotColumns(before.items, ...(afterIsSnapshot ? [after.items] : []))
+  );
+  const connections = diffRows(
+    before.connections,
+    after.connections,
+    snapshotColumns(before.connections, ...(afterIsSnapshot ? [after.connections] : []))
+  );
+
+  const summarize = (row: Row) => ({ id: rowKey(row), type: row.type ?? null, title: row.title ?? null });
+
+  return {
+    from: describeVersion(fromVersion),
+    to,
+    items: {
+      added: items.added.map(summarize),
+      removed: items.removed.map(summarize),
+      modified: items.modified.map((m) => ({ ...summarize(m.after), changes: m.changes })),
+    },
+    connections: {
+      added: connections.added,
+      removed: connections.removed,
+      modified: connections.modified.map((m) => ({ id: m.id, changes: m.changes })),
+    },
+    // Items an agent should revisit: new or changed ones (removed items no longer exist)
+    affectedItemIds: [...items.added, ...items.modified.map((m) => m.after)].map(rowKey),
+    stats: {
+      itemsAdded: items.added.length,
+      itemsRemoved: items.removed.length,
+      itemsModified: items.modified.length,
+      connectionsAdded: connections.added.length,
+      connectionsRemoved: connections.removed.length,
+      connectionsModified: connections.modified.length,
+    },
+  };
+}
@@ -1,73 +1,29 @@
-import { createClient } from '@supabase/supabase-js';
+import { getScopeRepository, type ScopeContext, type ScopeRepository } from '../scope-repository.js';
+import { itemTags, nextCursor, pageWindow } from '../scope-search.js';
 
 export async function getScopeSlice(
-  projectId: string,
-  apiKey: string,
+  ctx: ScopeContext,
   filters?: {
     nodeId?: string;
     keyword?: string;
     tag?: string;
     nodeType?: string;
-  }
+    cursor?: string;
+    limit?: number;
+  },
+  repo: ScopeRepository = getScopeRepository()
 ) {
-  const supabaseUrl = process.env.SUPABASE_URL || '';
-  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
-  
-  const supabase = createClient(supabaseUrl, supabaseKey);
-
-  // Verify API key and get organization
-  const { data: org, error: orgError } = await supabase
-    .from('organizations')
-    .select('id')
-    .eq('api_key', apiKey)
-    .single();
-
-  if (orgError || !org) {
-    throw new Error('Invalid API key');
-  }
-
-  // Verify project access
-  const { data: project, error: projectError } = await supabase
-    .from('projects')
-    .select('id, organization_id')
-    .eq('id', projectId)
-    .eq('organization_id', org.id)
-    .single();
-
-  if (projectError || !project) {
-    throw new Error('Project not found or access denied');
-  }
-
-  // Build query
-  let query = supabase
-    .from('flowchart_items')
-    .select('*')
-    .eq('project_id', projectId);
-
-  // Apply filters
-  if (filters?.nodeId) {
-    query = query.eq('id', filters.nodeId);
-  }
-
-  if (filters?.nodeType) {
-    query = query.eq('type', filters.nodeType);
-  }
-
-  if (filters?.keyword) {
-    query = query.or(`title.ilike.%${filters.keyword}%,description.ilike.%${filters.keyword}%`);
-  }
-
-  // Note: Tag filtering would require a tags table/column
-  // For now, we'll skip tag filtering
-
-  const { data: items, error: itemsError } = await query.order('created_at', { ascending: true });
-
-  if (itemsError) {
-    throw new Error('Failed to fetch scope items');
-  }
+  const window = pageWindow(filters?.cursor, filters?.limit);
+  const { items: page, totalCount } = await repo.searchItems(ctx, {
+    id: filters?.nodeId,
+    type: filters?.nodeType,
+    keyword: filters?.keyword,
+    tag: filters?.tag,
+    ...window,
+  });
 
   return {
-    items: (items || []).map((item: any) => ({
+    items: page.map(({ item, score }) => ({
       id: item.id,
       type: item.type,
       title: item.title,
@@ -90,7 +46,11 @@ export async function getScopeSlice(
       }),
       externalIssueId: item.external_issue_id,
       externalIssueStatus: item.external_issue_status,
+      tags: itemTags(item),
+      ...(score !== null && { score }),
     })),
-    count: items?.length || 0,
+    count: page.length,
+    totalCount,
+    nextCursor: nextCursor(window.offset, page.length, totalCount),
   };
 }
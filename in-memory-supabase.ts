@@ -0,0 +1,504 @@
+/**
+ * In-memory Supabase stand-in for offline builds.
+ *
+ * Implements the subset of the supabase-js client the build runner and agent
+ * runners use: table queries (select/insert/update/upsert/delete with
+ * eq/neq/in/is/gt/gte/lt/lte/like/ilike/match filters, not(), PostgREST `or`
+ * filter strings, order, limit, range, single, maybeSingle, count/head),
+ * rpc, functions.invoke and the auth session calls. Rows live in plain arrays
+ * so a replay can seed them up front and inspect them afterwards.
+ */
+
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type Row = Record<string, any>;
+
+export interface QueryError {
+  message: string;
+  code?: string;
+}
+
+export interface QueryResult {
+  data: any;
+  error: QueryError | null;
+  count?: number | null;
+}
+
+export interface FunctionResult {
+  data?: unknown;
+  error?: QueryError | null;
+}
+
+export interface InMemorySupabaseOptions {
+  /** Identity columns per table (e.g. { build_logs: 'sequence' }), filled 1, 2, 3, ... on insert. */
+  identity?: Record<string, string>;
+}
+
+/** Edge Function stand-in. Receives the invoke body and the database, so it can write rows like the real function. */
+export type FunctionHandler = (body: any, db: InMemorySupabase) => FunctionResult | Promise<FunctionResult>;
+
+/** Postgres function stand-in for supabase.rpc. Receives the named arguments and the database. */
+export type RpcHandler = (args: Record<string, any>, db: InMemorySupabase) => unknown | Promise<unknown>;
+
+type Filter = (row: Row) => boolean;
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return (a as any) < (b as any) ? -1 : 1;
+}
+
+/** SQL LIKE pattern (`%`, `_`, backslash escapes) as an anchored regular expression. */
+function likePattern(pattern: string, caseInsensitive: boolean): RegExp {
+  const literal = (char: string) => char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) source += literal(pattern[++i]);
+    else if (char === '%') source += '.*';
+    else if (char === '_') source += '.';
+    else source += literal(char);
+  }
+  return new RegExp(`^${source}$`, caseInsensitive ? 'is' : 's');
+}
+
+/**
+ * Filter for a PostgREST operator. Values from filter strings arrive as text
+ * ('null', 'true', '(a,b)' for in), values from method calls as they were passed.
+ */
+function operatorFilter(column: string, operator: string, value: unknown): Filter {
+  const present = (row: Row) => row[column] !== null && row[column] !== undefined;
+  switch (operator) {
+    case 'eq':
+      return (row) => present(row) && String(row[column]) === String(value);
+    case 'neq':
+      return (row) => present(row) && String(row[column]) !== String(value);
+    case 'gt':
+      return (row) => present(row) && compare(row[column], value) > 0;
+    case 'gte':
+      return (row) => present(row) && compare(row[column], value) >= 0;
+    case 'lt':
+      return (row) => present(row) && compare(row[column], value) < 0;
+    case 'lte':
+      return (row) => present(row) && compare(row[column], value) <= 0;
+    case 'is': {
+      const expected = value === 'null' ? null : value === 'true' ? true : value === 'false' ? false : value;
+      return (row) => (row[column] ?? null) === expected;
+    }
+    case 'in': {
+      const values = Array.isArray(value) ? value.map(String) : parseList(String(value));
+      return (row) => present(row) && values.includes(String(row[column]));
+    }
+    case 'like':
+    case 'ilike': {
+      const regex = likePattern(String(value), operator === 'ilike');
+      return (row) => present(row) && regex.test(String(row[column]));
+    }
+    default:
+      throw new Error(`Filter operator "${operator}" is not supported offline`);
+  }
+}
+
+/** Split on `separator` outside double quotes and parentheses. */
+function splitTopLevel(input: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted && char === '\\' && i + 1 < input.length) {
+      current += char + input[++i];
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && char === '(') depth++;
+    else if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') && value.length >= 2
+    ? value.slice(1, -1).replace(/\\(.)/g, '$1')
+    : value;
+}
+
+/** `(a,"b,c")` → ['a', 'b,c']. */
+function parseList(value: string): string[] {
+  const inner = value.startsWith('(') && value.endsWith(')') ? value.slice(1, -1) : value;
+  return inner.length === 0 ? [] : splitTopLevel(inner, ',').map((item) => unquote(item.trim()));
+}
+
+/**
+ * Filter for a PostgREST logic string as passed to `.or()`: comma-separated
+ * `column.operator.value` conditions, each optionally prefixed with `not.`,
+ * plus nested `and(...)` / `or(...)` groups.
+ */
+function parseLogicFilter(expression: string, combine: 'and' | 'or'): Filter {
+  const conditions = splitTopLevel(expression, ',').map((part): Filter => {
+    const condition = part.trim();
+    const group = /^(not\.)?(and|or)\((.*)\)$/s.exec(condition);
+    if (group) {
+      const inner = parseLogicFilter(group[3], group[2] as 'and' | 'or');
+      return group[1] ? (row) => !inner(row) : inner;
+    }
+    const match = /^([^.]+)\.(not\.)?([a-z]+)\.(.*)$/s.exec(condition);
+    if (!match) throw new Error(`Unsupported filter condition: ${condition}`);
+    const [, column, negated, operator, rawValue] = match;
+    const filter = operatorFilter(column, operator, operator === 'in' ? rawValue : unquote(rawValue));
+    return negated ? (row) => !filter(row) : filter;
+  });
+  return combine === 'and'
+    ? (row) => conditions.every((condition) => condition(row))
+    : (row) => conditions.some((condition) => condition(row));
+}
+
+/** Keep only the selected columns; '*' (or nothing) keeps the whole row. */
+function project(row: Row, columns: string): Row {
+  const names = columns.split(',').map((c) => c.trim()).filter((c) => c.length > 0);
+  if (names.length === 0 || names.includes('*')) return clone(row);
+  const picked: Row = {};
+  for (const name of names) picked[name] = clone(row[name] ?? null);
+  return picked;
+}
+
+class InMemoryQueryBuilder implements PromiseLike<QueryResult> {
+  private operation: Operation = 'select';
+  private payload: Row[] = [];
+  private patch: Row = {};
+  private onConflict = 'id';
+  private columns = '*';
+  private returning = false;
+  private countRequested = false;
+  private head = false;
+  private filters: Filter[] = [];
+  private ordering: Array<{ column: string; ascending: boolean }> = [];
+  private limitCount: number | null = null;
+  private rangeBounds: [number, number] | null = null;
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private readonly db: InMemorySupabase, private readonly table: string) {}
+
+  select(columns: string = '*', options: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean } = {}): this {
+    if (this.operation === 'select') {
+      this.countRequested = !!options.count;
+      this.head = !!options.head;
+    } else {
+      this.returning = true;
+    }
+    this.columns = columns;
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.operation = 'insert';
+    this.payload = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}): this {
+    this.operation = 'upsert';
+    this.payload = Array.isArray(values) ? values : [values];
+    this.onConflict = options.onConflict ?? 'id';
+    return this;
+  }
+
+  update(values: Row): this {
+    this.operation = 'update';
+    this.patch = values;
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+
+  in(column: string, values: readonly unknown[]): this {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  is(column: string, value: null | boolean): this {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  gt(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined && compare(row[column], value) > 0);
+    return this;
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined && compare(row[column], value) >= 0);
+    return this;
+  }
+
+  lt(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined && compare(row[column], value) < 0);
+    return this;
+  }
+
+  lte(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== null && row[column] !== undefined && compare(row[column], value) <= 0);
+    return this;
+  }
+
+  like(column: string, pattern: string): this {
+    this.filters.push(operatorFilter(column, 'like', pattern));
+    return this;
+  }
+
+  ilike(column: string, pattern: string): this {
+    this.filters.push(operatorFilter(column, 'ilike', pattern));
+    return this;
+  }
+
+  /** Negate one operator, e.g. not('lease_expires_at', 'is', null). */
+  not(column: string, operator: string, value: unknown): this {
+    const filter = operatorFilter(column, operator, value);
+    this.filters.push((row) => !filter(row));
+    return this;
+  }
+
+  /** PostgREST logic string, e.g. or('status.eq.failed,retry_count.gt.2'). */
+  or(filters: string): this {
+    this.filters.push(parseLogicFilter(filters, 'or'));
+    return this;
+  }
+
+  match(query: Row): this {
+    for (const [column, value] of Object.entries(query)) this.eq(column, value);
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.rangeBounds = [from, to];
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private matches(row: Row): boolean {
+    return this.filters.every((filter) => filter(row));
+  }
+
+  private execute(): QueryResult {
+    const rows = this.db.table(this.table);
+    let affected: Row[];
+
+    switch (this.operation) {
+      case 'insert': {
+        affected = this.payload.map((values) => this.db.assignIdentity(this.table, { id: randomUUID(), ...clone(values) }));
+        rows.push(...affected);
+        break;
+      }
+      case 'upsert': {
+        affected = this.payload.map((values) => {
+          const existing = rows.find((row) => row[this.onConflict] !== undefined && row[this.onConflict] === values[this.onConflict]);
+          if (existing) {
+            Object.assign(existing, clone(values));
+            return existing;
+          }
+          const inserted = this.db.assignIdentity(this.table, { id: randomUUID(), ...clone(values) });
+          rows.push(inserted);
+          return inserted;
+        });
+        break;
+      }
+      case 'update': {
+        affected = rows.filter((row) => this.matches(row));
+        for (const row of affected) {
+          for (const [column, value] of Object.entries(this.patch)) {
+            // supabase-js drops undefined values when serializing the body
+            if (value !== undefined) row[column] = clone(value);
+          }
+        }
+        break;
+      }
+      case 'delete': {
+        affected = rows.filter((row) => this.matches(row));
+        this.db.replaceTable(this.table, rows.filter((row) => !affected.includes(row)));
+        break;
+      }
+      default: {
+        affected = rows.filter((row) => this.matches(row));
+      }
+    }
+
+    if (this.operation !== 'select' && !this.returning) {
+      return { data: null, error: null };
+    }
+
+    let result = [...affected];
+    for (const { column, ascending } of [...this.ordering].reverse()) {
+      result.sort((a, b) => (ascending ? 1 : -1) * compare(a[column], b[column]));
+    }
+    const count = result.length;
+    if (this.rangeBounds) result = result.slice(this.rangeBounds[0], this.rangeBounds[1] + 1);
+    if (this.limitCount !== null) result = result.slice(0, this.limitCount);
+
+    const data = result.map((row) => project(row, this.columns));
+    const countField = this.countRequested ? { count } : {};
+
+    if (this.head) return { data: null, error: null, ...countField };
+    if (this.cardinality === 'many') return { data, error: null, ...countField };
+    if (data.length === 1) return { data: data[0], error: null, ...countField };
+    if (data.length === 0 && this.cardinality === 'maybeSingle') return { data: null, error: null, ...countField };
+    return {
+      data: null,
+      error: { code: 'PGRST116', message: `JSON object requested, multiple (or no) rows returned (${data.length} rows)` },
+    };
+  }
+}
+
+export class InMemorySupabase {
+  private readonly tables = new Map<string, Row[]>();
+  private readonly functionHandlers = new Map<string, FunctionHandler>();
+  private readonly rpcHandlers = new Map<string, RpcHandler>();
+  private readonly identity: Record<string, string>;
+  private readonly identityCounters = new Map<string, number>();
+  /** Every functions.invoke call, in order. */
+  readonly invocations: Array<{ name: string; body: unknown }> = [];
+  /** Every rpc call, in order. */
+  readonly rpcCalls: Array<{ name: string; args: Record<string, any> }> = [];
+
+  readonly functions = {
+    invoke: async (name: string, options: { body?: unknown } = {}): Promise<{ data: any; error: QueryError | null }> => {
+      this.invocations.push({ name, body: clone(options.body) });
+      const handler = this.functionHandlers.get(name);
+      if (!handler) {
+        return { data: null, error: { message: `Edge Function ${name} is not available offline` } };
+      }
+      const result = await handler(clone(options.body), this);
+      return { data: clone(result.data ?? null), error: result.error ?? null };
+    },
+  };
+
+  /** No user session offline; the build runner treats that as header-based auth. */
+  readonly auth = {
+    getSession: async () => ({ data: { session: null }, error: null }),
+    refreshSession: async () => ({ data: { session: null, user: null }, error: null }),
+  };
+
+  constructor(seed: Record<string, Row[]> = {}, options: InMemorySupabaseOptions = {}) {
+    this.identity = options.identity ?? {};
+    for (const [name, rows] of Object.entries(seed)) {
+      this.tables.set(name, rows.map((row) => this.assignIdentity(name, { id: randomUUID(), ...clone(row) })));
+    }
+  }
+
+  from(table: string): InMemoryQueryBuilder {
+    return new InMemoryQueryBuilder(this, table);
+  }
+
+  /** Call a registered Postgres function stand-in; a throwing handler becomes the error. */
+  async rpc(name: string, args: Record<string, any> = {}): Promise<QueryResult> {
+    this.rpcCalls.push({ name, args: clone(args) });
+    const handler = this.rpcHandlers.get(name);
+    if (!handler) {
+      return { data: null, error: { code: 'PGRST202', message: `Function ${name} is not available offline` } };
+    }
+    try {
+      return { data: clone((await handler(clone(args), this)) ?? null), error: null };
+    } catch (err) {
+      return { data: null, error: { message: err instanceof Error ? err.message : String(err) } };
+    }
+  }
+
+  /** Live rows of a table (created empty on first use). */
+  table(name: string): Row[] {
+    let rows = this.tables.get(name);
+    if (!rows) {
+      rows = [];
+      this.tables.set(name, rows);
+    }
+    return rows;
+  }
+
+  /** Fill the table's identity column (if any) unless the row already has a value. */
+  assignIdentity(table: string, row: Row): Row {
+    const column = this.identity[table];
+    if (!column) return row;
+    const last = this.identityCounters.get(table) ?? 0;
+    if (typeof row[column] === 'number') {
+      this.identityCounters.set(table, Math.max(last, row[column]));
+    } else {
+      row[column] = last + 1;
+      this.identityCounters.set(table, last + 1);
+    }
+    return row;
+  }
+
+  replaceTable(name: string, rows: Row[]): void {
+    this.tables.set(name, rows);
+  }
+
+  registerFunction(name: string, handler: FunctionHandler): void {
+    this.functionHandlers.set(name, handler);
+  }
+
+  registerRpc(name: string, handler: RpcHandler): void {
+    this.rpcHandlers.set(name, handler);
+  }
+
+  /** Deep copy of every table, for assertions or writing out a snapshot. */
+  snapshot(): Record<string, Row[]> {
+    return Object.fromEntries(Array.from(this.tables.entries()).map(([name, rows]) => [name, clone(rows)]));
+  }
+
+  /** Typed as the real client so it can be passed to runBuildLoop and the agent runners. */
+  asClient(): SupabaseClient {
+    return this as unknown as SupabaseClient;
+  }
+}
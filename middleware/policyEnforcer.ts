@@ -3,7 +3,7 @@
  * Enforces scoped retrieval policies
  */
 
-import { createClient } from '@supabase/supabase-js';
+import { getScopeSupabaseClient, type AccessPolicy } from '../scope-repository.js';
 
 export interface PolicyCheck {
   allowed: boolean;
@@ -16,10 +16,7 @@ export async function checkPolicy(
   projectId?: string,
   projectSize?: number
 ): Promise<PolicyCheck> {
-  const supabaseUrl = process.env.SUPABASE_URL || '';
-  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
-  
-  const supabase = createClient(supabaseUrl, supabaseKey);
+  const supabase = getScopeSupabaseClient();
 
   // Get access policy
   const { data: policy, error } = await supabase.rpc('get_mcp_access_policy', {
@@ -31,7 +28,7 @@ export async function checkPolicy(
     return { allowed: true };
   }
 
-  const p = policy[0];
+  const p: AccessPolicy = policy[0];
 
   // Check if endpoint is allowed
   if (p.allowed_endpoints && p.allowed_endpoints.length > 0) {
@@ -43,9 +40,9 @@ export async function checkPolicy(
     }
   }
 
-  // Check historical access
+  // Check historical access (version diffs read historical snapshots too)
   if (
-    endpoint.includes('historical') &&
+    (endpoint.includes('historical') || endpoint === 'diff') &&
     p.allow_historical_access === false
   ) {
     return {
@@ -3,17 +3,14 @@
  * Checks rate limits before processing requests
  */
 
-import { createClient } from '@supabase/supabase-js';
+import { getScopeSupabaseClient } from '../scope-repository.js';
 
 export async function checkRateLimit(
   organizationId: string,
   apiKey: string,
   endpoint: string
 ): Promise<{ allowed: boolean; remaining: number; limit: number }> {
-  const supabaseUrl = process.env.SUPABASE_URL || '';
-  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
-  
-  const supabase = createClient(supabaseUrl, supabaseKey);
+  const supabase = getScopeSupabaseClient();
 
   // Check rate limit
   const { data: allowed, error } = await supabase.rpc('check_mcp_rate_limit', {
@@ -62,10 +59,7 @@ export async function logAccess(
   success: boolean,
   responseTimeMs?: number
 ): Promise<void> {
-  const supabaseUrl = process.env.SUPABASE_URL || '';
-  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
-  
-  const supabase = createClient(supabaseUrl, supabaseKey);
+  const supabase = getScopeSupabaseClient();
 
   await supabase.rpc('log_mcp_access', {
     p_organization_id: organizationId,
@@ -0,0 +1,152 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import path from 'path';
+import { buildAgentEnv } from '../worker-sandbox.js';
+import { isWindows, toWslPath, platformCommand } from './wsl.js';
+import type { AgentProvider, AgentRunOptions, AgentRunResult, StreamParserContext } from './types.js';
+
+const execAsync = promisify(exec);
+
+const PROMPT_FILE = '.claude-prompt.tmp';
+
+// 'auto' and the other Cursor-specific model names are not recognized by the Claude CLI
+const INVALID_CLAUDE_MODELS = new Set(['auto', 'composer-1.5', 'composer-2', 'gpt-5', 'grok', 'gemini-3-pro']);
+const DEFAULT_CLAUDE_MODEL = 'opus';
+const ALLOWED_TOOLS = 'Bash,Read,Edit,Write,MultiEdit,Glob,Grep';
+
+/** Project-level directives; Claude Code reads CLAUDE.md automatically. */
+const CLAUDE_MD = `# Project Instructions
+
+- TypeScript strict mode — fix all type errors
+- Use existing patterns, conventions, and file structure in the codebase
+- Do NOT start dev servers or run interactive/long-running commands
+- Do NOT run \`npm run dev\`, \`npm start\`, \`yarn dev\`, or similar
+- Apply all changes directly to files
+- Follow the Design_reference.md when available
+- Ensure all imports resolve correctly
+- Prefer small, focused changes over large rewrites
+`;
+
+export const claudeCodeProvider: AgentProvider = {
+  id: 'claude-code',
+  label: 'Claude Code',
+  buildLogPrefix: '[Claude]',
+  // Falls back to the server's own `claude auth login` session when no per-user key is set
+  requiresApiKey: false,
+  apiKeyArg: 'claudeApiKey',
+  contextFile: { path: 'CLAUDE.md', content: CLAUDE_MD },
+
+  async detect() {
+    let version: string;
+    try {
+      const { stdout } = await execAsync(platformCommand('claude --version'));
+      version = stdout.trim();
+    } catch {
+      return { available: false, reason: 'Claude Code CLI not found. Install with: npm install -g @anthropic-ai/claude-code' };
+    }
+
+    try {
+      await execAsync(platformCommand('claude auth status'));
+      return { available: true, version };
+    } catch {
+      return { available: false, version, reason: 'Claude Code CLI found but NOT authenticated. Run: claude auth login' };
+    }
+  },
+
+  apiKeyEnv(apiKey): Record<string, string> {
+    const key = typeof apiKey === 'string' ? apiKey.trim() : '';
+    return key ? { ANTHROPIC_API_KEY: key } : {};
+  },
+
+  resolveModel(model) {
+    return model && !INVALID_CLAUDE_MODELS.has(model) ? model : DEFAULT_CLAUDE_MODEL;
+  },
+
+  async prepare(options: AgentRunOptions) {
+    const projectPath = path.resolve(options.projectPath);
+    const promptFile = path.join(projectPath, PROMPT_FILE);
+    await fs.writeFile(promptFile, options.prompt, 'utf-8');
+
+    const flags = `--output-format stream-json --verbose --max-turns 25 --model ${this.resolveModel(options.model)} --allowedTools '${ALLOWED_TOOLS}'`;
+    const command = isWindows()
+      ? `wsl -d Ubuntu bash -c "cd '${toWslPath(projectPath)}' && claude -p \\\"$(cat ${PROMPT_FILE})\\\" ${flags}"`
+      : `cd '${projectPath}' && claude -p "$(cat ${PROMPT_FILE})" ${flags}`;
+
+    const keyEnv = this.apiKeyEnv(options.apiKey);
+    console.log(`[MCP Server] Using ${keyEnv.ANTHROPIC_API_KEY ? 'user-provided Anthropic API key' : 'server default Anthropic auth'} for Claude Code`);
+
+    return {
+      command,
+      cwd: isWindows() ? undefined : projectPath,
+      env: buildAgentEnv(keyEnv),
+      cleanup: () => fs.unlink(promptFile).catch(() => {}),
+    };
+  },
+
+  createStreamParser(ctx: StreamParserContext) {
+    return {
+      onEvent(event: any, elapsed: string) {
+        if (event.type === 'assistant') {
+          const content = event.message?.content;
+          let text = '';
+          if (typeof content === 'string') {
+            text = content;
+          } else if (Array.isArray(content)) {
+            text = content
+              .filter((c: any) => c.type === 'text' && typeof c.text === 'string')
+              .map((c: any) => c.text)
+              .join('');
+          }
+          if (text) {
+            process.stdout.write(text.substring(0, 200));
+            ctx.appendAssistant(text, elapsed);
+          }
+          const toolUses = Array.isArray(content)
+            ? content.filter((c: any) => c.type === 'tool_use')
+            : [];
+          for (const tool of toolUses) {
+            ctx.flushAssistant(elapsed);
+            const toolName = tool.name || 'unknown';
+            const toolInput = JSON.stringify(tool.input || {}).substring(0, 200);
+            console.log(`[Claude] Tool: ${toolName} ${toolInput}`);
+            ctx.addLog('agent_tool_call', `${toolName}: ${toolInput}`, { elapsed, tool: toolName, raw: tool });
+          }
+        } else if (event.type === 'result') {
+          ctx.flushAssistant(elapsed);
+          const costUsd = event.cost_usd;
+          const durationMs = event.duration_ms;
+          const numTurns = event.num_turns;
+          const subtype = event.subtype || 'unknown';
+          const resultText = typeof event.result === 'string' ? event.result.substring(0, 300) : '';
+          const msg = `Result: ${subtype} (turns: ${numTurns}, cost: $${costUsd?.toFixed(4) ?? '?'}, duration: ${durationMs ?? '?'}ms)`;
+          console.log(`[Claude] ${msg}`);
+          ctx.addLog('agent_completion', msg, { elapsed, costUsd, durationMs, numTurns, subtype, resultPreview: resultText });
+        } else if (event.type === 'system') {
+          ctx.flushAssistant(elapsed);
+          const msg = event.message || JSON.stringify(event);
+          console.log(`[Claude] System: ${msg}`);
+          ctx.addLog('agent_status', msg, { elapsed, raw: event });
+        } else {
+          ctx.flushAssistant(elapsed);
+          const info = JSON.stringify(event).substring(0, 200);
+          console.log(`[Claude] ${event.type || 'Event'}: ${info}`);
+          ctx.addLog('agent_event', info, { elapsed, eventType: event.type });
+        }
+      },
+    };
+  },
+
+  extractResult(run: AgentRunResult) {
+    const result = [...run.logs].reverse().find((l) => l.type === 'agent_completion');
+    if (!result) {
+      return { completed: false };
+    }
+    return {
+      completed: !run.timedOut && result.data?.subtype === 'success',
+      summary: result.data?.resultPreview || result.message,
+      costUsd: result.data?.costUsd,
+      numTurns: result.data?.numTurns,
+    };
+  },
+};
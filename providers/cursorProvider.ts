@@ -0,0 +1,160 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import path from 'path';
+import { buildAgentEnv } from '../worker-sandbox.js';
+import { isWindows, toWslPath, platformCommand } from './wsl.js';
+import type { AgentProvider, AgentRunOptions, AgentRunResult, StreamParserContext } from './types.js';
+
+const execAsync = promisify(exec);
+
+// Available models: auto, composer-2, sonnet-4.5, sonnet-4.5-thinking, gpt-5, opus-4.1, grok, gemini-3-pro, composer-1.5
+export const DEFAULT_CURSOR_AGENT_MODEL = 'composer-2';
+
+const PROMPT_FILE = '.cursor-prompt.tmp';
+
+function extractAssistantText(payload: any): string {
+  if (!payload || typeof payload !== 'object') return '';
+  const message = payload.message;
+  if (message && typeof message === 'object') {
+    const content = message.content;
+    if (typeof content === 'string') return content;
+    if (Array.isArray(content)) {
+      return content
+        .map((item: any) => (typeof item?.text === 'string' ? item.text : ''))
+        .join('');
+    }
+  }
+  if (typeof payload.content === 'string') return payload.content;
+  if (typeof payload.text === 'string') return payload.text;
+  if (typeof payload.delta === 'string') return payload.delta;
+  return '';
+}
+
+export const cursorProvider: AgentProvider = {
+  id: 'cursor',
+  label: 'Cursor Agent',
+  buildLogPrefix: '[Agent]',
+  requiresApiKey: true,
+  apiKeyArg: 'cursorApiKey',
+  storedApiKeyTable: 'cursor_api_keys',
+  devServerPatterns: [
+    /shellToolCall[^}]*"command"[^}]*npm\s+run\s+dev/i, // shellToolCall with npm run dev
+  ],
+
+  async detect() {
+    const bin = isWindows() ? '~/.local/bin/cursor-agent' : 'cursor-agent';
+    try {
+      const { stdout } = await execAsync(platformCommand(`${bin} --version`));
+      return { available: true, version: stdout.trim() };
+    } catch {
+      const install = isWindows()
+        ? 'wsl -d Ubuntu bash -c "curl https://cursor.com/install -fsS | bash"'
+        : 'curl https://cursor.com/install -fsS | bash';
+      return { available: false, reason: `Cursor Agent CLI not found. Install with: ${install}` };
+    }
+  },
+
+  apiKeyEnv(apiKey): Record<string, string> {
+    return apiKey ? { CURSOR_API_KEY: apiKey } : {};
+  },
+
+  resolveModel(model) {
+    return model || DEFAULT_CURSOR_AGENT_MODEL;
+  },
+
+  async prepare(options: AgentRunOptions) {
+    const projectPath = path.resolve(options.projectPath);
+    // Save prompt to a temporary file to avoid command-line length issues
+    const promptFile = path.join(projectPath, PROMPT_FILE);
+    await fs.writeFile(promptFile, options.prompt, 'utf-8');
+
+    // Use --print flag for non-interactive mode, --force to allow commands
+    const flags = `--print --output-format stream-json --stream-partial-output --force --model ${this.resolveModel(options.model)}`;
+    let command: string;
+    if (isWindows()) {
+      const wslProjectPath = toWslPath(projectPath);
+      // Use export inside the bash -c string (single-quoted value) instead of --api-key "..." because
+      // double quotes inside a double-quoted bash -c string break cmd.exe parsing on Windows.
+      const wslEnvPrefix = options.apiKey ? `export CURSOR_API_KEY='${options.apiKey}' && ` : '';
+      command = `wsl -d Ubuntu bash -c "${wslEnvPrefix}cd '${wslProjectPath}' && cat '${wslProjectPath}/${PROMPT_FILE}' | ~/.local/bin/cursor-agent ${flags}"`;
+    } else {
+      command = `cat ${PROMPT_FILE} | cursor-agent ${flags}`;
+    }
+
+    return {
+      command,
+      cwd: isWindows() ? undefined : projectPath,
+      // Per-user key only (no server fallback)
+      env: buildAgentEnv(this.apiKeyEnv(options.apiKey)),
+      cleanup: () => fs.unlink(promptFile).catch(() => {}),
+    };
+  },
+
+  createStreamParser(ctx: StreamParserContext) {
+    return {
+      onEvent(event: any, elapsed: string) {
+        // Log different event types with appropriate formatting
+        if (event.type === 'status') {
+          ctx.flushAssistant(elapsed);
+          const msg = event.message || JSON.stringify(event);
+          console.log(`[Cursor Agent] Status: ${msg}`);
+          ctx.addLog('agent_status', msg, { elapsed, raw: event });
+        } else if (event.type === 'file_change' || event.type === 'file') {
+          ctx.flushAssistant(elapsed);
+          const filePath = event.path || event.file || JSON.stringify(event);
+          console.log(`[Cursor Agent] File: ${filePath}`);
+          ctx.addLog('agent_file', `File modified: ${filePath}`, { elapsed, path: filePath, raw: event });
+        } else if (event.type === 'thinking' || event.type === 'thought') {
+          ctx.flushAssistant(elapsed);
+          const thought = event.content || event.message || '...';
+          console.log(`[Cursor Agent] Thinking: ${thought}`);
+          ctx.addLog('agent_thinking', thought, { elapsed, raw: event });
+        } else if (event.type === 'error') {
+          ctx.flushAssistant(elapsed);
+          const errMsg = event.message || JSON.stringify(event);
+          console.error(`[Cursor Agent] Error: ${errMsg}`);
+          ctx.addLog('agent_error', errMsg, { elapsed, raw: event });
+        } else if (event.type === 'completion' || event.type === 'done') {
+          ctx.flushAssistant(elapsed);
+          const msg = event.message || 'Done';
+          console.log(`[Cursor Agent] Completed: ${msg}`);
+          ctx.addLog('agent_completion', msg, { elapsed, raw: event });
+        } else if (event.type === 'delta' || event.type === 'text_delta') {
+          // Text deltas - accumulate for a single assistant log
+          const deltaText = event.content || event.text || event.delta || '';
+          if (deltaText) {
+            process.stdout.write(deltaText);
+            ctx.appendAssistant(deltaText, elapsed);
+          }
+        } else if (event.type === 'tool_call') {
+          ctx.flushAssistant(elapsed);
+          // Capture tool calls (important for debugging)
+          const toolInfo = JSON.stringify(event).substring(0, 200);
+          const tool = event.name || event.tool || Object.keys(event.tool_call ?? {})[0] || 'unknown';
+          console.log(`[Cursor Agent] Tool Call: ${toolInfo}`);
+          ctx.addLog('agent_tool_call', toolInfo, { elapsed, tool, raw: event });
+        } else if (event.type === 'assistant') {
+          // Capture assistant messages (aggregate chunks)
+          const content = extractAssistantText(event);
+          console.log(`[Cursor Agent] Assistant: ${content.substring(0, 100)}`);
+          ctx.appendAssistant(content, elapsed);
+        } else {
+          ctx.flushAssistant(elapsed);
+          const eventInfo = JSON.stringify(event).substring(0, 200);
+          console.log(`[Cursor Agent] ${event.type || 'Event'}: ${eventInfo}`);
+          ctx.addLog('agent_event', eventInfo, { elapsed, eventType: event.type, raw: event });
+        }
+      },
+    };
+  },
+
+  extractResult(run: AgentRunResult) {
+    const completion = [...run.logs].reverse().find((l) => l.type === 'agent_completion');
+    const lastAssistant = [...run.logs].reverse().find((l) => l.type === 'agent_assistant');
+    return {
+      completed: !run.timedOut && (!!completion || run.exitCode === 0),
+      summary: completion?.message ?? lastAssistant?.message,
+    };
+  },
+};
@@ -0,0 +1,62 @@
+/**
+ * Agent provider registry.
+ *
+ * Builds store a provider id (automated_builds.provider or configuration.provider);
+ * everything that runs an agent looks the implementation up here instead of
+ * branching on the id. Built-in providers are registered on import; others
+ * (e.g. a replay provider in tests) are added with registerProvider.
+ */
+
+import { cursorProvider } from './cursorProvider.js';
+import { claudeCodeProvider } from './claudeCodeProvider.js';
+import type { AgentProvider, ProviderId, ProviderDetection } from './types.js';
+
+export const DEFAULT_PROVIDER_ID: ProviderId = 'cursor';
+
+const providers = new Map<ProviderId, AgentProvider>();
+
+export function registerProvider(provider: AgentProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function unregisterProvider(id: ProviderId): void {
+  providers.delete(id);
+}
+
+export function hasProvider(id: ProviderId): boolean {
+  return providers.has(id);
+}
+
+export function getProvider(id: ProviderId): AgentProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown agent provider: ${id}`);
+  }
+  return provider;
+}
+
+export function listProviders(): AgentProvider[] {
+  return Array.from(providers.values());
+}
+
+/** Registered provider id for a stored value, falling back to the default for unknown or empty values. */
+export function resolveProviderId(value: unknown): ProviderId {
+  return typeof value === 'string' && providers.has(value) ? value : DEFAULT_PROVIDER_ID;
+}
+
+/** Detect every registered provider. Never throws; failures count as unavailable. */
+export async function detectProviders(): Promise<Record<ProviderId, ProviderDetection>> {
+  const entries = await Promise.all(
+    listProviders().map(async (provider) => {
+      try {
+        return [provider.id, await provider.detect()] as const;
+      } catch (error) {
+        return [provider.id, { available: false, reason: error instanceof Error ? error.message : String(error) }] as const;
+      }
+    })
+  );
+  return Object.fromEntries(entries);
+}
+
+registerProvider(cursorProvider);
+registerProvider(claudeCodeProvider);
@@ -0,0 +1,63 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { buildAgentEnv } from '../worker-sandbox.js';
+import type { AgentProvider, AgentRunOptions } from './types.js';
+
+export interface ReplayProviderOptions {
+  /** Provider id to register under (e.g. 'replay'). */
+  id: string;
+  /**
+   * Recorded stdout of a real run: either the raw stream (one JSON event per line)
+   * or a function returning it per prompt.
+   */
+  recording: string | ((options: AgentRunOptions) => string | Promise<string>);
+  /** Provider whose stream format the recording uses; its parser and result extraction are reused. */
+  parseAs: AgentProvider;
+}
+
+/**
+ * Fake provider that replays a recorded agent stream instead of calling a CLI.
+ * The recording is piped through the same process runner and parser as a real
+ * run, so timeouts, buffering and build_logs streaming are exercised as well.
+ * Not registered by default — tests and replay builds register it explicitly.
+ */
+export function createReplayProvider(options: ReplayProviderOptions): AgentProvider {
+  const { parseAs } = options;
+  return {
+    id: options.id,
+    label: `Replay (${parseAs.label})`,
+    buildLogPrefix: parseAs.buildLogPrefix,
+    requiresApiKey: false,
+    devServerPatterns: parseAs.devServerPatterns,
+
+    async detect() {
+      return { available: true, version: 'replay' };
+    },
+
+    apiKeyEnv() {
+      return {};
+    },
+
+    resolveModel: (model) => parseAs.resolveModel(model),
+
+    async prepare(runOptions) {
+      const recording = typeof options.recording === 'function'
+        ? await options.recording(runOptions)
+        : options.recording;
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-replay-'));
+      const file = path.join(dir, 'stream.jsonl');
+      await fs.writeFile(file, recording, 'utf-8');
+      return {
+        command: `cat '${file}'`,
+        cwd: path.resolve(runOptions.projectPath),
+        env: buildAgentEnv(),
+        readOnly: [dir],
+        cleanup: () => fs.rm(dir, { recursive: true, force: true }),
+      };
+    },
+
+    createStreamParser: (ctx) => parseAs.createStreamParser(ctx),
+    extractResult: (run) => parseAs.extractResult(run),
+  };
+}
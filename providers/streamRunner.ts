@@ -0,0 +1,242 @@
+import { spawn } from 'child_process';
+import path from 'path';
+import { prepareAgentSandbox, type AgentSandbox } from '../worker-sandbox.js';
+import { isWindows } from './wsl.js';
+import type { AgentProvider, AgentRunOptions, AgentRunResult, AgentLogEntry } from './types.js';
+
+/** 5 min of no output = stalled (agents have long silent coding phases). */
+const INACTIVITY_TIMEOUT_MS = 300_000;
+
+/** Commands that start a dev server, which never exits and would hang the agent until timeout. */
+const DEV_SERVER_PATTERNS = [
+  /"command"\s*:\s*"[^"]*npm\s+run\s+(dev|start)[^"]*"/i,
+  /"command"\s*:\s*"[^"]*(yarn|pnpm)\s+dev[^"]*"/i,
+];
+
+/**
+ * Run a provider's CLI for one prompt with real-time streaming output.
+ * Parses the JSON stream through the provider's parser and logs every event as it occurs.
+ * When onBuildLog is provided (e.g. from automated build), each event is also sent to
+ * build_logs for realtime following. Resolves on exit (including timeouts, so partial
+ * work can be captured); rejects only when the process cannot be spawned.
+ */
+export async function runAgentStreaming(
+  provider: AgentProvider,
+  options: AgentRunOptions
+): Promise<AgentRunResult> {
+  const spec = await provider.prepare(options);
+  const { onBuildLog } = options;
+  let sandbox: AgentSandbox | undefined;
+  if (!isWindows()) {
+    try {
+      sandbox = await prepareAgentSandbox(['/bin/sh', '-c', spec.command], {
+        cwd: spec.cwd ?? path.resolve(options.projectPath),
+        buildId: options.buildId,
+        readOnly: spec.readOnly,
+      });
+    } catch (err) {
+      await spec.cleanup?.();
+      throw err;
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+    let stdoutBuffer = '';
+    let timedOut = false;
+    const logs: AgentLogEntry[] = [];
+    const startTime = Date.now();
+    let assistantBuffer = '';
+    let assistantChunkCount = 0;
+    let assistantLastElapsed: string | undefined;
+
+    const compactForBuildLog = (text: string): string =>
+      text.replace(/\s+/g, ' ').trim();
+
+    // Helper to add log entry and optionally stream to build_logs
+    const addLog = (type: string, message: string, data?: any) => {
+      const entry: AgentLogEntry = { timestamp: new Date().toISOString(), type, message, data };
+      logs.push(entry);
+      if (onBuildLog) {
+        const level = type === 'agent_error' || type === 'warning' ? 'error' : 'info';
+        const safeMessage = type === 'agent_assistant' ? compactForBuildLog(message) : message;
+        const line = `${provider.buildLogPrefix} ${type}: ${safeMessage}`.substring(0, 500);
+        Promise.resolve(onBuildLog(line, level, entry)).catch(() => {});
+      }
+    };
+
+    const appendAssistant = (text: string, elapsed?: string) => {
+      if (!text) return;
+      const normalized = text.replace(/\r\n/g, '\n');
+      if (!normalized) return;
+      assistantBuffer += normalized;
+      assistantChunkCount += 1;
+      if (elapsed) assistantLastElapsed = elapsed;
+    };
+
+    const flushAssistant = (elapsed?: string) => {
+      if (!assistantBuffer) return;
+      const normalized = assistantBuffer.replace(/\r\n/g, '\n').trim();
+      if (normalized) {
+        addLog('agent_assistant', normalized, { elapsed: elapsed || assistantLastElapsed, chunks: assistantChunkCount });
+      }
+      assistantBuffer = '';
+      assistantChunkCount = 0;
+      assistantLastElapsed = undefined;
+    };
+
+    const parser = provider.createStreamParser({ addLog, appendAssistant, flushAssistant });
+
+    console.log(`[MCP Server] Starting ${provider.label} with streaming output...`);
+    addLog('info', `Starting ${provider.label} with streaming output`);
+
+    // Spawn the process (empty args array to avoid DEP0190 deprecation with shell: true);
+    // elsewhere than Windows it runs in the project sandbox, in the build's cgroup when there is one
+    const childProcess = sandbox
+      ? spawn(sandbox.command, sandbox.args, { cwd: spec.cwd, stdio: ['ignore', 'pipe', 'pipe'], env: spec.env })
+      : spawn(spec.command, [], { cwd: spec.cwd, shell: true, stdio: ['ignore', 'pipe', 'pipe'], env: spec.env });
+
+    // ── Kill helper shared by both timeout paths ──
+    const killProcess = (reason: string) => {
+      if (timedOut) return; // already handled
+      timedOut = true;
+      console.log(`[MCP Server] ${reason}`);
+      addLog('warning', reason);
+      addLog('info', 'Capturing partial work before timeout termination');
+      childProcess.kill('SIGTERM');
+      setTimeout(() => {
+        if (!childProcess.killed) {
+          childProcess.kill('SIGKILL');
+          addLog('warning', `Force killed ${provider.label} process`);
+        }
+      }, 5000);
+    };
+
+    // Set up hard wall-clock timeout
+    const timeoutHandle = setTimeout(() => {
+      killProcess(`${provider.label} timed out (hard timeout), terminating process...`);
+    }, options.timeout);
+
+    // Set up inactivity timeout — resets on every stdout/stderr data event
+    const stallMessage = `${provider.label} stalled — no output for ${INACTIVITY_TIMEOUT_MS / 1000}s. Killing.`;
+    let inactivityHandle = setTimeout(() => killProcess(stallMessage), INACTIVITY_TIMEOUT_MS);
+
+    const resetInactivityTimer = () => {
+      clearTimeout(inactivityHandle);
+      inactivityHandle = setTimeout(() => killProcess(stallMessage), INACTIVITY_TIMEOUT_MS);
+    };
+
+    const devServerPatterns = [...DEV_SERVER_PATTERNS, ...(provider.devServerPatterns ?? [])];
+
+    // Process stdout line by line for JSON streaming
+    childProcess.stdout?.on('data', (data: Buffer) => {
+      resetInactivityTimer();
+      const text = data.toString();
+      stdout += text;
+      stdoutBuffer += text;
+
+      if (devServerPatterns.some((pattern) => pattern.test(text))) {
+        const alertMsg = `ALERT: ${provider.label} is trying to run a dev server!`;
+        console.error(`[MCP Server] ${alertMsg}`);
+        addLog('error', alertMsg);
+        addLog('warning', `Will kill ${provider.label} in 10 seconds to prevent hang`);
+
+        // Give the agent 10 seconds to stop on its own, then force kill
+        setTimeout(() => {
+          if (!childProcess.killed) {
+            const killMsg = `Force-killing ${provider.label} to prevent dev server hang!`;
+            console.error(`[MCP Server] ${killMsg}`);
+            addLog('error', killMsg);
+            childProcess.kill('SIGKILL');
+          }
+        }, 10000);
+      }
+
+      // Process complete lines
+      const lines = stdoutBuffer.split('\n');
+      stdoutBuffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+
+        let event: any;
+        try {
+          event = JSON.parse(line);
+        } catch {
+          // Not JSON or malformed - log as plain text
+          flushAssistant();
+          console.log(`[${provider.label}] ${line}`);
+          addLog('agent_output', line);
+          continue;
+        }
+        parser.onEvent(event, ((Date.now() - startTime) / 1000).toFixed(1));
+      }
+    });
+
+    // Capture stderr
+    childProcess.stderr?.on('data', (data: Buffer) => {
+      resetInactivityTimer();
+      const text = data.toString();
+      stderr += text;
+
+      const lines = text.split('\n').filter((l) => l.trim());
+      for (const line of lines) {
+        flushAssistant();
+        console.error(`[${provider.label}] stderr: ${line}`);
+        addLog('agent_stderr', line);
+      }
+    });
+
+    // Handle process completion
+    childProcess.on('close', (code, signal) => {
+      clearTimeout(timeoutHandle);
+      clearTimeout(inactivityHandle);
+      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+      flushAssistant(elapsed);
+
+      // Process any remaining buffer
+      if (stdoutBuffer.trim()) {
+        try {
+          const event = JSON.parse(stdoutBuffer);
+          const preview = JSON.stringify(event).substring(0, 200);
+          console.log(`[${provider.label}] Final: ${preview}`);
+          addLog('agent_final', preview, { raw: event });
+        } catch {
+          console.log(`[${provider.label}] ${stdoutBuffer}`);
+          addLog('agent_output', stdoutBuffer);
+        }
+      }
+
+      spec.cleanup?.().catch(() => {});
+      sandbox?.cleanup();
+
+      if (timedOut) {
+        const msg = `${provider.label} timed out but may have completed work`;
+        console.log(`[MCP Server] ⚠ ${msg}`);
+        addLog('warning', msg, { elapsed, exitCode: code, signal });
+      } else if (code !== 0 && code !== null) {
+        const msg = `${provider.label} exited with code ${code}`;
+        console.log(`[MCP Server] ${msg}`);
+        addLog('warning', msg, { elapsed, exitCode: code, signal });
+      } else {
+        const msg = `${provider.label} completed successfully`;
+        console.log(`[MCP Server] ✓ ${msg}`);
+        addLog('success', msg, { elapsed, exitCode: code, totalLogs: logs.length });
+      }
+      resolve({ stdout, stderr, logs, exitCode: code, timedOut });
+    });
+
+    // Handle process errors
+    childProcess.on('error', (error) => {
+      clearTimeout(timeoutHandle);
+      clearTimeout(inactivityHandle);
+      const errMsg = `${provider.label} process error: ${error.message}`;
+      console.error(`[MCP Server] ❌ ${errMsg}`);
+      addLog('error', errMsg, { error: error.message });
+      spec.cleanup?.().catch(() => {});
+      sandbox?.cleanup();
+      reject(error);
+    });
+  });
+}
@@ -0,0 +1,122 @@
+/**
+ * Agent provider contract — one implementation per coding-agent CLI.
+ *
+ * A provider knows how to detect its CLI, build the spawn command for a prompt,
+ * inject the per-user API key, turn the CLI's stdout stream into log events and
+ * summarize the run. The process itself (timeouts, stall detection, buffering)
+ * is handled once by runAgentStreaming in streamRunner.ts.
+ */
+
+/** Provider identifier as stored on automated_builds.provider / configuration.provider. */
+export type ProviderId = string;
+
+/** Execute-prompt argument that carries a provider's per-user API key. */
+export type ApiKeyArg = 'cursorApiKey' | 'claudeApiKey';
+
+/** Project instructions file the CLI reads on its own (e.g. CLAUDE.md). */
+export interface ProviderContextFile {
+  /** Path relative to the project root. */
+  path: string;
+  content: string;
+}
+
+export interface AgentLogEntry {
+  timestamp: string;
+  type: string;
+  message: string;
+  data?: any;
+}
+
+/** Receives each log line; `entry` carries the event type and data for typed build events. */
+export type BuildLogFn = (message: string, level?: 'info' | 'error', entry?: AgentLogEntry) => void | Promise<void>;
+
+export interface AgentRunOptions {
+  prompt: string;
+  /** Absolute project path. */
+  projectPath: string;
+  timeout: number;
+  model?: string;
+  /** Per-user API key for this provider (injected via apiKeyEnv). */
+  apiKey?: string;
+  onBuildLog?: BuildLogFn;
+  /** Build the prompt runs for; the agent shares its sandbox limits (worker-sandbox.ts). */
+  buildId?: string;
+}
+
+export interface AgentRunResult {
+  stdout: string;
+  stderr: string;
+  logs: AgentLogEntry[];
+  exitCode: number | null;
+  timedOut: boolean;
+}
+
+/** What a provider's CLI reported about the finished run. */
+export interface AgentResultSummary {
+  completed: boolean;
+  summary?: string;
+  costUsd?: number;
+  numTurns?: number;
+}
+
+export interface ProviderDetection {
+  available: boolean;
+  version?: string;
+  /** Why the provider is unavailable (not installed, not authenticated, ...). */
+  reason?: string;
+}
+
+/** Prepared process for one prompt. */
+export interface AgentSpawnSpec {
+  command: string;
+  cwd?: string;
+  /** Allow-listed environment (buildAgentEnv), never the dispatcher's own. */
+  env: Record<string, string>;
+  /** Files outside the project the command reads (e.g. under /tmp), kept visible in the sandbox. */
+  readOnly?: string[];
+  /** Remove temp files written by prepare(). */
+  cleanup?: () => Promise<void>;
+}
+
+/** Callbacks a stream parser uses to report what it saw. */
+export interface StreamParserContext {
+  addLog(type: string, message: string, data?: any): void;
+  /** Accumulate assistant text; it is logged as one agent_assistant entry on flush. */
+  appendAssistant(text: string, elapsed?: string): void;
+  flushAssistant(elapsed?: string): void;
+}
+
+export interface StreamParser {
+  /** Handle one JSON event from stdout. Non-JSON lines are logged by the runner. */
+  onEvent(event: any, elapsed: string): void;
+}
+
+export interface AgentProvider {
+  id: ProviderId;
+  /** Human-readable name for logs ("Cursor Agent", "Claude Code"). */
+  label: string;
+  /** Prefix for lines streamed to build_logs ("[Agent]", "[Claude]"). */
+  buildLogPrefix: string;
+  /** Whether prompts must be refused when no per-user API key is available. */
+  requiresApiKey: boolean;
+  /** Execute-prompt argument the per-user API key arrives in. */
+  apiKeyArg?: ApiKeyArg;
+  /**
+   * Table of encrypted per-user keys (user_id, api_key_ciphertext, revoked_at)
+   * read when the request carries no key.
+   */
+  storedApiKeyTable?: string;
+  /** Written into the project, when missing, before the CLI runs. */
+  contextFile?: ProviderContextFile;
+  /** Extra stdout patterns that mean the agent is starting a long-running dev server. */
+  devServerPatterns?: RegExp[];
+
+  detect(): Promise<ProviderDetection>;
+  /** Environment variables that carry the per-user API key. */
+  apiKeyEnv(apiKey?: string): Record<string, string>;
+  /** Model the CLI runs with for a requested one (its default when none or an unsupported one is given). */
+  resolveModel(model?: string): string;
+  prepare(options: AgentRunOptions): Promise<AgentSpawnSpec>;
+  createStreamParser(ctx: StreamParserContext): StreamParser;
+  extractResult(run: AgentRunResult): AgentResultSummary;
+}
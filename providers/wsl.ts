@@ -0,0 +1,18 @@
+/**
+ * On Windows the agent CLIs run inside WSL (Ubuntu); these helpers translate
+ * paths and wrap commands accordingly.
+ */
+
+export const isWindows = (): boolean => process.platform === 'win32';
+
+/** C:\work\app → /mnt/c/work/app */
+export function toWslPath(windowsPath: string): string {
+  return windowsPath
+    .replace(/\\/g, '/')
+    .replace(/^([A-Z]):/i, (_: string, drive: string) => `/mnt/${drive.toLowerCase()}`);
+}
+
+/** Run a shell command inside WSL on Windows, as-is elsewhere. */
+export function platformCommand(command: string): string {
+  return isWindows() ? `wsl -d Ubuntu bash -c "${command}"` : command;
+}
@@ -0,0 +1,250 @@
+/**
+ * replay-build.ts — Deterministic offline build replay.
+ *
+ * Runs runBuildLoop (and with it the scope-check, design, UI design improvements
+ * and debug agents) against an InMemorySupabase seeded from a recording, with an
+ * ExecutePromptFn that applies the recorded file patches for each prompt instead
+ * of calling an agent CLI. No network, no cursor-agent, no Supabase project.
+ *
+ * Usage:
+ *   npm run replay -- path/to/recording.json [projectPath]
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import {
+  runBuildLoop,
+  type BuildCursorConfig,
+  type BuildExecutePromptArgs,
+  type CreateProjectFn,
+  type ExecutePromptFn,
+} from './build-runner.js';
+import type { FoundIssue, ProjectChecksFn } from './debug-agent-runner.js';
+import { InMemorySupabase, type FunctionResult, type Row } from './in-memory-supabase.js';
+
+/** A file written (full content) or deleted by a recorded prompt. Paths are relative to the project. */
+export interface FilePatch {
+  path: string;
+  content?: string;
+  delete?: boolean;
+}
+
+export interface RecordedPrompt {
+  /** Substring of the prompt this entry answers. Entries without one answer the next unmatched prompt in order. */
+  match?: string;
+  patches: FilePatch[];
+  /** Defaults to true. */
+  success?: boolean;
+  error?: string;
+  output?: string;
+}
+
+export interface RecordedFunctionCall extends FunctionResult {
+  /** Rows the real Edge Function would have written (e.g. design_audit_results). */
+  insert?: Record<string, Row[]>;
+}
+
+export interface BuildRecording {
+  buildId: string;
+  /** Seed rows per table: the automated_builds row for buildId, flowchart_items, projects, ... */
+  tables: Record<string, Row[]>;
+  /** Files written by create-project. */
+  scaffold?: FilePatch[];
+  prompts: RecordedPrompt[];
+  /** Edge Function responses per function name, returned in order; the last one repeats. */
+  functions?: Record<string, RecordedFunctionCall[]>;
+  /** Debug Agent check results per cycle; cycles past the end are clean. */
+  debugChecks?: FoundIssue[][];
+}
+
+export interface ReplayPromptCall {
+  prompt: string;
+  context?: string;
+  /** Index into recording.prompts, or null when nothing matched. */
+  recordingIndex: number | null;
+  filesChanged: string[];
+}
+
+/** Resolve a patch path inside the project, refusing anything that escapes it. */
+function resolveInProject(projectPath: string, relativePath: string): string {
+  const root = path.resolve(projectPath);
+  const target = path.resolve(root, relativePath);
+  if (target !== root && !target.startsWith(root + path.sep)) {
+    throw new Error(`Patch path escapes the project directory: ${relativePath}`);
+  }
+  return target;
+}
+
+/** Apply file patches to a project; returns the changed paths. */
+export async function applyPatches(projectPath: string, patches: FilePatch[]): Promise<string[]> {
+  const changed: string[] = [];
+  for (const patch of patches) {
+    const target = resolveInProject(projectPath, patch.path);
+    if (patch.delete) {
+      await fs.rm(target, { force: true });
+    } else {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, patch.content ?? '', 'utf-8');
+    }
+    changed.push(patch.path);
+  }
+  return changed;
+}
+
+/** MCP tool result in the shape server.ts returns from execute-prompt. */
+const toMcpResult = (payload: Record<string, unknown>) => ({
+  content: [{ type: 'text', text: JSON.stringify(payload) }],
+});
+
+/**
+ * ExecutePromptFn that answers each prompt from the recording. Matching entries
+ * are consumed once; an unanswered prompt fails the step like a failed agent run.
+ */
+export function createReplayExecutePromptFn(
+  prompts: RecordedPrompt[],
+  calls: ReplayPromptCall[] = []
+): ExecutePromptFn {
+  const consumed = new Set<number>();
+
+  return async (args: BuildExecutePromptArgs) => {
+    let index = prompts.findIndex((p, i) => !consumed.has(i) && !!p.match && args.prompt.includes(p.match));
+    if (index === -1) {
+      index = prompts.findIndex((p, i) => !consumed.has(i) && !p.match);
+    }
+
+    if (index === -1) {
+      calls.push({ prompt: args.prompt, context: args.context, recordingIndex: null, filesChanged: [] });
+      return toMcpResult({
+        success: false,
+        error: `No recorded response for prompt: ${args.prompt.substring(0, 80)}`,
+        filesChanged: [],
+        timeElapsed: 0,
+      });
+    }
+
+    consumed.add(index);
+    const recorded = prompts[index];
+    const filesChanged = await applyPatches(args.projectPath, recorded.patches);
+    calls.push({ prompt: args.prompt, context: args.context, recordingIndex: index, filesChanged });
+
+    const success = recorded.success ?? true;
+    return toMcpResult({
+      success,
+      output: recorded.output ?? '',
+      error: success ? null : (recorded.error ?? 'Recorded prompt failed'),
+      filesChanged,
+      timeElapsed: 0,
+    });
+  };
+}
+
+/** CreateProjectFn that creates the directory and writes the recorded scaffold. */
+export function createReplayCreateProjectFn(scaffold: FilePatch[] = []): CreateProjectFn {
+  return async (config: BuildCursorConfig) => {
+    await fs.mkdir(config.projectPath, { recursive: true });
+    const filesChanged = await applyPatches(config.projectPath, scaffold);
+    return toMcpResult({ success: true, projectPath: config.projectPath, filesChanged });
+  };
+}
+
+/** Debug Agent checks that return the recorded issues for each cycle. */
+export function createReplayProjectChecks(debugChecks: FoundIssue[][] = []): ProjectChecksFn {
+  return async (_projectPath: string, cycle: number) => debugChecks[cycle - 1] ?? [];
+}
+
+/** Register the recorded Edge Function responses on the in-memory database. */
+export function registerRecordedFunctions(
+  db: InMemorySupabase,
+  functions: Record<string, RecordedFunctionCall[]> = {}
+): void {
+  for (const [name, responses] of Object.entries(functions)) {
+    let next = 0;
+    db.registerFunction(name, (_body, database) => {
+      if (responses.length === 0) return { data: null, error: { message: `No recorded response for ${name}` } };
+      const response = responses[Math.min(next, responses.length - 1)];
+      next++;
+      for (const [table, rows] of Object.entries(response.insert ?? {})) {
+        database.table(table).push(...rows.map((row) => JSON.parse(JSON.stringify(row))));
+      }
+      return { data: response.data, error: response.error ?? null };
+    });
+  }
+}
+
+export interface ReplayBuildResult {
+  db: InMemorySupabase;
+  projectPath: string;
+  calls: ReplayPromptCall[];
+  /** automated_builds row after the run. */
+  build: Row | undefined;
+}
+
+/** Run a whole recorded build offline. */
+export async function runReplayBuild(
+  recording: BuildRecording,
+  options: { projectPath?: string } = {}
+): Promise<ReplayBuildResult> {
+  const db = new InMemorySupabase(recording.tables, { identity: { build_logs: 'sequence' } });
+  registerRecordedFunctions(db, recording.functions);
+
+  const projectPath = options.projectPath
+    ?? path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'replay-build-')), 'project');
+  const calls: ReplayPromptCall[] = [];
+
+  await runBuildLoop(db.asClient(), recording.buildId, {
+    createProjectFn: createReplayCreateProjectFn(recording.scaffold),
+    executePromptFn: createReplayExecutePromptFn(recording.prompts, calls),
+    configOverrides: { projectPath },
+    projectChecks: createReplayProjectChecks(recording.debugChecks),
+  });
+
+  return {
+    db,
+    projectPath,
+    calls,
+    build: db.table('automated_builds').find((row) => row.id === recording.buildId),
+  };
+}
+
+// ──── CLI ────
+function countBy(rows: Row[], key: (row: Row) => string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const row of rows) counts[key(row)] = (counts[key(row)] ?? 0) + 1;
+  return counts;
+}
+
+async function main(): Promise<void> {
+  const [recordingPath, projectPath] = process.argv.slice(2);
+  if (!recordingPath) {
+    console.error('Usage: npm run replay -- <recording.json> [projectPath]');
+    process.exit(1);
+  }
+
+  const recording = JSON.parse(await fs.readFile(recordingPath, 'utf-8')) as BuildRecording;
+  const { db, calls, build, projectPath: resolvedPath } = await runReplayBuild(recording, { projectPath });
+
+  const steps = db.table('build_steps');
+  console.log(JSON.stringify({
+    event: 'replay_done',
+    buildId: recording.buildId,
+    status: build?.status ?? null,
+    projectPath: resolvedPath,
+    prompts: calls.length,
+    unmatchedPrompts: calls.filter((c) => c.recordingIndex === null).length,
+    steps: steps.length,
+    failedSteps: steps.filter((s) => s.status === 'failed').length,
+    logs: db.table('build_logs').length,
+    events: countBy(db.table('build_logs'), (row) => row.event_type ?? 'log'),
+  }, null, 2));
+
+  process.exit(build?.status === 'completed' ? 0 : 1);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((err) => {
+    console.error('[Replay] Fatal error:', err);
+    process.exit(1);
+  });
+}
@@ -1,21 +1,9 @@
-import { SupabaseClient } from '@supabase/supabase-js';
-import { withTimeout, type ExecutePromptFn, type BuildExecutePromptArgs, type BuildProvider } from './build-runner.js';
-
-interface ScopeCheckAgentOptions {
-  supabase: SupabaseClient;
-  buildId: string;
-  projectId: string;
-  projectPath: string;
-  executePromptFn: ExecutePromptFn;
-  model?: string;
-  cursorApiKey?: string;
-  claudeApiKey?: string;
-  provider?: BuildProvider;
-  githubAuth?: { gitHubToken?: string; gitUserName?: string; gitUserEmail?: string };
-  userId: string;
-  shouldStop?: () => boolean;
-  resolveModelForStep?: (baseModel: string | undefined) => Promise<string | undefined>;
-}
+import { withTimeout, type BuildExecutePromptArgs } from './build-runner.js';
+import { BuildEventEmitter } from './build-events.js';
+import { checkpointBuildStep, commitPendingChanges } from './build-checkpoints.js';
+import { canUseWorktrees, commitWorktree, createWorktree, mergeWorktree, pushProject, removeWorktree, type ProjectWorktree } from './build-worktrees.js';
+import { isDependencyOrderEnabled, loadDependencyGraph, orderByDependencies, type DependencyCycle, type DependencyGraphConnection } from './build-order.js';
+import type { AgentPhaseOptions } from './build-phases.js';
 
 interface GeneratePagePromptResponse {
   success: boolean;
@@ -27,25 +15,134 @@ interface GeneratePagePromptResponse {
   apisCount?: number;
 }
 
-export async function runScopeCheckAgent(options: ScopeCheckAgentOptions): Promise<void> {
+export interface ScopePage {
+  id: string;
+  title: string | null;
+}
+
+export interface ScopeCheckPages {
+  pages: ScopePage[];
+  /** Pages that depend on each other (build-order.ts); they keep their sequence_order. */
+  cycles: DependencyCycle[];
+  /** Whether dependency order moved any page. */
+  reordered: boolean;
+  /** Page id → pages it depends on (empty without dependency order). */
+  dependencies: Map<string, Set<string>>;
+  connections: DependencyGraphConnection[];
+  /** Why the connections could not be read; pages then run in sequence_order, one at a time. */
+  graphError?: string;
+}
+
+interface PagePrompt {
+  promptContent: string;
+  promptId: string;
+}
+
+/** Parallel pages when MCP_SCOPE_CHECK_MAX_PARALLEL is not set. */
+const DEFAULT_MAX_PARALLEL_PAGES = 4;
+
+/**
+ * Pages to run at once: configuration.automationSettings.scopeCheckParallelPages,
+ * capped by MCP_SCOPE_CHECK_MAX_PARALLEL. 1 (the default) runs pages one at a time.
+ */
+function getParallelPageLimit(configuration: Record<string, unknown> | null | undefined): number {
+  const settings = configuration?.automationSettings as { scopeCheckParallelPages?: unknown } | undefined;
+  const requested = Number(settings?.scopeCheckParallelPages);
+  if (!Number.isFinite(requested) || requested <= 1) return 1;
+  const max = Number(process.env.MCP_SCOPE_CHECK_MAX_PARALLEL) || DEFAULT_MAX_PARALLEL_PAGES;
+  return Math.max(1, Math.floor(Math.min(requested, max)));
+}
+
+/**
+ * The pages in scope in the order the agent implements them: sequence_order,
+ * then dependency order (build-order.ts) unless the build turns it off.
+ */
+export async function loadScopeCheckPages(
+  supabase: AgentPhaseOptions['supabase'],
+  projectId: string,
+  configuration: Record<string, unknown> | null | undefined
+): Promise<ScopeCheckPages> {
+  const { data } = await supabase
+    .from('flowchart_items')
+    .select('id, title, description, page_type, elements')
+    .eq('project_id', projectId)
+    .eq('type', 'page')
+    .order('sequence_order', { ascending: true });
+  const pages = (data ?? []) as ScopePage[];
+  if (pages.length === 0) return { pages, cycles: [], reordered: false, dependencies: new Map(), connections: [] };
+
+  try {
+    const graph = await loadDependencyGraph(supabase, projectId);
+    if (!isDependencyOrderEnabled(configuration)) {
+      return { pages, cycles: [], reordered: false, dependencies: new Map(), connections: graph.connections };
+    }
+    const { items, cycles, reordered, dependencies } = orderByDependencies(pages, graph);
+    return { pages: items, cycles, reordered, dependencies, connections: graph.connections };
+  } catch (err) {
+    const graphError = err instanceof Error ? err.message : String(err);
+    return { pages, cycles: [], reordered: false, dependencies: new Map(), connections: [], graphError };
+  }
+}
+
+/**
+ * Split pages (in run order) into runs of consecutive pages, at most `limit`
+ * long, in which no page is connected to or depends on another, so a page
+ * always starts after the pages it is connected to have been merged.
+ */
+function batchIndependentPages(
+  pages: ScopePage[],
+  connections: DependencyGraphConnection[],
+  dependencies: Map<string, Set<string>>,
+  limit: number
+): ScopePage[][] {
+  const linked = new Map<string, Set<string>>();
+  for (const { source_id, target_id } of connections) {
+    if (!linked.has(source_id)) linked.set(source_id, new Set());
+    if (!linked.has(target_id)) linked.set(target_id, new Set());
+    linked.get(source_id)!.add(target_id);
+    linked.get(target_id)!.add(source_id);
+  }
+
+  const batches: ScopePage[][] = [];
+  let batch: ScopePage[] = [];
+  for (const page of pages) {
+    const dependent = (other: ScopePage) =>
+      linked.get(page.id)?.has(other.id) || dependencies.get(page.id)?.has(other.id) || dependencies.get(other.id)?.has(page.id);
+    if (batch.length >= limit || batch.some(dependent)) {
+      batches.push(batch);
+      batch = [];
+    }
+    batch.push(page);
+  }
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
+
+/**
+ * Implement every page in scope, one build step per page, in dependency order
+ * (loadScopeCheckPages).
+ *
+ * With a parallel page limit above 1 and a git project, consecutive pages that
+ * are not connected to each other run concurrently, each in its own worktree
+ * (build-worktrees.ts). Their branches are merged back in that order; a
+ * page whose merge conflicts is re-run on the merged project. The merges are
+ * pushed once per batch when the build has a GitHub token, as prompts run in
+ * the project are.
+ */
+export async function runScopeCheckAgent(options: AgentPhaseOptions): Promise<void> {
   const {
     supabase, buildId, projectId, projectPath,
     executePromptFn, model, cursorApiKey, claudeApiKey, provider, githubAuth, userId, shouldStop,
-    resolveModelForStep,
+    resolveModelForStep, configuration,
   } = options;
 
   let effectiveModel = model;
 
+  const events = options.events ?? new BuildEventEmitter(supabase, buildId, 'scope-check');
+
   const log = (msg: string, level: 'info' | 'warn' | 'error' = 'info') => {
     console.error(`[ScopeCheckAgent] ${msg}`);
-    supabase.from('build_logs').insert({
-      build_id: buildId,
-      log_type: 'build_log',
-      source: 'scope-check',
-      level,
-      message: msg,
-      created_at: new Date().toISOString(),
-    }).then(() => {});
+    void events.log(msg, level, { source: 'scope-check' });
   };
 
   log('Scope-Check Agent starting...');
@@ -59,14 +156,9 @@ export async function runScopeCheckAgent(options: ScopeCheckAgentOptions): Promi
     current_agent_phase: 'scope-check',
   }).eq('id', buildId);
 
-  const { data: pages } = await supabase
-    .from('flowchart_items')
-    .select('id, title, description, page_type, elements')
-    .eq('project_id', projectId)
-    .eq('type', 'page')
-    .order('sequence_order', { ascending: true });
+  const { pages, cycles, reordered, dependencies, connections, graphError } = await loadScopeCheckPages(supabase, projectId, configuration);
 
-  if (!pages || pages.length === 0) {
+  if (pages.length === 0) {
     log('No pages in scope. Skipping scope-check phase.');
     await supabase.from('automated_builds').update({
       scope_check_completed_at: new Date().toISOString(),
@@ -81,14 +173,17 @@ export async function runScopeCheckAgent(options: ScopeCheckAgentOptions): Promi
   }).eq('id', buildId);
 
   log(`Found ${pages.length} pages in scope.`);
+  if (graphError) log(`Flowchart connections unavailable, using sequence order: ${graphError}`, 'warn');
+  if (reordered) log(`Pages ordered by their flowchart dependencies: ${pages.map((page) => page.title).join(', ')}`);
+  for (const cycle of cycles) {
+    log(`Dependency cycle between pages, kept in sequence order: ${cycle.titles.join(', ')}`, 'warn');
+  }
 
   let completedPages = 0;
 
-  for (const page of pages) {
-    if (shouldStop?.()) {
-      log('Stop requested; exiting scope-check phase.');
-      return;
-    }
+  /** Whether to stop processing pages: a stop request or a cancelled build. */
+  const interrupted = async (): Promise<boolean> => {
+    if (shouldStop?.()) return true;
     const { data: buildCheck } = await supabase
       .from('automated_builds')
       .select('status')
@@ -97,11 +192,13 @@ export async function runScopeCheckAgent(options: ScopeCheckAgentOptions): Promi
 
     if (buildCheck?.status === 'cancelled') {
       log('Build cancelled, exiting scope-check loop.');
-      break;
+      return true;
     }
+    return false;
+  };
 
-    log(`Processing page: ${page.title}`);
-
+  /** The page's generated prompt, or null when there is nothing to run (skipped pages count as completed). */
+  const generatePrompt = async (page: ScopePage): Promise<PagePrompt | null> => {
     const { data: promptResult, error: promptErr } = await supabase.functions.invoke(
       'generate-page-prompt',
       { body: { projectId, pageId: page.id, buildId } },
@@ -109,7 +206,7 @@ export async function runScopeCheckAgent(options: ScopeCheckAgentOptions): Promi
 
     if (promptErr || !promptResult?.success) {
       log(`Failed to generate prompt for ${page.title}: ${promptErr?.message ?? promptResult?.error ?? 'unknown error'}`, 'error');
-      continue;
+      return null;
     }
 
     const typedPromptResult = promptResult as GeneratePagePromptResponse;
@@ -120,7 +217,7 @@ export async function runScopeCheckAgent(options: ScopeCheckAgentOptions): Promi
       await supabase.from('automated_builds').update({
         scope_check_pages_completed: completedPages,
       }).eq('id', buildId);
-      continue;
+      return null;
     }
 
     const promptContent = typedPromptResult.promptNode?.prompt_content ?? '';
@@ -128,31 +225,38 @@ export async function runScopeCheckAgent(options: ScopeCheckAgentOptions): Promi
 
     if (!promptContent || !promptId) {
       log(`Prompt generation returned empty content for ${page.title}. Skipping.`, 'warn');
-      continue;
-    }
-
-    if (resolveModelForStep) {
-      effectiveModel = (await resolveModelForStep(effectiveModel)) ?? effectiveModel;
+      return null;
     }
+    return { promptContent, promptId };
+  };
 
-    let stepRowId: string | null = null;
+  const startStep = async (prompt: PagePrompt, stepNumber: number): Promise<string | null> => {
     try {
       const { data: stepRow } = await supabase.from('build_steps').insert({
         build_id: buildId,
-        step_number: completedPages + 1,
-        prompt_id: promptId,
-        prompt_content: promptContent,
+        step_number: stepNumber,
+        prompt_id: prompt.promptId,
+        prompt_content: prompt.promptContent,
         prompt_source: 'generated',
         agent_phase: 'scope-check',
         status: 'running',
         started_at: new Date().toISOString(),
       }).select().single();
-      stepRowId = stepRow?.id ?? null;
-    } catch { /* non-blocking */ }
+      return stepRow?.id ?? null;
+    } catch {
+      return null; /* non-blocking */
+    }
+  };
+
+  /** Run the page's prompt in `cwd` (the project or a worktree of it; worktree runs are not auto-committed). */
+  const executePage = async (page: ScopePage, prompt: PagePrompt, cwd: string): Promise<unknown> => {
+    if (resolveModelForStep) {
+      effectiveModel = (await resolveModelForStep(effectiveModel)) ?? effectiveModel;
+    }
 
     const args: BuildExecutePromptArgs = {
-      prompt: promptContent,
-      projectPath,
+      prompt: prompt.promptContent,
+      projectPath: cwd,
       timeout: 300000,
       context: `Scope-Check: ${page.title}`,
       isFirstPrompt: false,
@@ -163,18 +267,23 @@ export async function runScopeCheckAgent(options: ScopeCheckAgentOptions): Promi
       supabaseClient: supabase,
       userId,
       buildId,
-      promptId,
+      promptId: prompt.promptId,
+      phase: 'scope-check',
     };
+    if (cwd !== projectPath) args.autoCommit = false;
     if (githubAuth?.gitHubToken) args.gitHubToken = githubAuth.gitHubToken;
     if (githubAuth?.gitUserName) args.gitUserName = githubAuth.gitUserName;
     if (githubAuth?.gitUserEmail) args.gitUserEmail = githubAuth.gitUserEmail;
 
-    const result = await withTimeout(executePromptFn(args), 780_000, 'scope-check');
+    return withTimeout(executePromptFn(args), 780_000, 'scope-check');
+  };
 
+  /** Record the page's outcome once its changes are in the project. */
+  const finishPage = async (page: ScopePage, prompt: PagePrompt, stepRowId: string | null, result: unknown): Promise<void> => {
     if (result) {
       await supabase.from('flowchart_items')
         .update({ is_implemented: true, implementation_verified: false })
-        .eq('id', promptId);
+        .eq('id', prompt.promptId);
     }
 
     if (stepRowId) {
@@ -182,6 +291,7 @@ export async function runScopeCheckAgent(options: ScopeCheckAgentOptions): Promi
         status: result ? 'completed' : 'failed',
         completed_at: new Date().toISOString(),
       }).eq('id', stepRowId);
+      if (result) await checkpointBuildStep(supabase, projectPath, buildId, stepRowId);
     }
 
     completedPages++;
@@ -190,6 +300,125 @@ export async function runScopeCheckAgent(options: ScopeCheckAgentOptions): Promi
     }).eq('id', buildId);
 
     log(`${page.title}: ${result ? 'completed' : 'failed'} (${completedPages}/${pages.length})`);
+  };
+
+  const runPage = async (page: ScopePage): Promise<void> => {
+    log(`Processing page: ${page.title}`);
+    const prompt = await generatePrompt(page);
+    if (!prompt) return;
+    const stepRowId = await startStep(prompt, completedPages + 1);
+    const result = await executePage(page, prompt, projectPath);
+    await finishPage(page, prompt, stepRowId, result);
+  };
+
+  /** Run the batch's pages concurrently in worktrees, merge them in order, then push. */
+  const runParallelBatch = async (batch: ScopePage[]): Promise<void> => {
+    // Worktrees start from HEAD, so earlier pages' uncommitted work must be in it
+    await commitPendingChanges(projectPath, 'Scope-check: changes before parallel pages').catch((err) => {
+      log(`Committing pending changes before parallel pages failed: ${err instanceof Error ? err.message : String(err)}`, 'warn');
+    });
+    log(`Processing ${batch.length} pages in parallel: ${batch.map((page) => page.title).join(', ')}`);
+
+    const firstStepNumber = completedPages + 1;
+    const runs = await Promise.all(batch.map(async (page, i) => {
+      const prompt = await generatePrompt(page).catch((err) => {
+        log(`Failed to generate prompt for ${page.title}: ${err instanceof Error ? err.message : String(err)}`, 'error');
+        return null;
+      });
+      if (!prompt) return null;
+      let worktree: ProjectWorktree | null = null;
+      try {
+        worktree = await createWorktree(projectPath, buildId, page.id);
+      } catch (err) {
+        log(`Could not create a worktree for ${page.title}; it will run after the batch: ${err instanceof Error ? err.message : String(err)}`, 'warn');
+        return { page, prompt, worktree, stepRowId: null, result: null as unknown };
+      }
+      const stepRowId = await startStep(prompt, firstStepNumber + i);
+      let result: unknown = null;
+      try {
+        result = await executePage(page, prompt, worktree.path);
+        if (result) await commitWorktree(worktree, `Scope-check: ${page.title}`);
+      } catch (err) {
+        log(`${page.title} failed in its worktree: ${err instanceof Error ? err.message : String(err)}`, 'error');
+        result = null;
+      }
+      return { page, prompt, worktree, stepRowId, result };
+    }));
+
+    let mergedAny = false;
+    for (const run of runs) {
+      if (!run) continue;
+      const { page, prompt, worktree } = run;
+      let { stepRowId, result } = run;
+      let finished = false;
+      // Each run cleans up after itself, so one failing page neither stops the batch nor leaks worktrees
+      try {
+        if (worktree && result) {
+          const merge = await mergeWorktree(projectPath, worktree, `Scope-check: ${page.title}`);
+          if (merge.merged) {
+            mergedAny = true;
+            finished = true;
+            await finishPage(page, prompt, stepRowId, result);
+            continue;
+          }
+          if (shouldStop?.()) {
+            log(`${page.title} could not be merged (${merge.message}) and is not re-run: stop requested.`, 'warn');
+            finished = true;
+            await finishPage(page, prompt, stepRowId, null);
+            continue;
+          }
+          log(`${page.title} could not be merged (${merge.message}); re-running it on the merged project.`, 'warn');
+        } else if (worktree) {
+          finished = true;
+          await finishPage(page, prompt, stepRowId, result);
+          continue;
+        }
+
+        if (stepRowId) {
+          await supabase.from('build_steps').update({
+            status: 'running',
+            started_at: new Date().toISOString(),
+          }).eq('id', stepRowId);
+        } else {
+          stepRowId = await startStep(prompt, completedPages + 1);
+        }
+        result = await executePage(page, prompt, projectPath);
+        finished = true;
+        await finishPage(page, prompt, stepRowId, result);
+      } catch (err) {
+        log(`${page.title} failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+        if (!finished) await finishPage(page, prompt, stepRowId, null).catch(() => undefined);
+      } finally {
+        if (worktree) await removeWorktree(projectPath, worktree);
+      }
+    }
+
+    if (mergedAny && githubAuth?.gitHubToken) {
+      const push = await pushProject(projectPath, githubAuth.gitHubToken);
+      if (!push.pushed) log(`Pushing the merged pages failed (non-blocking): ${push.message}`, 'warn');
+    }
+  };
+
+  const parallelLimit = getParallelPageLimit(configuration);
+  let batches: ScopePage[][] = pages.map((page) => [page]);
+  if (parallelLimit > 1) {
+    if (graphError) {
+      log('Parallel pages need the flowchart connections; processing pages one at a time.', 'warn');
+    } else if (await canUseWorktrees(projectPath)) {
+      batches = batchIndependentPages(pages, connections, dependencies, parallelLimit);
+      log(`Parallel mode: up to ${parallelLimit} pages at once in ${batches.length} batches.`);
+    } else {
+      log('Parallel pages need a git repository with at least one commit; processing pages one at a time.', 'warn');
+    }
+  }
+
+  for (const batch of batches) {
+    if (await interrupted()) break;
+    if (batch.length === 1) {
+      await runPage(batch[0]);
+    } else {
+      await runParallelBatch(batch);
+    }
   }
 
   if (shouldStop?.()) {
@@ -204,5 +433,3 @@ export async function runScopeCheckAgent(options: ScopeCheckAgentOptions): Promi
 
   log(`Scope-Check Agent complete. ${completedPages}/${pages.length} pages processed.`);
 }
-
-
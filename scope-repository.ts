@@ -0,0 +1,457 @@
+/**
+ * ScopeRepository — Shared data access for the scope tools and their middleware.
+ *
+ * Authenticates an organization API key against a project once per request and
+ * returns a typed ScopeContext that the handlers in handlers/ take instead of a
+ * raw API key. The Supabase implementation reuses one service-role client for
+ * the whole process; the in-memory implementation backs handler tests.
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { hasTag, rankItems } from './scope-search.js';
+
+// ──── Row types ────
+
+export interface FlowchartItemRow {
+  id: string;
+  project_id: string;
+  type: string;
+  title: string | null;
+  description: string | null;
+  position_x?: number | null;
+  position_y?: number | null;
+  elements?: unknown;
+  technical_requirements?: unknown;
+  associated_pages?: unknown;
+  documentation_link?: string | null;
+  usage?: string | null;
+  tool_recommendation?: string | null;
+  external_issue_id?: string | null;
+  external_issue_status?: string | null;
+  decisions?: unknown[] | null;
+  constraints?: unknown[] | null;
+  prompt?: string | null;
+  sequence_order?: number | null;
+  created_at: string;
+  updated_at?: string | null;
+  [column: string]: unknown;
+}
+
+export interface FlowchartConnectionRow {
+  id: string;
+  project_id: string;
+  source_id: string;
+  target_id: string;
+  type?: string | null;
+  label?: string | null;
+  [column: string]: unknown;
+}
+
+export interface ProjectVersionRow {
+  id: string;
+  project_id: string;
+  version_number: number | null;
+  version_name: string | null;
+  is_baseline: boolean | null;
+  approved_at: string | null;
+  snapshot_data?: unknown;
+  created_at: string;
+  [column: string]: unknown;
+}
+
+export interface VersionChangeRow {
+  id: string;
+  project_id: string;
+  change_type: string;
+  entity_type: string;
+  entity_id: string;
+  old_value: unknown;
+  new_value: unknown;
+  created_at: string;
+}
+
+export interface ProjectMemberRow {
+  role: string;
+  user: { name: string | null; email: string | null } | null;
+}
+
+/** project_members row with its profile embedded (profiles:user_id); typed as a list without generated types. */
+interface MemberProfileRow {
+  role: string;
+  profiles: ProjectMemberRow['user'] | Array<NonNullable<ProjectMemberRow['user']>>;
+}
+
+export interface ProjectRow {
+  id: string;
+  title: string | null;
+  description: string | null;
+  status: string | null;
+  created_at: string;
+  updated_at: string | null;
+  organization: { id: string; name: string | null } | null;
+}
+
+/** Result of authenticating an API key against a project. */
+export interface ScopeContext {
+  organizationId: string;
+  projectId: string;
+  apiKey: string;
+}
+
+/** Filters applied when listing flowchart items. All are optional and combined with AND. */
+export interface ItemQuery {
+  id?: string;
+  type?: string;
+  externalIssueStatus?: string;
+  createdFrom?: string;
+  createdTo?: string;
+}
+
+/** One page of an item search: ItemQuery filters plus ranked keyword search and a tag. */
+export interface ItemSearch extends ItemQuery {
+  keyword?: string;
+  tag?: string;
+  offset: number;
+  limit: number;
+}
+
+export interface ItemSearchPage {
+  /** Best-ranked first with a keyword, else in created_at order; score is null without a keyword. */
+  items: Array<{ item: FlowchartItemRow; score: number | null }>;
+  /** Matches across all pages. */
+  totalCount: number;
+}
+
+/** Access policy row returned by the get_mcp_access_policy RPC. */
+export interface AccessPolicy {
+  allowed_endpoints?: string[] | null;
+  allow_historical_access?: boolean | null;
+  allow_relationship_traversal?: boolean | null;
+  max_project_size?: number | null;
+  rate_limit_per_hour?: number | null;
+}
+
+export interface ScopeRepository {
+  /** Resolve the organization that owns an API key. Throws 'Invalid API key'. */
+  resolveOrganization(apiKey: string): Promise<string>;
+  /** Resolve the organization and verify it owns the project. */
+  authenticate(apiKey: string, projectId: string): Promise<ScopeContext>;
+
+  getProject(ctx: ScopeContext): Promise<ProjectRow>;
+  listItems(ctx: ScopeContext, query?: ItemQuery): Promise<FlowchartItemRow[]>;
+  searchItems(ctx: ScopeContext, search: ItemSearch): Promise<ItemSearchPage>;
+  getItemsByIds(ctx: ScopeContext, ids: string[]): Promise<FlowchartItemRow[]>;
+  countItems(ctx: ScopeContext): Promise<number>;
+  listConnections(ctx: ScopeContext): Promise<FlowchartConnectionRow[]>;
+  listVersions(ctx: ScopeContext, limit: number): Promise<ProjectVersionRow[]>;
+  getVersion(ctx: ScopeContext, versionId: string): Promise<ProjectVersionRow | null>;
+  listVersionChanges(ctx: ScopeContext, limit: number): Promise<VersionChangeRow[]>;
+  listMembers(ctx: ScopeContext): Promise<ProjectMemberRow[]>;
+}
+
+// ──── Supabase implementation ────
+
+let sharedClient: SupabaseClient | null = null;
+
+/** Process-wide service-role client used by the scope tools and middleware. */
+export function getScopeSupabaseClient(): SupabaseClient {
+  if (!sharedClient) {
+    const supabaseUrl = process.env.SUPABASE_URL || '';
+    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+    sharedClient = createClient(supabaseUrl, supabaseKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+  }
+  return sharedClient;
+}
+
+export class SupabaseScopeRepository implements ScopeRepository {
+  constructor(private readonly supabase: SupabaseClient = getScopeSupabaseClient()) {}
+
+  async resolveOrganization(apiKey: string): Promise<string> {
+    const { data: org, error } = await this.supabase
+      .from('organizations')
+      .select('id')
+      .eq('api_key', apiKey)
+      .single();
+
+    if (error || !org) {
+      throw new Error('Invalid API key');
+    }
+    return org.id as string;
+  }
+
+  async authenticate(apiKey: string, projectId: string): Promise<ScopeContext> {
+    const organizationId = await this.resolveOrganization(apiKey);
+
+    const { data: project, error } = await this.supabase
+      .from('projects')
+      .select('id')
+      .eq('id', projectId)
+      .eq('organization_id', organizationId)
+      .single();
+
+    if (error || !project) {
+      throw new Error('Project not found or access denied');
+    }
+    return { organizationId, projectId, apiKey };
+  }
+
+  async getProject(ctx: ScopeContext): Promise<ProjectRow> {
+    const { data: project, error } = await this.supabase
+      .from('projects')
+      .select(`
+        id, title, description, status, created_at, updated_at,
+        organization:organization_id (
+          id,
+          name
+        )
+      `)
+      .eq('id', ctx.projectId)
+      .eq('organization_id', ctx.organizationId)
+      .single();
+
+    if (error || !project) {
+      throw new Error('Project not found or access denied');
+    }
+    return project as unknown as ProjectRow;
+  }
+
+  async listItems(ctx: ScopeContext, query: ItemQuery = {}): Promise<FlowchartItemRow[]> {
+    let q = this.supabase
+      .from('flowchart_items')
+      .select('*')
+      .eq('project_id', ctx.projectId);
+
+    if (query.id) q = q.eq('id', query.id);
+    if (query.type) q = q.eq('type', query.type);
+    if (query.externalIssueStatus) q = q.eq('external_issue_status', query.externalIssueStatus);
+    if (query.createdFrom) q = q.gte('created_at', query.createdFrom);
+    if (query.createdTo) q = q.lte('created_at', query.createdTo);
+
+    const { data, error } = await q.order('created_at', { ascending: true });
+    if (error) {
+      throw new Error('Failed to fetch scope items');
+    }
+    return (data || []) as FlowchartItemRow[];
+  }
+
+  /** Searched, ranked and paginated by search_flowchart_items in the database. */
+  async searchItems(ctx: ScopeContext, search: ItemSearch): Promise<ItemSearchPage> {
+    const { data, error } = await this.supabase.rpc('search_flowchart_items', {
+      p_project_id: ctx.projectId,
+      p_query: search.keyword?.trim() || null,
+      p_tag: search.tag?.trim() || null,
+      p_item_id: search.id ?? null,
+      p_type: search.type ?? null,
+      p_external_issue_status: search.externalIssueStatus ?? null,
+      p_created_from: search.createdFrom ?? null,
+      p_created_to: search.createdTo ?? null,
+      p_offset: search.offset,
+      p_limit: search.limit,
+    });
+    if (error) {
+      throw new Error('Failed to search scope items');
+    }
+    const rows = (data || []) as Array<{ item: FlowchartItemRow; score: number | null; total_count: number | string }>;
+    return {
+      items: rows.map(({ item, score }) => ({ item, score: score ?? null })),
+      totalCount: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    };
+  }
+
+  async getItemsByIds(ctx: ScopeContext, ids: string[]): Promise<FlowchartItemRow[]> {
+    if (ids.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('flowchart_items')
+      .select('*')
+      .eq('project_id', ctx.projectId)
+      .in('id', ids);
+
+    if (error) {
+      throw new Error('Failed to fetch scope items');
+    }
+    return (data || []) as FlowchartItemRow[];
+  }
+
+  async countItems(ctx: ScopeContext): Promise<number> {
+    const { count } = await this.supabase
+      .from('flowchart_items')
+      .select('*', { count: 'exact', head: true })
+      .eq('project_id', ctx.projectId);
+    return count || 0;
+  }
+
+  async listConnections(ctx: ScopeContext): Promise<FlowchartConnectionRow[]> {
+    const { data } = await this.supabase
+      .from('flowchart_connections')
+      .select('*')
+      .eq('project_id', ctx.projectId);
+    return (data || []) as FlowchartConnectionRow[];
+  }
+
+  async listVersions(ctx: ScopeContext, limit: number): Promise<ProjectVersionRow[]> {
+    const { data } = await this.supabase
+      .from('project_versions')
+      .select('*')
+      .eq('project_id', ctx.projectId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    return (data || []) as ProjectVersionRow[];
+  }
+
+  async getVersion(ctx: ScopeContext, versionId: string): Promise<ProjectVersionRow | null> {
+    const { data } = await this.supabase
+      .from('project_versions')
+      .select('*')
+      .eq('id', versionId)
+      .eq('project_id', ctx.projectId)
+      .single();
+    return (data as ProjectVersionRow | null) ?? null;
+  }
+
+  async listVersionChanges(ctx: ScopeContext, limit: number): Promise<VersionChangeRow[]> {
+    const { data } = await this.supabase
+      .from('version_changes')
+      .select('*')
+      .eq('project_id', ctx.projectId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    return (data || []) as VersionChangeRow[];
+  }
+
+  async listMembers(ctx: ScopeContext): Promise<ProjectMemberRow[]> {
+    const { data } = await this.supabase
+      .from('project_members')
+      .select(`
+        role,
+        profiles:user_id (
+          name,
+          email
+        )
+      `)
+      .eq('project_id', ctx.projectId);
+
+    return ((data || []) as MemberProfileRow[]).map((m) => ({
+      role: m.role,
+      user: (Array.isArray(m.profiles) ? m.profiles[0] : m.profiles) ?? null,
+    }));
+  }
+}
+
+let defaultRepository: ScopeRepository | null = null;
+
+/** Default repository used when a handler is called without one. */
+export function getScopeRepository(): ScopeRepository {
+  if (!defaultRepository) {
+    defaultRepository = new SupabaseScopeRepository();
+  }
+  return defaultRepository;
+}
+
+// ──── In-memory implementation ────
+
+/** Seed data for InMemoryScopeRepository. Rows use the same column names as the database. */
+export interface InMemoryScopeData {
+  organizations: Array<{ id: string; name?: string | null; api_key: string }>;
+  projects: Array<Omit<ProjectRow, 'organization'> & { organization_id: string }>;
+  items?: FlowchartItemRow[];
+  connections?: FlowchartConnectionRow[];
+  versions?: ProjectVersionRow[];
+  changes?: VersionChangeRow[];
+  members?: Array<ProjectMemberRow & { project_id: string }>;
+}
+
+const byCreatedDesc = (a: { created_at: string }, b: { created_at: string }) =>
+  b.created_at.localeCompare(a.created_at);
+
+/** Fake repository for exercising handlers without Supabase. */
+export class InMemoryScopeRepository implements ScopeRepository {
+  constructor(private readonly data: InMemoryScopeData) {}
+
+  async resolveOrganization(apiKey: string): Promise<string> {
+    const org = this.data.organizations.find((o) => o.api_key === apiKey);
+    if (!org) {
+      throw new Error('Invalid API key');
+    }
+    return org.id;
+  }
+
+  async authenticate(apiKey: string, projectId: string): Promise<ScopeContext> {
+    const organizationId = await this.resolveOrganization(apiKey);
+    const project = this.data.projects.find((p) => p.id === projectId && p.organization_id === organizationId);
+    if (!project) {
+      throw new Error('Project not found or access denied');
+    }
+    return { organizationId, projectId, apiKey };
+  }
+
+  async getProject(ctx: ScopeContext): Promise<ProjectRow> {
+    const project = this.data.projects.find(
+      (p) => p.id === ctx.projectId && p.organization_id === ctx.organizationId
+    );
+    if (!project) {
+      throw new Error('Project not found or access denied');
+    }
+    const org = this.data.organizations.find((o) => o.id === project.organization_id);
+    const { organization_id: _organizationId, ...rest } = project;
+    return { ...rest, organization: org ? { id: org.id, name: org.name ?? null } : null };
+  }
+
+  async listItems(ctx: ScopeContext, query: ItemQuery = {}): Promise<FlowchartItemRow[]> {
+    return (this.data.items || [])
+      .filter((item) => item.project_id === ctx.projectId)
+      .filter((item) => !query.id || item.id === query.id)
+      .filter((item) => !query.type || item.type === query.type)
+      .filter((item) => !query.externalIssueStatus || item.external_issue_status === query.externalIssueStatus)
+      .filter((item) => !query.createdFrom || item.created_at >= query.createdFrom)
+      .filter((item) => !query.createdTo || item.created_at <= query.createdTo)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  async searchItems(ctx: ScopeContext, search: ItemSearch): Promise<ItemSearchPage> {
+    const items = await this.listItems(ctx, search);
+    const tagged = search.tag ? items.filter((item) => hasTag(item, search.tag!)) : items;
+    const ranked = search.keyword?.trim()
+      ? rankItems(tagged, search.keyword)
+      : tagged.map((item) => ({ item, score: null as number | null }));
+    return { items: ranked.slice(search.offset, search.offset + search.limit), totalCount: ranked.length };
+  }
+
+  async getItemsByIds(ctx: ScopeContext, ids: string[]): Promise<FlowchartItemRow[]> {
+    const wanted = new Set(ids);
+    return (this.data.items || []).filter((item) => item.project_id === ctx.projectId && wanted.has(item.id));
+  }
+
+  async countItems(ctx: ScopeContext): Promise<number> {
+    return (this.data.items || []).filter((item) => item.project_id === ctx.projectId).length;
+  }
+
+  async listConnections(ctx: ScopeContext): Promise<FlowchartConnectionRow[]> {
+    return (this.data.connections || []).filter((c) => c.project_id === ctx.projectId);
+  }
+
+  async listVersions(ctx: ScopeContext, limit: number): Promise<ProjectVersionRow[]> {
+    return (this.data.versions || [])
+      .filter((v) => v.project_id === ctx.projectId)
+      .sort(byCreatedDesc)
+      .slice(0, limit);
+  }
+
+  async getVersion(ctx: ScopeContext, versionId: string): Promise<ProjectVersionRow | null> {
+    return (this.data.versions || []).find((v) => v.id === versionId && v.project_id === ctx.projectId) ?? null;
+  }
+
+  async listVersionChanges(ctx: ScopeContext, limit: number): Promise<VersionChangeRow[]> {
+    return (this.data.changes || [])
+      .filter((c) => c.project_id === ctx.projectId)
+      .sort(byCreatedDesc)
+      .slice(0, limit);
+  }
+
+  async listMembers(ctx: ScopeContext): Promise<ProjectMemberRow[]> {
+    return (this.data.members || [])
+      .filter((m) => m.project_id === ctx.projectId)
+      .map(({ role, user }) => ({ role, user }));
+  }
+}
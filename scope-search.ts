@@ -0,0 +1,105 @@
+/**
+ * Scope search — tags, ranking and cursor pagination for flowchart items.
+ *
+ * The Supabase repository searches, ranks and paginates in the database
+ * (search_flowchart_items, supabase/migrations/20261027000000_add_flowchart_item_search.sql);
+ * rankItems is its in-memory counterpart for InMemoryScopeRepository. Cursors
+ * are opaque offsets into the ranked result.
+ */
+
+import type { FlowchartItemRow } from './scope-repository.js';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+/** Tags of an item: the `tags` column plus `elements.tags`, lower-cased. */
+export function itemTags(item: FlowchartItemRow): string[] {
+  const tags: string[] = [];
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      for (const tag of value) {
+        if (typeof tag === 'string' && tag.trim()) tags.push(tag.trim().toLowerCase());
+      }
+    }
+  };
+  collect(item.tags);
+  if (item.elements && typeof item.elements === 'object' && !Array.isArray(item.elements)) {
+    collect((item.elements as { tags?: unknown }).tags);
+  }
+  return Array.from(new Set(tags));
+}
+
+export function hasTag(item: FlowchartItemRow, tag: string): boolean {
+  return itemTags(item).includes(tag.trim().toLowerCase());
+}
+
+function searchableText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return (typeof value === 'string' ? value : JSON.stringify(value)).toLowerCase();
+}
+
+/**
+ * Rank items against a free-text query. Every term must appear in the title,
+ * description or technical requirements; title hits weigh most, and the full
+ * phrase in the title gets a bonus. Ties keep the input order.
+ */
+export function rankItems(
+  items: FlowchartItemRow[],
+  query: string
+): Array<{ item: FlowchartItemRow; score: number }> {
+  const phrase = query.trim().toLowerCase();
+  const terms = phrase.split(/\s+/).filter((t) => t.length > 0);
+  if (terms.length === 0) {
+    return items.map((item) => ({ item, score: 0 }));
+  }
+
+  const ranked: Array<{ item: FlowchartItemRow; score: number; index: number }> = [];
+  items.forEach((item, index) => {
+    const title = searchableText(item.title);
+    const description = searchableText(item.description);
+    const requirements = searchableText(item.technical_requirements);
+
+    let score = 0;
+    for (const term of terms) {
+      const termScore = (title.includes(term) ? 3 : 0)
+        + (description.includes(term) ? 2 : 0)
+        + (requirements.includes(term) ? 1 : 0);
+      if (termScore === 0) return;
+      score += termScore;
+    }
+    if (terms.length > 1 && title.includes(phrase)) score += 5;
+
+    ranked.push({ item, score, index });
+  });
+
+  return ranked
+    .sort((a, b) => (b.score - a.score) || a.index - b.index)
+    .map(({ item, score }) => ({ item, score }));
+}
+
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(offset) && offset >= 0) return offset;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid cursor');
+}
+
+/** Offset and page size a cursor and requested limit stand for. */
+export function pageWindow(cursor?: string, limit: number = DEFAULT_PAGE_SIZE): { offset: number; limit: number } {
+  return {
+    offset: cursor ? decodeCursor(cursor) : 0,
+    limit: Math.min(Math.max(1, Math.floor(limit)), MAX_PAGE_SIZE),
+  };
+}
+
+/** Cursor of the page after one of `count` rows at `offset`, or null on the last page. */
+export function nextCursor(offset: number, count: number, totalCount: number): string | null {
+  return offset + count < totalCount ? encodeCursor(offset + count) : null;
+}
@@ -0,0 +1,318 @@
+/**
+ * Scope tools — exposes the scope-retrieval handlers in handlers/ as `scope/*` MCP tools.
+ *
+ * Shared by the stdio MCP server (setupToolHandlers) and the WebSocket/Netlify
+ * path (processMessage). Every call is authenticated by the organization API key,
+ * rate limited, checked against the organization's access policy and logged.
+ */
+
+import { getScopeSlice } from './handlers/scopeSlice.js';
+import { getRelationshipTraversal, type TraversalDirection } from './handlers/relationshipTraversal.js';
+import { getHistoricalContext } from './handlers/historicalContext.js';
+import { getAdvancedFilter } from './handlers/advancedFilter.js';
+import { getDecisionsConstraints } from './handlers/decisionsConstraints.js';
+import { getFullProjectContext } from './handlers/fullProjectContext.js';
+import { getProjectOverview } from './handlers/projectOverview.js';
+import { getScopeDiff } from './handlers/scopeDiff.js';
+import { checkPolicy } from './middleware/policyEnforcer.js';
+import { checkRateLimit, logAccess } from './middleware/rateLimiter.js';
+import { getScopeRepository, type ScopeContext, type ScopeRepository } from './scope-repository.js';
+
+/** Tool definition as returned from ListTools. */
+export interface ScopeToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required: string[];
+  };
+}
+
+/** Validated arguments shared by every scope tool. */
+export interface ScopeToolArgs {
+  projectId: string;
+  apiKey: string;
+  [key: string]: unknown;
+}
+
+const baseProperties = {
+  projectId: { type: 'string', description: 'ScopesFlow project ID' },
+  apiKey: { type: 'string', description: 'Organization MCP API key' },
+};
+
+const keywordDescription = 'Ranked search over title, description and technical requirements (all terms must match)';
+const tagDescription = 'Only items carrying this tag (tags column or elements.tags)';
+
+const paginationProperties = {
+  cursor: { type: 'string', description: 'Cursor returned as nextCursor by the previous page' },
+  limit: { type: 'number', description: 'Page size (default 50, max 200)' },
+};
+
+export const SCOPE_TOOLS: ScopeToolDefinition[] = [
+  {
+    name: 'scope/scope-slice',
+    description: 'Get a filtered, paginated slice of the project scope (flowchart items)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...baseProperties,
+        nodeId: { type: 'string', description: 'Restrict to a single flowchart item' },
+        keyword: { type: 'string', description: keywordDescription },
+        tag: { type: 'string', description: tagDescription },
+        nodeType: { type: 'string', description: 'Item type (page, feature, api, asset, ...)' },
+        ...paginationProperties,
+      },
+      required: ['projectId', 'apiKey'],
+    },
+  },
+  {
+    name: 'scope/relationship-traversal',
+    description: 'Traverse flowchart connections from a node, returning related nodes, edges and the shortest path to each node',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...baseProperties,
+        nodeId: { type: 'string', description: 'Start node ID' },
+        depth: { type: 'number', description: 'Maximum traversal depth (default 2)' },
+        direction: {
+          type: 'string',
+          enum: ['upstream', 'downstream', 'both'],
+          description: 'downstream follows source → target, upstream follows target → source (default both)',
+        },
+        edgeTypes: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only follow connections of these types (connection type, or label when untyped)',
+        },
+      },
+      required: ['projectId', 'apiKey', 'nodeId'],
+    },
+  },
+  {
+    name: 'scope/historical-context',
+    description: 'Get project version history and recent scope changes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...baseProperties,
+        versionId: { type: 'string', description: 'Include the snapshot of this version' },
+      },
+      required: ['projectId', 'apiKey'],
+    },
+  },
+  {
+    name: 'scope/diff',
+    description: 'Compare two project versions, or a version and the current scope: added, removed and modified items and connections with field-level changes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...baseProperties,
+        fromVersionId: { type: 'string', description: 'Base version ID' },
+        toVersionId: { type: 'string', description: 'Version to compare against (default: current project state)' },
+      },
+      required: ['projectId', 'apiKey', 'fromVersionId'],
+    },
+  },
+  {
+    name: 'scope/advanced-filter',
+    description: 'Filter flowchart items by type, status, date range, tag and keyword (ranked, paginated)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...baseProperties,
+        nodeType: { type: 'string', description: 'Item type' },
+        status: { type: 'string', description: 'External issue status' },
+        dateFrom: { type: 'string', description: 'ISO date, inclusive lower bound on created_at' },
+        dateTo: { type: 'string', description: 'ISO date, inclusive upper bound on created_at' },
+        keyword: { type: 'string', description: keywordDescription },
+        tag: { type: 'string', description: tagDescription },
+        ...paginationProperties,
+      },
+      required: ['projectId', 'apiKey'],
+    },
+  },
+  {
+    name: 'scope/decisions-constraints',
+    description: 'Get recorded decisions and constraints for the project or a single node',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...baseProperties,
+        nodeId: { type: 'string', description: 'Restrict to a single flowchart item' },
+      },
+      required: ['projectId', 'apiKey'],
+    },
+  },
+  {
+    name: 'scope/full-project-context',
+    description: 'Get the full project context: items, connections, versions and members. With maxTokens, items are ranked by relevance and packed into the budget, and versions are listed without snapshots',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...baseProperties,
+        maxTokens: { type: 'number', description: 'Token budget; lower-ranked items are summarized or omitted to fit' },
+        focusNodeId: { type: 'string', description: 'Rank items by graph distance from this node' },
+        focusKeyword: { type: 'string', description: 'Rank items by matches on title, description and technical requirements' },
+      },
+      required: ['projectId', 'apiKey'],
+    },
+  },
+  {
+    name: 'scope/project-overview',
+    description: 'Get project metadata, members and item count',
+    inputSchema: {
+      type: 'object',
+      properties: { ...baseProperties },
+      required: ['projectId', 'apiKey'],
+    },
+  },
+];
+
+const SCOPE_TOOL_NAMES = new Set(SCOPE_TOOLS.map((t) => t.name));
+
+export function isScopeTool(name: string): boolean {
+  return SCOPE_TOOL_NAMES.has(name);
+}
+
+/** Validate arguments against the tool's required fields. Throws on missing/invalid input. */
+export function validateScopeToolArgs(name: string, args: Record<string, unknown>): ScopeToolArgs {
+  const tool = SCOPE_TOOLS.find((t) => t.name === name);
+  if (!tool) {
+    throw new Error(`Unknown tool: ${name}`);
+  }
+  for (const field of tool.inputSchema.required) {
+    const value = args[field];
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      throw new Error(`${field} is required and must be a non-empty string`);
+    }
+  }
+  if (args.depth !== undefined && (typeof args.depth !== 'number' || !Number.isFinite(args.depth) || args.depth < 0)) {
+    throw new Error('depth must be a non-negative number');
+  }
+  if (args.limit !== undefined && (typeof args.limit !== 'number' || !Number.isFinite(args.limit) || args.limit < 1)) {
+    throw new Error('limit must be a positive number');
+  }
+  if (args.maxTokens !== undefined && (typeof args.maxTokens !== 'number' || !Number.isFinite(args.maxTokens) || args.maxTokens <= 0)) {
+    throw new Error('maxTokens must be a positive number');
+  }
+  if (args.direction !== undefined && !['upstream', 'downstream', 'both'].includes(args.direction as string)) {
+    throw new Error('direction must be one of: upstream, downstream, both');
+  }
+  if (args.edgeTypes !== undefined && (!Array.isArray(args.edgeTypes) || args.edgeTypes.some((t) => typeof t !== 'string'))) {
+    throw new Error('edgeTypes must be an array of strings');
+  }
+  return args as ScopeToolArgs;
+}
+
+/** Endpoint name used for policy, rate limiting and access logs (tool name without the `scope/` prefix). */
+function toEndpoint(name: string): string {
+  return name.replace(/^scope\//, '');
+}
+
+async function dispatch(name: string, ctx: ScopeContext, args: ScopeToolArgs, repo: ScopeRepository): Promise<unknown> {
+  const str = (key: string) => (typeof args[key] === 'string' ? (args[key] as string) : undefined);
+
+  switch (name) {
+    case 'scope/scope-slice':
+      return getScopeSlice(ctx, {
+        nodeId: str('nodeId'),
+        keyword: str('keyword'),
+        tag: str('tag'),
+        nodeType: str('nodeType'),
+        cursor: str('cursor'),
+        limit: typeof args.limit === 'number' ? args.limit : undefined,
+      }, repo);
+    case 'scope/relationship-traversal':
+      return getRelationshipTraversal(ctx, str('nodeId')!, typeof args.depth === 'number' ? args.depth : undefined, {
+        direction: args.direction as TraversalDirection | undefined,
+        edgeTypes: args.edgeTypes as string[] | undefined,
+      }, repo);
+    case 'scope/historical-context':
+      return getHistoricalContext(ctx, str('versionId'), repo);
+    case 'scope/diff':
+      return getScopeDiff(ctx, str('fromVersionId')!, str('toVersionId'), repo);
+    case 'scope/advanced-filter':
+      return getAdvancedFilter(ctx, {
+        nodeType: str('nodeType'),
+        status: str('status'),
+        dateFrom: str('dateFrom'),
+        dateTo: str('dateTo'),
+        keyword: str('keyword'),
+        tag: str('tag'),
+        cursor: str('cursor'),
+        limit: typeof args.limit === 'number' ? args.limit : undefined,
+      }, repo);
+    case 'scope/decisions-constraints':
+      return getDecisionsConstraints(ctx, str('nodeId'), repo);
+    case 'scope/full-project-context':
+      return getFullProjectContext(ctx, {
+        maxTokens: typeof args.maxTokens === 'number' ? args.maxTokens : undefined,
+        focusNodeId: str('focusNodeId'),
+        focusKeyword: str('focusKeyword'),
+      }, repo);
+    case 'scope/project-overview':
+      return getProjectOverview(ctx, repo);
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
+
+/**
+ * Run a scope tool end to end: authenticate, rate limit, enforce policy, call the
+ * handler and log the access. Returns an MCP content result (success or error JSON).
+ */
+export async function callScopeTool(
+  name: string,
+  rawArgs: Record<string, unknown>,
+  repo: ScopeRepository = getScopeRepository()
+) {
+  const startTime = Date.now();
+  const endpoint = toEndpoint(name);
+  let organizationId: string | null = null;
+  let args: ScopeToolArgs | null = null;
+
+  try {
+    args = validateScopeToolArgs(name, rawArgs);
+    const ctx = await repo.authenticate(args.apiKey, args.projectId);
+    organizationId = ctx.organizationId;
+
+    const rateLimit = await checkRateLimit(organizationId, args.apiKey, endpoint);
+    if (!rateLimit.allowed) {
+      throw new Error(`Rate limit exceeded (${rateLimit.limit} requests per hour)`);
+    }
+
+    const projectSize = endpoint === 'full-project-context' ? await repo.countItems(ctx) : undefined;
+    const policy = await checkPolicy(organizationId, endpoint, args.projectId, projectSize);
+    if (!policy.allowed) {
+      throw new Error(policy.reason || 'Request denied by organization policy');
+    }
+
+    const data = await dispatch(name, ctx, args, repo);
+    await logAccess(organizationId, args.apiKey, endpoint, args.projectId, true, Date.now() - startTime).catch(() => {});
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ success: true, ...(data as Record<string, unknown>) }),
+        },
+      ],
+    };
+  } catch (error) {
+    if (organizationId && args) {
+      await logAccess(organizationId, args.apiKey, endpoint, args.projectId, false, Date.now() - startTime).catch(() => {});
+    }
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          }),
+        },
+      ],
+    };
+  }
+}
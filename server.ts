@@ -12,13 +12,29 @@ import { runBuildFromPayload, runBuildLoop, type ActiveBuildEntry } from './buil
 import { decryptCursorApiKey } from './crypto-utils.js';
 import { AppRunner } from './app-runner.js';
 import { BuildOrchestrator, type WorkerSession } from './build-orchestrator.js';
+import type { QueuedBuild } from './build-queue.js';
+import type { BuildOwner, QuotaDecision } from './build-quotas.js';
+import { BuildLeaseManager, type OrphanedBuild } from './build-leases.js';
+import { findOwnedRunningBuilds, getMaxResumeAttempts, isBuildWorkerAlive, recordResumeAttempt } from './build-recovery.js';
+import { clearWorkerDrain, getDrainFilePath, getDrainTimeoutMs, requestWorkerDrain, type DrainState } from './build-drain.js';
+import { rollbackBuild } from './build-checkpoints.js';
+import { planBuildFromPayload } from './build-plan.js';
+import { getPhasePipeline } from './build-phases.js';
+import { clearWorkerPause, getPauseFilePath, readPauseState, requestWorkerPause } from './build-pause.js';
+import { requestPromptSkip, requestStepRerun } from './build-step-actions.js';
+import { buildWorkerEnv, cleanupWorkerSandbox, detectLimitBreach, execSandboxed, getProjectsBaseDir, prepareWorkerSandbox, type LimitBreach } from './worker-sandbox.js';
+import { getDiskSpace, WorkspaceManager } from './build-workspaces.js';
+import { isWorkerHeartbeat } from './worker-ipc.js';
+import { SCOPE_TOOLS, isScopeTool, validateScopeToolArgs, callScopeTool } from './scope-tools.js';
+import { getProvider, listProviders, resolveProviderId } from './providers/registry.js';
+import { runAgentStreaming } from './providers/streamRunner.js';
+import type { AgentLogEntry, AgentRunOptions, AgentRunResult, BuildLogFn, ProviderContextFile, ProviderDetection, ProviderId } from './providers/types.js';
+import { BuildEventEmitter, onBuildEvent } from './build-events.js';
+import { BuildStreamHub, getBuildLogDir, getBuildLogPaths, isValidBuildId, parseStreamCursor, type BuildStreamMessage } from './build-stream.js';
 
 // Load environment variables (optional now, not required for Cursor CLI)
 dotenv.config();
 
-/** Default `cursor-agent --model` when callers omit `model`. */
-const DEFAULT_CURSOR_AGENT_MODEL = 'composer-2';
-
 const execAsync = promisify(exec);
 
 interface CursorProjectConfig {
@@ -65,8 +81,10 @@ interface ExecutePromptArgs {
   model?: string;            // NEW: Model to use for cursor-agent (defaults to composer-2)
   cursorApiKey?: string;     // NEW: Per-user Cursor API key (passed to cursor-agent via env var)
   promptId?: string;         // NEW: Flowchart prompt ID â€” included in mcp_log for correct marking on completion
-  provider?: 'cursor' | 'claude-code'; // AI provider: cursor-agent or claude CLI
+  provider?: ProviderId;     // Agent provider id from providers/registry (cursor, claude-code, ...)
   claudeApiKey?: string;     // NEW: Per-user Anthropic API key (passed to claude CLI via ANTHROPIC_API_KEY env var)
+  phase?: string;            // Agent phase running this prompt (developer, design, ...) — tags build events
+  autoCommit?: boolean;      // false: leave changes uncommitted and unpushed (scope-check worktrees)
 }
 interface ProjectPathArgs {
   projectPath: string;
@@ -84,33 +102,14 @@ interface ProjectGitConfig {
   gitUserEmail?: string;
 }
 
-/** Disk space helper for /api/health. Works on Linux/macOS; returns null on Windows/error. */
-async function getDiskSpace(): Promise<{ freeGb: number; totalGb: number } | null> {
-  try {
-    if (process.platform === 'win32') {
-      const { stdout } = await execAsync('wmic logicaldisk where "DeviceID=\'C:\'" get FreeSpace,Size /format:csv');
-      const lines = stdout.trim().split('\n').filter(l => l.trim().length > 0);
-      const lastLine = lines[lines.length - 1];
-      const parts = lastLine.split(',').filter(p => p.trim().length > 0);
-      if (parts.length >= 2) {
-        const freeBytes = parseInt(parts[parts.length - 2], 10);
-        const totalBytes = parseInt(parts[parts.length - 1], 10);
-        return {
-          freeGb: Math.round((freeBytes / 1073741824) * 10) / 10,
-          totalGb: Math.round((totalBytes / 1073741824) * 10) / 10,
-        };
-      }
-      return null;
-    }
-    const { stdout } = await execAsync("df -BG --output=avail,size / | tail -1");
-    const parts = stdout.trim().split(/\s+/);
-    return {
-      freeGb: parseFloat(parts[0]),
-      totalGb: parseFloat(parts[1]),
-    };
-  } catch {
-    return null;
-  }
+/** Credentials and targets a build runs with (from POST /api/start-build, or this node's service role). */
+interface BuildCredentials {
+  supabaseUrl: string;
+  accessToken: string;
+  anonKey: string;
+  supabaseServiceRoleKey?: string;
+  targetSupabaseUrl?: string;
+  targetSupabaseAnonKey?: string;
 }
 
 class CursorMCPServer {
@@ -118,7 +117,8 @@ class CursorMCPServer {
   private wss: WebSocketServer | null = null;
   private httpServer: http.Server | null = null;
   private toolHandlers: Map<string, (args: any) => Promise<any>> = new Map();
-  private cursorAgentAvailable: boolean = false;
+  /** Detection result per registered agent provider, filled at startup. */
+  private providerStatus = new Map<ProviderId, ProviderDetection>();
   private gitMutex: Promise<void> = Promise.resolve();
   private designPatternStorage: Map<string, string> = new Map();
   private temporaryDesignPatternStorage: Map<string, string> = new Map();
@@ -131,8 +131,30 @@ class CursorMCPServer {
   // Dashboard support
   private activeBuildTracker = new Map<string, ActiveBuildEntry>();
   private stopRequests = new Set<string>();
+  /** In-process builds asked to pause at their next step (workers get a marker file, build-pause.ts). */
+  private pauseRequests = new Set<string>();
   private appRunner = new AppRunner(process.env.MCP_SERVER_HOST || 'localhost');
   private buildOrchestrator = new BuildOrchestrator();
+  /** In-process build events + worker log tails for /api/builds/:id/stream. */
+  private buildStreamHub = new BuildStreamHub();
+  /** Why a dequeued build failed to start, read back by /api/start-build. */
+  private buildStartErrors = new Map<string, string>();
+  /** Builds dropped from the queue by a daily quota, read back by /api/start-build. */
+  private buildQuotaRejections = new Map<string, Extract<QuotaDecision, { allowed: false }>>();
+  /** Credentials of queued builds from the request that queued them. Memory only: the queue file holds ids. */
+  private queuedBuildCredentials = new Map<string, BuildCredentials>();
+  /** This node's leases on automated_builds rows (several dispatchers can share one database). */
+  private buildLeases = new BuildLeaseManager();
+  /** Set while the node drains (POST /api/drain or SIGTERM). */
+  private drainState: DrainState | null = null;
+  private drainPromise: Promise<void> | null = null;
+  /** Project directories of this node's builds: retention, node_modules pruning, low-disk guard. */
+  private workspaces = new WorkspaceManager((buildId) =>
+    this.activeBuildTracker.has(buildId)
+    || this.buildOrchestrator.isQueued(buildId)
+    // A running preview needs its project and node_modules
+    || this.appRunner.getRunningApps().some((app) => app.buildId === buildId)
+  );
 
   constructor() {
     this.server = new Server(
@@ -148,8 +170,7 @@ class CursorMCPServer {
     );
 
     this.setupToolHandlers();
-    this.checkCursorAgent();
-    this.checkClaudeCode();
+    this.checkProviders();
     this.initializeDefaultDesignPatterns();
   }
 
@@ -294,60 +315,25 @@ This interface embodies:
     }
   }
 
-  private async checkCursorAgent() {
-    try {
-      // Check if running on Windows with WSL
-      const isWindows = process.platform === 'win32';
-      const command = isWindows 
-        ? 'wsl -d Ubuntu bash -c "~/.local/bin/cursor-agent --version"'
-        : 'cursor-agent --version';
-      
-      const { stdout } = await execAsync(command);
-      this.cursorAgentAvailable = true;
-      console.log(`[MCP Server] âœ“ Cursor Agent CLI detected and available (version: ${stdout.trim()})`);
-    } catch (error) {
-      this.cursorAgentAvailable = false;
-      console.warn('[MCP Server] âš  Cursor Agent CLI not found.');
-      if (process.platform === 'win32') {
-        console.warn('[MCP Server] Install with: wsl -d Ubuntu bash -c "curl https://cursor.com/install -fsS | bash"');
+  private async checkProviders() {
+    await Promise.all(listProviders().map(async (provider) => {
+      let detection: ProviderDetection;
+      try {
+        detection = await provider.detect();
+      } catch (error) {
+        detection = { available: false, reason: error instanceof Error ? error.message : String(error) };
+      }
+      this.providerStatus.set(provider.id, detection);
+      if (detection.available) {
+        console.log(`[MCP Server] âœ“ ${provider.label} CLI detected and available (version: ${detection.version ?? 'unknown'})`);
       } else {
-        console.warn('[MCP Server] Install with: curl https://cursor.com/install -fsS | bash');
+        console.warn(`[MCP Server] âš  ${detection.reason ?? `${provider.label} CLI not available.`}`);
       }
-      console.warn('[MCP Server] Code generation will use fallback mode.');
-    }
+    }));
   }
 
-  private claudeCodeAvailable = false;
-
-  private async checkClaudeCode() {
-    const isWindows = process.platform === 'win32';
-    try {
-      const versionCmd = isWindows
-        ? 'wsl -d Ubuntu bash -c "claude --version"'
-        : 'claude --version';
-
-      const { stdout } = await execAsync(versionCmd);
-      console.log(`[MCP Server] âœ“ Claude Code CLI detected (version: ${stdout.trim()})`);
-    } catch {
-      this.claudeCodeAvailable = false;
-      console.warn('[MCP Server] âš  Claude Code CLI not found.');
-      console.warn('[MCP Server] Install with: npm install -g @anthropic-ai/claude-code');
-      return;
-    }
-
-    try {
-      const authCmd = isWindows
-        ? 'wsl -d Ubuntu bash -c "claude auth status"'
-        : 'claude auth status';
-
-      await execAsync(authCmd);
-      this.claudeCodeAvailable = true;
-      console.log('[MCP Server] âœ“ Claude Code CLI authenticated and ready');
-    } catch {
-      this.claudeCodeAvailable = false;
-      console.warn('[MCP Server] âš  Claude Code CLI found but NOT authenticated.');
-      console.warn('[MCP Server] Run: claude auth login');
-    }
+  private isProviderAvailable(id: ProviderId): boolean {
+    return this.providerStatus.get(id)?.available === true;
   }
 
   private async readBoilerplateFile(filename: string): Promise<string> {
@@ -1072,7 +1058,8 @@ See DESIGN_RULES.md in the server root for complete guidelines.
               type: 'object',
               properties: {}
             }
-          }
+          },
+          ...SCOPE_TOOLS
         ]
       };
     });
@@ -1136,6 +1123,9 @@ See DESIGN_RULES.md in the server root for complete guidelines.
             return await this.getServerInfo();
           
           default:
+            if (isScopeTool(name)) {
+              return await callScopeTool(name, args);
+            }
             throw new Error(`Unknown tool: ${name}`);
         }
       } catch (error) {
@@ -1163,6 +1153,9 @@ See DESIGN_RULES.md in the server root for complete guidelines.
     this.toolHandlers.set('cursor/check-project', this.checkProject.bind(this));
     this.toolHandlers.set('cursor/get-files', this.getFiles.bind(this));
     this.toolHandlers.set('cursor/server-info', this.getServerInfo.bind(this));
+    for (const tool of SCOPE_TOOLS) {
+      this.toolHandlers.set(tool.name, (toolArgs) => callScopeTool(tool.name, toolArgs));
+    }
   }
 
   // Validation methods with DEBUG LOGGING
@@ -1360,7 +1353,7 @@ See DESIGN_RULES.md in the server root for complete guidelines.
   }
 
   private validateExecutePromptArgs(args: Record<string, unknown>): ExecutePromptArgs {
-    const { prompt, projectPath, timeout, context, files, gitHubToken, gitUserName, gitUserEmail, gitRepository, isFirstPrompt, retryCount, isRetry, supabaseClient, userId, buildId, promptId, model, cursorApiKey, claudeApiKey, provider } = args;
+    const { prompt, projectPath, timeout, context, files, gitHubToken, gitUserName, gitUserEmail, gitRepository, isFirstPrompt, retryCount, isRetry, supabaseClient, userId, buildId, promptId, model, cursorApiKey, claudeApiKey, provider, phase, autoCommit } = args;
 
     if (typeof prompt !== 'string') throw new Error('Prompt must be a string');
     if (typeof projectPath !== 'string') throw new Error('Project path must be a string');
@@ -1385,7 +1378,9 @@ See DESIGN_RULES.md in the server root for complete guidelines.
       model: typeof model === 'string' ? model : undefined,
       cursorApiKey: typeof cursorApiKey === 'string' ? cursorApiKey : undefined,
       claudeApiKey: typeof claudeApiKey === 'string' ? claudeApiKey : undefined,
-      provider: provider === 'claude-code' ? 'claude-code' : provider === 'cursor' ? 'cursor' : undefined,
+      provider: typeof provider === 'string' && provider ? resolveProviderId(provider) : undefined,
+      phase: typeof phase === 'string' && phase ? phase : undefined,
+      autoCommit: typeof autoCommit === 'boolean' ? autoCommit : undefined,
     };
   }
 
@@ -1543,7 +1538,7 @@ See DESIGN_RULES.md in the server root for complete guidelines.
 
       // Execute project creation from parent directory if using a framework
       if (initCommand) {
-        const { stdout, stderr } = await execAsync(initCommand, {
+        const { stdout, stderr } = await execSandboxed(initCommand, {
           cwd: parentDir,
           timeout: 300000 // 5 minutes (CRA/Vite can be slow on first run)
         });
@@ -1862,56 +1857,35 @@ When implementing this project:
     console.log(`[MCP Server] âœ… Created Design_reference.md at ${designRefPath}`);
   }
 
-  /**
-   * Write CLAUDE.md project instructions for Claude Code builds.
-   * Claude Code reads this file automatically for project-level directives.
-   */
-  private async ensureClaudeMd(projectPath: string): Promise<void> {
-    const claudeMdPath = path.join(projectPath, 'CLAUDE.md');
+  /** Write a provider's project instructions file (e.g. CLAUDE.md) unless the project already has one. */
+  private async ensureContextFile(projectPath: string, file: ProviderContextFile): Promise<void> {
+    const filePath = path.join(projectPath, file.path);
     try {
-      await fs.access(claudeMdPath);
+      await fs.access(filePath);
       return; // already exists
     } catch {
       // doesn't exist, create it
     }
-    const content = `# Project Instructions
-
-- TypeScript strict mode â€” fix all type errors
-- Use existing patterns, conventions, and file structure in the codebase
-- Do NOT start dev servers or run interactive/long-running commands
-- Do NOT run \`npm run dev\`, \`npm start\`, \`yarn dev\`, or similar
-- Apply all changes directly to files
-- Follow the Design_reference.md when available
-- Ensure all imports resolve correctly
-- Prefer small, focused changes over large rewrites
-`;
-    await fs.writeFile(claudeMdPath, content, 'utf-8');
-    console.log(`[MCP Server] âœ… Created CLAUDE.md at ${claudeMdPath}`);
+    await fs.writeFile(filePath, file.content, 'utf-8');
+    console.log(`[MCP Server] âœ… Created ${file.path} at ${filePath}`);
   }
 
   private async executePrompt(args: ExecutePromptArgs) {
     const startTime = Date.now();
 
-    // When running as part of an automated build, append to build_logs for realtime following
+    // When running as part of an automated build, write build events for realtime following
+    const buildEvents = (args.buildId && args.supabaseClient)
+      ? new BuildEventEmitter(args.supabaseClient, args.buildId, args.phase ?? null)
+      : null;
     const appendBuildLog = async (message: string, level: 'info' | 'error' = 'info') => {
-      if (!args.buildId || !args.supabaseClient) return;
-      try {
-        const logType = process.env.MCP_BUILD_LOG_TYPE_ERROR && level === 'error'
-          ? process.env.MCP_BUILD_LOG_TYPE_ERROR
-          : (process.env.MCP_BUILD_LOG_TYPE_INFO ?? 'build_log');
-        await args.supabaseClient.from('build_logs').insert({
-          build_id: args.buildId,
-          log_type: logType,
-          message: message.length > 2000 ? message.substring(0, 1997) + '...' : message,
-          created_at: new Date().toISOString(),
-        });
-      } catch (err) {
-        console.warn('[MCP Server] appendBuildLog failed (non-blocking):', err instanceof Error ? err.message : err);
-      }
+      if (!buildEvents) return;
+      await buildEvents.log(message, level, { source: 'execute-prompt', promptId: args.promptId ?? null });
     };
 
+    const agentProvider = getProvider(resolveProviderId(args.provider));
+
     try {
-      const cliLabel = args.provider === 'claude-code' ? 'Claude Code' : 'Cursor CLI';
+      const cliLabel = agentProvider.label;
       await appendBuildLog(`Executing prompt via ${cliLabel}`);
       console.log(`[MCP Server] ========================================`);
       console.log(`[MCP Server] Executing prompt via ${cliLabel}`);
@@ -1930,8 +1904,8 @@ When implementing this project:
       }
       await appendBuildLog('Project directory verified');
 
-      if (args.provider === 'claude-code') {
-        await this.ensureClaudeMd(args.projectPath);
+      if (agentProvider.contextFile) {
+        await this.ensureContextFile(args.projectPath, agentProvider.contextFile);
       }
 
       // Load existing git configuration and merge with provided parameters
@@ -1985,63 +1959,67 @@ When implementing this project:
         await this.saveProjectGitConfig(args.projectPath, mergedConfig);
       }
 
-      // Check if Cursor Agent is available
-      if (!this.cursorAgentAvailable) {
-        await appendBuildLog('Cursor Agent not available, using fallback task file method');
-        console.warn('[MCP Server] Cursor Agent not available, using fallback task file method');
+      // Check if the selected agent CLI is available
+      if (!this.isProviderAvailable(agentProvider.id)) {
+        await appendBuildLog(`${agentProvider.label} not available, using fallback task file method`);
+        console.warn(`[MCP Server] ${agentProvider.label} not available, using fallback task file method`);
         return await this.executePromptFallback(args, startTime);
       }
 
       await appendBuildLog('Git config loaded');
 
-      const isCursorProvider = args.provider !== 'claude-code';
-      let effectiveCursorApiKey = typeof args.cursorApiKey === 'string' ? args.cursorApiKey.trim() : '';
-      let cursorApiKeySource: 'request' | 'db' | 'none' = effectiveCursorApiKey ? 'request' : 'none';
+      // Per-user key for the selected provider (injected through provider.apiKeyEnv): from the request, else stored encrypted
+      const requestApiKey = agentProvider.apiKeyArg ? args[agentProvider.apiKeyArg] : undefined;
+      let agentApiKey = typeof requestApiKey === 'string' ? requestApiKey.trim() : '';
+      let apiKeySource: 'request' | 'db' | 'none' = agentApiKey ? 'request' : 'none';
+      const keyTable = agentProvider.storedApiKeyTable;
 
-      if (isCursorProvider && !effectiveCursorApiKey && args.supabaseClient && args.userId) {
+      if (keyTable && !agentApiKey && args.supabaseClient && args.userId) {
         try {
-          console.log(`[MCP Server] ðŸ” Fetching Cursor API key from DB for user_id: ${args.userId}`);
+          console.log(`[MCP Server] ðŸ” Fetching ${agentProvider.label} API key from DB for user_id: ${args.userId}`);
           const { data: keyRow, error: keyError } = await args.supabaseClient
-            .from('cursor_api_keys')
+            .from(keyTable)
             .select('api_key_ciphertext, revoked_at')
             .eq('user_id', args.userId)
             .maybeSingle();
 
           if (keyError) {
-            console.warn(`[MCP Server] âš ï¸ Error fetching Cursor API key: ${keyError.message}`);
+            console.warn(`[MCP Server] âš ï¸ Error fetching ${agentProvider.label} API key: ${keyError.message}`);
           } else if (keyRow && typeof keyRow === 'object') {
             const row = keyRow as { api_key_ciphertext?: string; revoked_at?: string | null };
             if (row.revoked_at) {
-              console.warn('[MCP Server] âš ï¸ Cursor API key has been revoked');
+              console.warn(`[MCP Server] âš ï¸ ${agentProvider.label} API key has been revoked`);
             } else if (row.api_key_ciphertext) {
               try {
-                effectiveCursorApiKey = decryptCursorApiKey(row.api_key_ciphertext);
-                cursorApiKeySource = 'db';
-                console.log('[MCP Server] âœ… Cursor API key decrypted from DB');
+                agentApiKey = decryptCursorApiKey(row.api_key_ciphertext);
+                apiKeySource = 'db';
+                console.log(`[MCP Server] âœ… ${agentProvider.label} API key decrypted from DB`);
               } catch (decryptErr) {
                 console.warn(
-                  '[MCP Server] âš ï¸ Failed to decrypt Cursor API key:',
+                  `[MCP Server] âš ï¸ Failed to decrypt ${agentProvider.label} API key:`,
                   decryptErr instanceof Error ? decryptErr.message : 'unknown error'
                 );
               }
             } else {
-              console.warn('[MCP Server] âš ï¸ Cursor API key row found but api_key_ciphertext is empty');
+              console.warn(`[MCP Server] âš ï¸ ${agentProvider.label} API key row found but api_key_ciphertext is empty`);
             }
           } else {
-            console.warn(`[MCP Server] âš ï¸ No Cursor API key found for user_id: ${args.userId}`);
+            console.warn(`[MCP Server] âš ï¸ No ${agentProvider.label} API key found for user_id: ${args.userId}`);
           }
         } catch (error) {
-          console.warn('[MCP Server] âš ï¸ Exception fetching Cursor API key:', error instanceof Error ? error.message : 'Unknown error');
+          console.warn(`[MCP Server] âš ï¸ Exception fetching ${agentProvider.label} API key:`, error instanceof Error ? error.message : 'Unknown error');
         }
-      } else if (isCursorProvider && !effectiveCursorApiKey && !args.userId) {
-        console.warn('[MCP Server] âš ï¸ No user ID provided - cannot fetch Cursor API key from DB');
+      } else if (keyTable && !agentApiKey && !args.userId) {
+        console.warn(`[MCP Server] âš ï¸ No user ID provided - cannot fetch ${agentProvider.label} API key from DB`);
       }
 
-      if (isCursorProvider) {
-        const hasCursorKey = !!effectiveCursorApiKey;
-        console.log(`[MCP Server] Cursor API key ${hasCursorKey ? 'provided' : 'missing'} (per-user only, source=${cursorApiKeySource})`);
-        if (!hasCursorKey) {
-          const msg = 'Cursor API key not configured for this user. Please add your key in Settings.';
+      if (agentProvider.apiKeyArg) {
+        console.log(`[MCP Server] ${agentProvider.label} API key ${agentApiKey ? 'provided' : 'missing'} (source=${apiKeySource})`);
+      }
+
+      if (agentProvider.requiresApiKey) {
+        if (!agentApiKey) {
+          const msg = `${agentProvider.label} API key not configured for this user. Please add your key in Settings.`;
           await appendBuildLog(msg, 'error');
           return {
             content: [
@@ -2064,16 +2042,14 @@ When implementing this project:
         }
       }
 
-      // Execute prompt using Cursor Agent CLI
-      // The cursor-agent command will:
+      // Execute prompt using the provider's agent CLI
+      // The agent will:
       // 1. Analyze the project context
       // 2. Use its own AI to generate code
       // 3. Apply changes directly to the project
-      console.log(`[MCP Server] Calling cursor-agent CLI...`);
+      console.log(`[MCP Server] Calling ${agentProvider.label} CLI...`);
       
-      // Build command based on platform
       const isWindows = process.platform === 'win32';
-      let command: string;
       let actualProjectPath = args.projectPath;
       
       // Resolve relative paths to absolute paths
@@ -2605,60 +2581,29 @@ IMPORTANT: ALL styling and design decisions must follow the Design Reference sec
 Analyze the existing project structure and implement the task following the patterns already established. Ensure all success criteria are met.`;
       }
       
-      if (isWindows) {
-        // Convert absolute Windows path to WSL path
-        const wslProjectPath = actualProjectPath
-          .replace(/\\/g, '/')
-          .replace(/^([A-Z]):/i, (match, drive) => `/mnt/${drive.toLowerCase()}`);
-        
-        console.log(`[MCP Server] WSL path: ${wslProjectPath}`);
-        
-        // Save prompt to a temporary file to avoid command-line length issues
-        const tempPromptFile = path.join(actualProjectPath, '.cursor-prompt.tmp');
-        await fs.writeFile(tempPromptFile, directivePrompt, 'utf-8');
-        
-        const wslPromptFile = wslProjectPath + '/.cursor-prompt.tmp';
-        
-        // Use --print flag for non-interactive mode, --force to allow commands
-        // Available models: auto, composer-2, sonnet-4.5, sonnet-4.5-thinking, gpt-5, opus-4.1, grok, gemini-3-pro, composer-1.5
-        const modelArg = args.model || DEFAULT_CURSOR_AGENT_MODEL;
-        // Per-user key only (no server fallback)
-        const effectiveKey = effectiveCursorApiKey || '';
-        // Use export inside the bash -c string (single-quoted value) instead of --api-key "..." because
-        // double quotes inside a double-quoted bash -c string break cmd.exe parsing on Windows.
-        const wslEnvPrefix = effectiveKey ? `export CURSOR_API_KEY='${effectiveKey}' && ` : '';
-        command = `wsl -d Ubuntu bash -c "${wslEnvPrefix}cd '${wslProjectPath}' && cat '${wslPromptFile}' | ~/.local/bin/cursor-agent --print --output-format stream-json --stream-partial-output --force --model ${modelArg}"`;
-      } else {
-        // Save prompt to file for Unix-like systems too
-        const tempPromptFile = path.join(actualProjectPath, '.cursor-prompt.tmp');
-        await fs.writeFile(tempPromptFile, directivePrompt, 'utf-8');
-        
-        const modelArg = args.model || DEFAULT_CURSOR_AGENT_MODEL;
-        command = `cat .cursor-prompt.tmp | cursor-agent --print --output-format stream-json --stream-partial-output --force --model ${modelArg}`;
-      }
-      
-      await appendBuildLog('Starting Cursor Agent...');
-      console.log(`[MCP Server] Executing cursor-agent in: ${actualProjectPath}`);
+      await appendBuildLog(`Starting ${agentProvider.label}...`);
+      console.log(`[MCP Server] Executing ${agentProvider.id} in: ${actualProjectPath}`);
       console.log(`[MCP Server] Original prompt length: ${args.prompt.length} characters`);
       console.log(`[MCP Server] Directive prompt length: ${directivePrompt.length} characters`);
       
       let stdout = '';
       let stderr = '';
-      let cursorAgentLogs: Array<{ timestamp: string; type: string; message: string; data?: any }> = [];
-      const onBuildLog = (args.buildId && args.supabaseClient)
-        ? async (msg: string, level: 'info' | 'error' = 'info') => {
-            try {
-              const logType = level === 'error' && process.env.MCP_BUILD_LOG_TYPE_ERROR
-                ? process.env.MCP_BUILD_LOG_TYPE_ERROR
-                : (process.env.MCP_BUILD_LOG_TYPE_INFO ?? 'build_log');
-              await args.supabaseClient!.from('build_logs').insert({
-                build_id: args.buildId!,
-                log_type: logType,
-                message: msg.length > 500 ? msg.substring(0, 497) + '...' : msg,
-                created_at: new Date().toISOString(),
-              });
-            } catch (e) {
-              // ignore
+      let cursorAgentLogs: AgentLogEntry[] = [];
+      // Agent stream → typed events: tool calls and file edits get their own event types
+      const onBuildLog: BuildLogFn | undefined = buildEvents
+        ? async (msg, level = 'info', entry) => {
+            this.buildOrchestrator.noteAgentOutput(args.buildId!);
+            const message = msg.length > 500 ? msg.substring(0, 497) + '...' : msg;
+            if (entry?.type === 'agent_tool_call') {
+              await buildEvents.emit('agent_tool_call', {
+                provider: agentProvider.id,
+                tool: typeof entry.data?.tool === 'string' ? entry.data.tool : 'unknown',
+                detail: entry.message.substring(0, 200),
+              }, message);
+            } else if (entry?.type === 'agent_file' && typeof entry.data?.path === 'string') {
+              await buildEvents.emit('files_changed', { files: [entry.data.path] }, message);
+            } else {
+              await buildEvents.log(message, level, { source: agentProvider.id, agentEventType: entry?.type ?? null });
             }
           }
         : undefined;
@@ -2668,32 +2613,23 @@ Analyze the existing project structure and implement the task following the patt
       const effectiveTimeout = Math.max(args.timeout || MIN_AGENT_TIMEOUT_MS, MIN_AGENT_TIMEOUT_MS);
 
       try {
-        if (args.provider === 'claude-code') {
-          console.log(`[MCP Server] Using Claude Code provider`);
-          const result = await this.executeClaudeCodeStreaming(
-            directivePrompt,
-            actualProjectPath,
-            effectiveTimeout,
-            onBuildLog,
-            args.model,
-            args.claudeApiKey,
-          );
-          stdout = result.stdout;
-          stderr = result.stderr;
-          cursorAgentLogs = result.logs;
-          console.log(`[MCP Server] ðŸ”Š Captured ${cursorAgentLogs.length} log entries from Claude Code`);
-        } else {
-          const result = await this.executeCursorAgentStreaming(
-            command,
-            isWindows ? undefined : actualProjectPath,
-            effectiveTimeout,
-            onBuildLog,
-            effectiveCursorApiKey,
-          );
-          stdout = result.stdout;
-          stderr = result.stderr;
-          cursorAgentLogs = result.logs;
-          console.log(`[MCP Server] ðŸ“Š Captured ${cursorAgentLogs.length} log entries from cursor-agent`);
+        const result = await this.executeAgentStreaming(agentProvider.id, {
+          prompt: directivePrompt,
+          projectPath: actualProjectPath,
+          timeout: effectiveTimeout,
+          model: args.model,
+          apiKey: agentApiKey,
+          onBuildLog,
+          // Share the build worker's resource limits (worker-sandbox.ts)
+          buildId: args.buildId,
+        });
+        stdout = result.stdout;
+        stderr = result.stderr;
+        cursorAgentLogs = result.logs;
+        console.log(`[MCP Server] ðŸ“Š Captured ${cursorAgentLogs.length} log entries from ${agentProvider.label}`);
+        const summary = agentProvider.extractResult(result);
+        if (summary.costUsd !== undefined || summary.numTurns !== undefined) {
+          console.log(`[MCP Server] ${agentProvider.label} result: completed=${summary.completed}, turns=${summary.numTurns ?? '?'}, cost=$${summary.costUsd?.toFixed(4) ?? '?'}`);
         }
       } catch (error: any) {
         const isTimeoutError = error.message?.includes('timed out') || 
@@ -2705,19 +2641,11 @@ Analyze the existing project structure and implement the task following the patt
           return await this.handleTimeoutWithFallback(args, startTime);
         }
         
-        const providerLabel = args.provider === 'claude-code' ? 'Claude Code' : 'cursor-agent';
-        console.error(`[MCP Server] âš  ${providerLabel} error:`, error.message);
+        console.error(`[MCP Server] âš  ${agentProvider.label} error:`, error.message);
         throw error;
       }
       
-      // Clean up temp file
-      try {
-        await fs.unlink(path.join(actualProjectPath, '.cursor-prompt.tmp'));
-      } catch (e) {
-        // Ignore cleanup errors
-      }
-
-      const providerName = args.provider === 'claude-code' ? 'Claude Code' : 'Cursor Agent';
+      const providerName = agentProvider.label;
       await appendBuildLog(`${providerName} execution completed`);
       console.log(`[MCP Server] âœ“ ${providerName} execution completed`);
       console.log(`[MCP Server] Output length: ${stdout.length} characters`);
@@ -2794,7 +2722,7 @@ Analyze the existing project structure and implement the task following the patt
           console.log(`[MCP Server] ${validationResult.summary}`);
           console.log(`[MCP Server] Error count: ${validationResult.errors.length}`);
           
-          const fixResult = await this.autoFixBuildErrors(actualProjectPath, validationResult, 0, args.model, args.provider, effectiveCursorApiKey, args.claudeApiKey);
+          const fixResult = await this.autoFixBuildErrors(actualProjectPath, validationResult, 0, args.model, agentProvider.id, agentApiKey);
           
           if (fixResult.success) {
             await appendBuildLog('Build validation auto-fix completed');
@@ -2873,7 +2801,9 @@ Analyze the existing project structure and implement the task following the patt
       }
       
       // Auto-commit changes if GitHub token provided and files changed (even with build errors)
-      if (mergedConfig.gitHubToken && filesChanged.length > 0) {
+      if (args.autoCommit === false) {
+        await appendBuildLog('Auto-commit disabled for this prompt - leaving changes uncommitted');
+      } else if (mergedConfig.gitHubToken && filesChanged.length > 0) {
         try {
           await appendBuildLog(`Committing ${filesChanged.length} changed files...`);
           // Warn if build validation failed but still commit
@@ -3784,16 +3714,15 @@ This task was created by ScopesFlow automation. To complete:
   }
   
   /**
-   * Auto-fix build errors using cursor-agent or Claude Code.
+   * Auto-fix build errors using the build's agent provider.
    */
   private async autoFixBuildErrors(
     projectPath: string,
     errorDetails: { errors: string[]; output: string; summary: string },
     retryCount: number = 0,
     model?: string,
-    provider?: 'cursor' | 'claude-code',
-    cursorApiKey?: string,
-    claudeApiKey?: string,
+    provider?: ProviderId,
+    apiKey?: string,
   ): Promise<{ success: boolean; message: string }> {
     console.log(`[MCP Server] ðŸ”§ Auto-fixing build errors (attempt ${retryCount + 1}/${this.MAX_BUILD_FIX_RETRIES})...`);
     
@@ -3847,7 +3776,7 @@ Fix all errors now. Do not add new features, only fix the existing errors.`;
             timeout: 180000 // 3 minutes
           });
         } else {
-          await execAsync('npm install', { 
+          await execSandboxed('npm install', { 
             cwd: actualProjectPath,
             timeout: 180000 // 3 minutes
           });
@@ -3858,64 +3787,28 @@ Fix all errors now. Do not add new features, only fix the existing errors.`;
         // Don't fail the fix attempt if npm install fails - agent might be able to fix it
       }
       
-      const effectiveProvider = provider === 'claude-code' ? 'claude-code' : 'cursor';
-      if (effectiveProvider === 'cursor') {
-        const hasKey = typeof cursorApiKey === 'string' && cursorApiKey.trim().length > 0;
-        console.log(`[MCP Server] Cursor API key ${hasKey ? 'provided' : 'missing'} for auto-fix (per-user only)`);
+      const agentProvider = getProvider(resolveProviderId(provider));
+      const hasKey = typeof apiKey === 'string' && apiKey.trim().length > 0;
+      if (agentProvider.requiresApiKey) {
+        console.log(`[MCP Server] ${agentProvider.label} API key ${hasKey ? 'provided' : 'missing'} for auto-fix (per-user only)`);
         if (!hasKey) {
           return {
             success: false,
-            message: 'Cursor API key not configured. Cannot run cursor-agent to fix build errors.'
+            message: `${agentProvider.label} API key not configured. Cannot run ${agentProvider.id} to fix build errors.`
           };
         }
       }
 
-      if (effectiveProvider === 'claude-code') {
-        console.log(`[MCP Server] Executing Claude Code to fix errors...`);
-        await this.executeClaudeCodeStreaming(
-          fixPrompt,
-          actualProjectPath,
-          300000,
-          undefined,
-          model,
-          claudeApiKey,
-        );
-      } else {
-        const tempPromptFile = path.join(actualProjectPath, '.cursor-fix-prompt.tmp');
-        await fs.writeFile(tempPromptFile, fixPrompt, 'utf-8');
-
-        const modelArg = model || DEFAULT_CURSOR_AGENT_MODEL;
-        let command: string;
-        if (isWindows) {
-          const wslProjectPath = actualProjectPath
-            .replace(/\\/g, '/')
-            .replace(/^([A-Z]):/i, (match: string, drive: string) => `/mnt/${drive.toLowerCase()}`);
-
-          const wslPromptFile = wslProjectPath + '/.cursor-fix-prompt.tmp';
-          const wslEnvPrefix = cursorApiKey ? `export CURSOR_API_KEY='${cursorApiKey}' && ` : '';
-          command = `wsl -d Ubuntu bash -c "${wslEnvPrefix}cd '${wslProjectPath}' && cat '${wslPromptFile}' | ~/.local/bin/cursor-agent --print --output-format stream-json --stream-partial-output --force --model ${modelArg}"`;
-        } else {
-          command = `cat .cursor-fix-prompt.tmp | cursor-agent --print --output-format stream-json --stream-partial-output --force --model ${modelArg}`;
-        }
-
-        console.log(`[MCP Server] Executing cursor-agent to fix errors...`);
-
-        await this.executeCursorAgentStreaming(
-          command,
-          isWindows ? undefined : actualProjectPath,
-          300000,
-          undefined,
-          cursorApiKey,
-        );
+      console.log(`[MCP Server] Executing ${agentProvider.label} to fix errors...`);
+      await this.executeAgentStreaming(agentProvider.id, {
+        prompt: fixPrompt,
+        projectPath: actualProjectPath,
+        timeout: 300000,
+        model,
+        apiKey,
+      });
 
-        try {
-          await fs.unlink(tempPromptFile);
-        } catch {
-          // Ignore cleanup errors
-        }
-      }
-      
-      console.log(`[MCP Server] âœ… Cursor-agent fix attempt completed`);
+      console.log(`[MCP Server] âœ… ${agentProvider.label} fix attempt completed`);
       
       // Wait for file system to stabilize
       await this.waitForFileSystemStability(actualProjectPath, 15000);
@@ -3934,597 +3827,22 @@ Fix all errors now. Do not add new features, only fix the existing errors.`;
         console.log(`[MCP Server] âš ï¸ Build still has errors after fix attempt`);
         
         // Retry with incremented count
-        return await this.autoFixBuildErrors(actualProjectPath, validationResult, retryCount + 1, model, provider, cursorApiKey, claudeApiKey);
+        return await this.autoFixBuildErrors(actualProjectPath, validationResult, retryCount + 1, model, provider, apiKey);
       }
     } catch (error: any) {
       console.error(`[MCP Server] âŒ Auto-fix attempt ${retryCount + 1} failed:`, error.message);
       
       // Retry
-      return await this.autoFixBuildErrors(projectPath, errorDetails, retryCount + 1, model, provider, cursorApiKey, claudeApiKey);
+      return await this.autoFixBuildErrors(projectPath, errorDetails, retryCount + 1, model, provider, apiKey);
     }
   }
 
   /**
-   * Execute cursor-agent command with real-time streaming output
-   * Parses JSON stream and logs all events as they occur.
-   * When onBuildLog is provided (e.g. from automated build), each event is also sent to build_logs for realtime following.
-   */
-  private async executeCursorAgentStreaming(
-    command: string,
-    cwd: string | undefined,
-    timeout: number,
-    onBuildLog?: (message: string, level?: 'info' | 'error') => void | Promise<void>,
-    cursorApiKey?: string,
-  ): Promise<{ stdout: string; stderr: string; logs: Array<{ timestamp: string; type: string; message: string; data?: any }> }> {
-    const INACTIVITY_TIMEOUT_MS = 300_000; // 5 min of no output = stalled (cursor-agent has long silent coding phases)
-
-    return new Promise((resolve, reject) => {
-      let stdout = '';
-      let stderr = '';
-      let stdoutBuffer = '';
-      let timedOut = false;
-      const logs: Array<{ timestamp: string; type: string; message: string; data?: any }> = [];
-      const startTime = Date.now();
-      let assistantBuffer = '';
-      let assistantChunkCount = 0;
-      let assistantLastElapsed: string | undefined;
-
-      const extractAssistantText = (payload: any): string => {
-        if (!payload || typeof payload !== 'object') return '';
-        const message = payload.message;
-        if (message && typeof message === 'object') {
-          const content = (message as any).content;
-          if (typeof content === 'string') return content;
-          if (Array.isArray(content)) {
-            return content
-              .map((item: any) => (typeof item?.text === 'string' ? item.text : ''))
-              .join('');
-          }
-        }
-        if (typeof payload.content === 'string') return payload.content;
-        if (typeof payload.text === 'string') return payload.text;
-        if (typeof payload.delta === 'string') return payload.delta;
-        return '';
-      };
-
-      const normalizeAssistantText = (text: string): string =>
-        text.replace(/\r\n/g, '\n').trim();
-
-      const compactForBuildLog = (text: string): string =>
-        text.replace(/\s+/g, ' ').trim();
-
-      const appendAssistantChunk = (text: string, elapsed?: string) => {
-        if (!text) return;
-        const normalized = text.replace(/\r\n/g, '\n');
-        if (!normalized) return;
-        assistantBuffer = assistantBuffer ? `${assistantBuffer}${normalized}` : normalized;
-        assistantChunkCount += 1;
-        if (elapsed) assistantLastElapsed = elapsed;
-      };
-
-      const flushAssistantBuffer = (elapsed?: string) => {
-        if (!assistantBuffer) return;
-        const normalized = normalizeAssistantText(assistantBuffer);
-        if (!normalized) {
-          assistantBuffer = '';
-          assistantChunkCount = 0;
-          assistantLastElapsed = undefined;
-          return;
-        }
-        const data = { elapsed: elapsed || assistantLastElapsed, chunks: assistantChunkCount };
-        addLog('agent_assistant', normalized, data);
-        assistantBuffer = '';
-        assistantChunkCount = 0;
-        assistantLastElapsed = undefined;
-      };
-      
-      // Helper to add log entry and optionally stream to build_logs
-      const addLog = (type: string, message: string, data?: any) => {
-        logs.push({
-          timestamp: new Date().toISOString(),
-          type,
-          message,
-          data
-        });
-        if (onBuildLog) {
-          const level = type === 'agent_error' || type === 'warning' ? 'error' : 'info';
-          const safeMessage = type === 'agent_assistant' ? compactForBuildLog(message) : message;
-          const line = `[Agent] ${type}: ${safeMessage}`.substring(0, 500);
-          Promise.resolve(onBuildLog(line, level)).catch(() => {});
-        }
-      };
-      
-      console.log('[MCP Server] Starting cursor-agent with streaming output...');
-      addLog('info', 'Starting cursor-agent with streaming output');
-      
-      // Build env with per-user key only (no server fallback).
-      const spawnEnv = cursorApiKey
-        ? { ...process.env, CURSOR_API_KEY: cursorApiKey }
-        : process.env;
-
-      // Spawn the process (empty args array to avoid DEP0190 deprecation with shell: true)
-      const childProcess = spawn(command, [], {
-        cwd,
-        shell: true,
-        stdio: ['ignore', 'pipe', 'pipe'],
-        env: spawnEnv,
-      });
-      
-      // ── Kill helper shared by both timeout paths ──
-      const killProcess = (reason: string) => {
-        if (timedOut) return; // already handled
-        timedOut = true;
-        console.log(`[MCP Server] ${reason}`);
-        addLog('warning', reason);
-        addLog('info', 'Capturing partial work before timeout termination');
-        childProcess.kill('SIGTERM');
-        setTimeout(() => {
-          if (!childProcess.killed) {
-            childProcess.kill('SIGKILL');
-            addLog('warning', 'Force killed cursor-agent process');
-          }
-        }, 5000);
-      };
-
-      // Set up hard wall-clock timeout
-      const timeoutHandle = setTimeout(() => {
-        killProcess('Cursor-agent timed out (hard timeout), terminating process...');
-      }, timeout);
-
-      // Set up inactivity timeout — resets on every stdout/stderr data event
-      let inactivityHandle = setTimeout(() => {
-        killProcess(`Cursor-agent stalled — no output for ${INACTIVITY_TIMEOUT_MS / 1000}s. Killing.`);
-      }, INACTIVITY_TIMEOUT_MS);
-
-      const resetInactivityTimer = () => {
-        clearTimeout(inactivityHandle);
-        inactivityHandle = setTimeout(() => {
-          killProcess(`Cursor-agent stalled — no output for ${INACTIVITY_TIMEOUT_MS / 1000}s. Killing.`);
-        }, INACTIVITY_TIMEOUT_MS);
-      };
-
-      // Process stdout line by line for JSON streaming
-      childProcess.stdout?.on('data', (data: Buffer) => {
-        resetInactivityTimer();
-        const text = data.toString();
-        stdout += text;
-        stdoutBuffer += text;
-        
-        // âš ï¸ DETECT DEV SERVER ATTEMPTS - Only match actual command executions
-        // Match JSON command fields like: "command": "npm run dev"
-        // Avoid false positives from file contents, comments, or arbitrary text
-        const devServerPatterns = [
-          /"command"\s*:\s*"[^"]*npm\s+run\s+(dev|start)[^"]*"/i,  // npm run dev/start in JSON command
-          /"command"\s*:\s*"[^"]*(yarn|pnpm)\s+dev[^"]*"/i,         // yarn/pnpm dev in JSON command
-          /shellToolCall[^}]*"command"[^}]*npm\s+run\s+dev/i,       // shellToolCall with npm run dev
-        ];
-        
-        const isDevServerCommand = devServerPatterns.some(pattern => pattern.test(text));
-        
-        if (isDevServerCommand) {
-          const alertMsg = 'ALERT: cursor-agent is trying to run a dev server!';
-          console.error(`âš ï¸âš ï¸âš ï¸ [MCP Server] ${alertMsg}`);
-          console.error('âš ï¸âš ï¸âš ï¸ [MCP Server] This will cause a 5-minute timeout. Killing in 10 seconds if not stopped...');
-          addLog('error', alertMsg);
-          addLog('warning', 'Will kill cursor-agent in 10 seconds to prevent hang');
-          
-          // Give cursor-agent 10 seconds to stop on its own, then force kill
-          setTimeout(() => {
-            if (!childProcess.killed) {
-              const killMsg = 'Force-killing cursor-agent to prevent dev server hang!';
-              console.error(`âš ï¸âš ï¸âš ï¸ [MCP Server] ${killMsg}`);
-              addLog('error', killMsg);
-              childProcess.kill('SIGKILL');
-            }
-          }, 10000);
-        }
-        
-        // Process complete lines
-        const lines = stdoutBuffer.split('\n');
-        stdoutBuffer = lines.pop() || ''; // Keep incomplete line in buffer
-        
-        for (const line of lines) {
-          if (!line.trim()) continue;
-          
-          try {
-            const jsonData = JSON.parse(line);
-            const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-            
-            // Log different event types with appropriate formatting
-            if (jsonData.type === 'status') {
-              flushAssistantBuffer(elapsed);
-              const msg = jsonData.message || JSON.stringify(jsonData);
-              console.log(`[Cursor Agent] Status: ${msg}`);
-              addLog('agent_status', msg, { elapsed, raw: jsonData });
-            } else if (jsonData.type === 'file_change' || jsonData.type === 'file') {
-              flushAssistantBuffer(elapsed);
-              const path = jsonData.path || jsonData.file || JSON.stringify(jsonData);
-              console.log(`[Cursor Agent] File: ${path}`);
-              addLog('agent_file', `File modified: ${path}`, { elapsed, path, raw: jsonData });
-            } else if (jsonData.type === 'thinking' || jsonData.type === 'thought') {
-              flushAssistantBuffer(elapsed);
-              const thought = jsonData.content || jsonData.message || '...';
-              console.log(`[Cursor Agent] Thinking: ${thought}`);
-              addLog('agent_thinking', thought, { elapsed, raw: jsonData });
-            } else if (jsonData.type === 'error') {
-              flushAssistantBuffer(elapsed);
-              const errMsg = jsonData.message || JSON.stringify(jsonData);
-              console.error(`[Cursor Agent] Error: ${errMsg}`);
-              addLog('agent_error', errMsg, { elapsed, raw: jsonData });
-            } else if (jsonData.type === 'completion' || jsonData.type === 'done') {
-              flushAssistantBuffer(elapsed);
-              const msg = jsonData.message || 'Done';
-              console.log(`[Cursor Agent] Completed: ${msg}`);
-              addLog('agent_completion', msg, { elapsed, raw: jsonData });
-            } else if (jsonData.type === 'delta' || jsonData.type === 'text_delta') {
-              // Text deltas - accumulate for a single assistant log
-              const deltaText = jsonData.content || jsonData.text || jsonData.delta || '';
-              if (deltaText) {
-                process.stdout.write(deltaText);
-                appendAssistantChunk(deltaText, elapsed);
-              }
-            } else if (jsonData.type === 'tool_call') {
-              flushAssistantBuffer(elapsed);
-              // Capture tool calls (important for debugging)
-              const toolInfo = JSON.stringify(jsonData).substring(0, 200);
-              console.log(`[Cursor Agent] Tool Call: ${toolInfo}`);
-              addLog('agent_tool_call', toolInfo, { elapsed, raw: jsonData });
-            } else if (jsonData.type === 'assistant') {
-              // Capture assistant messages (aggregate chunks)
-              const content = extractAssistantText(jsonData);
-              const preview = (typeof content === 'string' ? content : '').substring(0, 100);
-              console.log(`[Cursor Agent] Assistant: ${preview}`);
-              appendAssistantChunk(content, elapsed);
-            } else {
-              flushAssistantBuffer(elapsed);
-              // Log any other event types
-              const eventInfo = JSON.stringify(jsonData).substring(0, 200);
-              console.log(`[Cursor Agent] ${jsonData.type || 'Event'}: ${eventInfo}`);
-              addLog('agent_event', eventInfo, { elapsed, eventType: jsonData.type, raw: jsonData });
-            }
-          } catch (parseError) {
-            // Not JSON or malformed - log as plain text
-            if (line.trim()) {
-              flushAssistantBuffer();
-              console.log(`[Cursor Agent] ${line}`);
-              addLog('agent_output', line);
-            }
-          }
-        }
-      });
-      
-      // Capture stderr
-      childProcess.stderr?.on('data', (data: Buffer) => {
-        resetInactivityTimer();
-        const text = data.toString();
-        stderr += text;
-        
-        // Log stderr in real-time too
-        const lines = text.split('\n').filter(l => l.trim());
-        for (const line of lines) {
-          flushAssistantBuffer();
-          console.error(`[Cursor Agent] stderr: ${line}`);
-          addLog('agent_stderr', line);
-        }
-      });
-      
-      // Handle process completion
-      childProcess.on('close', (code, signal) => {
-        clearTimeout(timeoutHandle);
-        clearTimeout(inactivityHandle);
-        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-        flushAssistantBuffer(elapsed);
-        
-        // Process any remaining buffer
-        if (stdoutBuffer.trim()) {
-          try {
-            const jsonData = JSON.parse(stdoutBuffer);
-            const preview = JSON.stringify(jsonData).substring(0, 200);
-            console.log(`[Cursor Agent] Final: ${preview}`);
-            addLog('agent_final', preview, { raw: jsonData });
-          } catch {
-            console.log(`[Cursor Agent] ${stdoutBuffer}`);
-            addLog('agent_output', stdoutBuffer);
-          }
-        }
-        
-        if (timedOut) {
-          const msg = 'Cursor-agent timed out but may have completed work';
-          console.log(`[MCP Server] âš  ${msg}`);
-          addLog('warning', msg, { elapsed, exitCode: code, signal });
-          resolve({ stdout, stderr, logs });
-        } else if (code !== 0 && code !== null) {
-          const msg = `Cursor-agent exited with code ${code}`;
-          console.log(`[MCP Server] ${msg}`);
-          addLog('warning', msg, { elapsed, exitCode: code, signal });
-          resolve({ stdout, stderr, logs });
-        } else {
-          const msg = 'Cursor-agent completed successfully';
-          console.log(`[MCP Server] âœ“ ${msg}`);
-          addLog('success', msg, { elapsed, exitCode: code, totalLogs: logs.length });
-          resolve({ stdout, stderr, logs });
-        }
-      });
-      
-      // Handle process errors
-      childProcess.on('error', (error) => {
-        clearTimeout(timeoutHandle);
-        const errMsg = `Cursor-agent process error: ${error.message}`;
-        console.error(`[MCP Server] âŒ ${errMsg}`);
-        addLog('error', errMsg, { error: error.message });
-        reject(error);
-      });
-    });
-  }
-
-  /**
-   * Execute Claude Code CLI with real-time streaming output.
-   * Mirrors executeCursorAgentStreaming() but uses the pre-authenticated `claude` CLI.
+   * Run one prompt through a registered agent provider with real-time streaming output.
+   * See providers/streamRunner.ts for timeout, stall and dev-server handling.
    */
-  private async executeClaudeCodeStreaming(
-    prompt: string,
-    projectPath: string,
-    timeout: number,
-    onBuildLog?: (message: string, level?: 'info' | 'error') => void | Promise<void>,
-    model?: string,
-    claudeApiKey?: string,
-  ): Promise<{ stdout: string; stderr: string; logs: Array<{ timestamp: string; type: string; message: string; data?: any }> }> {
-    const isWindows = process.platform === 'win32';
-    let actualProjectPath = projectPath;
-    if (!path.isAbsolute(projectPath)) {
-      actualProjectPath = path.resolve(process.cwd(), projectPath);
-    }
-
-    const promptFile = path.join(actualProjectPath, '.claude-prompt.tmp');
-    await fs.writeFile(promptFile, prompt, 'utf-8');
-
-    // Map model to a valid Claude CLI model. 'auto' is a Cursor-specific value
-    // and not recognized by the Claude CLI, so default to 'opus'.
-    const INVALID_CLAUDE_MODELS = new Set(['auto', 'composer-1.5', 'composer-2', 'gpt-5', 'grok', 'gemini-3-pro']);
-    const modelArg = (model && !INVALID_CLAUDE_MODELS.has(model)) ? model : 'opus';
-    const allowedTools = 'Bash,Read,Edit,Write,MultiEdit,Glob,Grep';
-    let command: string;
-
-    if (isWindows) {
-      const wslPath = actualProjectPath
-        .replace(/\\/g, '/')
-        .replace(/^([A-Z]):/i, (_: string, d: string) => `/mnt/${d.toLowerCase()}`);
-      command = `wsl -d Ubuntu bash -c "cd '${wslPath}' && claude -p \\\"$(cat .claude-prompt.tmp)\\\" --output-format stream-json --verbose --max-turns 25 --model ${modelArg} --allowedTools '${allowedTools}'"`;
-    } else {
-      command = `cd '${actualProjectPath}' && claude -p "$(cat .claude-prompt.tmp)" --output-format stream-json --verbose --max-turns 25 --model ${modelArg} --allowedTools '${allowedTools}'`;
-    }
-
-    const INACTIVITY_TIMEOUT_MS = 300_000; // 5 min of no output = stalled (agents have long silent coding phases)
-
-    return new Promise((resolve, reject) => {
-      let stdout = '';
-      let stderr = '';
-      let stdoutBuffer = '';
-      let timedOut = false;
-      const logs: Array<{ timestamp: string; type: string; message: string; data?: any }> = [];
-      const startTime = Date.now();
-      let assistantBuffer = '';
-      let assistantChunkCount = 0;
-
-      const compactForBuildLog = (text: string): string =>
-        text.replace(/\s+/g, ' ').trim();
-
-      const flushAssistantBuffer = (elapsed?: string) => {
-        if (!assistantBuffer) return;
-        const normalized = assistantBuffer.replace(/\r\n/g, '\n').trim();
-        if (!normalized) {
-          assistantBuffer = '';
-          assistantChunkCount = 0;
-          return;
-        }
-        addLog('agent_assistant', normalized, { elapsed, chunks: assistantChunkCount });
-        assistantBuffer = '';
-        assistantChunkCount = 0;
-      };
-
-      const addLog = (type: string, message: string, data?: any) => {
-        logs.push({ timestamp: new Date().toISOString(), type, message, data });
-        if (onBuildLog) {
-          const level = type === 'agent_error' || type === 'warning' ? 'error' : 'info';
-          const safeMessage = type === 'agent_assistant' ? compactForBuildLog(message) : message;
-          const line = `[Claude] ${type}: ${safeMessage}`.substring(0, 500);
-          Promise.resolve(onBuildLog(line, level)).catch(() => {});
-        }
-      };
-
-      const effectiveClaudeApiKey = typeof claudeApiKey === 'string' ? claudeApiKey.trim() : '';
-      if (effectiveClaudeApiKey) {
-        console.log('[MCP Server] Using user-provided Anthropic API key for Claude Code');
-        addLog('info', 'Using user-provided Anthropic API key');
-      } else {
-        console.log('[MCP Server] Using server default Anthropic auth for Claude Code');
-        addLog('info', 'Using server default Anthropic auth');
-      }
-
-      console.log('[MCP Server] Starting Claude Code with streaming output...');
-      addLog('info', 'Starting Claude Code with streaming output');
-
-      const spawnEnv = effectiveClaudeApiKey
-        ? { ...process.env, ANTHROPIC_API_KEY: effectiveClaudeApiKey }
-        : process.env;
-
-      const childProcess = spawn(command, [], {
-        cwd: isWindows ? undefined : actualProjectPath,
-        shell: true,
-        stdio: ['ignore', 'pipe', 'pipe'],
-        env: spawnEnv,
-      });
-
-      // ── Kill helper shared by both timeout paths ──
-      const killProcess = (reason: string) => {
-        if (timedOut) return;
-        timedOut = true;
-        console.log(`[MCP Server] ${reason}`);
-        addLog('warning', reason);
-        childProcess.kill('SIGTERM');
-        setTimeout(() => {
-          if (!childProcess.killed) {
-            childProcess.kill('SIGKILL');
-            addLog('warning', 'Force killed Claude Code process');
-          }
-        }, 5000);
-      };
-
-      const timeoutHandle = setTimeout(() => {
-        killProcess('Claude Code timed out (hard timeout), terminating process...');
-      }, timeout);
-
-      // Inactivity timeout — resets on every stdout/stderr data event
-      let inactivityHandle = setTimeout(() => {
-        killProcess(`Claude Code stalled — no output for ${INACTIVITY_TIMEOUT_MS / 1000}s. Killing.`);
-      }, INACTIVITY_TIMEOUT_MS);
-
-      const resetInactivityTimer = () => {
-        clearTimeout(inactivityHandle);
-        inactivityHandle = setTimeout(() => {
-          killProcess(`Claude Code stalled — no output for ${INACTIVITY_TIMEOUT_MS / 1000}s. Killing.`);
-        }, INACTIVITY_TIMEOUT_MS);
-      };
-
-      childProcess.stdout?.on('data', (data: Buffer) => {
-        resetInactivityTimer();
-        const text = data.toString();
-        stdout += text;
-        stdoutBuffer += text;
-
-        const devServerPatterns = [
-          /"command"\s*:\s*"[^"]*npm\s+run\s+(dev|start)[^"]*"/i,
-          /"command"\s*:\s*"[^"]*(yarn|pnpm)\s+dev[^"]*"/i,
-        ];
-        if (devServerPatterns.some(p => p.test(text))) {
-          const alertMsg = 'ALERT: Claude Code is trying to run a dev server!';
-          console.error(`[MCP Server] ${alertMsg}`);
-          addLog('error', alertMsg);
-          setTimeout(() => {
-            if (!childProcess.killed) {
-              addLog('error', 'Force-killing Claude Code to prevent dev server hang!');
-              childProcess.kill('SIGKILL');
-            }
-          }, 10000);
-        }
-
-        const lines = stdoutBuffer.split('\n');
-        stdoutBuffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (!line.trim()) continue;
-          try {
-            const jsonData = JSON.parse(line);
-            const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-
-            if (jsonData.type === 'assistant') {
-              const content = jsonData.message?.content;
-              let text = '';
-              if (typeof content === 'string') {
-                text = content;
-              } else if (Array.isArray(content)) {
-                text = content
-                  .filter((c: any) => c.type === 'text' && typeof c.text === 'string')
-                  .map((c: any) => c.text)
-                  .join('');
-              }
-              if (text) {
-                process.stdout.write(text.substring(0, 200));
-                assistantBuffer += text;
-                assistantChunkCount++;
-              }
-              const toolUses = Array.isArray(content)
-                ? content.filter((c: any) => c.type === 'tool_use')
-                : [];
-              for (const tool of toolUses) {
-                flushAssistantBuffer(elapsed);
-                const toolName = tool.name || 'unknown';
-                const toolInput = JSON.stringify(tool.input || {}).substring(0, 200);
-                console.log(`[Claude] Tool: ${toolName} ${toolInput}`);
-                addLog('agent_tool_call', `${toolName}: ${toolInput}`, { elapsed, raw: tool });
-              }
-            } else if (jsonData.type === 'result') {
-              flushAssistantBuffer(elapsed);
-              const costUsd = jsonData.cost_usd;
-              const durationMs = jsonData.duration_ms;
-              const numTurns = jsonData.num_turns;
-              const subtype = jsonData.subtype || 'unknown';
-              const resultText = typeof jsonData.result === 'string' ? jsonData.result.substring(0, 300) : '';
-              const msg = `Result: ${subtype} (turns: ${numTurns}, cost: $${costUsd?.toFixed(4) ?? '?'}, duration: ${durationMs ?? '?'}ms)`;
-              console.log(`[Claude] ${msg}`);
-              addLog('agent_completion', msg, { elapsed, costUsd, durationMs, numTurns, subtype, resultPreview: resultText });
-            } else if (jsonData.type === 'system') {
-              flushAssistantBuffer(elapsed);
-              const msg = jsonData.message || JSON.stringify(jsonData);
-              console.log(`[Claude] System: ${msg}`);
-              addLog('agent_status', msg, { elapsed, raw: jsonData });
-            } else {
-              flushAssistantBuffer(elapsed);
-              const info = JSON.stringify(jsonData).substring(0, 200);
-              console.log(`[Claude] ${jsonData.type || 'Event'}: ${info}`);
-              addLog('agent_event', info, { elapsed, eventType: jsonData.type });
-            }
-          } catch {
-            if (line.trim()) {
-              flushAssistantBuffer();
-              console.log(`[Claude] ${line}`);
-              addLog('agent_output', line);
-            }
-          }
-        }
-      });
-
-      childProcess.stderr?.on('data', (data: Buffer) => {
-        resetInactivityTimer();
-        const text = data.toString();
-        stderr += text;
-        const lines = text.split('\n').filter((l: string) => l.trim());
-        for (const line of lines) {
-          flushAssistantBuffer();
-          console.error(`[Claude] stderr: ${line}`);
-          addLog('agent_stderr', line);
-        }
-      });
-
-      childProcess.on('close', (code, signal) => {
-        clearTimeout(timeoutHandle);
-        clearTimeout(inactivityHandle);
-        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-        flushAssistantBuffer(elapsed);
-
-        if (stdoutBuffer.trim()) {
-          try {
-            const jsonData = JSON.parse(stdoutBuffer);
-            addLog('agent_final', JSON.stringify(jsonData).substring(0, 200), { raw: jsonData });
-          } catch {
-            addLog('agent_output', stdoutBuffer);
-          }
-        }
-
-        // Clean up temp file
-        fs.unlink(promptFile).catch(() => {});
-
-        if (timedOut) {
-          addLog('warning', 'Claude Code timed out but may have completed work', { elapsed, exitCode: code, signal });
-          resolve({ stdout, stderr, logs });
-        } else if (code !== 0 && code !== null) {
-          addLog('warning', `Claude Code exited with code ${code}`, { elapsed, exitCode: code, signal });
-          resolve({ stdout, stderr, logs });
-        } else {
-          addLog('success', 'Claude Code completed successfully', { elapsed, exitCode: code, totalLogs: logs.length });
-          resolve({ stdout, stderr, logs });
-        }
-      });
-
-      childProcess.on('error', (error) => {
-        clearTimeout(timeoutHandle);
-        const errMsg = `Claude Code process error: ${error.message}`;
-        console.error(`[MCP Server] ${errMsg}`);
-        addLog('error', errMsg, { error: error.message });
-        fs.unlink(promptFile).catch(() => {});
-        reject(error);
-      });
-    });
+  private async executeAgentStreaming(providerId: ProviderId, options: AgentRunOptions): Promise<AgentRunResult> {
+    return runAgentStreaming(getProvider(providerId), options);
   }
 
   /**
@@ -5741,7 +5059,7 @@ Fix all errors now. Do not add new features, only fix the existing errors.`;
     await fs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
     
     // Run npm install
-    await execAsync('npm install', { cwd: projectPath });
+    await execSandboxed('npm install', { cwd: projectPath });
     console.log('[MCP Server] âœ… Tailwind v3 dependencies installed');
   }
 
@@ -6226,15 +5544,47 @@ module.exports = {
     anonKey: string,
     supabaseServiceRoleKey?: string,
     targetSupabaseUrl?: string,
-    targetSupabaseAnonKey?: string
+    targetSupabaseAnonKey?: string,
+    owner?: BuildOwner,
+    options: { fresh?: boolean } = {}
   ): Promise<{ sessionPid?: number }> {
     this.stopRequests.delete(buildId);
-    const shouldStop = () => this.stopRequests.has(buildId);
+    this.pauseRequests.delete(buildId);
+    const shouldStop = () => this.stopRequests.has(buildId) || this.pauseRequests.has(buildId);
     const useWorkers = process.env.MCP_USE_BUILD_WORKERS === 'true';
 
+    // Claim the build for this node; another dispatcher may already be running it
+    const leaseDb = this.createBuildDbClient(supabaseUrl, accessToken, anonKey, supabaseServiceRoleKey);
+    if (!(await this.buildLeases.claim(leaseDb, buildId))) {
+      const leaseOwner = await this.buildLeases.activeOwner(leaseDb, buildId);
+      throw new Error(`Build ${buildId} is already running on node ${leaseOwner ?? 'unknown'}`);
+    }
+    const lease = { owner: this.buildLeases.nodeId, ttlMs: this.buildLeases.ttlMs };
+    const releaseLease = () => this.releaseBuildLease(leaseDb, buildId);
+
+    // Concurrency check for worker and in-process builds alike; only new starts
+    // count against daily quotas (queued builds are only dispatched when they pass)
+    const slot = this.buildOrchestrator.registerBuild(buildId, owner, options);
+    if (!slot.allowed) {
+      await this.handOffBuildLease(leaseDb, buildId);
+      throw new Error(slot.message);
+    }
+
     if (useWorkers) {
-      return this.runBuildWorker(buildId, supabaseUrl, accessToken, anonKey, supabaseServiceRoleKey, targetSupabaseUrl, targetSupabaseAnonKey);
+      let started: { sessionPid?: number };
+      try {
+        started = await this.runBuildWorker(buildId, supabaseUrl, accessToken, anonKey, supabaseServiceRoleKey, targetSupabaseUrl, targetSupabaseAnonKey, owner, releaseLease);
+      } catch (err) {
+        // Not started: free the slot and give the lease back
+        this.buildOrchestrator.unregisterBuild(buildId);
+        await this.handOffBuildLease(leaseDb, buildId);
+        throw err;
+      }
+      // Lets a restarted dispatcher find the worker again (build-recovery.ts)
+      await this.recordWorkerPid(leaseDb, buildId, started.sessionPid ?? null);
+      return started;
     }
+    await this.recordWorkerPid(leaseDb, buildId, null);
 
     // â”€â”€â”€â”€ Legacy in-process mode â”€â”€â”€â”€
     const createProjectFn = (config: unknown) => {
@@ -6262,10 +5612,15 @@ module.exports = {
         executePromptFn,
         activeBuildTracker: this.activeBuildTracker,
         shouldStop,
+        pauseRequested: () => this.pauseRequests.has(buildId),
+        lease,
       }).catch((err) => {
         console.error('[MCP Server] runBuildFromPayload error:', err);
       }).finally(() => {
         this.stopRequests.delete(buildId);
+        this.pauseRequests.delete(buildId);
+        this.buildOrchestrator.unregisterBuild(buildId);
+        void releaseLease();
       });
     });
 
@@ -6284,28 +5639,23 @@ module.exports = {
     anonKey: string,
     supabaseServiceRoleKey?: string,
     targetSupabaseUrl?: string,
-    targetSupabaseAnonKey?: string
+    targetSupabaseAnonKey?: string,
+    owner: BuildOwner = { userId: null, orgId: null },
+    onExit?: () => void
   ): Promise<{ sessionPid?: number }> {
-    // Concurrency check
-    if (!this.buildOrchestrator.canStartBuild()) {
-      throw new Error('Max concurrent builds reached. Try again later.');
-    }
-
     // Ensure log directory exists
-    const logDir = process.env.MCP_BUILD_LOG_DIR || path.join(process.cwd(), 'logs', 'builds');
-    await fs.mkdir(logDir, { recursive: true });
+    await fs.mkdir(getBuildLogDir(), { recursive: true });
 
-    const outLogPath = path.join(logDir, `${buildId}.out.log`);
-    const errLogPath = path.join(logDir, `${buildId}.err.log`);
+    const { out: outLogPath, err: errLogPath } = getBuildLogPaths(buildId);
 
-    const workerEnv: Record<string, string> = {
-      ...process.env as Record<string, string>,
+    // Only allow-listed dispatcher variables reach the worker (worker-sandbox.ts)
+    const workerEnv: Record<string, string> = buildWorkerEnv({
       BUILD_ID: buildId,
       SUPABASE_URL: supabaseUrl,
       SUPABASE_ANON_KEY: anonKey,
       SUPABASE_ACCESS_TOKEN: accessToken,
       MCP_DISPATCHER_URL: `http://localhost:${process.env.MCP_SERVER_PORT || '3001'}`,
-    };
+    });
     if (supabaseServiceRoleKey) {
       workerEnv['MCP_SUPABASE_SERVICE_ROLE_KEY'] = supabaseServiceRoleKey;
     }
@@ -6318,20 +5668,44 @@ module.exports = {
     if (process.env.MCP_BUILD_API_KEY) {
       workerEnv['MCP_BUILD_API_KEY'] = process.env.MCP_BUILD_API_KEY;
     }
-
-    // Spawn worker
+    // The worker heartbeat renews this node's lease on the build
+    workerEnv['BUILD_LEASE_OWNER'] = this.buildLeases.nodeId;
+    workerEnv['BUILD_LEASE_TTL_MS'] = String(this.buildLeases.ttlMs);
+    // Drain requests reach the worker through a marker file (build-drain.ts)
+    await clearWorkerDrain(buildId);
+    workerEnv['BUILD_DRAIN_FILE'] = getDrainFilePath(buildId);
+    // Pause requests too (build-pause.ts)
+    await clearWorkerPause(buildId);
+    workerEnv['BUILD_PAUSE_FILE'] = getPauseFilePath(buildId);
+
+    // Resource limits and filesystem confinement (cgroup v2 / prlimit / bubblewrap).
+    // The worker runs from its own directory, so call tsx by path rather than via npx.
     const workerScript = path.join(process.cwd(), 'build-worker.ts');
-    const child = spawn('npx', ['tsx', workerScript], {
-      env: workerEnv,
-      stdio: ['ignore', 'pipe', 'pipe'],
-      detached: false,
-    });
-
-    const outStream = await fs.open(outLogPath, 'a').then(fh => fh.createWriteStream());
-    const errStream = await fs.open(errLogPath, 'a').then(fh => fh.createWriteStream());
-
-    child.stdout?.pipe(outStream);
-    child.stderr?.pipe(errStream);
+    const tsxBin = path.join(process.cwd(), 'node_modules', '.bin', 'tsx');
+    const tsxArgv = await fs.access(tsxBin).then(() => [tsxBin], () => ['npx', 'tsx']);
+    const sandbox = await prepareWorkerSandbox(buildId, [...tsxArgv, workerScript]);
+    workerEnv['TMPDIR'] = path.join(sandbox.cwd, '.tmp');
+    // Pin the projects dir, or the runner would derive it from the worker's TMPDIR
+    workerEnv['MCP_BUILD_PROJECTS_DIR'] = getProjectsBaseDir();
+
+    // Spawn worker. It writes straight to its log files and gets its own process
+    // group, so it keeps running (and can be re-attached) if the dispatcher restarts.
+    // Heartbeats come back over the IPC channel (worker-ipc.ts).
+    const outFile = await fs.open(outLogPath, 'a');
+    const errFile = await fs.open(errLogPath, 'a');
+    let child: ChildProcess;
+    try {
+      child = spawn(sandbox.command, sandbox.args, {
+        cwd: sandbox.cwd,
+        env: workerEnv,
+        stdio: ['ignore', outFile.fd, errFile.fd, 'ipc'],
+        detached: true,
+      });
+    } finally {
+      // The child has its own copies of the descriptors
+      await outFile.close();
+      await errFile.close();
+    }
 
     const session: import('./build-orchestrator.js').WorkerSession = {
       buildId,
@@ -6340,6 +5714,8 @@ module.exports = {
       startedAt: new Date().toISOString(),
       logFile: outLogPath,
       errFile: errLogPath,
+      userId: owner.userId,
+      orgId: owner.orgId,
     };
 
     this.buildOrchestrator.registerWorker(session);
@@ -6356,15 +5732,39 @@ module.exports = {
       projectPath: '',
     });
 
-    console.log(`[MCP Server] Worker spawned for build ${buildId} (pid: ${child.pid})`);
+    console.log(`[MCP Server] Worker spawned for build ${buildId} (pid: ${child.pid}, sandbox: ${sandbox.enforcement.join(', ') || 'none'})`);
+
+    // Live status: kept in memory for stall detection and /api/sessions
+    child.on('message', (message) => {
+      if (!isWorkerHeartbeat(message) || message.buildId !== buildId) return;
+      this.buildOrchestrator.recordHeartbeat(message);
+      const tracked = this.activeBuildTracker.get(buildId);
+      if (tracked) {
+        tracked.currentStep = message.currentStep ?? tracked.currentStep;
+        tracked.totalSteps = message.totalSteps ?? tracked.totalSteps;
+      }
+    });
 
     // Cleanup on exit
     child.on('exit', (code, signal) => {
       console.log(`[MCP Server] Worker for build ${buildId} exited (code=${code}, signal=${signal})`);
       this.buildOrchestrator.unregisterWorker(buildId);
       this.activeBuildTracker.delete(buildId);
-      outStream.close();
-      errStream.close();
+      void (async () => {
+        if (code !== 0) {
+          const breach = await detectLimitBreach(sandbox, code, signal, errLogPath);
+          if (breach) {
+            await this.reportLimitBreach(
+              this.createBuildDbClient(supabaseUrl, accessToken, anonKey, supabaseServiceRoleKey),
+              buildId,
+              breach,
+            ).catch((err) => console.error(`[MCP Server] Failed to report limit breach for build ${buildId}:`, err));
+          }
+        }
+        await cleanupWorkerSandbox(sandbox);
+        // After a breach is recorded the build is failed, so lease takeover leaves it alone
+        onExit?.();
+      })();
     });
 
     return { sessionPid: child.pid };
@@ -6391,22 +5791,385 @@ module.exports = {
     };
   }
 
-  // WebSocket server implementation (HTTP server with upgrade + POST /api/start-build)
-  async runWebSocket() {
-    const port = parseInt(process.env.MCP_SERVER_PORT || '3001');
-    const host = process.env.MCP_SERVER_HOST || 'localhost';
-    const apiKey = process.env.MCP_BUILD_API_KEY?.trim();
+  /**
+   * Credentials for a build taken off the queue: those of the request that queued
+   * it, or this node's service role for builds restored from the queue file after
+   * a restart (the file holds no credentials). Throws when there are neither.
+   */
+  private takeQueuedBuildCredentials(buildId: string): BuildCredentials {
+    const queued = this.queuedBuildCredentials.get(buildId);
+    this.queuedBuildCredentials.delete(buildId);
+    if (queued) return queued;
+    const supabaseUrl = process.env.SUPABASE_URL?.trim();
+    const serviceRoleKey = process.env.MCP_SUPABASE_SERVICE_ROLE_KEY?.trim();
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error(`Queued build ${buildId} was restored without credentials; dispatching it needs SUPABASE_URL and MCP_SUPABASE_SERVICE_ROLE_KEY`);
+    }
+    return { supabaseUrl, accessToken: '', anonKey: process.env.SUPABASE_ANON_KEY?.trim() ?? '', supabaseServiceRoleKey: serviceRoleKey };
+  }
 
-    this.wss = new WebSocketServer({ noServer: true, perMessageDeflate: false });
+  /** Start a build taken off the queue (BuildOrchestrator dispatcher). */
+  private async dispatchQueuedBuild(entry: QueuedBuild): Promise<void> {
+    try {
+      const { supabaseUrl, accessToken, anonKey, supabaseServiceRoleKey, targetSupabaseUrl, targetSupabaseAnonKey } = this.takeQueuedBuildCredentials(entry.buildId);
+      // A build started from the dashboard gets a fresh resume budget (build-recovery.ts)
+      await this.createBuildDbClient(supabaseUrl, accessToken, anonKey, supabaseServiceRoleKey)
+        .from('automated_builds').update({ resume_attempts: 0 }).eq('id', entry.buildId);
+      await this.runBuild(entry.buildId, supabaseUrl, accessToken, anonKey, supabaseServiceRoleKey, targetSupabaseUrl, targetSupabaseAnonKey, {
+        userId: entry.userId,
+        orgId: entry.orgId ?? null,
+      }, { fresh: !entry.resume });
+      console.log(`[MCP Server] Dispatched queued build ${entry.buildId} (priority ${entry.priority})`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Build start failed';
+      console.error(`[MCP Server] runBuild error for queued build ${entry.buildId}:`, err);
+      this.buildStartErrors.set(entry.buildId, message);
+      // Only read back by a waiting /api/start-build; don't keep it for restored or later dispatches
+      setTimeout(() => this.buildStartErrors.delete(entry.buildId), 60_000).unref();
+      throw err;
+    }
+  }
 
-    this.wss.on('connection', (ws) => {
-      console.error('MCP client connected');
-      ws.on('message', async (data) => {
-        try {
-          const message = JSON.parse(data.toString());
-          console.error('Received message:', message.type || message.method);
-          console.error('Message details:', JSON.stringify(message, null, 2));
-          const response = await this.processMessage(message);
+  /** Mark a queued build failed after a daily quota rejected it, so the dashboard shows why. */
+  private async rejectQueuedBuild(entry: QueuedBuild, decision: Extract<QuotaDecision, { allowed: false }>): Promise<void> {
+    console.error(`[MCP Server] Queued build ${entry.buildId} rejected: ${decision.reason}`);
+    this.buildQuotaRejections.set(entry.buildId, decision);
+    setTimeout(() => this.buildQuotaRejections.delete(entry.buildId), 60_000).unref();
+    const { supabaseUrl, accessToken, anonKey, supabaseServiceRoleKey } = this.takeQueuedBuildCredentials(entry.buildId);
+    const db = this.createBuildDbClient(supabaseUrl, accessToken, anonKey, supabaseServiceRoleKey);
+    await db.from('automated_builds').update({
+      status: 'failed',
+      error_message: decision.message,
+      updated_at: new Date().toISOString(),
+    }).eq('id', entry.buildId);
+    await new BuildEventEmitter(db, entry.buildId).emit('build_error', {
+      message: decision.message,
+      source: 'quota',
+      reason: decision.reason,
+      scope: decision.scope,
+      limit: decision.limit,
+      current: decision.current,
+      retryAt: decision.retryAt ?? null,
+    });
+  }
+
+  /**
+   * Answer a start or resume request after the build was queued and dispatched:
+   * 200 started, 202 still queued, 429 rejected by a quota, 500 failed to start.
+   */
+  private respondToDispatch(res: http.ServerResponse, cors: Record<string, string>, buildId: string, extra: Record<string, unknown> = {}): void {
+    const rejection = this.buildQuotaRejections.get(buildId);
+    this.buildQuotaRejections.delete(buildId);
+    if (rejection) {
+      res.writeHead(429, cors);
+      res.end(JSON.stringify({ started: false, queued: false, buildId, error: rejection.message, code: rejection.reason, quota: rejection }));
+      return;
+    }
+    const startError = this.buildStartErrors.get(buildId);
+    this.buildStartErrors.delete(buildId);
+    if (startError) {
+      res.writeHead(500, cors);
+      res.end(JSON.stringify({ error: startError }));
+      return;
+    }
+    const position = this.buildOrchestrator.getQueuePosition(buildId);
+    if (position !== null) {
+      res.writeHead(202, cors);
+      const deferral = this.buildOrchestrator.getQueueDeferral(buildId);
+      res.end(JSON.stringify({ started: false, queued: true, buildId, position, code: deferral?.reason ?? null, quota: deferral ?? null, ...extra }));
+      return;
+    }
+    res.writeHead(200, cors);
+    res.end(JSON.stringify({ started: true, buildId, sessionPid: this.buildOrchestrator.getWorkerSession(buildId)?.pid, ...extra }));
+  }
+
+  /** Owner of a build (user and project organization) for queue fairness and quotas. Best effort: unknown parts are null. */
+  private async lookupBuildOwner(buildId: string, supabaseUrl: string, accessToken: string, anonKey: string, serviceRoleKey?: string): Promise<BuildOwner> {
+    const owner: BuildOwner = { userId: null, orgId: null };
+    try {
+      const db = this.createBuildDbClient(supabaseUrl, accessToken, anonKey, serviceRoleKey);
+      const { data: build } = await db.from('automated_builds').select('user_id, project_id').eq('id', buildId).maybeSingle();
+      if (typeof build?.user_id === 'string') owner.userId = build.user_id;
+      if (typeof build?.project_id === 'string') {
+        const { data: project } = await db.from('projects').select('organization_id').eq('id', build.project_id).maybeSingle();
+        if (typeof project?.organization_id === 'string') owner.orgId = project.organization_id;
+      }
+    } catch {
+      // Unknown owner: global limits still apply
+    }
+    return owner;
+  }
+
+  /** Supabase client for build bookkeeping: service role when available, else the user's JWT. */
+  private createBuildDbClient(supabaseUrl: string, accessToken: string, anonKey: string, serviceRoleKey?: string): SupabaseClient {
+    return serviceRoleKey
+      ? createClient(supabaseUrl, serviceRoleKey, { auth: { autoRefreshToken: false, persistSession: false } })
+      : createClient(supabaseUrl, anonKey, { global: { headers: { Authorization: `Bearer ${accessToken}` } } });
+  }
+
+  /** Service-role client from the dispatcher's own env, or null when it is not configured. */
+  private createServiceDbClient(): SupabaseClient | null {
+    const serviceKey = process.env.MCP_SUPABASE_SERVICE_ROLE_KEY?.trim();
+    const sbUrl = process.env.SUPABASE_URL?.trim();
+    return serviceKey && sbUrl
+      ? createClient(sbUrl, serviceKey, { auth: { autoRefreshToken: false, persistSession: false } })
+      : null;
+  }
+
+  /**
+   * Release this node's lease once a build's run ends. While draining the lease is
+   * kept: the build was checkpointed and resumes after the restart (or on another node).
+   */
+  private async releaseBuildLease(db: SupabaseClient, buildId: string): Promise<void> {
+    if (this.drainState) return;
+    try {
+      await this.buildLeases.release(db, buildId);
+    } catch (err) {
+      console.error(`[MCP Server] Failed to release lease for build ${buildId}:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  /** Give back the lease of a build this node claimed but did not start (non-blocking). */
+  private async handOffBuildLease(db: SupabaseClient, buildId: string): Promise<void> {
+    try {
+      await this.buildLeases.handOff(db, buildId);
+    } catch (err) {
+      console.error(`[MCP Server] Failed to hand off lease for build ${buildId}:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  /** Fail a build whose worker hit a resource limit, with the limit as its failure reason. */
+  private async reportLimitBreach(db: SupabaseClient, buildId: string, breach: LimitBreach): Promise<void> {
+    console.error(`[MCP Server] Build ${buildId}: ${breach.message}`);
+    await db.from('automated_builds').update({
+      status: 'failed',
+      failure_reason: breach.reason,
+      error_message: breach.message,
+      completed_at: new Date().toISOString(),
+    }).eq('id', buildId);
+    await new BuildEventEmitter(db, buildId).emit('build_error', {
+      message: breach.message,
+      source: 'sandbox',
+      reason: breach.reason,
+      limit: breach.limit,
+    });
+  }
+
+  /** Store the worker PID of a build (null for in-process builds). Non-blocking. */
+  private async recordWorkerPid(db: SupabaseClient, buildId: string, pid: number | null): Promise<void> {
+    try {
+      await db.from('automated_builds').update({ worker_pid: pid }).eq('id', buildId);
+    } catch (err) {
+      console.error(`[MCP Server] Failed to record worker pid for build ${buildId}:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  /**
+   * Restart a running build whose node stopped renewing its lease (lease takeover).
+   * Another surviving node may win the claim; that is fine.
+   */
+  private async takeOverBuild(orphan: OrphanedBuild, db: SupabaseClient): Promise<void> {
+    if (this.drainState || !this.buildOrchestrator.canStartBuild() || this.activeBuildTracker.has(orphan.buildId)) return;
+    if (!(await this.buildLeases.claim(db, orphan.buildId, orphan.previousOwner))) return;
+
+    const resumed = await this.resumeBuild(orphan.buildId, db, {
+      drained: !!orphan.drainedAt,
+      notice: {
+        message: `Build taken over by node ${this.buildLeases.nodeId}; node ${orphan.previousOwner ?? 'unknown'} stopped renewing its lease.`,
+        details: { source: 'lease', previousOwner: orphan.previousOwner, leaseExpiredAt: orphan.leaseExpiredAt },
+      },
+    });
+    if (resumed) {
+      console.error(`[MCP Server] Took over build ${orphan.buildId} from node ${orphan.previousOwner ?? 'unknown'} (lease lapsed at ${orphan.leaseExpiredAt})`);
+    }
+  }
+
+  /**
+   * Startup reconciliation: running builds this node leased before it restarted are
+   * re-attached when their worker survived, otherwise re-spawned in resume mode.
+   * Returns how many were re-attached and resumed.
+   */
+  private async recoverOwnedBuilds(db: SupabaseClient): Promise<{ reattached: number; resumed: number }> {
+    const result = { reattached: 0, resumed: 0 };
+    for (const build of await findOwnedRunningBuilds(db, this.buildLeases.nodeId)) {
+      try {
+        if (this.buildOrchestrator.getWorkerSession(build.buildId) || this.activeBuildTracker.has(build.buildId)) continue;
+        if (build.workerPid && await isBuildWorkerAlive(build.workerPid, build.buildId)) {
+          await this.reattachBuildWorker(build.buildId, build.workerPid, db);
+          result.reattached++;
+          continue;
+        }
+        if (!this.buildOrchestrator.canStartBuild()) {
+          // No slot: the lease lapses and the takeover scan (here or on another node) picks it up
+          console.error(`[MCP Server] No free slot to resume build ${build.buildId}; leaving it to lease takeover`);
+          continue;
+        }
+        if (!(await this.buildLeases.claim(db, build.buildId))) continue; // already taken over
+        const resumed = await this.resumeBuild(build.buildId, db, {
+          drained: !!build.drainedAt,
+          notice: {
+            message: build.drainedAt
+              ? `Dispatcher ${this.buildLeases.nodeId} restarted after a drain; resuming the build from its checkpoint.`
+              : `Dispatcher ${this.buildLeases.nodeId} restarted and the build worker was gone; resuming the build.`,
+            details: { source: 'recovery', workerPid: build.workerPid, drainedAt: build.drainedAt },
+          },
+        });
+        if (resumed) result.resumed++;
+      } catch (err) {
+        console.error(`[MCP Server] Failed to recover build ${build.buildId}:`, err instanceof Error ? err.message : err);
+      }
+    }
+    return result;
+  }
+
+  /** Track a worker that survived a dispatcher restart again (sessions, streams, lease release on exit). */
+  private async reattachBuildWorker(buildId: string, pid: number, db: SupabaseClient): Promise<void> {
+    if (!(await this.buildLeases.claim(db, buildId))) return;
+    const sbUrl = process.env.SUPABASE_URL?.trim() ?? '';
+    const owner = await this.lookupBuildOwner(buildId, sbUrl, '', process.env.SUPABASE_ANON_KEY?.trim() ?? '', process.env.MCP_SUPABASE_SERVICE_ROLE_KEY?.trim());
+    const { out, err } = getBuildLogPaths(buildId);
+    const startedAt = new Date().toISOString();
+    this.buildOrchestrator.adoptWorker({
+      buildId,
+      pid,
+      startedAt,
+      logFile: out,
+      errFile: err,
+      userId: owner.userId,
+      orgId: owner.orgId,
+    }, () => {
+      console.log(`[MCP Server] Re-attached worker for build ${buildId} exited (pid: ${pid})`);
+      this.activeBuildTracker.delete(buildId);
+      void this.releaseBuildLease(db, buildId);
+    });
+    this.activeBuildTracker.set(buildId, {
+      buildId,
+      projectId: '',
+      projectName: buildId,
+      startedAt,
+      currentStep: 0,
+      totalSteps: 0,
+      status: 'running',
+      projectPath: '',
+    });
+    console.log(`[MCP Server] Re-attached worker for build ${buildId} (pid: ${pid})`);
+  }
+
+  /**
+   * Re-spawn a build this node holds the lease for; runBuildLoop resumes from
+   * cursor_project_path / current_step. Runs with this node's service role since the
+   * user's JWT is gone, so the project directory must be reachable from this node
+   * (MCP_BUILD_PROJECTS_DIR on shared storage for takeovers). Builds that used up
+   * their resume attempts are failed instead; a drain checkpoint does not use one.
+   * A resume only needs a concurrency slot, not a daily quota start; without a
+   * slot the lease is handed back for a later takeover scan and no attempt is used.
+   * `notice` is logged to the build once it gets its slot. Returns whether the
+   * build was restarted.
+   */
+  private async resumeBuild(
+    buildId: string,
+    db: SupabaseClient,
+    options: { drained?: boolean; notice?: { message: string; details: Record<string, unknown> } } = {}
+  ): Promise<boolean> {
+    const sbUrl = process.env.SUPABASE_URL?.trim();
+    const svcKey = process.env.MCP_SUPABASE_SERVICE_ROLE_KEY?.trim();
+    if (!sbUrl || !svcKey) throw new Error('Resuming builds needs SUPABASE_URL and MCP_SUPABASE_SERVICE_ROLE_KEY');
+
+    const anonKey = process.env.SUPABASE_ANON_KEY?.trim() ?? '';
+    const owner = await this.lookupBuildOwner(buildId, sbUrl, '', anonKey, svcKey);
+    const slot = this.buildOrchestrator.checkQuota(owner);
+    if (!slot.allowed) {
+      console.error(`[MCP Server] Not resuming build ${buildId} here: ${slot.message}`);
+      await this.handOffBuildLease(db, buildId);
+      return false;
+    }
+    if (options.notice) {
+      await new BuildEventEmitter(db, buildId).log(options.notice.message, 'warn', options.notice.details);
+    }
+
+    const attempt = options.drained
+      ? { allowed: true as const, attempt: 0 }
+      : await recordResumeAttempt(db, buildId);
+    if (options.drained) {
+      await db.from('automated_builds').update({ drained_at: null }).eq('id', buildId);
+    }
+    if (!attempt.allowed) {
+      const message = `Build could not be recovered after ${attempt.attempts} resume attempt(s).`;
+      console.error(`[MCP Server] ${message} (${buildId})`);
+      await db.from('automated_builds').update({
+        status: 'failed',
+        error_message: message,
+        completed_at: new Date().toISOString(),
+      }).eq('id', buildId);
+      await new BuildEventEmitter(db, buildId).log(message, 'error', { source: 'recovery', attempts: attempt.attempts, max: attempt.max });
+      await this.buildLeases.release(db, buildId);
+      return false;
+    }
+
+    console.error(options.drained
+      ? `[MCP Server] Resuming drained build ${buildId}`
+      : `[MCP Server] Resuming build ${buildId} (attempt ${attempt.attempt}/${getMaxResumeAttempts()})`);
+    await this.runBuild(buildId, sbUrl, '', anonKey, svcKey, undefined, undefined, owner);
+    return true;
+  }
+
+  /**
+   * Validate a /api/builds/:id/stream request (SSE or WebSocket upgrade).
+   * EventSource and browser WebSockets cannot set headers, so the API key may
+   * also come as ?apiKey=. The resume cursor comes from Last-Event-ID or ?cursor=.
+   */
+  private parseBuildStreamRequest(
+    req: http.IncomingMessage,
+    apiKey: string | undefined
+  ): { buildId: string; cursor: ReturnType<typeof parseStreamCursor> } | { status: number; error: string } | null {
+    const url = new URL(req.url || '', 'http://localhost');
+    const match = url.pathname.match(/^\/api\/builds\/([^/]+)\/stream\/?$/);
+    if (!match) return null;
+    if (apiKey && req.headers['x-api-key'] !== apiKey && url.searchParams.get('apiKey') !== apiKey) {
+      return { status: 401, error: 'Unauthorized' };
+    }
+    const buildId = decodeURIComponent(match[1]);
+    if (!isValidBuildId(buildId)) {
+      return { status: 400, error: 'Invalid build id' };
+    }
+    const lastEventId = req.headers['last-event-id'];
+    const cursor = parseStreamCursor(typeof lastEventId === 'string' ? lastEventId : url.searchParams.get('cursor'));
+    return { buildId, cursor };
+  }
+
+  /** Subscribe to a build's live stream; it ends once the build is no longer running here. */
+  private subscribeBuildStream(
+    buildId: string,
+    cursor: ReturnType<typeof parseStreamCursor>,
+    onMessage: (message: BuildStreamMessage) => void
+  ): () => void {
+    return this.buildStreamHub.subscribe(buildId, {
+      cursor,
+      isActive: () => !!this.buildOrchestrator.getWorkerSession(buildId) || this.activeBuildTracker.has(buildId),
+    }, onMessage);
+  }
+
+  // WebSocket server implementation (HTTP server with upgrade + POST /api/start-build)
+  async runWebSocket() {
+    const port = parseInt(process.env.MCP_SERVER_PORT || '3001');
+    const host = process.env.MCP_SERVER_HOST || 'localhost';
+    const apiKey = process.env.MCP_BUILD_API_KEY?.trim();
+
+    this.wss = new WebSocketServer({ noServer: true, perMessageDeflate: false });
+    onBuildEvent((event) => this.buildStreamHub.publish(event));
+    this.buildOrchestrator.setQueueDispatcher(
+      (entry) => this.dispatchQueuedBuild(entry),
+      (entry, decision) => this.rejectQueuedBuild(entry, decision),
+    );
+
+    this.wss.on('connection', (ws) => {
+      console.error('MCP client connected');
+      ws.on('message', async (data) => {
+        try {
+          const message = JSON.parse(data.toString());
+          console.error('Received message:', message.type || message.method);
+          console.error('Message details:', JSON.stringify(message, null, 2));
+          const response = await this.processMessage(message);
           ws.send(JSON.stringify(response));
         } catch (error) {
           console.error('Error processing message:', error);
@@ -6576,19 +6339,19 @@ module.exports = {
               try {
                 await fs.access(path.join(dir, 'pnpm-lock.yaml'));
                 console.log('[MCP Server] Detected pnpm lockfile, running pnpm install');
-                await execAsync('pnpm install', { cwd: dir, timeout: 300000 });
+                await execSandboxed('pnpm install', { cwd: dir, buildId, timeout: 300000 });
                 return;
               } catch {}
               try {
                 await fs.access(path.join(dir, 'yarn.lock'));
                 console.log('[MCP Server] Detected yarn lockfile, running yarn install');
-                await execAsync('yarn install', { cwd: dir, timeout: 300000 });
+                await execSandboxed('yarn install', { cwd: dir, buildId, timeout: 300000 });
                 return;
               } catch {}
               try {
                 await fs.access(path.join(dir, 'package.json'));
                 console.log('[MCP Server] Detected package.json, running npm install');
-                await execAsync('npm install', { cwd: dir, timeout: 300000 });
+                await execSandboxed('npm install', { cwd: dir, buildId, timeout: 300000 });
               } catch {}
             };
             await detectAndInstall(resolvedProjectPath);
@@ -6655,9 +6418,10 @@ module.exports = {
             const data = JSON.parse(body || '{}') as {
               buildId?: string; projectId?: string; promptId?: string; promptContent?: string; prompt?: string; projectPath?: string;
               timeout?: number; context?: string; supabaseUrl?: string; anonKey?: string; accessToken?: string; serviceRoleKey?: string;
-              provider?: 'cursor' | 'claude-code'; model?: string; cursorApiKey?: string; claudeApiKey?: string; userId?: string;
+              provider?: ProviderId; model?: string; cursorApiKey?: string; claudeApiKey?: string; userId?: string; phase?: string;
+              autoCommit?: boolean;
             };
-            const { buildId, projectId, promptId, projectPath, timeout, context, supabaseUrl, anonKey, accessToken, serviceRoleKey, provider, model, cursorApiKey, claudeApiKey, userId: payloadUserId } = data;
+            const { buildId, projectId, promptId, projectPath, timeout, context, supabaseUrl, anonKey, accessToken, serviceRoleKey, provider, model, cursorApiKey, claudeApiKey, userId: payloadUserId, phase, autoCommit } = data;
             // Accept both field names: promptContent (build-phase callers) and prompt (build-worker)
             const promptContent = data.promptContent ?? data.prompt;
             
@@ -6727,7 +6491,7 @@ module.exports = {
               try {
                 console.log('[MCP Server] ðŸ” DEBUG: HTTP handler - Calling executePrompt...');
                 const execRes = await this.executePrompt(this.validateExecutePromptArgs({
-                  prompt: promptContent, projectPath, timeout, context, buildId, supabaseClient: supabase, userId: resolvedUserId, promptId, provider, model, cursorApiKey, claudeApiKey,
+                  prompt: promptContent, projectPath, timeout, context, buildId, supabaseClient: supabase, userId: resolvedUserId, promptId, provider, model, cursorApiKey, claudeApiKey, phase, autoCommit,
                 }));
                 
                 console.log('[MCP Server] ðŸ” DEBUG: HTTP handler - executePrompt returned, parsing result...');
@@ -6845,6 +6609,11 @@ module.exports = {
             return;
           }
         }
+        if (this.drainState) {
+          res.writeHead(503, { ...cors, 'Retry-After': '5' });
+          res.end(JSON.stringify({ error: 'Node is draining; start the build on another node', draining: true, node: this.buildLeases.nodeId }));
+          return;
+        }
         let body = '';
         req.on('data', (chunk) => { body += chunk; });
         req.on('end', () => {
@@ -6857,6 +6626,11 @@ module.exports = {
               supabaseServiceRoleKey?: string;
               targetSupabaseUrl?: string;
               targetSupabaseAnonKey?: string;
+              /** Higher starts first when builds are queued (default 0). */
+              priority?: number;
+              userId?: string;
+              /** Answer with what the build would do (build-plan.ts) instead of starting it. */
+              dryRun?: boolean;
             };
             const { buildId, supabaseUrl, accessToken, anonKey, supabaseServiceRoleKey, targetSupabaseUrl, targetSupabaseAnonKey } = payload;
             if (!buildId || !supabaseUrl || !accessToken || !anonKey) {
@@ -6870,23 +6644,87 @@ module.exports = {
               res.end(JSON.stringify({ error: `Missing required fields: ${missing.join(', ')}` }));
               return;
             }
+            const serviceRoleKey = supabaseServiceRoleKey || process.env.MCP_SUPABASE_SERVICE_ROLE_KEY?.trim();
+            if (payload.dryRun === true) {
+              planBuildFromPayload({
+                buildId,
+                supabaseUrl,
+                accessToken,
+                anonKey,
+                supabaseServiceRoleKey: serviceRoleKey || undefined,
+                targetSupabaseUrl,
+                targetSupabaseAnonKey,
+              }).then((result) => {
+                if (!result.planned) {
+                  res.writeHead(result.status, cors);
+                  res.end(JSON.stringify({ error: result.message, buildId }));
+                  return;
+                }
+                res.writeHead(200, cors);
+                res.end(JSON.stringify({ started: false, ...result.plan, running: this.activeBuildTracker.has(buildId) }));
+              }).catch((err) => {
+                console.error('[MCP Server] start-build dry run error:', err);
+                res.writeHead(500, cors);
+                res.end(JSON.stringify({ error: err instanceof Error ? err.message : 'Build plan failed' }));
+              });
+              return;
+            }
             if (this.activeBuildTracker.has(buildId)) {
               res.writeHead(200, cors);
               res.end(JSON.stringify({ started: false, alreadyRunning: true, buildId }));
               return;
             }
-            const serviceRoleKey = supabaseServiceRoleKey || process.env.MCP_SUPABASE_SERVICE_ROLE_KEY?.trim();
-            this.runBuild(buildId, supabaseUrl, accessToken, anonKey, serviceRoleKey || undefined, targetSupabaseUrl, targetSupabaseAnonKey)
-              .then((result) => {
+            const priority = typeof payload.priority === 'number' && Number.isFinite(payload.priority) ? Math.trunc(payload.priority) : undefined;
+
+            // Every build goes through the durable queue; it starts right away when a worker slot is free
+            (async () => {
+              // Low-disk guard: clean up workspaces once before refusing the build
+              let disk = await this.workspaces.checkDiskGuard();
+              if (!disk.ok) {
+                await this.workspaces.gc(this.createServiceDbClient())
+                  .catch((err) => console.error('[MCP Server] Workspace GC failed:', err instanceof Error ? err.message : err));
+                disk = await this.workspaces.checkDiskGuard();
+              }
+              if (!disk.ok) {
+                res.writeHead(507, cors);
+                res.end(JSON.stringify({
+                  started: false,
+                  queued: false,
+                  buildId,
+                  error: `Not enough free disk space for a new build (${disk.freeGb} GB free, ${disk.minFreeGb} GB required)`,
+                  code: 'low_disk',
+                  disk,
+                }));
+                return;
+              }
+              const leaseOwner = await this.buildLeases.activeOwner(
+                this.createBuildDbClient(supabaseUrl, accessToken, anonKey, serviceRoleKey || undefined),
+                buildId,
+              );
+              if (leaseOwner && leaseOwner !== this.buildLeases.nodeId) {
                 res.writeHead(200, cors);
-                res.end(JSON.stringify({ started: true, buildId, sessionPid: result.sessionPid }));
-              })
-              .catch((err) => {
-                const message = err instanceof Error ? err.message : 'Build start failed';
-                console.error('[MCP Server] runBuild error:', err);
-                res.writeHead(500, cors);
-                res.end(JSON.stringify({ error: message }));
+                res.end(JSON.stringify({ started: false, alreadyRunning: true, buildId, node: leaseOwner }));
+                return;
+              }
+              const owner = await this.lookupBuildOwner(buildId, supabaseUrl, accessToken, anonKey, serviceRoleKey || undefined);
+              if (typeof payload.userId === 'string' && payload.userId) owner.userId = payload.userId;
+              this.queuedBuildCredentials.set(buildId, {
+                supabaseUrl,
+                accessToken,
+                anonKey,
+                supabaseServiceRoleKey: serviceRoleKey || undefined,
+                targetSupabaseUrl,
+                targetSupabaseAnonKey,
               });
+              await this.buildOrchestrator.enqueueBuild({ buildId, userId: owner.userId, orgId: owner.orgId, priority });
+              await this.buildOrchestrator.dispatchQueued();
+              this.respondToDispatch(res, cors, buildId);
+            })().catch((err) => {
+              const message = err instanceof Error ? err.message : 'Build start failed';
+              console.error('[MCP Server] start-build error:', err);
+              res.writeHead(500, cors);
+              res.end(JSON.stringify({ error: message }));
+            });
           } catch (e) {
             res.writeHead(400, cors);
             res.end(JSON.stringify({ error: 'Invalid JSON body' }));
@@ -6902,18 +6740,23 @@ module.exports = {
           return !!secret && /^[0-9a-fA-F]{64}$/.test(secret);
         })();
         const health = {
-          status: 'ok',
+          status: this.drainState ? 'draining' : 'ok',
+          node: this.buildLeases.nodeId,
+          drain: this.drainState,
           uptime: process.uptime(),
           activeBuilds: this.activeBuildTracker.size,
-          cursorAgentAvailable: this.cursorAgentAvailable,
-          claudeCodeAvailable: this.claudeCodeAvailable,
+          cursorAgentAvailable: this.isProviderAvailable('cursor'),
+          claudeCodeAvailable: this.isProviderAvailable('claude-code'),
+          providers: Object.fromEntries(this.providerStatus),
           cursorKeysEncryptionSecretConfigured,
           cursorAuthMode: 'per-user-only',
           memoryUsage: process.memoryUsage(),
           diskSpace: await getDiskSpace(),
+          diskGuard: await this.workspaces.checkDiskGuard(),
           timestamp: new Date().toISOString(),
         };
-        res.writeHead(200, { 'Content-Type': 'application/json', ...cors });
+        // 503 while draining so load balancers stop routing new builds here
+        res.writeHead(this.drainState ? 503 : 200, { 'Content-Type': 'application/json', ...cors });
         res.end(JSON.stringify(health));
         return;
       }
@@ -6925,13 +6768,31 @@ module.exports = {
         const maxConcurrent = Number.isFinite(parsedMax) && parsedMax > 0 ? parsedMax : 5;
         res.writeHead(200, { 'Content-Type': 'application/json', ...cors });
         res.end(JSON.stringify({
-          activeBuilds: builds,
+          node: this.buildLeases.nodeId,
+          activeBuilds: builds.map((build) => ({
+            ...build,
+            node: this.buildLeases.nodeId,
+            lease: this.buildLeases.getHeldLease(build.buildId) ?? null,
+          })),
+          queuedBuilds: this.buildOrchestrator.getQueuedBuilds(),
           maxConcurrent,
           available: Math.max(0, maxConcurrent - builds.length),
         }));
         return;
       }
 
+      // GET /api/builds/:id/queue
+      const queueMatch = urlPath.match(/^\/api\/builds\/([^/]+)\/queue\/?$/);
+      if (req.method === 'GET' && queueMatch) {
+        const targetBuildId = queueMatch[1];
+        const entry = this.buildOrchestrator.getQueuedBuilds().find((q) => q.buildId === targetBuildId);
+        res.writeHead(200, { 'Content-Type': 'application/json', ...cors });
+        res.end(JSON.stringify(entry
+          ? { queued: true, ...entry }
+          : { buildId: targetBuildId, queued: false, running: this.activeBuildTracker.has(targetBuildId) }));
+        return;
+      }
+
       // â”€â”€â”€â”€ GET /api/builds/:id/agent-status â”€â”€â”€â”€
       // GET /api/builds/:id/model
       const modelGetMatch = urlPath.match(/^\/api\/builds\/([^/]+)\/model\/?$/);
@@ -7058,6 +6919,101 @@ module.exports = {
         return;
       }
 
+      // POST /api/builds/:id/steps/:stepId/retry, /api/builds/:id/steps/:stepId/edit, /api/builds/:id/prompts/:promptId/skip
+      const stepActionMatch = urlPath.match(/^\/api\/builds\/([^/]+)\/steps\/([^/]+)\/(retry|edit)\/?$/)
+        ?? urlPath.match(/^\/api\/builds\/([^/]+)\/prompts\/([^/]+)\/(skip)\/?$/);
+      if (req.method === 'POST' && stepActionMatch) {
+        if (apiKey) {
+          const headerKey = req.headers['x-api-key'];
+          if (headerKey !== apiKey) {
+            res.writeHead(401, cors);
+            res.end(JSON.stringify({ error: 'Unauthorized' }));
+            return;
+          }
+        }
+        const [, targetBuildId, target, action] = stepActionMatch;
+        if (!isValidBuildId(targetBuildId)) {
+          res.writeHead(400, cors);
+          res.end(JSON.stringify({ error: 'Invalid build id' }));
+          return;
+        }
+        let body = '';
+        req.on('data', (chunk: Buffer) => { body += chunk; });
+        req.on('end', async () => {
+          const db = this.createServiceDbClient();
+          if (!db) {
+            res.writeHead(500, cors);
+            res.end(JSON.stringify({ error: 'Server not configured with Supabase credentials' }));
+            return;
+          }
+
+          let payload: { prompt?: string };
+          try {
+            payload = body ? JSON.parse(body) : {};
+          } catch {
+            res.writeHead(400, cors);
+            res.end(JSON.stringify({ error: 'Invalid JSON body' }));
+            return;
+          }
+          const prompt = typeof payload.prompt === 'string' && payload.prompt.trim() ? payload.prompt : undefined;
+          if (action === 'edit' && !prompt) {
+            res.writeHead(400, cors);
+            res.end(JSON.stringify({ error: 'prompt is required' }));
+            return;
+          }
+
+          try {
+            const result = action === 'skip'
+              ? await requestPromptSkip(db, targetBuildId, target)
+              : await requestStepRerun(db, targetBuildId, target, action as 'retry' | 'edit', prompt);
+            if (!result.accepted) {
+              res.writeHead(result.status, cors);
+              res.end(JSON.stringify({ error: result.message }));
+              return;
+            }
+            console.error(`[MCP Server] Build ${targetBuildId}: step ${action} requested for ${target} (will apply at the next step boundary)`);
+            res.writeHead(202, cors);
+            res.end(JSON.stringify({ ...result, message: `Step ${action} queued for the next step boundary` }));
+          } catch (e) {
+            res.writeHead(500, cors);
+            res.end(JSON.stringify({ error: e instanceof Error ? e.message : 'Internal error' }));
+          }
+        });
+        return;
+      }
+
+      // GET /api/builds/:id/stream (Server-Sent Events; WebSocket clients upgrade on the same path)
+      if (req.method === 'GET' && /^\/api\/builds\/[^/]+\/stream\/?$/.test(urlPath)) {
+        const streamRequest = this.parseBuildStreamRequest(req, apiKey);
+        if (!streamRequest || 'error' in streamRequest) {
+          res.writeHead(streamRequest?.status ?? 404, { 'Content-Type': 'application/json', ...cors });
+          res.end(JSON.stringify({ error: streamRequest?.error ?? 'Not found' }));
+          return;
+        }
+        res.writeHead(200, {
+          ...cors,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no',
+        });
+        res.write('retry: 3000\n\n');
+        // Comment lines keep proxies from closing an idle stream
+        const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 15_000);
+        const unsubscribe = this.subscribeBuildStream(streamRequest.buildId, streamRequest.cursor, (message) => {
+          res.write(`id: ${message.cursor}\nevent: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`);
+          if (message.type === 'end') {
+            clearInterval(keepAlive);
+            res.end();
+          }
+        });
+        req.on('close', () => {
+          clearInterval(keepAlive);
+          unsubscribe();
+        });
+        return;
+      }
+
       const agentStatusMatch = urlPath.match(/^\/api\/builds\/([^/]+)\/agent-status\/?$/);
       if (req.method === 'GET' && agentStatusMatch) {
         const targetBuildId = agentStatusMatch[1];
@@ -7076,7 +7032,7 @@ module.exports = {
           const { data, error } = await db
             .from('automated_builds')
             .select(`
-              id, current_agent_phase,
+              id, current_agent_phase, configuration,
               developer_completed_at, scope_check_completed_at, design_completed_at, ui_design_improvements_completed_at, debug_completed_at, feedback_completed_at,
               developer_completion_pct,
               scope_check_pages_total, scope_check_pages_completed,
@@ -7098,6 +7054,8 @@ module.exports = {
           const response = {
             buildId: data.id,
             currentPhase: data.current_agent_phase,
+            // Agent phases this build runs after the developer phase, in order (build-phases.ts)
+            pipeline: getPhasePipeline(data.configuration),
             phases: {
               developer: {
                 status: data.developer_completed_at ? 'completed' : data.current_agent_phase === 'developer' ? 'running' : 'pending',
@@ -7188,13 +7146,98 @@ module.exports = {
         return;
       }
 
+      // GET /api/workspaces
+      if (req.method === 'GET' && (urlPath === '/api/workspaces' || urlPath === '/api/workspaces/')) {
+        if (apiKey) {
+          const headerKey = req.headers['x-api-key'];
+          if (headerKey !== apiKey) {
+            res.writeHead(401, cors);
+            res.end(JSON.stringify({ error: 'Unauthorized' }));
+            return;
+          }
+        }
+        try {
+          const workspaces = await this.workspaces.list(this.createServiceDbClient());
+          res.writeHead(200, cors);
+          res.end(JSON.stringify({
+            node: this.buildLeases.nodeId,
+            baseDir: this.workspaces.baseDir,
+            retention: this.workspaces.retention,
+            disk: await this.workspaces.checkDiskGuard(),
+            totalBytes: workspaces.reduce((sum, w) => sum + w.sizeBytes, 0),
+            workspaces,
+          }));
+        } catch (e) {
+          res.writeHead(500, cors);
+          res.end(JSON.stringify({ error: e instanceof Error ? e.message : 'Internal error' }));
+        }
+        return;
+      }
+
+      // POST /api/workspaces/gc
+      if (req.method === 'POST' && (urlPath === '/api/workspaces/gc' || urlPath === '/api/workspaces/gc/')) {
+        if (apiKey) {
+          const headerKey = req.headers['x-api-key'];
+          if (headerKey !== apiKey) {
+            res.writeHead(401, cors);
+            res.end(JSON.stringify({ error: 'Unauthorized' }));
+            return;
+          }
+        }
+        try {
+          const result = await this.workspaces.gc(this.createServiceDbClient());
+          res.writeHead(200, cors);
+          res.end(JSON.stringify({ node: this.buildLeases.nodeId, ...result }));
+        } catch (e) {
+          res.writeHead(500, cors);
+          res.end(JSON.stringify({ error: e instanceof Error ? e.message : 'Internal error' }));
+        }
+        return;
+      }
+
+      // POST /api/drain
+      if (req.method === 'POST' && (urlPath === '/api/drain' || urlPath === '/api/drain/')) {
+        if (apiKey) {
+          const headerKey = req.headers['x-api-key'];
+          if (headerKey !== apiKey) {
+            res.writeHead(401, cors);
+            res.end(JSON.stringify({ error: 'Unauthorized' }));
+            return;
+          }
+        }
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', () => {
+          let deadlineMs: number | undefined;
+          try {
+            const payload = JSON.parse(body || '{}') as { deadlineMs?: number };
+            if (typeof payload.deadlineMs === 'number' && Number.isFinite(payload.deadlineMs) && payload.deadlineMs >= 0) {
+              deadlineMs = payload.deadlineMs;
+            }
+          } catch {
+            res.writeHead(400, cors);
+            res.end(JSON.stringify({ error: 'Invalid JSON body' }));
+            return;
+          }
+          if (!this.drainState) void this.drainAndExit(deadlineMs);
+          res.writeHead(202, cors);
+          res.end(JSON.stringify({ draining: true, node: this.buildLeases.nodeId, ...this.drainState }));
+        });
+        return;
+      }
+
       // â”€â”€â”€â”€ GET /api/sessions â”€â”€â”€â”€
       if (req.method === 'GET' && (urlPath === '/api/sessions' || urlPath === '/api/sessions/')) {
         // Reap any dead workers before listing
         this.buildOrchestrator.reapDeadWorkers();
-        const sessions = this.buildOrchestrator.getAllSessions();
+        const sessions = this.buildOrchestrator.getAllSessions().map((session) => ({
+          ...session,
+          node: this.buildLeases.nodeId,
+          lease: this.buildLeases.getHeldLease(session.buildId) ?? null,
+        }));
         res.writeHead(200, { 'Content-Type': 'application/json', ...cors });
         res.end(JSON.stringify({
+          node: this.buildLeases.nodeId,
           sessions,
           activeCount: sessions.length,
           maxConcurrent: parseInt(process.env.MCP_MAX_CONCURRENT_BUILDS || '5', 10),
@@ -7215,6 +7258,12 @@ module.exports = {
         }
         const targetBuildId = sessionStopMatch[1];
         try {
+          if (await this.buildOrchestrator.dequeueBuild(targetBuildId)) {
+            this.queuedBuildCredentials.delete(targetBuildId);
+            res.writeHead(200, { 'Content-Type': 'application/json', ...cors });
+            res.end(JSON.stringify({ stopped: true, dequeued: true, buildId: targetBuildId }));
+            return;
+          }
           const stopped = await this.buildOrchestrator.stopWorker(targetBuildId);
           if (!stopped) {
             if (this.activeBuildTracker.has(targetBuildId)) {
@@ -7251,6 +7300,215 @@ module.exports = {
         return;
       }
 
+      // POST /api/builds/:id/pause
+      const pauseMatch = urlPath.match(/^\/api\/builds\/([^/]+)\/pause\/?$/);
+      if (req.method === 'POST' && pauseMatch) {
+        if (apiKey) {
+          const headerKey = req.headers['x-api-key'];
+          if (headerKey !== apiKey) {
+            res.writeHead(401, cors);
+            res.end(JSON.stringify({ error: 'Unauthorized' }));
+            return;
+          }
+        }
+        const targetBuildId = pauseMatch[1];
+        if (!isValidBuildId(targetBuildId)) {
+          res.writeHead(400, cors);
+          res.end(JSON.stringify({ error: 'Invalid build id' }));
+          return;
+        }
+        try {
+          // Not started yet: nothing to checkpoint, resume queues it from the beginning
+          if (await this.buildOrchestrator.dequeueBuild(targetBuildId)) {
+            this.queuedBuildCredentials.delete(targetBuildId);
+            await this.createServiceDbClient()?.from('automated_builds').update({
+              status: 'paused',
+              updated_at: new Date().toISOString(),
+            }).eq('id', targetBuildId);
+            res.writeHead(200, cors);
+            res.end(JSON.stringify({ paused: true, dequeued: true, buildId: targetBuildId }));
+            return;
+          }
+          if (this.buildOrchestrator.getWorkerSession(targetBuildId)) {
+            await requestWorkerPause(targetBuildId);
+          } else if (this.activeBuildTracker.has(targetBuildId)) {
+            this.pauseRequests.add(targetBuildId);
+          } else {
+            res.writeHead(404, cors);
+            res.end(JSON.stringify({ error: 'Build is not running on this node' }));
+            return;
+          }
+          // The build checkpoints and sets status 'paused' once its current step is done
+          res.writeHead(202, cors);
+          res.end(JSON.stringify({ pausing: true, buildId: targetBuildId }));
+        } catch (e) {
+          res.writeHead(500, cors);
+          res.end(JSON.stringify({ error: e instanceof Error ? e.message : 'Internal error' }));
+        }
+        return;
+      }
+
+      // POST /api/builds/:id/resume
+      const resumeMatch = urlPath.match(/^\/api\/builds\/([^/]+)\/resume\/?$/);
+      if (req.method === 'POST' && resumeMatch) {
+        if (apiKey) {
+          const headerKey = req.headers['x-api-key'];
+          if (headerKey !== apiKey) {
+            res.writeHead(401, cors);
+            res.end(JSON.stringify({ error: 'Unauthorized' }));
+            return;
+          }
+        }
+        if (this.drainState) {
+          res.writeHead(503, { ...cors, 'Retry-After': '5' });
+          res.end(JSON.stringify({ error: 'Node is draining; resume the build on another node', draining: true, node: this.buildLeases.nodeId }));
+          return;
+        }
+        const targetBuildId = resumeMatch[1];
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', () => {
+          try {
+            const payload = JSON.parse(body || '{}') as {
+              supabaseUrl?: string;
+              accessToken?: string;
+              anonKey?: string;
+              supabaseServiceRoleKey?: string;
+              targetSupabaseUrl?: string;
+              targetSupabaseAnonKey?: string;
+              priority?: number;
+            };
+            const { supabaseUrl, accessToken, anonKey, supabaseServiceRoleKey, targetSupabaseUrl, targetSupabaseAnonKey } = payload;
+            if (!isValidBuildId(targetBuildId)) {
+              res.writeHead(400, cors);
+              res.end(JSON.stringify({ error: 'Invalid build id' }));
+              return;
+            }
+            if (!supabaseUrl || !accessToken || !anonKey) {
+              const missing = [
+                !supabaseUrl && 'supabaseUrl',
+                !accessToken && 'accessToken',
+                !anonKey && 'anonKey',
+              ].filter(Boolean);
+              res.writeHead(400, cors);
+              res.end(JSON.stringify({ error: `Missing required fields: ${missing.join(', ')}` }));
+              return;
+            }
+            if (this.activeBuildTracker.has(targetBuildId) || this.buildOrchestrator.isQueued(targetBuildId)) {
+              res.writeHead(200, cors);
+              res.end(JSON.stringify({ started: false, alreadyRunning: true, buildId: targetBuildId }));
+              return;
+            }
+            const priority = typeof payload.priority === 'number' && Number.isFinite(payload.priority) ? Math.trunc(payload.priority) : undefined;
+            const serviceRoleKey = supabaseServiceRoleKey || process.env.MCP_SUPABASE_SERVICE_ROLE_KEY?.trim();
+
+            (async () => {
+              const db = this.createBuildDbClient(supabaseUrl, accessToken, anonKey, serviceRoleKey || undefined);
+              const { data: row, error } = await db
+                .from('automated_builds')
+                .select('status, pause_state')
+                .eq('id', targetBuildId)
+                .maybeSingle();
+              if (error) throw new Error(`Build lookup failed: ${error.message}`);
+              if (!row) {
+                res.writeHead(404, cors);
+                res.end(JSON.stringify({ error: 'Build not found' }));
+                return;
+              }
+              if (row.status !== 'paused') {
+                res.writeHead(409, cors);
+                res.end(JSON.stringify({ error: `Build is ${row.status ?? 'not started'}, not paused`, status: row.status ?? null, buildId: targetBuildId }));
+                return;
+              }
+              const checkpoint = readPauseState(row.pause_state);
+              const owner = await this.lookupBuildOwner(targetBuildId, supabaseUrl, accessToken, anonKey, serviceRoleKey || undefined);
+              this.queuedBuildCredentials.set(targetBuildId, {
+                supabaseUrl,
+                accessToken,
+                anonKey,
+                supabaseServiceRoleKey: serviceRoleKey || undefined,
+                targetSupabaseUrl,
+                targetSupabaseAnonKey,
+              });
+              await this.buildOrchestrator.enqueueBuild({ buildId: targetBuildId, userId: owner.userId, orgId: owner.orgId, priority, resume: true });
+              await this.buildOrchestrator.dispatchQueued();
+              this.respondToDispatch(res, cors, targetBuildId, {
+                resumed: true,
+                checkpoint: checkpoint && { phase: checkpoint.phase, currentStep: checkpoint.currentStep, totalSteps: checkpoint.totalSteps, pausedAt: checkpoint.pausedAt },
+              });
+            })().catch((err) => {
+              const message = err instanceof Error ? err.message : 'Build resume failed';
+              console.error('[MCP Server] resume-build error:', err);
+              res.writeHead(500, cors);
+              res.end(JSON.stringify({ error: message }));
+            });
+          } catch (e) {
+            res.writeHead(400, cors);
+            res.end(JSON.stringify({ error: 'Invalid JSON body' }));
+          }
+        });
+        return;
+      }
+
+      // POST /api/builds/:id/rollback
+      const rollbackMatch = urlPath.match(/^\/api\/builds\/([^/]+)\/rollback\/?$/);
+      if (req.method === 'POST' && rollbackMatch) {
+        if (apiKey) {
+          const headerKey = req.headers['x-api-key'];
+          if (headerKey !== apiKey) {
+            res.writeHead(401, cors);
+            res.end(JSON.stringify({ error: 'Unauthorized' }));
+            return;
+          }
+        }
+        const targetBuildId = rollbackMatch[1];
+        let body = '';
+        req.on('data', (chunk: Buffer) => { body += chunk; });
+        req.on('end', async () => {
+          const db = this.createServiceDbClient();
+          if (!db) {
+            res.writeHead(500, cors);
+            res.end(JSON.stringify({ error: 'Server not configured with Supabase credentials' }));
+            return;
+          }
+
+          let payload: { stepId?: string };
+          try {
+            payload = body ? JSON.parse(body) : {};
+          } catch {
+            res.writeHead(400, cors);
+            res.end(JSON.stringify({ error: 'Invalid JSON body' }));
+            return;
+          }
+          if (!isValidBuildId(targetBuildId) || typeof payload.stepId !== 'string' || !payload.stepId) {
+            res.writeHead(400, cors);
+            res.end(JSON.stringify({ error: 'A valid build id and stepId are required' }));
+            return;
+          }
+          // The workspace must not change under a running step
+          if (this.activeBuildTracker.has(targetBuildId) || this.buildOrchestrator.getWorkerSession(targetBuildId) || this.buildOrchestrator.isQueued(targetBuildId)) {
+            res.writeHead(409, cors);
+            res.end(JSON.stringify({ error: 'Build is running or queued on this node; pause it before rolling back' }));
+            return;
+          }
+
+          try {
+            const result = await rollbackBuild(db, targetBuildId, payload.stepId);
+            if (!result.rolledBack) {
+              res.writeHead(result.status, cors);
+              res.end(JSON.stringify({ error: result.message }));
+              return;
+            }
+            res.writeHead(200, cors);
+            res.end(JSON.stringify({ ...result, message: 'Build paused at the checkpoint; POST /api/builds/:id/resume continues from there' }));
+          } catch (e) {
+            res.writeHead(500, cors);
+            res.end(JSON.stringify({ error: e instanceof Error ? e.message : 'Internal error' }));
+          }
+        });
+        return;
+      }
+
       console.error('[MCP Server] 404 - No handler for:', req.method, urlPath, '(full:', url, ')');
       res.writeHead(404, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({
@@ -7265,15 +7523,44 @@ module.exports = {
           '/api/health',
           '/api/builds',
           '/api/builds/:id/agent-status',
+          '/api/builds/:id/stream',
+          '/api/builds/:id/queue',
           '/api/builds/:id/model',
+          '/api/builds/:id/steps/:stepId/retry',
+          '/api/builds/:id/steps/:stepId/edit',
+          '/api/builds/:id/prompts/:promptId/skip',
           '/api/builds/:id/preview',
+          '/api/builds/:id/pause',
+          '/api/builds/:id/resume',
+          '/api/builds/:id/rollback',
           '/api/sessions',
           '/api/sessions/:id/stop',
+          '/api/drain',
+          '/api/workspaces',
+          '/api/workspaces/gc',
         ],
       }));
     });
 
     this.httpServer.on('upgrade', (req, socket, head) => {
+      // Build stream channel: one JSON message per log line / event, closed after 'end'
+      const streamRequest = this.parseBuildStreamRequest(req, apiKey);
+      if (streamRequest) {
+        if ('error' in streamRequest) {
+          socket.write(`HTTP/1.1 ${streamRequest.status} ${http.STATUS_CODES[streamRequest.status]}\r\n\r\n`);
+          socket.destroy();
+          return;
+        }
+        this.wss!.handleUpgrade(req, socket, head, (ws) => {
+          const unsubscribe = this.subscribeBuildStream(streamRequest.buildId, streamRequest.cursor, (message) => {
+            ws.send(JSON.stringify(message));
+            if (message.type === 'end') ws.close(1000, 'Build finished');
+          });
+          ws.on('close', unsubscribe);
+          ws.on('error', (error) => console.error('Build stream WebSocket error:', error));
+        });
+        return;
+      }
       this.wss!.handleUpgrade(req, socket, head, (ws) => {
         this.wss!.emit('connection', ws, req);
       });
@@ -7289,27 +7576,73 @@ module.exports = {
       console.error(`  GET    http://${host}:${port}/api/health`);
       console.error(`  GET    http://${host}:${port}/api/builds`);
       console.error(`  GET    http://${host}:${port}/api/builds/:id/agent-status`);
+      console.error(`  GET    http://${host}:${port}/api/builds/:id/stream (SSE, or WebSocket ws://${host}:${port}/api/builds/:id/stream)`);
+      console.error(`  GET    http://${host}:${port}/api/builds/:id/queue`);
       console.error(`  GET    http://${host}:${port}/api/builds/:id/model`);
       console.error(`  POST   http://${host}:${port}/api/builds/:id/model`);
+      console.error(`  POST   http://${host}:${port}/api/builds/:id/steps/:stepId/retry`);
+      console.error(`  POST   http://${host}:${port}/api/builds/:id/steps/:stepId/edit`);
+      console.error(`  POST   http://${host}:${port}/api/builds/:id/prompts/:promptId/skip`);
       console.error(`  POST   http://${host}:${port}/api/builds/:id/preview`);
       console.error(`  DELETE http://${host}:${port}/api/builds/:id/preview`);
+      console.error(`  POST   http://${host}:${port}/api/builds/:id/pause`);
+      console.error(`  POST   http://${host}:${port}/api/builds/:id/resume`);
+      console.error(`  POST   http://${host}:${port}/api/builds/:id/rollback`);
       console.error(`  GET    http://${host}:${port}/api/sessions`);
       console.error(`  POST   http://${host}:${port}/api/sessions/:id/stop`);
+      console.error(`  POST   http://${host}:${port}/api/drain`);
+      console.error(`  GET    http://${host}:${port}/api/workspaces`);
+      console.error(`  POST   http://${host}:${port}/api/workspaces/gc`);
+
+      console.error(`  [Node] ${this.buildLeases.nodeId} (build lease ${Math.round(this.buildLeases.ttlMs / 1000)}s)`);
+      const leaseSvcKey = process.env.MCP_SUPABASE_SERVICE_ROLE_KEY?.trim();
+      const leaseSbUrl = process.env.SUPABASE_URL?.trim();
+      const leaseClient = leaseSvcKey && leaseSbUrl
+        ? createClient(leaseSbUrl, leaseSvcKey, { auth: { autoRefreshToken: false, persistSession: false } })
+        : null;
+      // Daily quotas are counted in the database so every node sees the same usage
+      this.buildOrchestrator.setQuotaClient(leaseClient);
+
+      // Startup reconciliation first, so surviving workers hold their slots before the
+      // queue dispatches. Both run once the HTTP endpoints workers call are up.
+      const recovery = leaseClient
+        ? this.recoverOwnedBuilds(leaseClient)
+            .then(({ reattached, resumed }) => {
+              if (reattached + resumed > 0) console.error(`  [Recovery] Re-attached ${reattached}, resumed ${resumed} build(s) from before the restart`);
+            })
+            .catch((err) => console.error('[MCP Server] Build recovery failed:', err))
+        : Promise.resolve();
+      recovery
+        .then(() => this.buildOrchestrator.loadQueue())
+        .then((restored) => {
+          if (restored > 0) console.error(`  [Build queue] Restored ${restored} queued build(s)`);
+        })
+        .catch((err) => console.error('[MCP Server] Failed to restore build queue:', err));
+
+      // Lease takeover: restart builds whose node stopped renewing (needs the service role)
+      if (leaseClient) {
+        this.buildLeases.startTakeoverMonitor(leaseClient, (orphan) => this.takeOverBuild(orphan, leaseClient));
+        console.error(`  [Lease takeover ACTIVE] Scanning for builds with lapsed leases every 30s`);
+      }
+      // Workspace retention: remove expired project directories, prune node_modules
+      this.workspaces.startGcMonitor(leaseClient);
+      console.error(`  [Workspace GC ACTIVE] ${this.workspaces.baseDir} hourly${leaseClient ? '' : ' (no service role: by age only)'}`);
       if (process.env.MCP_USE_BUILD_WORKERS === 'true') {
         console.error(`  [Worker mode ENABLED] Each build spawns an isolated worker process`);
 
-        // Start liveness monitor for worker builds (detects stalled workers via heartbeat)
+        // Start liveness monitor for worker builds (IPC heartbeats; the DB is only used
+        // for re-attached workers and to fail stalled builds)
         const svcKey = process.env.MCP_SUPABASE_SERVICE_ROLE_KEY?.trim();
         const sbUrl = process.env.SUPABASE_URL?.trim();
         const sbAnon = process.env.SUPABASE_ANON_KEY?.trim();
         if (svcKey && sbUrl) {
           const monitorClient = createClient(sbUrl, svcKey, { auth: { autoRefreshToken: false, persistSession: false } });
           this.buildOrchestrator.startLivenessMonitor(monitorClient);
-          console.error(`  [Liveness monitor ACTIVE] Checking worker heartbeats every 60s`);
+          console.error(`  [Liveness monitor ACTIVE] Checking worker heartbeats every 15s`);
         } else if (sbUrl && sbAnon) {
           const monitorClient = createClient(sbUrl, sbAnon, { auth: { autoRefreshToken: false, persistSession: false } });
           this.buildOrchestrator.startLivenessMonitor(monitorClient);
-          console.error(`  [Liveness monitor ACTIVE] Checking worker heartbeats every 60s (anon key)`);
+          console.error(`  [Liveness monitor ACTIVE] Checking worker heartbeats every 15s (anon key)`);
         }
       }
     });
@@ -7354,6 +7687,7 @@ module.exports = {
           'anonKey',
           'gitHubToken',
           'cursorApiKey',
+          'apiKey',
         ]);
         const sanitizedToolArgs = Object.fromEntries(
           Object.entries(args).map(([key, value]) => [key, REDACT_KEYS.has(key) ? maskSecret(value) : value])
@@ -7386,6 +7720,10 @@ module.exports = {
             validatedArgs = {};
             break;
           default:
+            if (isScopeTool(toolName)) {
+              validatedArgs = validateScopeToolArgs(toolName, args);
+              break;
+            }
             throw new Error(`Unknown tool: ${toolName}`);
         }
         
@@ -7443,7 +7781,11 @@ module.exports = {
             {
               name: 'cursor/server-info',
               description: 'Get server information'
-            }
+            },
+            ...SCOPE_TOOLS.map((tool) => ({
+              name: tool.name,
+              description: tool.description
+            }))
           ]
         };
         
@@ -7479,6 +7821,95 @@ module.exports = {
     await this.runWebSocket();
   }
 
+  get draining(): boolean {
+    return this.drainState !== null;
+  }
+
+  /**
+   * Drain this node, then stop the servers and exit: refuse new builds, let running
+   * builds stop at their next step boundary (until the deadline), checkpoint them
+   * for resume. Running again while draining just waits for the same drain.
+   */
+  async drainAndExit(timeoutMs = getDrainTimeoutMs()): Promise<void> {
+    if (!this.drainPromise) {
+      const now = Date.now();
+      const buildIds = new Set([
+        ...this.activeBuildTracker.keys(),
+        ...this.buildOrchestrator.getAllSessions().map((s) => s.buildId),
+      ]);
+      this.drainState = {
+        startedAt: new Date(now).toISOString(),
+        deadline: new Date(now + timeoutMs).toISOString(),
+        buildIds: [...buildIds],
+      };
+      console.error(`[MCP Server] Draining node ${this.buildLeases.nodeId}: ${buildIds.size} running build(s), deadline ${this.drainState.deadline}`);
+      this.drainPromise = this.runDrain(this.drainState);
+    }
+    await this.drainPromise;
+    await this.stop();
+    process.exit(0);
+  }
+
+  private async runDrain(state: DrainState): Promise<void> {
+    this.buildOrchestrator.pauseDispatch();
+    const isRunningHere = (buildId: string) =>
+      !!this.buildOrchestrator.getWorkerSession(buildId) || this.activeBuildTracker.has(buildId);
+
+    for (const buildId of state.buildIds) {
+      if (this.buildOrchestrator.getWorkerSession(buildId)) {
+        await requestWorkerDrain(buildId).catch((err) => {
+          console.error(`[MCP Server] Failed to request drain of build ${buildId}:`, err instanceof Error ? err.message : err);
+        });
+      } else {
+        this.stopRequests.add(buildId);
+      }
+    }
+
+    const deadline = new Date(state.deadline).getTime();
+    while (state.buildIds.some(isRunningHere) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+    // Past the deadline: stop what is left mid-step; the resumed run repeats that step
+    for (const buildId of state.buildIds.filter(isRunningHere)) {
+      console.error(`[MCP Server] Drain deadline passed; stopping build ${buildId} mid-step`);
+      await this.buildOrchestrator.stopWorker(buildId);
+    }
+    await this.checkpointDrainedBuilds(state.buildIds);
+  }
+
+  /** Mark drained builds so they resume without using a recovery attempt. Needs the service role. */
+  private async checkpointDrainedBuilds(buildIds: string[]): Promise<void> {
+    if (buildIds.length === 0) return;
+    const sbUrl = process.env.SUPABASE_URL?.trim();
+    const svcKey = process.env.MCP_SUPABASE_SERVICE_ROLE_KEY?.trim();
+    if (!sbUrl || !svcKey) {
+      console.error('[MCP Server] No service role key: drained builds are not checkpointed and resume as recovered builds');
+      return;
+    }
+    const db = createClient(sbUrl, svcKey, { auth: { autoRefreshToken: false, persistSession: false } });
+    const drainedAt = new Date().toISOString();
+    for (const buildId of buildIds) {
+      try {
+        // Builds that finished during the drain are left alone
+        const { data } = await db.from('automated_builds')
+          .update({ drained_at: drainedAt, worker_pid: null })
+          .eq('id', buildId)
+          .eq('status', 'running')
+          .eq('lease_owner', this.buildLeases.nodeId)
+          .select('id');
+        if (data && data.length > 0) {
+          await new BuildEventEmitter(db, buildId).log(
+            `Build checkpointed for resume: node ${this.buildLeases.nodeId} is draining.`,
+            'warn',
+            { source: 'drain' },
+          );
+        }
+      } catch (err) {
+        console.error(`[MCP Server] Failed to checkpoint drained build ${buildId}:`, err instanceof Error ? err.message : err);
+      }
+    }
+  }
+
   async stop() {
     if (this.httpServer) {
       this.httpServer.close();
@@ -7503,10 +7934,14 @@ process.on('SIGINT', async () => {
   process.exit(0);
 });
 
+// SIGTERM drains first (zero-downtime deploys); a second SIGTERM exits right away
 process.on('SIGTERM', async () => {
-  console.error('Shutting down MCP server...');
-  await server.stop();
-  process.exit(0);
+  if (server.draining) {
+    console.error('Shutting down MCP server without waiting for the drain...');
+    process.exit(0);
+  }
+  console.error('Draining MCP server before shutdown...');
+  await server.drainAndExit();
 });
 
 // Determine server mode based on command line arguments
@@ -0,0 +1,39 @@
+-- =====================================================
+-- Migration: Add typed build events to build_logs
+-- Created: 2026-10-18T00:00:00.000Z
+-- Tables: build_logs
+-- Purpose: Turn build_logs into a typed event stream
+--          (step_started, step_completed, phase_changed,
+--          agent_tool_call, files_changed, build_error,
+--          heartbeat, log) written by build-events.ts.
+-- =====================================================
+
+-- Event type; rows written before this migration are plain logs.
+ALTER TABLE build_logs
+  ADD COLUMN IF NOT EXISTS event_type TEXT NOT NULL DEFAULT 'log';
+
+-- JSON payload per event type (also used by mcp_log completion rows).
+ALTER TABLE build_logs
+  ADD COLUMN IF NOT EXISTS data JSONB;
+
+-- Agent phase the event belongs to (developer, scope-check, design, ...).
+ALTER TABLE build_logs
+  ADD COLUMN IF NOT EXISTS phase TEXT;
+
+-- Monotonic sequence assigned by the database, so events written by the
+-- build worker and the dispatcher share one order.
+ALTER TABLE build_logs
+  ADD COLUMN IF NOT EXISTS sequence BIGINT GENERATED BY DEFAULT AS IDENTITY;
+
+ALTER TABLE build_logs
+  DROP CONSTRAINT IF EXISTS build_logs_event_type_check;
+
+ALTER TABLE build_logs
+  ADD CONSTRAINT build_logs_event_type_check CHECK (event_type IN (
+    'log', 'step_started', 'step_completed', 'phase_changed',
+    'agent_tool_call', 'files_changed', 'build_error', 'heartbeat'
+  ));
+
+-- Stream reads: all events of a build after a given sequence.
+CREATE INDEX IF NOT EXISTS idx_build_logs_build_sequence
+  ON build_logs (build_id, sequence);
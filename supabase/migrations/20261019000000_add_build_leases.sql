@@ -0,0 +1,77 @@
+-- =====================================================
+-- Migration: Add dispatcher leases to automated_builds
+-- Created: 2026-10-19T00:00:00.000Z
+-- Tables: automated_builds
+-- Purpose: Let several dispatcher nodes share builds.
+--          A node claims a build with an expiring lease,
+--          renews it from the worker heartbeat, and other
+--          nodes take over builds whose lease lapsed
+--          (see build-leases.ts).
+-- =====================================================
+
+-- Node that owns the build (MCP_NODE_ID of the dispatcher).
+ALTER TABLE automated_builds
+  ADD COLUMN IF NOT EXISTS lease_owner TEXT;
+
+-- When the owner's lease lapses unless renewed.
+ALTER TABLE automated_builds
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+
+-- Takeover scans: running builds with a lapsed lease.
+CREATE INDEX IF NOT EXISTS idx_automated_builds_lease_expiry
+  ON automated_builds (status, lease_expires_at)
+  WHERE lease_expires_at IS NOT NULL;
+
+-- =====================================================
+-- FUNCTION: claim_build_lease
+-- Atomically claims a build for a node when it is
+-- unleased, its lease lapsed, or the node already holds
+-- it. Uses the database clock so node clock skew does
+-- not matter. Returns true when the node owns the lease.
+-- =====================================================
+CREATE OR REPLACE FUNCTION claim_build_lease(
+  p_build_id UUID,
+  p_node_id TEXT,
+  p_ttl_seconds INTEGER
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  claimed INTEGER;
+BEGIN
+  UPDATE automated_builds
+     SET lease_owner = p_node_id,
+         lease_expires_at = NOW() + make_interval(secs => p_ttl_seconds)
+   WHERE id = p_build_id
+     AND (
+       lease_owner IS NULL
+       OR lease_owner = p_node_id
+       OR lease_expires_at IS NULL
+       OR lease_expires_at < NOW()
+     );
+  GET DIAGNOSTICS claimed = ROW_COUNT;
+  RETURN claimed > 0;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- FUNCTION: renew_build_lease
+-- Extends a lease the node still holds. Returns false
+-- when another node has taken the build over.
+-- =====================================================
+CREATE OR REPLACE FUNCTION renew_build_lease(
+  p_build_id UUID,
+  p_node_id TEXT,
+  p_ttl_seconds INTEGER
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  renewed INTEGER;
+BEGIN
+  UPDATE automated_builds
+     SET lease_expires_at = NOW() + make_interval(secs => p_ttl_seconds)
+   WHERE id = p_build_id
+     AND lease_owner = p_node_id;
+  GET DIAGNOSTICS renewed = ROW_COUNT;
+  RETURN renewed > 0;
+END;
+$$ LANGUAGE plpgsql;
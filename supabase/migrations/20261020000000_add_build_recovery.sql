@@ -0,0 +1,17 @@
+-- =====================================================
+-- Migration: Track build workers for restart recovery
+-- Created: 2026-10-20T00:00:00.000Z
+-- Tables: automated_builds
+-- Purpose: Let a restarted dispatcher re-attach to the
+--          worker processes of builds it leased, or
+--          resume them a bounded number of times
+--          (see build-recovery.ts).
+-- =====================================================
+
+-- PID of the build worker on the lease owner's node (NULL for in-process builds).
+ALTER TABLE automated_builds
+  ADD COLUMN IF NOT EXISTS worker_pid INTEGER;
+
+-- Resumes after a dispatcher restart or lease takeover; reset when the build is started again.
+ALTER TABLE automated_builds
+  ADD COLUMN IF NOT EXISTS resume_attempts INTEGER NOT NULL DEFAULT 0;
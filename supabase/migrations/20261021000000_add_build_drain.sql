@@ -0,0 +1,12 @@
+-- =====================================================
+-- Migration: Record drain checkpoints on automated_builds
+-- Created: 2026-10-21T00:00:00.000Z
+-- Tables: automated_builds
+-- Purpose: Mark builds a draining dispatcher stopped at a
+--          step boundary, so resuming them does not count
+--          as a recovery attempt (see build-drain.ts).
+-- =====================================================
+
+-- Set when a draining node checkpointed the build; cleared when it resumes.
+ALTER TABLE automated_builds
+  ADD COLUMN IF NOT EXISTS drained_at TIMESTAMPTZ;
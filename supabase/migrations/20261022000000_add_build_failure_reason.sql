@@ -0,0 +1,12 @@
+-- =====================================================
+-- Migration: Add a machine-readable failure reason to automated_builds
+-- Created: 2026-10-22T00:00:00.000Z
+-- Tables: automated_builds
+-- Purpose: Distinguish builds whose worker hit a resource
+--          limit (memory_limit, process_limit,
+--          file_size_limit; see worker-sandbox.ts) from
+--          other failures. error_message keeps the text.
+-- =====================================================
+
+ALTER TABLE automated_builds
+  ADD COLUMN IF NOT EXISTS failure_reason TEXT;
@@ -0,0 +1,22 @@
+-- =====================================================
+-- Migration: Track build workspace cleanup on automated_builds
+-- Created: 2026-10-23T00:00:00.000Z
+-- Tables: automated_builds
+-- Purpose: Record when the workspace manager removed a
+--          build's project directory or pruned its
+--          node_modules (see build-workspaces.ts), so
+--          cleaned-up builds are not scanned again.
+-- =====================================================
+
+-- Project directory removed by retention rules.
+ALTER TABLE automated_builds
+  ADD COLUMN IF NOT EXISTS workspace_deleted_at TIMESTAMPTZ;
+
+-- node_modules removed from a finished build that is kept.
+ALTER TABLE automated_builds
+  ADD COLUMN IF NOT EXISTS workspace_pruned_at TIMESTAMPTZ;
+
+-- Workspace scans: builds that still have a project directory.
+CREATE INDEX IF NOT EXISTS idx_automated_builds_workspace
+  ON automated_builds (cursor_project_path)
+  WHERE workspace_deleted_at IS NULL AND cursor_project_path IS NOT NULL;
@@ -0,0 +1,12 @@
+-- =====================================================
+-- Migration: Add pause checkpoints to automated_builds
+-- Created: 2026-10-24T00:00:00.000Z
+-- Tables: automated_builds
+-- Purpose: A build paused through POST /api/builds/:id/pause
+--          stores its phase, step, remaining prompts, model
+--          and provider here (see build-pause.ts) with status
+--          'paused'; resume restores them and clears it.
+-- =====================================================
+
+ALTER TABLE automated_builds
+  ADD COLUMN IF NOT EXISTS pause_state JSONB;
@@ -0,0 +1,23 @@
+-- =====================================================
+-- Migration: Record operator step actions on build_steps
+-- Created: 2026-10-25T00:00:00.000Z
+-- Tables: build_steps
+-- Purpose: Retry, skip and edit-and-rerun of single steps
+--          (see build-step-actions.ts). The requested action,
+--          its outcome and the prompt before an edit stay on
+--          the step row. Skipped prompts get status 'skipped'.
+-- =====================================================
+
+ALTER TABLE build_steps
+  ADD COLUMN IF NOT EXISTS operator_action TEXT,
+  ADD COLUMN IF NOT EXISTS operator_action_status TEXT,
+  ADD COLUMN IF NOT EXISTS operator_action_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS operator_action_note TEXT,
+  ADD COLUMN IF NOT EXISTS edited_prompt_content TEXT,
+  ADD COLUMN IF NOT EXISTS original_prompt_content TEXT,
+  ADD COLUMN IF NOT EXISTS rerun_count INTEGER NOT NULL DEFAULT 0;
+
+-- The build loop polls for pending actions at every step boundary
+CREATE INDEX IF NOT EXISTS idx_build_steps_pending_actions
+  ON build_steps (build_id)
+  WHERE operator_action_status = 'pending';
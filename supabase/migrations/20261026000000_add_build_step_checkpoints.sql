@@ -0,0 +1,14 @@
+-- =====================================================
+-- Migration: Add git checkpoints to build_steps
+-- Created: 2026-10-26T00:00:00.000Z
+-- Tables: build_steps
+-- Purpose: Every completed step records the commit of its
+--          workspace (refs/build-checkpoints/<build>/<step>,
+--          see build-checkpoints.ts). A rollback marks the
+--          steps after the target 'rolled_back'.
+-- =====================================================
+
+ALTER TABLE build_steps
+  ADD COLUMN IF NOT EXISTS checkpoint_sha TEXT,
+  ADD COLUMN IF NOT EXISTS checkpoint_ref TEXT,
+  ADD COLUMN IF NOT EXISTS rolled_back_at TIMESTAMPTZ;
@@ -0,0 +1,76 @@
+-- =====================================================
+-- Migration: Add ranked full-text search to flowchart_items
+-- Created: 2026-10-27T00:00:00.000Z
+-- Tables: flowchart_items
+-- Purpose: scope/scope-slice and scope/advanced-filter
+--          search, rank and paginate items in the
+--          database instead of loading the whole scope
+--          (see scope-repository.ts, scope-search.ts).
+-- =====================================================
+
+-- Title weighs most, then description, then technical requirements.
+ALTER TABLE flowchart_items
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(technical_requirements::text, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_flowchart_items_search_vector
+  ON flowchart_items USING GIN (search_vector);
+
+-- =====================================================
+-- FUNCTION: search_flowchart_items
+-- One page of a project's items. With p_query every
+-- term must match (websearch syntax) and rows come
+-- best-ranked first; otherwise in created_at order.
+-- p_tag matches the tags column or elements.tags,
+-- ignoring case. total_count counts every match.
+-- =====================================================
+CREATE OR REPLACE FUNCTION search_flowchart_items(
+  p_project_id UUID,
+  p_query TEXT DEFAULT NULL,
+  p_tag TEXT DEFAULT NULL,
+  p_item_id TEXT DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_external_issue_status TEXT DEFAULT NULL,
+  p_created_from TIMESTAMPTZ DEFAULT NULL,
+  p_created_to TIMESTAMPTZ DEFAULT NULL,
+  p_offset INTEGER DEFAULT 0,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (item JSONB, score REAL, total_count BIGINT) AS $$
+  WITH search AS (
+    SELECT CASE
+             WHEN coalesce(btrim(p_query), '') = '' THEN NULL
+             ELSE websearch_to_tsquery('english', p_query)
+           END AS tsq
+  ),
+  matched AS (
+    SELECT fi,
+           CASE WHEN search.tsq IS NULL THEN NULL ELSE ts_rank(fi.search_vector, search.tsq) END AS score
+      FROM flowchart_items fi, search
+     WHERE fi.project_id = p_project_id
+       AND (p_item_id IS NULL OR fi.id::text = p_item_id)
+       AND (p_type IS NULL OR fi.type = p_type)
+       AND (p_external_issue_status IS NULL OR fi.external_issue_status = p_external_issue_status)
+       AND (p_created_from IS NULL OR fi.created_at >= p_created_from)
+       AND (p_created_to IS NULL OR fi.created_at <= p_created_to)
+       AND (search.tsq IS NULL OR fi.search_vector @@ search.tsq)
+       AND (p_tag IS NULL OR EXISTS (
+         SELECT 1
+           FROM jsonb_array_elements_text(
+             CASE WHEN jsonb_typeof(to_jsonb(fi) -> 'tags') = 'array'
+                  THEN to_jsonb(fi) -> 'tags' ELSE '[]'::jsonb END ||
+             CASE WHEN jsonb_typeof(to_jsonb(fi) -> 'elements' -> 'tags') = 'array'
+                  THEN to_jsonb(fi) -> 'elements' -> 'tags' ELSE '[]'::jsonb END
+           ) AS tag
+          WHERE lower(btrim(tag)) = lower(btrim(p_tag))
+       ))
+  )
+  SELECT to_jsonb(fi) - 'search_vector', score, count(*) OVER ()
+    FROM matched
+   ORDER BY score DESC NULLS LAST, (fi).created_at, (fi).id
+  OFFSET greatest(p_offset, 0)
+   LIMIT least(greatest(p_limit, 1), 200);
+$$ LANGUAGE sql STABLE;
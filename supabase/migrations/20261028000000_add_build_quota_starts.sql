@@ -0,0 +1,40 @@
+-- =====================================================
+-- Migration: Add build_quota_starts for daily build quotas
+-- Created: 2026-10-28T00:00:00.000Z
+-- Tables: build_quota_starts
+-- Purpose: Count new build starts per user and org in
+--          the database so every dispatcher node enforces
+--          the same daily quotas (see build-quotas.ts).
+--          Resumes, recoveries and takeovers of a build
+--          are not recorded.
+-- =====================================================
+
+-- =====================================================
+-- TABLE: build_quota_starts
+-- One row per new build start. Only the dispatcher
+-- (service role) reads and writes it.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS build_quota_starts (
+  id BIGSERIAL PRIMARY KEY,
+
+  -- Not a foreign key: deleting a build must not give its quota back
+  build_id UUID NOT NULL,
+  user_id UUID,
+  org_id UUID,
+
+  started_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Daily usage per user and per organization.
+CREATE INDEX IF NOT EXISTS idx_build_quota_starts_user
+  ON build_quota_starts (user_id, started_at)
+  WHERE user_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_build_quota_starts_org
+  ON build_quota_starts (org_id, started_at)
+  WHERE org_id IS NOT NULL;
+
+-- =====================================================
+-- RLS: no policies, so only the service role has access
+-- =====================================================
+ALTER TABLE build_quota_starts ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,160 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { checkpointBuildStep, getCheckpointRef, rollbackBuild } from '../build-checkpoints.js';
+import { InMemorySupabase } from '../in-memory-supabase.js';
+
+const execFileAsync = promisify(execFile);
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd });
+  return stdout.trim();
+}
+
+/** A project repository with one commit, pushed to a local bare origin. */
+async function createProject(): Promise<{ root: string; projectPath: string; origin: string }> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'build-checkpoints-'));
+  const origin = path.join(root, 'origin.git');
+  const projectPath = path.join(root, 'project');
+  await fs.mkdir(projectPath);
+  await execFileAsync('git', ['init', '--bare', '-b', 'main', origin]);
+  await git(projectPath, 'init', '-b', 'main');
+  await fs.writeFile(path.join(projectPath, '.gitignore'), 'node_modules/\n');
+  await fs.writeFile(path.join(projectPath, 'index.html'), '<h1>Home</h1>\n');
+  await git(projectPath, 'add', '-A');
+  await git(projectPath, '-c', 'user.name=Test', '-c', 'user.email=test@localhost', 'commit', '-m', 'Initial commit');
+  await git(projectPath, 'remote', 'add', 'origin', origin);
+  await git(projectPath, 'push', 'origin', 'main');
+  return { root, projectPath, origin };
+}
+
+function stepRow(id: string, stepNumber: number, promptId: string, minute: number): Record<string, unknown> {
+  return {
+    id,
+    build_id: 'b1',
+    step_number: stepNumber,
+    prompt_id: promptId,
+    prompt_source: 'sequence',
+    agent_phase: 'developer',
+    status: 'completed',
+    started_at: `2026-10-18T10:0${minute}:00.000Z`,
+  };
+}
+
+test('a completed step commits its work and records a checkpoint ref', async () => {
+  const { root, projectPath } = await createProject();
+  const db = new InMemorySupabase({ build_steps: [stepRow('s1', 1, 'f1', 1)] });
+  try {
+    await fs.writeFile(path.join(projectPath, 'about.html'), '<h1>About</h1>\n');
+    await fs.writeFile(path.join(projectPath, '.git-config.json'), '{"token":"secret"}\n');
+    await checkpointBuildStep(db.asClient(), projectPath, 'b1', 's1');
+
+    const head = await git(projectPath, 'rev-parse', 'HEAD');
+    const row = db.table('build_steps')[0];
+    assert.equal(row.checkpoint_sha, head);
+    assert.equal(row.checkpoint_ref, getCheckpointRef('b1', 's1'));
+    assert.equal(await git(projectPath, 'rev-parse', getCheckpointRef('b1', 's1')), head);
+    assert.deepEqual((await git(projectPath, 'show', '--name-only', '--format=', 'HEAD')).split('\n'), ['about.html']);
+    assert.equal(await git(projectPath, 'status', '--porcelain'), '?? .git-config.json');
+
+    // Not a repository of its own: nothing recorded
+    const plain = path.join(root, 'plain');
+    await fs.mkdir(plain);
+    db.table('build_steps').push(stepRow('s2', 2, 'f2', 2));
+    await checkpointBuildStep(db.asClient(), plain, 'b1', 's2');
+    assert.equal(db.table('build_steps')[1].checkpoint_sha, undefined);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+});
+
+test('rollback resets workspace and remote, marks later steps and pauses the build', async () => {
+  const { root, projectPath, origin } = await createProject();
+  const db = new InMemorySupabase({
+    automated_builds: [{
+      id: 'b1',
+      status: 'failed',
+      current_agent_phase: 'debug',
+      current_step: 3,
+      cursor_project_path: projectPath,
+      pause_state: null,
+    }],
+    build_steps: [stepRow('s1', 1, 'f1', 1), stepRow('s2', 2, 'f2', 2), stepRow('s3', 3, 'cfg-2', 3)],
+    flowchart_items: [
+      { id: 'f1', is_implemented: true },
+      { id: 'f2', is_implemented: true },
+    ],
+  });
+  const client = db.asClient();
+  try {
+    await checkpointBuildStep(client, projectPath, 'b1', 's1');
+    const checkpoint = await git(projectPath, 'rev-parse', 'HEAD');
+    await fs.writeFile(path.join(projectPath, 'about.html'), '<h1>About</h1>\n');
+    await checkpointBuildStep(client, projectPath, 'b1', 's2');
+    await fs.writeFile(path.join(projectPath, 'index.html'), '<h1>Changed</h1>\n');
+    await checkpointBuildStep(client, projectPath, 'b1', 's3');
+    await git(projectPath, 'push', 'origin', 'main');
+    await fs.writeFile(path.join(projectPath, 'draft.html'), 'untracked\n');
+    await fs.writeFile(path.join(projectPath, '.git-config.json'), '{"token":"secret"}\n');
+
+    const result = await rollbackBuild(client, 'b1', 's1');
+    assert.ok(result.rolledBack);
+    assert.deepEqual(
+      [result.sha, result.stepNumber, result.phase, result.branch, result.pushed, result.stepsRolledBack],
+      [checkpoint, 1, 'developer', 'main', true, 2]
+    );
+
+    assert.equal(await git(projectPath, 'rev-parse', 'HEAD'), checkpoint);
+    assert.equal(await git(origin, 'rev-parse', 'main'), checkpoint);
+    assert.equal(await fs.readFile(path.join(projectPath, 'index.html'), 'utf-8'), '<h1>Home</h1>\n');
+    await assert.rejects(fs.access(path.join(projectPath, 'about.html')));
+    await assert.rejects(fs.access(path.join(projectPath, 'draft.html')));
+    assert.equal(await fs.readFile(path.join(projectPath, '.git-config.json'), 'utf-8'), '{"token":"secret"}\n');
+
+    assert.deepEqual(db.table('build_steps').map((step) => step.status), ['completed', 'rolled_back', 'rolled_back']);
+    // Only flowchart prompts are marked to run again; config prompts resume by position
+    assert.deepEqual(db.table('flowchart_items').map((item) => item.is_implemented), [true, false]);
+    const build = db.table('automated_builds')[0];
+    assert.deepEqual(
+      [build.status, build.current_agent_phase, build.current_step, build.developer_completed_at],
+      ['paused', 'developer', 1, null]
+    );
+    const pauseState = build.pause_state as Record<string, unknown>;
+    assert.deepEqual([pauseState.phase, pauseState.currentStep, pauseState.promptQueue], ['developer', 1, null]);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+});
+
+test('rollback is refused for running builds, unknown steps and missing checkpoints', async () => {
+  const { root, projectPath } = await createProject();
+  const db = new InMemorySupabase({
+    automated_builds: [{ id: 'b1', status: 'running', cursor_project_path: projectPath }],
+    build_steps: [stepRow('s1', 1, 'f1', 1), { ...stepRow('s2', 2, 'f2', 2), checkpoint_sha: 'f'.repeat(40) }],
+  });
+  const client = db.asClient();
+  try {
+    assert.deepEqual(await rollbackBuild(client, 'missing', 's1'), { rolledBack: false, status: 404, message: 'Build not found' });
+    const running = await rollbackBuild(client, 'b1', 's1');
+    assert.equal(!running.rolledBack && running.status, 409);
+
+    db.table('automated_builds')[0].status = 'paused';
+    assert.deepEqual(await rollbackBuild(client, 'b1', 'nope'), { rolledBack: false, status: 404, message: 'Step not found' });
+    assert.deepEqual(await rollbackBuild(client, 'b1', 's1'), { rolledBack: false, status: 409, message: 'Step has no checkpoint' });
+    assert.deepEqual(await rollbackBuild(client, 'b1', 's2'), {
+      rolledBack: false,
+      status: 409,
+      message: `Checkpoint ${'f'.repeat(40)} is missing from the workspace`,
+    });
+
+    db.table('automated_builds')[0].cursor_project_path = path.join(root, 'elsewhere');
+    const moved = await rollbackBuild(client, 'b1', 's2');
+    assert.equal(!moved.rolledBack && moved.message, 'Build workspace is not a git repository on this node');
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+});
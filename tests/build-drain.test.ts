@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { BuildOrchestrator } from '../build-orchestrator.js';
+import { BuildQueue } from '../build-queue.js';
+import { BuildQuotas } from '../build-quotas.js';
+import {
+  clearWorkerDrain,
+  getDrainFilePath,
+  getDrainTimeoutMs,
+  isDrainRequested,
+  requestWorkerDrain,
+} from '../build-drain.js';
+
+const BUILD_ID = '6f1c2a7e-8d4b-4c3a-9e2f-1a2b3c4d5e6f';
+
+test('a drain request is a marker file the worker stop check sees', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'build-drain-'));
+  const previous = process.env.MCP_BUILD_LOG_DIR;
+  process.env.MCP_BUILD_LOG_DIR = path.join(dir, 'builds');
+  try {
+    const file = getDrainFilePath(BUILD_ID);
+    assert.equal(file, path.join(dir, 'builds', `${BUILD_ID}.drain`));
+    assert.equal(isDrainRequested(file), false);
+    assert.equal(isDrainRequested(undefined), false);
+
+    await requestWorkerDrain(BUILD_ID);
+    assert.equal(isDrainRequested(file), true);
+    await clearWorkerDrain(BUILD_ID);
+    assert.equal(isDrainRequested(file), false);
+    // Clearing twice is fine
+    await clearWorkerDrain(BUILD_ID);
+
+    assert.throws(() => getDrainFilePath('../escape'), /Invalid build id/);
+  } finally {
+    if (previous === undefined) delete process.env.MCP_BUILD_LOG_DIR;
+    else process.env.MCP_BUILD_LOG_DIR = previous;
+  }
+});
+
+test('drain timeout comes from MCP_DRAIN_TIMEOUT_MS', () => {
+  const previous = process.env.MCP_DRAIN_TIMEOUT_MS;
+  try {
+    delete process.env.MCP_DRAIN_TIMEOUT_MS;
+    assert.equal(getDrainTimeoutMs(), 5 * 60_000);
+    process.env.MCP_DRAIN_TIMEOUT_MS = '0';
+    assert.equal(getDrainTimeoutMs(), 0);
+    process.env.MCP_DRAIN_TIMEOUT_MS = 'soon';
+    assert.equal(getDrainTimeoutMs(), 5 * 60_000);
+  } finally {
+    if (previous === undefined) delete process.env.MCP_DRAIN_TIMEOUT_MS;
+    else process.env.MCP_DRAIN_TIMEOUT_MS = previous;
+  }
+});
+
+test('a draining node keeps queued builds queued', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'build-drain-'));
+  const orchestrator = new BuildOrchestrator(5, new BuildQueue(path.join(dir, 'queue.json')), new BuildQuotas());
+  const dispatched: string[] = [];
+  orchestrator.setQueueDispatcher(async (entry) => {
+    dispatched.push(entry.buildId);
+  });
+
+  orchestrator.pauseDispatch();
+  await orchestrator.enqueueBuild({ buildId: 'b1', userId: 'u1' });
+  await orchestrator.dispatchQueued();
+
+  assert.deepEqual(dispatched, []);
+  assert.equal(orchestrator.isQueued('b1'), true);
+});
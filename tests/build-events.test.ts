@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BuildEventEmitter, onBuildEvent, type BuildEvent } from '../build-events.js';
+import { InMemorySupabase } from '../in-memory-supabase.js';
+
+test('events are written in sequence with their phase; heartbeats only reach listeners', async () => {
+  const db = new InMemorySupabase({}, { identity: { build_logs: 'sequence' } });
+  const events = new BuildEventEmitter(db.asClient(), 'b1');
+  const seen: BuildEvent[] = [];
+  const unsubscribe = onBuildEvent((event) => seen.push(event));
+  try {
+    await events.setPhase('developer');
+    await events.setPhase('developer');
+    const started = await events.emit('step_started', { stepNumber: 1, totalSteps: 3, title: 'Home' });
+    await events.emit('heartbeat', { currentStep: 1 });
+    await events.log('Agent crashed', 'error');
+
+    assert.equal(started.message, 'Step 1/3 started: Home');
+    assert.equal(started.sequence, 2);
+    const rows = db.table('build_logs');
+    assert.deepEqual(rows.map((row) => row.event_type), ['phase_changed', 'step_started', 'build_error']);
+    assert.ok(rows.every((row) => row.phase === 'developer' && row.build_id === 'b1'));
+    assert.deepEqual(seen.map((event) => event.type), ['phase_changed', 'step_started', 'heartbeat', 'build_error']);
+    assert.equal(seen[2].sequence, null);
+  } finally {
+    unsubscribe();
+  }
+});
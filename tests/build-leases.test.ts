@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BuildLeaseManager, renewBuildLease, type OrphanedBuild } from '../build-leases.js';
+import { InMemorySupabase } from '../in-memory-supabase.js';
+
+const past = (ms: number) => new Date(Date.now() - ms).toISOString();
+
+/** automated_builds plus stand-ins for claim_build_lease / renew_build_lease. */
+function leaseDb(): InMemorySupabase {
+  const db = new InMemorySupabase({
+    automated_builds: [{ id: 'b1', status: 'running', lease_owner: null, lease_expires_at: null, drained_at: null }],
+  });
+  const expiry = (ttlSeconds: number) => new Date(Date.now() + ttlSeconds * 1000).toISOString();
+  db.registerRpc('claim_build_lease', ({ p_build_id, p_node_id, p_ttl_seconds }, self) => {
+    const row = self.table('automated_builds').find((r) => r.id === p_build_id);
+    const free = row && (!row.lease_owner || row.lease_owner === p_node_id || !row.lease_expires_at
+      || new Date(row.lease_expires_at).getTime() < Date.now());
+    if (!row || !free) return false;
+    Object.assign(row, { lease_owner: p_node_id, lease_expires_at: expiry(p_ttl_seconds) });
+    return true;
+  });
+  db.registerRpc('renew_build_lease', ({ p_build_id, p_node_id, p_ttl_seconds }, self) => {
+    const row = self.table('automated_builds').find((r) => r.id === p_build_id && r.lease_owner === p_node_id);
+    if (!row) return false;
+    row.lease_expires_at = expiry(p_ttl_seconds);
+    return true;
+  });
+  return db;
+}
+
+test('one node holds a lease; the other takes over once it lapses', async () => {
+  const db = leaseDb();
+  const client = db.asClient();
+  const a = new BuildLeaseManager('node-a', 60_000);
+  const b = new BuildLeaseManager('node-b', 60_000);
+
+  assert.equal(await a.claim(client, 'b1'), true);
+  assert.equal(await b.claim(client, 'b1'), false);
+  assert.equal(await a.activeOwner(client, 'b1'), 'node-a');
+  assert.equal(await renewBuildLease(client, 'b1', 'node-b', 60_000), false);
+  assert.equal(await renewBuildLease(client, 'b1', 'node-a', 60_000), true);
+  assert.deepEqual(await b.findOrphaned(client), []);
+
+  // node-a stops renewing
+  db.table('automated_builds')[0].lease_expires_at = past(1_000);
+  assert.equal(await a.activeOwner(client, 'b1'), null);
+  const [orphan] = await b.findOrphaned(client);
+  assert.equal(orphan.buildId, 'b1');
+  assert.equal(orphan.previousOwner, 'node-a');
+
+  assert.equal(await b.claim(client, 'b1', orphan.previousOwner), true);
+  assert.equal(b.getHeldLease('b1')?.takenOverFrom, 'node-a');
+  assert.equal(await renewBuildLease(client, 'b1', 'node-a', 60_000), false);
+});
+
+test('release clears the lease; hand-off lets it lapse at once for takeover', async () => {
+  const db = leaseDb();
+  const client = db.asClient();
+  const a = new BuildLeaseManager('node-a', 60_000);
+  const b = new BuildLeaseManager('node-b', 60_000);
+  const row = db.table('automated_builds')[0];
+
+  await a.claim(client, 'b1');
+  // Only the holder's release counts
+  await b.release(client, 'b1');
+  assert.equal(row.lease_owner, 'node-a');
+
+  await a.handOff(client, 'b1');
+  assert.equal(a.getHeldLease('b1'), undefined);
+  assert.equal(row.lease_owner, 'node-a');
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  assert.deepEqual((await b.findOrphaned(client)).map((o) => o.buildId), ['b1']);
+
+  await b.claim(client, 'b1');
+  await b.release(client, 'b1');
+  assert.equal(row.lease_owner, null);
+  assert.equal(row.lease_expires_at, null);
+  // A released running build is not an orphan
+  assert.deepEqual(await a.findOrphaned(client), []);
+});
+
+test('the takeover monitor hands each orphan to the callback, oldest lease first', async () => {
+  const db = new InMemorySupabase({
+    automated_builds: [
+      { id: 'newer', status: 'running', lease_owner: 'node-a', lease_expires_at: past(1_000), drained_at: null },
+      { id: 'older', status: 'running', lease_owner: 'node-a', lease_expires_at: past(5_000), drained_at: past(6_000) },
+      { id: 'done', status: 'completed', lease_owner: 'node-a', lease_expires_at: past(5_000), drained_at: null },
+    ],
+  });
+  const seen: OrphanedBuild[] = [];
+  const manager = new BuildLeaseManager('node-b', 60_000);
+  const timer = manager.startTakeoverMonitor(db.asClient(), async (orphan) => {
+    seen.push(orphan);
+    if (orphan.buildId === 'older') throw new Error('no slot');
+  }, 10);
+  try {
+    while (seen.length < 2) await new Promise((resolve) => setTimeout(resolve, 10));
+  } finally {
+    clearInterval(timer);
+  }
+  assert.deepEqual(seen.slice(0, 2).map((o) => o.buildId), ['older', 'newer']);
+  assert.notEqual(seen[0].drainedAt, null);
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { orderByDependencies } from '../build-order.js';
+
+test('a prompt connected to an API and the page using it is not a cycle', () => {
+  const graph = {
+    items: [
+      { id: 'api', type: 'api', title: 'Orders API' },
+      { id: 'page', type: 'page', title: 'Checkout' },
+      { id: 'p1', type: 'prompt', title: 'Build checkout' },
+    ],
+    connections: [
+      { source_id: 'page', target_id: 'api' },
+      { source_id: 'p1', target_id: 'api' },
+      { source_id: 'p1', target_id: 'page' },
+    ],
+  };
+  const order = orderByDependencies([{ id: 'p1' }], graph);
+  assert.deepEqual(order.cycles, []);
+  assert.deepEqual(order.dependencies.get('p1'), new Set());
+});
+
+test('prompts for dependent items are ordered, mutual dependencies are reported', () => {
+  const graph = {
+    items: [
+      { id: 'api', type: 'api', title: 'Orders API' },
+      { id: 'page', type: 'page', title: 'Checkout' },
+      { id: 'a', type: 'page', title: 'A' },
+      { id: 'b', type: 'page', title: 'B' },
+      { id: 'p-page', type: 'prompt', title: 'Page prompt' },
+      { id: 'p-api', type: 'prompt', title: 'API prompt' },
+    ],
+    connections: [
+      { source_id: 'page', target_id: 'api' },
+      { source_id: 'p-page', target_id: 'page' },
+      { source_id: 'p-api', target_id: 'api' },
+      { source_id: 'a', target_id: 'b' },
+      { source_id: 'b', target_id: 'a' },
+    ],
+  };
+  const order = orderByDependencies([{ id: 'p-page' }, { id: 'p-api' }, { id: 'a' }, { id: 'b' }], graph);
+  assert.deepEqual(order.items.map((item) => item.id), ['p-api', 'p-page', 'a', 'b']);
+  assert.deepEqual(order.cycles, [{ ids: ['a', 'b'], titles: ['A', 'B'] }]);
+  assert.equal(order.reordered, true);
+});
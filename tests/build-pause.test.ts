@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { runBuildLoop } from '../build-runner.js';
+import { getPipelineStartIndex } from '../build-phases.js';
+import {
+  clearWorkerPause,
+  getPauseFilePath,
+  isPauseRequested,
+  readPauseState,
+  requestWorkerPause,
+} from '../build-pause.js';
+import { InMemorySupabase } from '../in-memory-supabase.js';
+import {
+  createReplayCreateProjectFn,
+  createReplayExecutePromptFn,
+  createReplayProjectChecks,
+  registerRecordedFunctions,
+  type BuildRecording,
+  type ReplayPromptCall,
+} from '../replay-build.js';
+
+test('a paused build checkpoints at a step boundary and resumes there', async () => {
+  const recording = JSON.parse(
+    await fs.readFile(new URL('./fixtures/replay-build.json', import.meta.url), 'utf-8')
+  ) as BuildRecording;
+  const db = new InMemorySupabase(recording.tables, { identity: { build_logs: 'sequence' } });
+  registerRecordedFunctions(db, recording.functions);
+  const projectPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'build-pause-')), 'project');
+  const calls: ReplayPromptCall[] = [];
+  const options = {
+    createProjectFn: createReplayCreateProjectFn(recording.scaffold),
+    executePromptFn: createReplayExecutePromptFn(recording.prompts, calls),
+    configOverrides: { projectPath },
+    projectChecks: createReplayProjectChecks(recording.debugChecks),
+  };
+  const build = () => db.table('automated_builds').find((row) => row.id === recording.buildId)!;
+
+  try {
+    const pause = () => calls.length >= 1;
+    await runBuildLoop(db.asClient(), recording.buildId, { ...options, shouldStop: pause, pauseRequested: pause });
+
+    assert.equal(build().status, 'paused');
+    const checkpoint = readPauseState(build().pause_state);
+    assert.equal(checkpoint?.phase, 'developer');
+    assert.equal(checkpoint?.currentStep, 1);
+    assert.equal(calls.length, 1);
+
+    await runBuildLoop(db.asClient(), recording.buildId, options);
+
+    assert.equal(build().status, 'completed');
+    assert.equal(build().pause_state, null);
+    // Every recorded prompt ran once across both runs
+    assert.equal(calls.filter((call) => call.recordingIndex === null).length, 0);
+    assert.equal(new Set(calls.map((call) => call.recordingIndex)).size, calls.length);
+    assert.ok(db.table('build_logs').some((log) => /Resuming from pause checkpoint \(phase developer, step 1/.test(log.message)));
+  } finally {
+    await fs.rm(path.dirname(projectPath), { recursive: true, force: true });
+  }
+});
+
+test('pause requests are marker files; checkpoints are validated', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'build-pause-'));
+  const previous = process.env.MCP_BUILD_LOG_DIR;
+  process.env.MCP_BUILD_LOG_DIR = dir;
+  try {
+    const file = getPauseFilePath('b1');
+    await requestWorkerPause('b1');
+    assert.equal(isPauseRequested(file), true);
+    await clearWorkerPause('b1');
+    assert.equal(isPauseRequested(file), false);
+    assert.throws(() => getPauseFilePath('b1/../b2'), /Invalid build id/);
+  } finally {
+    if (previous === undefined) delete process.env.MCP_BUILD_LOG_DIR;
+    else process.env.MCP_BUILD_LOG_DIR = previous;
+  }
+
+  assert.equal(readPauseState(null), null);
+  assert.equal(readPauseState({ phase: 'developer', promptQueue: 'x' }), null);
+  assert.equal(readPauseState({ phase: 'debug', promptQueue: null })?.phase, 'debug');
+});
+
+test('a resumed pipeline continues at the recorded occurrence of its phase', () => {
+  const pipeline = ['developer', 'debug', 'scope_check', 'debug'];
+  assert.equal(getPipelineStartIndex(pipeline, 'developer'), 0);
+  assert.equal(getPipelineStartIndex(pipeline, 'feedback'), 4);
+  assert.equal(getPipelineStartIndex(pipeline, 'debug'), 1);
+  // Interrupted in the second debug run
+  assert.equal(getPipelineStartIndex(pipeline, 'debug', 3), 3);
+  // Paused right after a phase finished: continue with the next one, or nothing when it was the last
+  assert.equal(getPipelineStartIndex(pipeline, 'debug', 2), 2);
+  assert.equal(getPipelineStartIndex(pipeline, 'debug', 4), 4);
+  // A checkpoint that does not match the pipeline falls back to the first occurrence
+  assert.equal(getPipelineStartIndex(pipeline, 'scope_check', 0), 2);
+});
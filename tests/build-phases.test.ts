@@ -0,0 +1,132 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DEFAULT_AGENT_PHASE_PIPELINE,
+  getAgentPhase,
+  getPhasePipeline,
+  hasAgentPhase,
+  listAgentPhases,
+  loadAgentPhaseModules,
+  registerAgentPhase,
+  unregisterAgentPhase,
+  validatePhasePipeline,
+  type AgentPhaseOptions,
+} from '../build-phases.js';
+import { runBuildLoop } from '../build-runner.js';
+import { InMemorySupabase } from '../in-memory-supabase.js';
+import {
+  createReplayCreateProjectFn,
+  createReplayExecutePromptFn,
+  createReplayProjectChecks,
+  registerRecordedFunctions,
+  type BuildRecording,
+  type ReplayPromptCall,
+} from '../replay-build.js';
+
+// Phase modules are imported once per process, so this runs before anything validates a pipeline
+test('phase modules from MCP_BUILD_PHASE_MODULES register their default export', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'build-phases-'));
+  const modulePath = path.join(dir, 'phases.mjs');
+  await fs.writeFile(modulePath, [
+    "export default [",
+    "  { id: 'module-lint', label: 'Lint Agent', run: async () => {} },",
+    "  { id: 'module-docs', label: 'Docs Agent', run: async () => {} },",
+    "];",
+  ].join('\n'));
+  const previous = process.env.MCP_BUILD_PHASE_MODULES;
+  process.env.MCP_BUILD_PHASE_MODULES = ` ${modulePath} ,`;
+  t.after(async () => {
+    if (previous === undefined) delete process.env.MCP_BUILD_PHASE_MODULES;
+    else process.env.MCP_BUILD_PHASE_MODULES = previous;
+    unregisterAgentPhase('module-lint');
+    unregisterAgentPhase('module-docs');
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  assert.equal(await validatePhasePipeline({ phases: ['module-lint', 'debug', 'module-docs'] }), null);
+  assert.equal(getAgentPhase('module-docs').label, 'Docs Agent');
+  await loadAgentPhaseModules();
+  assert.equal(listAgentPhases().filter((phase) => phase.id === 'module-lint').length, 1);
+});
+
+test('the registry holds the built-in phases and refuses the loop phases', () => {
+  assert.deepEqual(DEFAULT_AGENT_PHASE_PIPELINE.filter((id) => !hasAgentPhase(id)), []);
+  assert.throws(() => registerAgentPhase({ id: 'developer', label: 'Developer', run: async () => {} }), /reserved for the build loop: developer/);
+  assert.throws(() => registerAgentPhase({ id: 'feedback', label: 'Feedback', run: async () => {} }), /reserved/);
+  assert.throws(() => getAgentPhase('test-missing'), /Unknown agent phase: test-missing/);
+
+  registerAgentPhase({ id: 'test-extra', label: 'Extra Agent', run: async () => {} });
+  assert.equal(getAgentPhase('test-extra').label, 'Extra Agent');
+  unregisterAgentPhase('test-extra');
+  assert.equal(hasAgentPhase('test-extra'), false);
+});
+
+test('configuration.phases picks the pipeline and is validated against the registry', async () => {
+  assert.deepEqual(getPhasePipeline(undefined), [...DEFAULT_AGENT_PHASE_PIPELINE]);
+  assert.deepEqual(getPhasePipeline({ phases: ['debug', 'debug'] }), ['debug', 'debug']);
+  assert.deepEqual(getPhasePipeline({ phases: [] }), []);
+
+  assert.equal(await validatePhasePipeline(null), null);
+  assert.equal(await validatePhasePipeline({ phases: ['design', 'debug', 'debug'] }), null);
+  assert.equal(await validatePhasePipeline({ phases: 'debug' }), 'configuration.phases must be a list of agent phase ids');
+  assert.equal(await validatePhasePipeline({ phases: ['debug', 3] }), 'configuration.phases must be a list of agent phase ids');
+  assert.match(
+    (await validatePhasePipeline({ phases: ['design', 'nope', 'developer'] }))!,
+    /^Unknown agent phases in configuration\.phases: nope, developer \(registered: scope-check, design, /
+  );
+});
+
+test('the build loop runs configuration.phases in order and continues past a failing phase', async (t) => {
+  const runs: Array<{ id: string; options: AgentPhaseOptions }> = [];
+  registerAgentPhase({ id: 'test-review', label: 'Review Agent', run: async (options) => { runs.push({ id: 'test-review', options }); } });
+  registerAgentPhase({
+    id: 'test-broken',
+    label: 'Broken Agent',
+    run: async (options) => {
+      runs.push({ id: 'test-broken', options });
+      throw new Error('review service unavailable');
+    },
+  });
+  t.after(() => {
+    unregisterAgentPhase('test-review');
+    unregisterAgentPhase('test-broken');
+  });
+
+  const recording = JSON.parse(
+    await fs.readFile(new URL('./fixtures/replay-build.json', import.meta.url), 'utf-8')
+  ) as BuildRecording;
+  const db = new InMemorySupabase(recording.tables, { identity: { build_logs: 'sequence' } });
+  const build = db.table('automated_builds')[0];
+  build.configuration = { ...(build.configuration as Record<string, unknown>), phases: ['test-review', 'test-broken', 'test-review'] };
+  registerRecordedFunctions(db, recording.functions);
+  const projectPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'build-phases-')), 'project');
+  const calls: ReplayPromptCall[] = [];
+
+  try {
+    await runBuildLoop(db.asClient(), recording.buildId, {
+      createProjectFn: createReplayCreateProjectFn(recording.scaffold),
+      executePromptFn: createReplayExecutePromptFn(recording.prompts, calls),
+      configOverrides: { projectPath },
+      projectChecks: createReplayProjectChecks(recording.debugChecks),
+    });
+
+    assert.deepEqual(runs.map((run) => run.id), ['test-review', 'test-broken', 'test-review']);
+    assert.deepEqual(
+      [runs[0].options.buildId, runs[0].options.projectId, runs[0].options.projectPath, runs[0].options.userId],
+      ['b1', 'p1', projectPath, 'u1']
+    );
+    assert.deepEqual((runs[0].options.configuration as { phases: string[] }).phases, ['test-review', 'test-broken', 'test-review']);
+    // Only the developer prompt ran: none of the default agent phases did
+    assert.equal(calls.length, 1);
+
+    const logs = db.table('build_logs').map((log) => log.message as string);
+    assert.ok(logs.includes('Broken Agent failed: review service unavailable'));
+    assert.equal(logs.filter((message) => message === 'Review Agent phase completed.').length, 2);
+    assert.deepEqual([build.status, build.current_agent_phase], ['completed', 'test-review']);
+  } finally {
+    await fs.rm(path.dirname(projectPath), { recursive: true, force: true });
+  }
+});
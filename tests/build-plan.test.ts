@@ -0,0 +1,164 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCipheriv, randomBytes } from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_AGENT_PHASE_PIPELINE } from '../build-phases.js';
+import { planBuild } from '../build-plan.js';
+import type { AutomatedBuildRow } from '../build-runner.js';
+import { InMemorySupabase } from '../in-memory-supabase.js';
+import type { BuildRecording } from '../replay-build.js';
+
+const ENCRYPTION_SECRET = randomBytes(32).toString('hex');
+
+/** Ciphertext in the format the cursor-api-key-upsert function stores. */
+function encryptApiKey(apiKey: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', Buffer.from(ENCRYPTION_SECRET, 'hex'), iv);
+  const encrypted = Buffer.concat([cipher.update(apiKey, 'utf8'), cipher.final(), cipher.getAuthTag()]);
+  return `${iv.toString('base64')}.${encrypted.toString('base64')}`;
+}
+
+function completedStep(buildId: string, phase: string, durationMs: number): Record<string, unknown> {
+  const started = Date.parse('2026-10-01T10:00:00.000Z');
+  return {
+    build_id: buildId,
+    agent_phase: phase,
+    status: 'completed',
+    started_at: new Date(started).toISOString(),
+    completed_at: new Date(started + durationMs).toISOString(),
+  };
+}
+
+async function loadRecording(): Promise<BuildRecording> {
+  return JSON.parse(await fs.readFile(new URL('./fixtures/replay-build.json', import.meta.url), 'utf-8')) as BuildRecording;
+}
+
+test('a new build is planned from its prompts, pages and step history without writing anything', async (t) => {
+  const previousSecret = process.env.CURSOR_KEYS_ENCRYPTION_SECRET;
+  process.env.CURSOR_KEYS_ENCRYPTION_SECRET = ENCRYPTION_SECRET;
+  t.after(() => {
+    if (previousSecret === undefined) delete process.env.CURSOR_KEYS_ENCRYPTION_SECRET;
+    else process.env.CURSOR_KEYS_ENCRYPTION_SECRET = previousSecret;
+  });
+
+  const recording = await loadRecording();
+  const db = new InMemorySupabase({
+    ...recording.tables,
+    automated_builds: [
+      ...recording.tables.automated_builds,
+      { id: 'old', user_id: 'u1', status: 'completed', created_at: '2026-10-01T09:00:00.000Z' },
+    ],
+    build_steps: [
+      completedStep('old', 'developer', 2000),
+      completedStep('old', 'developer', 4000),
+      completedStep('old', 'design', 10000),
+      { ...completedStep('old', 'debug', 5000), status: 'failed' },
+    ],
+    cursor_api_keys: [{ user_id: 'u1', api_key_ciphertext: encryptApiKey('key_test'), revoked_at: null }],
+    github_auth: [{ user_id: 'u1', access_token: 'gho_test' }],
+  });
+  const before = JSON.stringify(['automated_builds', 'build_steps', 'flowchart_items', 'cursor_api_keys'].map((name) => db.table(name)));
+
+  const plan = await planBuild(db.asClient(), db.table('automated_builds')[0] as unknown as AutomatedBuildRow, { userId: 'u1' });
+
+  assert.deepEqual(plan.missingPrerequisites, []);
+  assert.deepEqual(
+    [plan.ready, plan.startPhase, plan.resume, plan.fromPauseCheckpoint, plan.provider, plan.promptSource],
+    [true, 'developer', false, false, 'cursor', 'flowchart_items']
+  );
+  assert.deepEqual(plan.phases.map((phase) => phase.phase), ['developer', ...DEFAULT_AGENT_PHASE_PIPELINE]);
+
+  const [developer, scopeCheck, design] = plan.phases;
+  assert.deepEqual(developer.steps, [{
+    phase: 'developer',
+    stepNumber: 1,
+    promptId: 'f1',
+    title: 'Create home page',
+    source: 'sequence',
+    provider: 'cursor',
+    model: plan.model,
+    estimatedMs: 3000,
+  }]);
+  assert.deepEqual([developer.estimatedMs, developer.historySamples], [3000, 2]);
+  assert.deepEqual(scopeCheck.pages, [{ pageId: 'pg1', title: 'Home' }]);
+  assert.equal(scopeCheck.steps, null);
+  // Agent phases without prompts are estimated from their past step count
+  assert.deepEqual([design.steps, design.estimatedSteps, design.estimatedMs], [null, 1, 10000]);
+  assert.equal(plan.estimatedDurationMs, 13000);
+  assert.deepEqual(plan.unestimatedPhases, ['scope-check', 'ui-design-improvements', 'debug']);
+
+  assert.equal(
+    JSON.stringify(['automated_builds', 'build_steps', 'flowchart_items', 'cursor_api_keys'].map((name) => db.table(name))),
+    before
+  );
+});
+
+test('missing prerequisites are listed, blocking or not', async () => {
+  const recording = await loadRecording();
+  const db = new InMemorySupabase({
+    ...recording.tables,
+    flowchart_items: recording.tables.flowchart_items.map((item) => ({ ...item, is_implemented: true })),
+  });
+  const row = {
+    ...db.table('automated_builds')[0],
+    cursor_project_path: path.join(os.tmpdir(), 'build-plan-missing-project'),
+    configuration: { cursorConfig: { projectName: 'demo' }, phases: ['design', 'nope'] },
+  } as unknown as AutomatedBuildRow;
+
+  const plan = await planBuild(db.asClient(), row, { userId: 'u1' });
+
+  assert.equal(plan.ready, false);
+  assert.deepEqual(plan.missingPrerequisites.map((entry) => [entry.prerequisite, entry.blocking]), [
+    ['phases', true],
+    ['api_key', true],
+    ['github_auth', false],
+    ['project_directory', true],
+    ['prompts', true],
+  ]);
+  assert.match(plan.missingPrerequisites[0].message, /Unknown agent phases in configuration\.phases: nope/);
+  assert.equal(plan.missingPrerequisites[4].message, 'All prompts already implemented; the build would finish without running a step.');
+  assert.deepEqual(plan.phases.map((phase) => phase.phase), ['developer', 'design', 'nope']);
+  assert.deepEqual([plan.estimatedDurationMs, plan.phases[0].steps], [null, []]);
+});
+
+test('a paused build is planned from its checkpoint, numbering steps after the completed ones', async () => {
+  const projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'build-plan-'));
+  const db = new InMemorySupabase({});
+  const row = {
+    id: 'b2',
+    user_id: 'u1',
+    status: 'paused',
+    current_agent_phase: 'developer',
+    current_step: 2,
+    cursor_project_path: projectPath,
+    configuration: {
+      cursorConfig: { projectName: 'demo' },
+      prompts: ['one', 'two', 'three', 'four'],
+      phases: ['design', 'debug'],
+      provider: 'claude-code',
+    },
+    pause_state: {
+      pausedAt: '2026-10-18T10:00:00.000Z',
+      phase: 'developer',
+      currentStep: 2,
+      totalSteps: 4,
+      promptQueue: [{ id: 'cfg-3', prompt_content: 'four', title: 'four', source: 'sequence', type: 'prompt' }],
+      model: 'claude-sonnet',
+    },
+  } as unknown as AutomatedBuildRow;
+
+  try {
+    const plan = await planBuild(db.asClient(), row, { userId: 'u1' });
+    assert.deepEqual(
+      [plan.resume, plan.fromPauseCheckpoint, plan.provider, plan.requestedModel],
+      [true, true, 'claude-code', 'claude-sonnet']
+    );
+    assert.deepEqual(plan.phases.map((phase) => phase.phase), ['developer', 'design', 'debug']);
+    assert.deepEqual(plan.phases[0].steps!.map((step) => [step.stepNumber, step.promptId, step.provider]), [[3, 'cfg-3', 'claude-code']]);
+    assert.ok(!plan.missingPrerequisites.some((entry) => entry.prerequisite === 'project_directory' || entry.prerequisite === 'prompts'));
+  } finally {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { BuildQueue } from '../build-queue.js';
+
+async function tempQueueFile(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'build-queue-'));
+  return path.join(dir, 'build-queue.json');
+}
+
+test('dispatch order: priority, then the least busy user, then arrival', async () => {
+  const queue = new BuildQueue(await tempQueueFile());
+  await queue.enqueue({ buildId: 'a1', userId: 'alice' });
+  await queue.enqueue({ buildId: 'a2', userId: 'alice' });
+  await queue.enqueue({ buildId: 'b1', userId: 'bob' });
+  await queue.enqueue({ buildId: 'urgent', userId: 'carol', priority: 5 });
+
+  assert.deepEqual(queue.ordered().map((e) => e.buildId), ['urgent', 'a1', 'b1', 'a2']);
+  assert.deepEqual(
+    queue.ordered(new Map([['alice', 2]])).map((e) => e.buildId),
+    ['urgent', 'b1', 'a1', 'a2']
+  );
+  assert.equal(queue.position('b1'), 3);
+
+  // Re-enqueueing keeps the place and only takes the new priority
+  await queue.enqueue({ buildId: 'a2', userId: 'alice', priority: 9 });
+  assert.equal(queue.size, 4);
+  assert.equal(queue.position('a2'), 1);
+
+  assert.equal(await queue.remove('a2'), true);
+  assert.equal(await queue.remove('a2'), false);
+  assert.equal(queue.position('a2'), null);
+});
+
+test('entries survive a restart and legacy credential payloads are dropped', async () => {
+  const file = await tempQueueFile();
+  const queue = new BuildQueue(file);
+  await queue.enqueue({ buildId: 'b1', userId: 'u1', orgId: 'o1' });
+  await queue.enqueue({ buildId: 'b2', userId: null });
+
+  const restored = new BuildQueue(file);
+  assert.equal(await restored.load(), 2);
+  assert.deepEqual(restored.list().map((e) => [e.buildId, e.userId]), [['b1', 'u1'], ['b2', null]]);
+  const next = await restored.enqueue({ buildId: 'b3', userId: 'u1' });
+  assert.equal(next.seq, 3);
+
+  await fs.writeFile(file, JSON.stringify({
+    version: 1,
+    entries: [{ buildId: 'old', userId: 'u1', priority: 0, enqueuedAt: '2026-01-01T00:00:00.000Z', seq: 1, payload: { supabaseKey: 'secret' } }],
+  }));
+  const legacy = new BuildQueue(file);
+  assert.equal(await legacy.load(), 1);
+  assert.ok(!(await fs.readFile(file, 'utf-8')).includes('secret'));
+});
@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { BuildOrchestrator } from '../build-orchestrator.js';
+import { BuildQueue, type QueuedBuild } from '../build-queue.js';
+import { BuildQuotas } from '../build-quotas.js';
+import { InMemorySupabase } from '../in-memory-supabase.js';
+
+const yesterday = new Date(Date.now() - 86_400_000).toISOString();
+
+async function tempQueue(): Promise<BuildQueue> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'build-quotas-'));
+  return new BuildQueue(path.join(dir, 'build-queue.json'));
+}
+
+test('daily usage is counted from the shared table, per user and per org', async () => {
+  const db = new InMemorySupabase({
+    build_quota_starts: [
+      { id: 1, build_id: 'old', user_id: 'u1', org_id: 'o1', started_at: yesterday },
+    ],
+  }, { identity: { build_quota_starts: 'id' } });
+  const quotas = new BuildQuotas({ defaults: { user: { maxPerDay: 2 }, org: { maxPerDay: 3 } } });
+  const client = db.asClient();
+
+  assert.equal(await quotas.startedToday(client, 'user', 'u1'), 0);
+  await quotas.recordStart(client, 'b1', { userId: 'u1', orgId: 'o1' });
+  await quotas.recordStart(client, 'b2', { userId: 'u1', orgId: 'o1' });
+  assert.equal(await quotas.startedToday(client, 'org', 'o1'), 2);
+
+  const user = await quotas.checkDaily(client, { userId: 'u1', orgId: 'o1' });
+  assert.equal(user.allowed, false);
+  assert.equal(!user.allowed && user.reason, 'user_daily_limit');
+  assert.equal((await quotas.checkDaily(client, { userId: 'u2', orgId: 'o1' })).allowed, true);
+
+  await quotas.recordStart(client, 'b3', { userId: 'u2', orgId: 'o1' });
+  const org = await quotas.checkDaily(client, { userId: 'u3', orgId: 'o1' });
+  assert.equal(!org.allowed && org.reason, 'org_daily_limit');
+  // Without a database daily limits are not enforced
+  assert.equal((await quotas.checkDaily(null, { userId: 'u1', orgId: 'o1' })).allowed, true);
+});
+
+test('concurrency limits defer against the running counts', () => {
+  const quotas = new BuildQuotas({ defaults: { user: { maxConcurrent: 1 } }, orgs: { o1: { maxConcurrent: 2 } } });
+  const running = { byUser: new Map([['u1', 1]]), byOrg: new Map([['o1', 2]]) };
+
+  const user = quotas.checkConcurrent({ userId: 'u1', orgId: null }, running);
+  assert.equal(!user.allowed && user.action, 'defer');
+  const org = quotas.checkConcurrent({ userId: 'u2', orgId: 'o1' }, running);
+  assert.equal(!org.allowed && org.reason, 'org_concurrent_limit');
+  assert.equal(quotas.checkConcurrent({ userId: 'u2', orgId: null }, running).allowed, true);
+});
+
+test('only new starts use a daily slot; resumed builds need a concurrency slot only', async () => {
+  const db = new InMemorySupabase({}, { identity: { build_quota_starts: 'id' } });
+  const orchestrator = new BuildOrchestrator(5, await tempQueue(), new BuildQuotas({ defaults: { user: { maxPerDay: 1 } } }));
+  orchestrator.setQuotaClient(db.asClient());
+  const dispatched: QueuedBuild[] = [];
+  const rejected: string[] = [];
+  orchestrator.setQueueDispatcher(async (entry) => {
+    dispatched.push(entry);
+    const slot = orchestrator.registerBuild(entry.buildId, { userId: entry.userId, orgId: null }, { fresh: !entry.resume });
+    assert.equal(slot.allowed, true);
+  }, async (entry) => {
+    rejected.push(entry.buildId);
+  });
+
+  await orchestrator.enqueueBuild({ buildId: 'fresh', userId: 'u1' });
+  await orchestrator.dispatchQueued();
+  // recordStart is fire-and-forget
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(db.table('build_quota_starts').length, 1);
+
+  // A paused build of the same user resumes although the daily limit is reached
+  await orchestrator.enqueueBuild({ buildId: 'paused', userId: 'u1', resume: true });
+  await orchestrator.enqueueBuild({ buildId: 'second', userId: 'u1' });
+  await orchestrator.dispatchQueued();
+  await new Promise((resolve) => setImmediate(resolve));
+
+  assert.deepEqual(dispatched.map((e) => e.buildId), ['fresh', 'paused']);
+  assert.deepEqual(rejected, ['second']);
+  assert.equal(db.table('build_quota_starts').length, 1);
+});
+
+test('a registered build is refused while the owner is at its concurrency limit', async () => {
+  const orchestrator = new BuildOrchestrator(5, await tempQueue(), new BuildQuotas({ defaults: { user: { maxConcurrent: 1 } } }));
+  assert.equal(orchestrator.registerBuild('b1', { userId: 'u1', orgId: null }).allowed, true);
+  const refused = orchestrator.registerBuild('b2', { userId: 'u1', orgId: null });
+  assert.equal(!refused.allowed && refused.reason, 'user_concurrent_limit');
+  orchestrator.unregisterBuild('b1');
+  assert.equal(orchestrator.registerBuild('b2', { userId: 'u1', orgId: null }).allowed, true);
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import { once } from 'events';
+import { findOwnedRunningBuilds, isBuildWorkerAlive, recordResumeAttempt } from '../build-recovery.js';
+import { InMemorySupabase } from '../in-memory-supabase.js';
+
+test('owned running builds are found and each resume uses up an attempt', async () => {
+  const db = new InMemorySupabase({
+    automated_builds: [
+      { id: 'b1', status: 'running', lease_owner: 'node-a', worker_pid: 4242, resume_attempts: null, drained_at: null },
+      { id: 'b2', status: 'running', lease_owner: 'node-b', worker_pid: null, resume_attempts: 0, drained_at: null },
+      { id: 'b3', status: 'failed', lease_owner: 'node-a', worker_pid: null, resume_attempts: 0, drained_at: null },
+    ],
+  });
+  const client = db.asClient();
+
+  assert.deepEqual(await findOwnedRunningBuilds(client, 'node-a'), [
+    { buildId: 'b1', workerPid: 4242, resumeAttempts: 0, drainedAt: null },
+  ]);
+
+  assert.deepEqual(await recordResumeAttempt(client, 'b1', 2), { allowed: true, attempt: 1 });
+  assert.deepEqual(await recordResumeAttempt(client, 'b1', 2), { allowed: true, attempt: 2 });
+  assert.deepEqual(await recordResumeAttempt(client, 'b1', 2), { allowed: false, attempts: 2, max: 2 });
+  assert.equal(db.table('automated_builds')[0].resume_attempts, 2);
+});
+
+test('a worker is only alive while its process runs the build-worker for that build', { skip: process.platform !== 'linux' }, async () => {
+  const worker = spawn(process.execPath, ['-e', 'setTimeout(() => {}, 30_000)', 'build-worker'], {
+    env: { ...process.env, BUILD_ID: 'b1' },
+    stdio: 'ignore',
+  });
+  try {
+    const pid = worker.pid!;
+    assert.equal(await isBuildWorkerAlive(pid, 'b1'), true);
+    // Recycled PID of another build, or a process that is no worker at all
+    assert.equal(await isBuildWorkerAlive(pid, 'b2'), false);
+    assert.equal(await isBuildWorkerAlive(process.pid, 'b1'), false);
+  } finally {
+    worker.kill('SIGKILL');
+    await once(worker, 'exit');
+  }
+  assert.equal(await isBuildWorkerAlive(worker.pid!, 'b1'), false);
+});
@@ -0,0 +1,142 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { runBuildLoop } from '../build-runner.js';
+import {
+  rejectPendingStepActions,
+  requestPromptSkip,
+  requestStepRerun,
+  resolveStepAction,
+  startStepRerun,
+  takePendingStepActions,
+} from '../build-step-actions.js';
+import { InMemorySupabase } from '../in-memory-supabase.js';
+import {
+  createReplayCreateProjectFn,
+  createReplayExecutePromptFn,
+  createReplayProjectChecks,
+  registerRecordedFunctions,
+  type BuildRecording,
+  type ReplayPromptCall,
+} from '../replay-build.js';
+
+/** A running build in its developer phase that has run the first of three configured prompts. */
+function runningBuild(): InMemorySupabase {
+  return new InMemorySupabase({
+    automated_builds: [{
+      id: 'b1',
+      status: 'running',
+      current_agent_phase: 'developer',
+      current_step: 1,
+      configuration: { cursorConfig: { projectName: 'demo' }, prompts: ['Create home page', 'Add about page', 'Add contact page'] },
+    }],
+    build_steps: [
+      { id: 's1', build_id: 'b1', step_number: 1, prompt_id: 'cfg-0', prompt_content: 'Create home page', prompt_source: 'sequence', status: 'completed' },
+    ],
+  });
+}
+
+test('a skipped prompt is recorded like a step, numbered where it would have run', async () => {
+  const db = runningBuild();
+  const client = db.asClient();
+
+  const result = await requestPromptSkip(client, 'b1', 'cfg-2');
+  assert.equal(result.accepted, true);
+  const row = db.table('build_steps').find((step) => step.prompt_id === 'cfg-2')!;
+  assert.equal(row.step_number, 3);
+  assert.equal(row.prompt_content, 'Add contact page');
+  assert.equal(row.prompt_source, 'sequence');
+  assert.equal(row.status, 'skipped');
+  assert.ok(row.started_at);
+  assert.equal(row.operator_action_status, 'pending');
+
+  assert.deepEqual(await requestPromptSkip(client, 'b1', 'cfg-2'), { accepted: false, status: 409, message: 'Prompt already has a pending skip' });
+  assert.deepEqual(await requestPromptSkip(client, 'b1', 'cfg-0'), {
+    accepted: false,
+    status: 409,
+    message: 'Prompt already ran as step 1; retry or edit that step instead',
+  });
+  assert.deepEqual(await requestPromptSkip(client, 'b1', 'cfg-9'), { accepted: false, status: 404, message: 'Prompt is not pending in this build' });
+});
+
+test('retry and edit mark a finished step; the loop takes, resolves and rejects actions', async () => {
+  const db = runningBuild();
+  const client = db.asClient();
+  db.table('build_steps').push({ id: 's2', build_id: 'b1', step_number: 2, prompt_id: 'cfg-1', prompt_content: 'Add about page', status: 'running' });
+
+  assert.equal((await requestStepRerun(client, 'b1', 's1', 'edit', 'Create a darker home page')).accepted, true);
+  assert.deepEqual(await requestStepRerun(client, 'b1', 's1', 'retry'), { accepted: false, status: 409, message: 'Step already has a pending action' });
+  const running = await requestStepRerun(client, 'b1', 's2', 'retry');
+  assert.equal(!running.accepted && running.status, 409);
+  assert.equal((await requestStepRerun(client, 'b1', 'missing', 'retry')).accepted, false);
+  await new Promise((resolve) => setTimeout(resolve, 2));
+  assert.equal((await requestPromptSkip(client, 'b1', 'cfg-2')).accepted, true);
+
+  const actions = await takePendingStepActions(client, 'b1');
+  assert.deepEqual(actions.map((a) => [a.action, a.stepNumber, a.prompt]), [
+    ['edit', 1, 'Create a darker home page'],
+    ['skip', 3, null],
+  ]);
+
+  await resolveStepAction(client, 's1', 'applied');
+  await startStepRerun(client, 's1', 'Create a darker home page', new Date().toISOString());
+  const edited = db.table('build_steps').find((step) => step.id === 's1')!;
+  assert.deepEqual(
+    [edited.status, edited.prompt_content, edited.original_prompt_content, edited.rerun_count, edited.operator_action_status],
+    ['running', 'Create a darker home page', 'Create home page', 1, 'applied']
+  );
+
+  await rejectPendingStepActions(client, 'b1', 'The developer phase ended before the action was applied');
+  const skip = db.table('build_steps').find((step) => step.prompt_id === 'cfg-2')!;
+  assert.equal(skip.status, 'cancelled');
+  assert.equal(skip.operator_action_status, 'rejected');
+  assert.deepEqual(await takePendingStepActions(client, 'b1'), []);
+});
+
+test('actions are refused once the developer phase is over', async () => {
+  const db = runningBuild();
+  db.table('automated_builds')[0].current_agent_phase = 'debug';
+  const refused = await requestPromptSkip(db.asClient(), 'b1', 'cfg-2');
+  assert.equal(!refused.accepted && refused.status, 409);
+  assert.deepEqual(await requestStepRerun(db.asClient(), 'nope', 's1', 'retry'), { accepted: false, status: 404, message: 'Build not found' });
+});
+
+test('the build loop drops a skipped prompt and numbers it as the next step', async () => {
+  const recording = JSON.parse(
+    await fs.readFile(new URL('./fixtures/replay-build.json', import.meta.url), 'utf-8')
+  ) as BuildRecording;
+  const db = new InMemorySupabase(recording.tables, { identity: { build_logs: 'sequence' } });
+  db.table('flowchart_items').push({ id: 'f2', project_id: 'p1', type: 'prompt', sequence_order: 3, prompt_content: 'Add about page', is_implemented: false });
+  registerRecordedFunctions(db, recording.functions);
+  const projectPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'build-step-actions-')), 'project');
+  const calls: ReplayPromptCall[] = [];
+  const options = {
+    createProjectFn: createReplayCreateProjectFn(recording.scaffold),
+    executePromptFn: createReplayExecutePromptFn(recording.prompts, calls),
+    configOverrides: { projectPath },
+    projectChecks: createReplayProjectChecks(recording.debugChecks),
+  };
+
+  try {
+    // Pause after the first prompt, skip the second, resume
+    const pause = () => calls.length >= 1;
+    await runBuildLoop(db.asClient(), recording.buildId, { ...options, shouldStop: pause, pauseRequested: pause });
+    // The server records the scaffolded project path, which makes the next run a resume
+    db.table('automated_builds')[0].cursor_project_path = projectPath;
+    assert.equal((await requestPromptSkip(db.asClient(), recording.buildId, 'f2')).accepted, true);
+    await runBuildLoop(db.asClient(), recording.buildId, options);
+
+    assert.equal(db.table('automated_builds')[0].status, 'completed');
+    assert.ok(!calls.some((call) => call.prompt.includes('Add about page')));
+    const skipped = db.table('build_steps').find((step) => step.prompt_id === 'f2')!;
+    assert.deepEqual(
+      [skipped.status, skipped.step_number, skipped.operator_action_status, skipped.prompt_content],
+      ['skipped', 2, 'applied', 'Add about page']
+    );
+    assert.ok(skipped.completed_at);
+  } finally {
+    await fs.rm(path.dirname(projectPath), { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,129 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemorySupabase } from '../in-memory-supabase.js';
+import { WorkspaceManager, type WorkspaceRetention } from '../build-workspaces.js';
+
+const HOUR_MS = 60 * 60_000;
+const ago = (ms: number) => new Date(Date.now() - ms).toISOString();
+
+const retention: WorkspaceRetention = { maxAgeDays: 7, failedMaxAgeDays: 2, pruneAfterHours: 1, minFreeDiskGb: 0 };
+
+async function withProjectsDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'build-workspaces-'));
+  const previous = process.env.MCP_BUILD_PROJECTS_DIR;
+  process.env.MCP_BUILD_PROJECTS_DIR = dir;
+  try {
+    return await fn(dir);
+  } finally {
+    if (previous === undefined) delete process.env.MCP_BUILD_PROJECTS_DIR;
+    else process.env.MCP_BUILD_PROJECTS_DIR = previous;
+  }
+}
+
+/** A project with a package file and, optionally, installed node_modules. */
+async function makeWorkspace(dir: string, options: { nodeModules?: boolean; kb?: number } = {}): Promise<string> {
+  await fs.mkdir(path.join(dir, 'app'), { recursive: true });
+  await fs.writeFile(path.join(dir, 'app', 'package.json'), '{}');
+  if (options.kb) await fs.writeFile(path.join(dir, 'app', 'data.bin'), Buffer.alloc(options.kb * 1024, 1));
+  if (options.nodeModules) {
+    await fs.mkdir(path.join(dir, 'app', 'node_modules', 'left-pad'), { recursive: true });
+    await fs.writeFile(path.join(dir, 'app', 'node_modules', 'left-pad', 'index.js'), 'module.exports = 1;');
+  }
+  return dir;
+}
+
+const exists = (p: string) => fs.access(p).then(() => true, () => false);
+
+test('gc removes expired workspaces, prunes kept ones and leaves running, active and external ones alone', async () => {
+  await withProjectsDir(async (base) => {
+    const builds = path.join(base, 'builds');
+    const external = await makeWorkspace(await fs.mkdtemp(path.join(os.tmpdir(), 'external-')));
+    for (const id of ['old-done', 'old-failed', 'recent-done', 'recent-failed', 'running', 'previewed']) {
+      await makeWorkspace(path.join(builds, id), { nodeModules: true });
+    }
+    const orphan = await makeWorkspace(path.join(builds, 'orphan'));
+    const eightDaysAgo = new Date(Date.now() - 8 * 24 * HOUR_MS);
+    await fs.utimes(orphan, eightDaysAgo, eightDaysAgo);
+
+    const row = (id: string, status: string, completedAt: string | null, projectPath = path.join(builds, id, 'app')) => ({
+      id, user_id: 'u1', status, cursor_project_path: projectPath, completed_at: completedAt,
+      updated_at: completedAt, workspace_pruned_at: null, workspace_deleted_at: null,
+    });
+    const db = new InMemorySupabase({
+      automated_builds: [
+        row('old-done', 'completed', ago(8 * 24 * HOUR_MS)),
+        row('old-failed', 'failed', ago(3 * 24 * HOUR_MS)),
+        row('recent-done', 'completed', ago(2 * HOUR_MS)),
+        row('recent-failed', 'cancelled', ago(30 * 60_000)),
+        row('running', 'running', null),
+        row('previewed', 'completed', ago(30 * 24 * HOUR_MS)),
+        row('external', 'completed', ago(30 * 24 * HOUR_MS), external),
+      ],
+    });
+
+    const manager = new WorkspaceManager((buildId) => buildId === 'previewed', retention);
+    const result = await manager.gc(db.asClient());
+
+    assert.deepEqual(
+      result.removed.map((r) => [r.buildId, r.reason]).sort(),
+      [['old-done', 'age'], ['old-failed', 'failed_age'], ['orphan', 'orphan']]
+    );
+    assert.deepEqual(result.pruned.map((p) => p.buildId), ['recent-done']);
+    assert.ok(result.freedBytes > 0);
+
+    assert.equal(await exists(path.join(builds, 'old-done')), false);
+    assert.equal(await exists(orphan), false);
+    assert.equal(await exists(path.join(builds, 'recent-done', 'app', 'package.json')), true);
+    assert.equal(await exists(path.join(builds, 'recent-done', 'app', 'node_modules')), false);
+    // Finished too recently to prune, still running, previewed, or outside the projects dir
+    assert.equal(await exists(path.join(builds, 'recent-failed', 'app', 'node_modules')), true);
+    assert.equal(await exists(path.join(builds, 'running', 'app', 'node_modules')), true);
+    assert.equal(await exists(path.join(builds, 'previewed', 'app', 'node_modules')), true);
+    assert.equal(await exists(external), true);
+
+    const rows = new Map(db.table('automated_builds').map((r) => [r.id, r]));
+    assert.ok(rows.get('old-done')!.workspace_deleted_at);
+    assert.ok(rows.get('recent-done')!.workspace_pruned_at);
+    assert.equal(rows.get('running')!.workspace_deleted_at, null);
+  });
+});
+
+test('a user over the disk quota loses their oldest finished workspaces first', async () => {
+  await withProjectsDir(async (base) => {
+    const builds = path.join(base, 'builds');
+    for (const id of ['oldest', 'middle', 'newest']) await makeWorkspace(path.join(builds, id), { kb: 200 });
+    const db = new InMemorySupabase({
+      automated_builds: ['oldest', 'middle', 'newest'].map((id, index) => ({
+        id, user_id: 'u1', status: 'completed', cursor_project_path: path.join(builds, id, 'app'),
+        completed_at: ago((3 - index) * HOUR_MS), updated_at: null, workspace_pruned_at: null, workspace_deleted_at: null,
+      })),
+    });
+
+    // Room for two of the three workspaces
+    const manager = new WorkspaceManager(() => false, { ...retention, userQuotaGb: (500 * 1024) / 1024 ** 3 });
+    const result = await manager.gc(db.asClient());
+
+    assert.deepEqual(result.removed.map((r) => [r.buildId, r.reason]), [['oldest', 'user_quota']]);
+    assert.equal(await exists(path.join(builds, 'middle')), true);
+    assert.equal(await exists(path.join(builds, 'newest')), true);
+  });
+});
+
+test('without a database every workspace ages out by modification time', async () => {
+  await withProjectsDir(async (base) => {
+    const stale = await makeWorkspace(path.join(base, 'builds', 'stale'));
+    const fresh = await makeWorkspace(path.join(base, 'builds', 'fresh'));
+    const tenDaysAgo = new Date(Date.now() - 10 * 24 * HOUR_MS);
+    await fs.utimes(stale, tenDaysAgo, tenDaysAgo);
+
+    const manager = new WorkspaceManager(() => false, retention);
+    const result = await manager.gc(null);
+
+    assert.deepEqual(result.removed.map((r) => r.path), [stale]);
+    assert.equal(await exists(fresh), true);
+    assert.equal((await manager.checkDiskGuard()).ok, true);
+  });
+});
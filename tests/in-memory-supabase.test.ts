@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InMemorySupabase } from '../in-memory-supabase.js';
+
+const db = new InMemorySupabase({
+  automated_builds: [
+    { id: 'b1', status: 'running', lease_expires_at: null, title: 'Shop (v1)' },
+    { id: 'b2', status: 'running', lease_expires_at: '2026-01-01T00:00:00Z', title: 'Blog, draft' },
+    { id: 'b3', status: 'failed', lease_expires_at: '2026-01-02T00:00:00Z', title: '100%_done' },
+  ],
+});
+const client = db.asClient();
+const ids = (data: unknown) => (data as Array<{ id: string }>).map((row) => row.id);
+
+test('not() negates a single operator', async () => {
+  const { data } = await client.from('automated_builds').select('id').not('lease_expires_at', 'is', null);
+  assert.deepEqual(ids(data), ['b2', 'b3']);
+
+  const notIn = await client.from('automated_builds').select('id').not('id', 'in', '(b1,b2)');
+  assert.deepEqual(ids(notIn.data), ['b3']);
+});
+
+test('or() applies PostgREST logic strings with quoting and nested groups', async () => {
+  const either = await client.from('automated_builds').select('id').or('status.eq.failed,lease_expires_at.is.null');
+  assert.deepEqual(ids(either.data), ['b1', 'b3']);
+
+  const quoted = await client.from('automated_builds').select('id').or('title.ilike."%blog, draft%",title.eq."Shop (v1)"');
+  assert.deepEqual(ids(quoted.data), ['b1', 'b2']);
+
+  const escaped = await client.from('automated_builds').select('id').or('title.like.100\\%\\_%');
+  assert.deepEqual(ids(escaped.data), ['b3']);
+
+  const nested = await client.from('automated_builds').select('id')
+    .eq('status', 'running')
+    .or('id.eq.b1,and(lease_expires_at.not.is.null,title.ilike.blog%)');
+  assert.deepEqual(ids(nested.data), ['b1', 'b2']);
+});
+
+test('rpc() calls registered handlers and reports unknown functions', async () => {
+  db.registerRpc('claim_build_lease', (args, database) => {
+    const build = database.table('automated_builds').find((row) => row.id === args.p_build_id);
+    if (!build) throw new Error('build not found');
+    build.lease_owner = args.p_node_id;
+    return true;
+  });
+
+  const claimed = await client.rpc('claim_build_lease', { p_build_id: 'b1', p_node_id: 'node-a' });
+  assert.deepEqual(claimed, { data: true, error: null });
+  assert.equal(db.table('automated_builds')[0].lease_owner, 'node-a');
+
+  const failed = await client.rpc('claim_build_lease', { p_build_id: 'missing', p_node_id: 'node-a' });
+  assert.equal(failed.error?.message, 'build not found');
+
+  const unknown = await client.rpc('renew_build_lease', {});
+  assert.equal(unknown.error?.code, 'PGRST202');
+  assert.deepEqual(db.rpcCalls.map((call) => call.name), ['claim_build_lease', 'claim_build_lease', 'renew_build_lease']);
+});
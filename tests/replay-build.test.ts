@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { runReplayBuild, type BuildRecording } from '../replay-build.js';
+
+test('the recorded build replays to completion offline', async () => {
+  const recording = JSON.parse(
+    await fs.readFile(new URL('./fixtures/replay-build.json', import.meta.url), 'utf-8')
+  ) as BuildRecording;
+
+  const { build, calls, db, projectPath } = await runReplayBuild(recording);
+  try {
+    assert.equal(build?.status, 'completed');
+    assert.equal(calls.filter((call) => call.recordingIndex === null).length, 0);
+    assert.equal(db.table('build_steps').filter((step) => step.status === 'failed').length, 0);
+    assert.match(await fs.readFile(path.join(projectPath, 'src/pages/Home.tsx'), 'utf-8'), /designed home page/);
+  } finally {
+    await fs.rm(path.dirname(projectPath), { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,232 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import type { BuildExecutePromptArgs } from '../build-runner.js';
+import { InMemorySupabase } from '../in-memory-supabase.js';
+import { runScopeCheckAgent } from '../scope-check-agent-runner.js';
+
+const execFileAsync = promisify(execFile);
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd });
+  return stdout.trim();
+}
+
+interface ScopeCheckFixture {
+  root: string;
+  projectPath: string;
+  db: InMemorySupabase;
+  /** Pushes the project's origin received. */
+  pushes: () => Promise<number>;
+}
+
+/**
+ * A project repository pushed to a local bare origin that counts the pushes it
+ * receives, and a build whose project has the given pages (and connections).
+ */
+async function createFixture(titles: string[], connections: Array<[string, string]> = []): Promise<ScopeCheckFixture> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'scope-check-'));
+  const origin = path.join(root, 'origin.git');
+  const projectPath = path.join(root, 'project');
+  const pushLog = path.join(root, 'pushes.log');
+  await execFileAsync('git', ['init', '--bare', '-b', 'main', origin]);
+  await fs.mkdir(projectPath);
+  await git(projectPath, 'init', '-b', 'main');
+  await git(projectPath, 'config', 'user.name', 'Test');
+  await git(projectPath, 'config', 'user.email', 'test@localhost');
+  await fs.mkdir(path.join(projectPath, 'src'));
+  await fs.writeFile(path.join(projectPath, 'src', 'App.tsx'), 'export const routes = [];\n');
+  await git(projectPath, 'add', '-A');
+  await git(projectPath, 'commit', '-m', 'Initial commit');
+  await git(projectPath, 'remote', 'add', 'origin', origin);
+  await git(projectPath, 'push', 'origin', 'main');
+  await fs.writeFile(path.join(origin, 'hooks', 'post-receive'), `#!/bin/sh\necho push >> "${pushLog}"\n`, { mode: 0o755 });
+
+  const pages = titles.map((title, index) => ({
+    id: `page-${title}`,
+    project_id: 'p1',
+    type: 'page',
+    title,
+    sequence_order: index + 1,
+  }));
+  const db = new InMemorySupabase({
+    automated_builds: [{ id: 'b1', user_id: 'u1', project_id: 'p1', status: 'running' }],
+    flowchart_items: pages,
+    flowchart_connections: connections.map(([source, target]) => ({
+      project_id: 'p1',
+      source_id: `page-${source}`,
+      target_id: `page-${target}`,
+    })),
+  });
+  // Stand-in for the generate-page-prompt Edge Function: one prompt node per page
+  db.registerFunction('generate-page-prompt', (body: { pageId: string }, database) => {
+    const page = database.table('flowchart_items').find((item) => item.id === body.pageId)!;
+    const promptNode = { id: `prompt-${page.title}`, project_id: 'p1', type: 'prompt', prompt_content: `Build the ${page.title} page`, is_implemented: false };
+    database.table('flowchart_items').push(promptNode);
+    return { data: { success: true, promptNode } };
+  });
+
+  const pushes = async () => (await fs.readFile(pushLog, 'utf-8').catch(() => '')).split('\n').filter(Boolean).length;
+  return { root, projectPath, db, pushes };
+}
+
+/** Title of the page a scope-check prompt was generated for. */
+function pageOf(args: BuildExecutePromptArgs): string {
+  return args.prompt.replace(/^Build the (.*) page$/, '$1');
+}
+
+function runAgent(fixture: ScopeCheckFixture, executePromptFn: (args: BuildExecutePromptArgs) => Promise<unknown>, parallelPages = 4) {
+  return runScopeCheckAgent({
+    supabase: fixture.db.asClient(),
+    buildId: 'b1',
+    projectId: 'p1',
+    projectPath: fixture.projectPath,
+    executePromptFn,
+    userId: 'u1',
+    githubAuth: { gitHubToken: 'gho_test' },
+    configuration: { automationSettings: { scopeCheckParallelPages: parallelPages } },
+  });
+}
+
+/** Worktrees and worktree branches the project still has. */
+async function leftoverWorktrees(projectPath: string): Promise<{ worktrees: string[]; branches: string; dirs: string[] }> {
+  const worktrees = (await git(projectPath, 'worktree', 'list', '--porcelain'))
+    .split('\n')
+    .filter((line) => line.startsWith('worktree '));
+  const branches = await git(projectPath, 'branch', '--list', 'build-worktrees/*');
+  const dirs = await fs.readdir(path.join(projectPath, '.git', 'build-worktrees', 'b1')).catch(() => []);
+  return { worktrees, branches, dirs };
+}
+
+test('independent pages run concurrently in worktrees and are merged and pushed once per batch', async () => {
+  // Contact links to About, so it waits for the batch About is in
+  const fixture = await createFixture(['Home', 'About', 'Contact', 'Blog'], [['About', 'Contact']]);
+  const { projectPath, db } = fixture;
+  const calls: Array<{ page: string; cwd: string; autoCommit?: boolean }> = [];
+  let running = 0;
+  let maxRunning = 0;
+  try {
+    await runAgent(fixture, async (args) => {
+      calls.push({ page: pageOf(args), cwd: args.projectPath, autoCommit: args.autoCommit });
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await fs.writeFile(path.join(args.projectPath, 'src', `${pageOf(args)}.tsx`), `export const ${pageOf(args)} = () => null;\n`);
+      running--;
+      return { success: true };
+    });
+
+    assert.equal(maxRunning, 2);
+    const worktreeRoot = path.join(projectPath, '.git', 'build-worktrees', 'b1');
+    assert.deepEqual(calls.map((call) => [call.page, call.cwd, call.autoCommit]).sort(), [
+      ['About', path.join(worktreeRoot, 'page-About'), false],
+      ['Blog', path.join(worktreeRoot, 'page-Blog'), false],
+      ['Contact', path.join(worktreeRoot, 'page-Contact'), false],
+      ['Home', path.join(worktreeRoot, 'page-Home'), false],
+    ]);
+
+    const logs = db.table('build_logs').map((log) => log.message as string);
+    assert.ok(logs.includes('Parallel mode: up to 4 pages at once in 2 batches.'));
+    assert.ok(logs.includes('Processing 2 pages in parallel: Home, About'));
+    assert.ok(logs.includes('Processing 2 pages in parallel: Contact, Blog'));
+
+    assert.deepEqual((await fs.readdir(path.join(projectPath, 'src'))).sort(), ['About.tsx', 'App.tsx', 'Blog.tsx', 'Contact.tsx', 'Home.tsx']);
+    assert.equal(await git(projectPath, 'status', '--porcelain'), '');
+    assert.deepEqual((await git(projectPath, 'log', '--merges', '--format=%s')).split('\n'), [
+      'Scope-check: Blog',
+      'Scope-check: Contact',
+      'Scope-check: About',
+      'Scope-check: Home',
+    ]);
+    assert.equal(await fixture.pushes(), 2);
+    assert.equal(await git(path.join(fixture.root, 'origin.git'), 'rev-parse', 'main'), await git(projectPath, 'rev-parse', 'HEAD'));
+
+    const steps = db.table('build_steps');
+    assert.deepEqual(steps.map((step) => [step.step_number, step.status]).sort(), [[1, 'completed'], [2, 'completed'], [3, 'completed'], [4, 'completed']]);
+    assert.ok(steps.every((step) => typeof step.checkpoint_sha === 'string'));
+    assert.deepEqual(db.table('flowchart_items').filter((item) => item.type === 'prompt').map((item) => item.is_implemented), [true, true, true, true]);
+    assert.equal(db.table('automated_builds')[0].scope_check_pages_completed, 4);
+    assert.deepEqual(await leftoverWorktrees(projectPath), { worktrees: [`worktree ${projectPath}`], branches: '', dirs: [] });
+  } finally {
+    await fs.rm(fixture.root, { recursive: true, force: true });
+  }
+});
+
+test('a page whose merge conflicts is re-run on the merged project', async () => {
+  const fixture = await createFixture(['Home', 'About']);
+  const { projectPath, db } = fixture;
+  const calls: Array<{ page: string; cwd: string }> = [];
+  try {
+    await runAgent(fixture, async (args) => {
+      calls.push({ page: pageOf(args), cwd: args.projectPath });
+      // Both pages register their route in the same line
+      await fs.writeFile(path.join(args.projectPath, 'src', 'App.tsx'), `export const routes = ['${pageOf(args)}'];\n`);
+      return { success: true };
+    });
+
+    assert.deepEqual(calls.filter((call) => call.cwd === projectPath).map((call) => call.page), ['About']);
+    assert.equal(calls.filter((call) => call.page === 'About').length, 2);
+    const logs = db.table('build_logs').map((log) => log.message as string);
+    assert.ok(logs.includes('About could not be merged (Merge conflict in src/App.tsx); re-running it on the merged project.'));
+
+    // The re-run wrote over the merged Home page; nothing is left mid-merge
+    assert.equal(await fs.readFile(path.join(projectPath, 'src', 'App.tsx'), 'utf-8'), "export const routes = ['About'];\n");
+    await assert.rejects(fs.access(path.join(projectPath, '.git', 'MERGE_HEAD')));
+    assert.deepEqual((await git(projectPath, 'log', '--merges', '--format=%s')).split('\n'), ['Scope-check: Home']);
+
+    const about = db.table('build_steps').find((step) => step.prompt_id === 'prompt-About')!;
+    assert.deepEqual([about.step_number, about.status], [2, 'completed']);
+    assert.equal(db.table('build_steps').length, 2);
+    assert.equal(await fixture.pushes(), 1);
+    assert.deepEqual(await leftoverWorktrees(projectPath), { worktrees: [`worktree ${projectPath}`], branches: '', dirs: [] });
+  } finally {
+    await fs.rm(fixture.root, { recursive: true, force: true });
+  }
+});
+
+test('a page that throws in its worktree fails alone and its worktree is removed', async () => {
+  const fixture = await createFixture(['Home', 'About', 'Contact']);
+  const { projectPath, db } = fixture;
+  try {
+    await runAgent(fixture, async (args) => {
+      if (pageOf(args) === 'About') throw new Error('agent crashed');
+      await fs.writeFile(path.join(args.projectPath, 'src', `${pageOf(args)}.tsx`), 'export {};\n');
+      return { success: true };
+    });
+
+    const logs = db.table('build_logs').map((log) => log.message as string);
+    assert.ok(logs.includes('About failed in its worktree: agent crashed'));
+    const statuses = Object.fromEntries(db.table('build_steps').map((step) => [step.prompt_id, step.status]));
+    assert.deepEqual(statuses, { 'prompt-Home': 'completed', 'prompt-About': 'failed', 'prompt-Contact': 'completed' });
+    assert.deepEqual(
+      db.table('flowchart_items').filter((item) => item.type === 'prompt').map((item) => [item.id, item.is_implemented]),
+      [['prompt-Home', true], ['prompt-About', false], ['prompt-Contact', true]]
+    );
+    assert.deepEqual((await fs.readdir(path.join(projectPath, 'src'))).sort(), ['App.tsx', 'Contact.tsx', 'Home.tsx']);
+    assert.equal(db.table('automated_builds')[0].scope_check_pages_completed, 3);
+    assert.equal(await fixture.pushes(), 1);
+    assert.deepEqual(await leftoverWorktrees(projectPath), { worktrees: [`worktree ${projectPath}`], branches: '', dirs: [] });
+  } finally {
+    await fs.rm(fixture.root, { recursive: true, force: true });
+  }
+});
+
+test('pages run one at a time in the project without a parallel limit', async () => {
+  const fixture = await createFixture(['Home', 'About']);
+  const cwds: string[] = [];
+  try {
+    await runAgent(fixture, async (args) => {
+      cwds.push(args.projectPath);
+      return { success: true };
+    }, 1);
+    assert.deepEqual(cwds, [fixture.projectPath, fixture.projectPath]);
+    assert.equal(await fixture.pushes(), 0);
+    assert.deepEqual(await fs.readdir(path.join(fixture.projectPath, '.git', 'build-worktrees')).catch(() => []), []);
+  } finally {
+    await fs.rm(fixture.root, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,165 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InMemoryScopeRepository, type FlowchartItemRow } from '../scope-repository.js';
+import { getProjectOverview } from '../handlers/projectOverview.js';
+import { getRelationshipTraversal } from '../handlers/relationshipTraversal.js';
+import { getScopeSlice } from '../handlers/scopeSlice.js';
+import { getFullProjectContext } from '../handlers/fullProjectContext.js';
+import { getScopeDiff } from '../handlers/scopeDiff.js';
+import { getAdvancedFilter } from '../handlers/advancedFilter.js';
+
+const item = (id: string, type: string, title: string, createdAt: string): FlowchartItemRow => ({
+  id,
+  project_id: 'proj',
+  type,
+  title,
+  description: `${title} description`,
+  created_at: createdAt,
+});
+
+const repo = new InMemoryScopeRepository({
+  organizations: [{ id: 'org', name: 'Acme', api_key: 'key' }, { id: 'other', api_key: 'other-key' }],
+  projects: [{
+    id: 'proj', organization_id: 'org', title: 'Shop', description: null, status: 'active',
+    created_at: '2026-01-01T00:00:00Z', updated_at: null,
+  }],
+  items: [
+    item('home', 'page', 'Home', '2026-01-01T00:00:01Z'),
+    item('checkout', 'page', 'Checkout', '2026-01-01T00:00:02Z'),
+    item('orders', 'api', 'Orders API', '2026-01-01T00:00:03Z'),
+    { ...item('elsewhere', 'page', 'Elsewhere', '2026-01-01T00:00:04Z'), project_id: 'other-proj' },
+  ],
+  connections: [
+    { id: 'c1', project_id: 'proj', source_id: 'home', target_id: 'checkout', type: 'navigation' },
+    { id: 'c2', project_id: 'proj', source_id: 'checkout', target_id: 'orders', type: 'uses' },
+  ],
+  members: [{ project_id: 'proj', role: 'owner', user: { name: 'Sam', email: 'sam@example.com' } }],
+});
+
+test('authenticate rejects unknown keys and projects of other organizations', async () => {
+  await assert.rejects(repo.authenticate('nope', 'proj'), /Invalid API key/);
+  await assert.rejects(repo.authenticate('other-key', 'proj'), /Project not found or access denied/);
+});
+
+test('project overview counts only the project\'s items', async () => {
+  const ctx = await repo.authenticate('key', 'proj');
+  const overview = await getProjectOverview(ctx, repo);
+  assert.equal(overview.project.name, 'Shop');
+  assert.deepEqual(overview.organization, { id: 'org', name: 'Acme' });
+  assert.equal(overview.stats.itemsCount, 3);
+  assert.equal(overview.members.length, 1);
+});
+
+test('relationship traversal follows direction and records paths', async () => {
+  const ctx = await repo.authenticate('key', 'proj');
+  const downstream = await getRelationshipTraversal(ctx, 'home', 2, { direction: 'downstream' }, repo);
+  const orders = downstream.relatedNodes.find((node) => node.id === 'orders');
+  assert.deepEqual(orders?.path, ['home', 'checkout', 'orders']);
+  assert.deepEqual(orders?.pathEdges, ['c1', 'c2']);
+
+  const upstream = await getRelationshipTraversal(ctx, 'home', 2, { direction: 'upstream' }, repo);
+  assert.deepEqual(upstream.relatedNodes.map((node) => node.id), ['home']);
+
+  const navigationOnly = await getRelationshipTraversal(ctx, 'home', 2, { edgeTypes: ['navigation'] }, repo);
+  assert.deepEqual(navigationOnly.relatedNodes.map((node) => node.id).sort(), ['checkout', 'home']);
+});
+
+test('scope slice filters by type within the project', async () => {
+  const ctx = await repo.authenticate('key', 'proj');
+  const slice = await getScopeSlice(ctx, { nodeType: 'page' }, repo);
+  assert.deepEqual(slice.items.map((entry) => entry.id), ['home', 'checkout']);
+  assert.equal(slice.totalCount, 2);
+});
+
+test('token-budgeted project context stays within maxTokens', async () => {
+  const items = Array.from({ length: 40 }, (_, i) => ({
+    ...item(`item-${i}`, 'page', `Page ${i}`, `2026-01-01T00:01:${String(i).padStart(2, '0')}Z`),
+    description: 'x'.repeat(400),
+  }));
+  const budgetRepo = new InMemoryScopeRepository({
+    organizations: [{ id: 'org', api_key: 'key' }],
+    projects: [{
+      id: 'proj', organization_id: 'org', title: 'Big', description: null, status: null,
+      created_at: '2026-01-01T00:00:00Z', updated_at: null,
+    }],
+    items,
+    connections: items.slice(1).map((entry, i) => ({ id: `c${i}`, project_id: 'proj', source_id: items[i].id, target_id: entry.id })),
+    versions: [{
+      id: 'v1', project_id: 'proj', version_number: 1, version_name: 'Baseline', is_baseline: true, approved_at: null,
+      snapshot_data: { items }, created_at: '2026-01-02T00:00:00Z',
+    }],
+  });
+  const ctx = await budgetRepo.authenticate('key', 'proj');
+
+  const packed = await getFullProjectContext(ctx, { maxTokens: 2000, focusNodeId: 'item-0' }, budgetRepo);
+  assert.ok('budget' in packed);
+  assert.ok(packed.budget.estimatedTokens <= 2000, `estimated ${packed.budget.estimatedTokens} tokens`);
+  assert.ok(!('snapshot_data' in packed.versions[0]));
+  assert.ok(packed.omitted.itemsCount > 0);
+
+  await assert.rejects(getFullProjectContext(ctx, { maxTokens: 50 }, budgetRepo), /below the ~\d+ tokens needed/);
+});
+
+test('scope diff compares the columns a version snapshot stored and rejects unknown snapshots', async () => {
+  const diffRepo = new InMemoryScopeRepository({
+    organizations: [{ id: 'org', api_key: 'key' }],
+    projects: [{
+      id: 'proj', organization_id: 'org', title: 'Shop', description: null, status: null,
+      created_at: '2026-01-01T00:00:00Z', updated_at: null,
+    }],
+    items: [
+      { ...item('home', 'page', 'Home', '2026-01-01T00:00:01Z'), external_issue_status: 'open' },
+      item('cart', 'page', 'Cart', '2026-01-01T00:00:02Z'),
+    ],
+    connections: [{ id: 'c1', project_id: 'proj', source_id: 'home', target_id: 'cart' }],
+    versions: [
+      {
+        id: 'v1', project_id: 'proj', version_number: 1, version_name: null, is_baseline: true, approved_at: null,
+        snapshot_data: {
+          items: [{ id: 'home', type: 'page', title: 'Start' }, { id: 'about', type: 'page', title: 'About' }],
+          connections: [],
+        },
+        created_at: '2026-01-02T00:00:00Z',
+      },
+      {
+        id: 'v2', project_id: 'proj', version_number: 2, version_name: null, is_baseline: false, approved_at: null,
+        snapshot_data: { nodes: [] }, created_at: '2026-01-03T00:00:00Z',
+      },
+    ],
+  });
+  const ctx = await diffRepo.authenticate('key', 'proj');
+
+  const diff = await getScopeDiff(ctx, 'v1', undefined, diffRepo);
+  assert.deepEqual(diff.items.added.map((entry) => entry.id), ['cart']);
+  assert.deepEqual(diff.items.removed.map((entry) => entry.id), ['about']);
+  assert.deepEqual(diff.items.modified.map((entry) => entry.changes), [[{ field: 'title', before: 'Start', after: 'Home' }]]);
+  assert.equal(diff.stats.connectionsAdded, 1);
+
+  await assert.rejects(getScopeDiff(ctx, 'v2', undefined, diffRepo), /Version v2 has an unrecognised snapshot/);
+});
+
+test('advanced filter ranks keyword matches, filters by tag and pages with a cursor', async () => {
+  const searchRepo = new InMemoryScopeRepository({
+    organizations: [{ id: 'org', api_key: 'key' }],
+    projects: [{
+      id: 'proj', organization_id: 'org', title: 'Shop', description: null, status: null,
+      created_at: '2026-01-01T00:00:00Z', updated_at: null,
+    }],
+    items: [
+      { ...item('a', 'page', 'Order history', '2026-01-01T00:00:01Z'), description: 'Past purchases', tags: ['Account'] },
+      { ...item('b', 'page', 'Checkout', '2026-01-01T00:00:02Z'), description: 'Places an order', tags: ['account'] },
+      { ...item('c', 'api', 'Orders API', '2026-01-01T00:00:03Z'), elements: { tags: ['backend'] } },
+    ],
+  });
+  const ctx = await searchRepo.authenticate('key', 'proj');
+
+  const ranked = await getAdvancedFilter(ctx, { keyword: 'order' }, searchRepo);
+  assert.deepEqual(ranked.items.map((entry) => entry.id), ['c', 'a', 'b']);
+
+  const first = await getAdvancedFilter(ctx, { tag: 'ACCOUNT', limit: 1 }, searchRepo);
+  assert.deepEqual(first.items.map((entry) => entry.id), ['a']);
+  assert.equal(first.totalCount, 2);
+  const second = await getAdvancedFilter(ctx, { tag: 'account', limit: 1, cursor: first.nextCursor! }, searchRepo);
+  assert.deepEqual(second.items.map((entry) => entry.id), ['b']);
+  assert.equal(second.nextCursor, null);
+});
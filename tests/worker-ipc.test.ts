@@ -0,0 +1,112 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import { once } from 'events';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { BuildOrchestrator } from '../build-orchestrator.js';
+import { BuildQueue } from '../build-queue.js';
+import { BuildQuotas } from '../build-quotas.js';
+import { InMemorySupabase } from '../in-memory-supabase.js';
+import { isWorkerHeartbeat, type WorkerHeartbeat } from '../worker-ipc.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+async function orchestrator(): Promise<BuildOrchestrator> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'worker-ipc-'));
+  return new BuildOrchestrator(5, new BuildQueue(path.join(dir, 'queue.json')), new BuildQuotas());
+}
+
+const heartbeat = (buildId: string, outputIdleMs: number): WorkerHeartbeat => ({
+  type: 'heartbeat',
+  buildId,
+  phase: 'developer',
+  currentStep: 2,
+  totalSteps: 5,
+  outputIdleMs,
+  sentAt: new Date().toISOString(),
+});
+
+test('heartbeat messages are recognised', () => {
+  assert.equal(isWorkerHeartbeat(heartbeat('b1', 0)), true);
+  assert.equal(isWorkerHeartbeat({ type: 'heartbeat', buildId: 'b1' }), false);
+  assert.equal(isWorkerHeartbeat({ type: 'log', buildId: 'b1', outputIdleMs: 0 }), false);
+  assert.equal(isWorkerHeartbeat(null), false);
+});
+
+test('a worker reports phase, step and output idleness over IPC', async () => {
+  const script = `
+    const { startWorkerHeartbeat } = await import(${JSON.stringify(path.join(ROOT, 'worker-ipc.ts'))});
+    const { BuildEventEmitter } = await import(${JSON.stringify(path.join(ROOT, 'build-events.ts'))});
+    const { InMemorySupabase } = await import(${JSON.stringify(path.join(ROOT, 'in-memory-supabase.ts'))});
+    const stop = startWorkerHeartbeat('b1', 60000);
+    const events = new BuildEventEmitter(new InMemorySupabase().asClient(), 'b1', 'developer');
+    await events.emit('step_started', { stepNumber: 2, totalSteps: 5, title: 'Home' });
+    stop();
+    process.disconnect();
+  `;
+  const child = spawn(process.execPath, ['--import', 'tsx', '--input-type=module', '-e', script], {
+    cwd: ROOT,
+    stdio: ['ignore', 'ignore', 'inherit', 'ipc'],
+  });
+  const messages: unknown[] = [];
+  child.on('message', (message) => messages.push(message));
+  const [code] = await once(child, 'exit');
+  assert.equal(code, 0);
+
+  assert.ok(messages.every(isWorkerHeartbeat));
+  const beats = messages as WorkerHeartbeat[];
+  assert.equal(beats[0].phase, null);
+  const last = beats[beats.length - 1];
+  assert.deepEqual([last.buildId, last.phase, last.currentStep, last.totalSteps], ['b1', 'developer', 2, 5]);
+  assert.ok(last.outputIdleMs < 5_000);
+});
+
+test('sessions are stalled after the threshold without output; agent output counts', async () => {
+  const builds = await orchestrator();
+  builds.registerWorker({ buildId: 'b1', pid: process.pid, startedAt: new Date().toISOString() });
+  assert.equal(builds.getAllSessions()[0].live, null);
+
+  builds.recordHeartbeat(heartbeat('b1', 11 * 60_000));
+  let [session] = builds.getAllSessions();
+  assert.equal(session.live?.phase, 'developer');
+  assert.equal(session.live?.stalled, true);
+
+  builds.noteAgentOutput('b1');
+  [session] = builds.getAllSessions();
+  assert.equal(session.live?.stalled, false);
+  // A later heartbeat from the quiet build loop does not hide the agent's output
+  builds.recordHeartbeat(heartbeat('b1', 11 * 60_000));
+  [session] = builds.getAllSessions();
+  assert.equal(session.live?.stalled, false);
+
+  // Heartbeats of unknown builds are ignored
+  builds.recordHeartbeat(heartbeat('other', 0));
+  assert.equal(builds.getAllSessions().length, 1);
+});
+
+test('the liveness monitor kills a stalled worker and fails its build', async () => {
+  const previous = process.env.MCP_WORKER_STALL_MS;
+  process.env.MCP_WORKER_STALL_MS = '50';
+  const db = new InMemorySupabase({ automated_builds: [{ id: 'b1', status: 'running' }] });
+  const builds = await orchestrator();
+  const child = spawn(process.execPath, ['-e', 'setTimeout(() => {}, 30_000)'], { stdio: 'ignore' });
+  const exited = once(child, 'exit');
+  builds.registerWorker({ buildId: 'b1', pid: child.pid!, process: child, startedAt: new Date().toISOString() });
+  const timer = builds.startLivenessMonitor(db.asClient(), 20);
+  try {
+    await exited;
+    while (db.table('automated_builds')[0].status === 'running') await new Promise((resolve) => setTimeout(resolve, 10));
+  } finally {
+    clearInterval(timer);
+    child.kill('SIGKILL');
+    if (previous === undefined) delete process.env.MCP_WORKER_STALL_MS;
+    else process.env.MCP_WORKER_STALL_MS = previous;
+  }
+  const [build] = db.table('automated_builds');
+  assert.equal(build.status, 'failed');
+  assert.match(build.error_message, /^Build stalled — no output for \d+s/);
+  assert.equal(builds.getWorkerSession('b1'), undefined);
+});
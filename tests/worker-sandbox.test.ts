@@ -0,0 +1,136 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  buildAgentEnv,
+  buildWorkerEnv,
+  detectLimitBreach,
+  execSandboxed,
+  getWorkerLimits,
+  prepareAgentSandbox,
+  prepareWorkerSandbox,
+} from '../worker-sandbox.js';
+
+/** Run `fn` with some variables set (undefined unsets), then restore them. */
+async function withEnv<T>(vars: Record<string, string | undefined>, fn: () => T | Promise<T>): Promise<T> {
+  const previous = Object.fromEntries(Object.keys(vars).map((name) => [name, process.env[name]]));
+  const apply = (values: Record<string, string | undefined>) => {
+    for (const [name, value] of Object.entries(values)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  };
+  apply(vars);
+  try {
+    return await fn();
+  } finally {
+    apply(previous);
+  }
+}
+
+const SECRETS = {
+  MCP_SUPABASE_SERVICE_ROLE_KEY: 'service-role-secret',
+  CURSOR_KEYS_ENCRYPTION_SECRET: 'encryption-secret',
+  MCP_BUILD_API_KEY: 'dispatcher-api-key',
+};
+
+test('workers and agents only get allow-listed variables; agents get no dispatcher secrets', async () => {
+  await withEnv({ ...SECRETS, MCP_WORKER_ENV_ALLOWLIST: 'EXTRA_WORKER', MCP_AGENT_ENV_ALLOWLIST: ' EXTRA_AGENT ,', EXTRA_WORKER: 'w', EXTRA_AGENT: 'a' }, () => {
+    const worker = buildWorkerEnv({ BUILD_ID: 'b1' });
+    assert.equal(worker.BUILD_ID, 'b1');
+    assert.equal(worker.PATH, process.env.PATH);
+    assert.equal(worker.EXTRA_WORKER, 'w');
+    assert.equal(worker.MCP_SUPABASE_SERVICE_ROLE_KEY, undefined);
+    assert.equal(worker.MCP_BUILD_API_KEY, undefined);
+
+    const agent = buildAgentEnv({ CURSOR_API_KEY: 'user-key' });
+    assert.equal(agent.CURSOR_API_KEY, 'user-key');
+    assert.equal(agent.EXTRA_AGENT, 'a');
+    assert.equal(agent.EXTRA_WORKER, undefined);
+    for (const name of Object.keys(SECRETS)) assert.equal(agent[name], undefined, name);
+  });
+});
+
+test('limits come from the environment; unset or invalid means unlimited', async () => {
+  await withEnv({
+    MCP_WORKER_MEMORY_MB: '512',
+    MCP_WORKER_CPU_PERCENT: '150',
+    MCP_WORKER_MAX_PROCS: '-1',
+    MCP_WORKER_MAX_FILE_MB: 'big',
+    MCP_WORKER_MAX_OPEN_FILES: undefined,
+  }, () => {
+    assert.deepEqual(getWorkerLimits(), {
+      memoryMb: 512,
+      cpuPercent: 150,
+      maxProcs: undefined,
+      maxFileMb: undefined,
+      maxOpenFiles: undefined,
+    });
+  });
+});
+
+test('a worker joins a cgroup with its limits, and breaches are reported by limit', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'worker-sandbox-'));
+  const cgroupRoot = path.join(dir, 'cgroup');
+  await withEnv({ MCP_WORKER_FS_SANDBOX: 'off', MCP_BUILD_PROJECTS_DIR: path.join(dir, 'projects'), MCP_WORKER_CGROUP_ROOT: cgroupRoot }, async () => {
+    const sandbox = await prepareWorkerSandbox('b1', ['node', 'build-worker.js'], { memoryMb: 256, cpuPercent: 50, maxProcs: 64 });
+
+    assert.equal(sandbox.cwd, path.join(dir, 'projects', 'builds', 'b1'));
+    await fs.access(path.join(sandbox.cwd, '.tmp'));
+    assert.equal(sandbox.cgroup, path.join(cgroupRoot, 'b1'));
+    assert.deepEqual(sandbox.enforcement, ['cgroup']);
+    assert.equal(await fs.readFile(path.join(sandbox.cgroup!, 'memory.max'), 'utf-8'), String(256 * 1024 * 1024));
+    assert.equal(await fs.readFile(path.join(sandbox.cgroup!, 'cpu.max'), 'utf-8'), '50000 100000');
+    assert.equal(await fs.readFile(path.join(sandbox.cgroup!, 'pids.max'), 'utf-8'), '64');
+    assert.equal(sandbox.command, '/bin/sh');
+    assert.deepEqual(sandbox.args.slice(-3), [path.join(sandbox.cgroup!, 'cgroup.procs'), 'node', 'build-worker.js']);
+
+    assert.equal(await detectLimitBreach(sandbox, 1, null), null);
+    await fs.writeFile(path.join(sandbox.cgroup!, 'memory.events'), 'low 0\noom 1\noom_kill 1\n');
+    assert.equal((await detectLimitBreach(sandbox, null, 'SIGKILL'))?.reason, 'memory_limit');
+
+    const errLog = path.join(dir, 'b1.err.log');
+    await fs.writeFile(errLog, 'Error: EFBIG: file too large, write\n');
+    const withFileLimit = { ...sandbox, limits: { ...sandbox.limits, maxFileMb: 10 } };
+    assert.deepEqual(await detectLimitBreach(withFileLimit, 1, null, errLog), {
+      reason: 'file_size_limit',
+      limit: 10,
+      message: 'Build worker exceeded the file size limit (10 MB).',
+    });
+
+    await assert.rejects(prepareWorkerSandbox('../b1', ['node']), /Invalid build id/);
+  });
+});
+
+test('agent commands join their build cgroup, or get one of their own while limits are set', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'worker-sandbox-'));
+  const cgroupRoot = path.join(dir, 'cgroup');
+  await withEnv({ MCP_WORKER_FS_SANDBOX: 'off', MCP_BUILD_PROJECTS_DIR: path.join(dir, 'projects'), MCP_WORKER_CGROUP_ROOT: cgroupRoot }, async () => {
+    await fs.mkdir(path.join(cgroupRoot, 'b1'), { recursive: true });
+    await fs.writeFile(path.join(cgroupRoot, 'b1', 'cgroup.procs'), '');
+
+    const inBuild = await prepareAgentSandbox(['agent'], { cwd: dir, buildId: 'b1' }, {});
+    assert.deepEqual(inBuild.enforcement, ['cgroup']);
+    assert.ok(inBuild.args.includes(path.join(cgroupRoot, 'b1', 'cgroup.procs')));
+
+    const unlimited = await prepareAgentSandbox(['agent', '--print'], { cwd: dir }, {});
+    assert.deepEqual([unlimited.command, ...unlimited.args], ['agent', '--print']);
+    assert.deepEqual(unlimited.enforcement, []);
+
+    const own = await prepareAgentSandbox(['agent'], { cwd: dir }, { maxProcs: 32 });
+    const ownCgroup = (await fs.readdir(cgroupRoot)).find((name) => name.startsWith('run-'));
+    assert.ok(ownCgroup);
+    assert.equal(await fs.readFile(path.join(cgroupRoot, ownCgroup, 'pids.max'), 'utf-8'), '32');
+    await own.cleanup();
+  });
+});
+
+test('sandboxed installs run without the dispatcher secrets', { skip: process.platform === 'win32' }, async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'worker-sandbox-'));
+  await withEnv({ ...SECRETS, MCP_WORKER_FS_SANDBOX: 'off' }, async () => {
+    const { stdout } = await execSandboxed('pwd; echo "[$MCP_SUPABASE_SERVICE_ROLE_KEY][$CURSOR_KEYS_ENCRYPTION_SECRET]"', { cwd: dir });
+    assert.equal(stdout, `${await fs.realpath(dir)}\n[][]\n`);
+  });
+});
@@ -13,8 +13,10 @@
 
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { SupabaseClient } from '@supabase/supabase-js';
-import { withTimeout, type ExecutePromptFn, type BuildExecutePromptArgs, type BuildProvider } from './build-runner.js';
+import { withTimeout, type BuildExecutePromptArgs } from './build-runner.js';
+import { BuildEventEmitter } from './build-events.js';
+import { checkpointBuildStep } from './build-checkpoints.js';
+import type { AgentPhaseOptions } from './build-phases.js';
 
 const MAX_FILES_TO_AUDIT = 100;
 const MAX_IMPROVEMENT_FIX_PROMPTS = 30;
@@ -31,23 +33,7 @@ const HEX_TO_TOKEN: Array<{ pattern: RegExp; replacement: string }> = [
   { pattern: /className="([^"]*?)border-\[#e5e7eb\]([^"]*?)"/g, replacement: 'className="$1border-border$2"' },
 ];
 
-interface UIDesignImprovementsAgentOptions {
-  supabase: SupabaseClient;
-  buildId: string;
-  projectId: string;
-  projectPath: string;
-  executePromptFn: ExecutePromptFn;
-  model?: string;
-  cursorApiKey?: string;
-  claudeApiKey?: string;
-  provider?: BuildProvider;
-  githubAuth?: { gitHubToken?: string; gitUserName?: string; gitUserEmail?: string };
-  userId: string;
-  shouldStop?: () => boolean;
-  resolveModelForStep?: (baseModel: string | undefined) => Promise<string | undefined>;
-}
-
-export async function runUIDesignImprovementsAgent(options: UIDesignImprovementsAgentOptions): Promise<void> {
+export async function runUIDesignImprovementsAgent(options: AgentPhaseOptions): Promise<void> {
   const {
     supabase, buildId, projectId, projectPath,
     executePromptFn, model, cursorApiKey, claudeApiKey, provider, githubAuth, userId, shouldStop,
@@ -56,14 +42,11 @@ export async function runUIDesignImprovementsAgent(options: UIDesignImprovements
 
   let effectiveModel = model;
 
+  const events = options.events ?? new BuildEventEmitter(supabase, buildId, 'ui-design-improvements');
+
   const log = (msg: string) => {
     console.error(`[UIDesignImprovementsAgent] ${msg}`);
-    supabase.from('build_logs').insert({
-      build_id: buildId,
-      log_type: 'build_log',
-      message: msg,
-      created_at: new Date().toISOString(),
-    }).then(() => {});
+    void events.log(msg, 'info', { source: 'ui-design-improvements' });
   };
 
   log('UI Design Improvements Agent starting...');
@@ -289,6 +272,7 @@ export async function runUIDesignImprovementsAgent(options: UIDesignImprovements
         supabaseClient: supabase,
         userId,
         buildId,
+        phase: 'ui-design-improvements',
       };
       if (githubAuth?.gitHubToken) args.gitHubToken = githubAuth.gitHubToken;
       if (githubAuth?.gitUserName) args.gitUserName = githubAuth.gitUserName;
@@ -310,6 +294,7 @@ export async function runUIDesignImprovementsAgent(options: UIDesignImprovements
             completed_at: new Date().toISOString(),
           }).eq('id', stepRowId);
         } catch { /* non-blocking */ }
+        await checkpointBuildStep(supabase, projectPath, buildId, stepRowId);
       }
 
       log(`Fixed ${fileIssues.length} improvements in ${filePath}`);
@@ -0,0 +1,100 @@
+/**
+ * Worker IPC — Heartbeats from build workers to the dispatcher over the
+ * child-process IPC channel.
+ *
+ * Each worker spawned by runBuildWorker (server.ts) reports its current phase
+ * and step and how long its build has been quiet, every
+ * MCP_WORKER_HEARTBEAT_MS (default 5s) and right away when the phase or step
+ * changes. The dispatcher keeps the latest heartbeat per worker session
+ * (build-orchestrator.ts) and kills workers whose build produced no output for
+ * MCP_WORKER_STALL_MS (default 10 minutes, longer than an agent CLI may stay
+ * silent). Agent CLIs run in the dispatcher, which counts their output
+ * towards the worker's idle time itself. Heartbeats never touch the database.
+ */
+
+import { onBuildEvent } from './build-events.js';
+
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 5_000;
+const DEFAULT_STALL_THRESHOLD_MS = 600_000;
+
+/** Message a worker sends to the dispatcher. */
+export interface WorkerHeartbeat {
+  type: 'heartbeat';
+  buildId: string;
+  phase: string | null;
+  currentStep: number | null;
+  totalSteps: number | null;
+  /** Milliseconds since the build last produced output (any build event). */
+  outputIdleMs: number;
+  sentAt: string;
+}
+
+export function getWorkerHeartbeatIntervalMs(): number {
+  const parsed = parseInt(process.env.MCP_WORKER_HEARTBEAT_MS || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_HEARTBEAT_INTERVAL_MS;
+}
+
+/** Output idleness after which the dispatcher kills a worker (MCP_WORKER_STALL_MS, default 10 minutes). */
+export function getWorkerStallThresholdMs(): number {
+  const parsed = parseInt(process.env.MCP_WORKER_STALL_MS || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_STALL_THRESHOLD_MS;
+}
+
+export function isWorkerHeartbeat(message: unknown): message is WorkerHeartbeat {
+  const m = message as Partial<WorkerHeartbeat> | null;
+  return !!m && m.type === 'heartbeat' && typeof m.buildId === 'string' && typeof m.outputIdleMs === 'number';
+}
+
+/**
+ * Worker side: send heartbeats for `buildId` while the IPC channel is open.
+ * Phase and step follow the build's events. Returns the stop function (a no-op
+ * when the worker was started without an IPC channel).
+ */
+export function startWorkerHeartbeat(buildId: string, intervalMs: number = getWorkerHeartbeatIntervalMs()): () => void {
+  if (!process.send) return () => {};
+
+  let phase: string | null = null;
+  let currentStep: number | null = null;
+  let totalSteps: number | null = null;
+  let lastOutputAt = Date.now();
+
+  const send = () => {
+    // The dispatcher may have restarted; its replacement re-attaches without IPC
+    if (!process.connected) return;
+    const heartbeat: WorkerHeartbeat = {
+      type: 'heartbeat',
+      buildId,
+      phase,
+      currentStep,
+      totalSteps,
+      outputIdleMs: Date.now() - lastOutputAt,
+      sentAt: new Date().toISOString(),
+    };
+    process.send!(heartbeat, undefined, undefined, () => {
+      // Channel closed mid-send; nothing to report to
+    });
+  };
+
+  const unsubscribe = onBuildEvent((event) => {
+    if (event.buildId !== buildId || event.type === 'heartbeat') return;
+    lastOutputAt = Date.now();
+    let changed = event.phase !== phase;
+    phase = event.phase;
+    if (event.type === 'step_started') {
+      const payload = event.payload as { stepNumber: number; totalSteps?: number };
+      changed = changed || payload.stepNumber !== currentStep;
+      currentStep = payload.stepNumber;
+      totalSteps = payload.totalSteps ?? totalSteps;
+    }
+    if (changed) send();
+  });
+
+  const timer = setInterval(send, intervalMs);
+  timer.unref();
+  send();
+
+  return () => {
+    clearInterval(timer);
+    unsubscribe();
+  };
+}
@@ -0,0 +1,431 @@
+/**
+ * Worker sandbox — Per-build resource limits, environment allow-list and
+ * filesystem confinement for build worker processes.
+ *
+ * Limits (all optional, unset means unlimited):
+ *   MCP_WORKER_MEMORY_MB      memory.max of the build's cgroup (no swap)
+ *   MCP_WORKER_CPU_PERCENT    cpu.max of the build's cgroup (100 = one core)
+ *   MCP_WORKER_MAX_PROCS      pids.max of the build's cgroup
+ *   MCP_WORKER_MAX_FILE_MB    largest file a worker may write (prlimit --fsize)
+ *   MCP_WORKER_MAX_OPEN_FILES open file descriptors (prlimit --nofile)
+ *
+ * Memory, CPU and process limits use a cgroup v2 per build under
+ * MCP_WORKER_CGROUP_ROOT (default /sys/fs/cgroup/mcp-builds; the dispatcher
+ * needs a delegated, writable subtree).
+ *
+ * The worker runs in <projects dir>/builds/<buildId> and, when bubblewrap is
+ * installed (disable with MCP_WORKER_FS_SANDBOX=off), sees the rest of the
+ * filesystem read-only. Only allow-listed variables reach its environment
+ * (MCP_WORKER_ENV_ALLOWLIST adds names).
+ *
+ * Agent CLIs and package installs the dispatcher starts for a project run
+ * the same way: confined to the project (or, for a build, the build's
+ * directory) plus the tools' own state under $HOME, with the same rlimits, in
+ * the build's cgroup or a cgroup of their own, and with a narrower
+ * environment that leaves out every dispatcher secret
+ * (MCP_AGENT_ENV_ALLOWLIST adds names).
+ */
+
+import { execFile } from 'child_process';
+import { randomUUID } from 'crypto';
+import { constants as fsConstants } from 'fs';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { isValidBuildId } from './build-stream.js';
+
+export interface WorkerLimits {
+  memoryMb?: number;
+  cpuPercent?: number;
+  maxProcs?: number;
+  maxFileMb?: number;
+  maxOpenFiles?: number;
+}
+
+/** Which limit a worker hit (stored as automated_builds.failure_reason). */
+export type LimitBreachReason = 'memory_limit' | 'process_limit' | 'file_size_limit';
+
+export interface LimitBreach {
+  reason: LimitBreachReason;
+  limit: number;
+  message: string;
+}
+
+export interface WorkerSandbox {
+  buildId: string;
+  command: string;
+  args: string[];
+  /** Working directory, the only writable path when the filesystem sandbox is on. */
+  cwd: string;
+  /** cgroup v2 directory of the build, or null when cgroups are unavailable. */
+  cgroup: string | null;
+  limits: WorkerLimits;
+  /** Mechanisms in effect, for the startup log ("cgroup", "prlimit", "bwrap"). */
+  enforcement: string[];
+}
+
+/** Command line for an agent CLI or package install, wrapped like a worker. */
+export interface AgentSandbox {
+  command: string;
+  args: string[];
+  enforcement: string[];
+  /** Remove the cgroup created for the command, if any. Never throws. */
+  cleanup: () => Promise<void>;
+}
+
+export interface AgentSandboxOptions {
+  /** Directory the command runs in; writable. */
+  cwd: string;
+  /** Build the command runs for: it joins the build's cgroup and may write the build's directory. */
+  buildId?: string;
+  /** Paths under /tmp the command reads, kept visible over the sandbox's private /tmp. */
+  readOnly?: string[];
+}
+
+/** Variables every worker needs; the rest of the dispatcher's environment stays out. */
+const BASE_ENV_ALLOWLIST = [
+  'PATH', 'HOME', 'USER', 'LANG', 'LC_ALL', 'TZ', 'SHELL',
+  'NODE_ENV', 'NODE_OPTIONS', 'NODE_EXTRA_CA_CERTS', 'SSL_CERT_FILE',
+  'HTTP_PROXY', 'HTTPS_PROXY', 'NO_PROXY', 'http_proxy', 'https_proxy', 'no_proxy',
+  'CURSOR_KEYS_ENCRYPTION_SECRET',
+  'MCP_BUILD_PROJECTS_DIR', 'MCP_BUILD_LOG_DIR', 'MCP_BUILD_LOG_TYPE_INFO', 'MCP_BUILD_LOG_TYPE_ERROR',
+  'MCP_BUILD_PHASE_MODULES', 'MCP_SCOPE_CHECK_MAX_PARALLEL',
+];
+
+/**
+ * Variables agent CLIs and package installs get. No dispatcher credentials
+ * (service role key, encryption secret); the agent's own API key is passed
+ * separately.
+ */
+const AGENT_ENV_ALLOWLIST = [
+  'PATH', 'HOME', 'USER', 'LANG', 'LC_ALL', 'TZ', 'SHELL', 'TERM',
+  'NODE_EXTRA_CA_CERTS', 'SSL_CERT_FILE',
+  'HTTP_PROXY', 'HTTPS_PROXY', 'NO_PROXY', 'http_proxy', 'https_proxy', 'no_proxy',
+  'XDG_CONFIG_HOME', 'XDG_CACHE_HOME', 'XDG_DATA_HOME', 'XDG_STATE_HOME',
+];
+
+/** Per-user state of agent CLIs and package managers under $HOME, writable inside the sandbox. */
+const AGENT_HOME_STATE = ['.claude', '.claude.json', '.cursor', '.config', '.cache', '.local', '.npm', '.yarn'];
+
+const DEFAULT_CGROUP_ROOT = '/sys/fs/cgroup/mcp-builds';
+
+const positive = (value: string | undefined): number | undefined => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+export function getWorkerLimits(): WorkerLimits {
+  return {
+    memoryMb: positive(process.env.MCP_WORKER_MEMORY_MB),
+    cpuPercent: positive(process.env.MCP_WORKER_CPU_PERCENT),
+    maxProcs: positive(process.env.MCP_WORKER_MAX_PROCS),
+    maxFileMb: positive(process.env.MCP_WORKER_MAX_FILE_MB),
+    maxOpenFiles: positive(process.env.MCP_WORKER_MAX_OPEN_FILES),
+  };
+}
+
+/** Allow-listed part of the dispatcher's environment plus the worker's own variables. */
+export function buildWorkerEnv(workerVars: Record<string, string>): Record<string, string> {
+  const extra = (process.env.MCP_WORKER_ENV_ALLOWLIST ?? '').split(',').map((name) => name.trim()).filter(Boolean);
+  const env: Record<string, string> = {};
+  for (const name of [...BASE_ENV_ALLOWLIST, ...extra]) {
+    const value = process.env[name];
+    if (value !== undefined) env[name] = value;
+  }
+  return { ...env, ...workerVars };
+}
+
+/** Allow-listed part of the dispatcher's environment plus the agent's own variables (e.g. its API key). */
+export function buildAgentEnv(agentVars: Record<string, string> = {}): Record<string, string> {
+  const extra = (process.env.MCP_AGENT_ENV_ALLOWLIST ?? '').split(',').map((name) => name.trim()).filter(Boolean);
+  const env: Record<string, string> = {};
+  for (const name of [...AGENT_ENV_ALLOWLIST, ...extra]) {
+    const value = process.env[name];
+    if (value !== undefined) env[name] = value;
+  }
+  return { ...env, ...agentVars };
+}
+
+/** Base directory of build projects, as build-runner.ts resolves it. */
+export function getProjectsBaseDir(): string {
+  return process.env.MCP_BUILD_PROJECTS_DIR || process.env.TMPDIR || process.cwd();
+}
+
+/** Directory a build's worker is confined to (its projects live below it). */
+export function getWorkerDir(buildId: string): string {
+  if (!isValidBuildId(buildId)) throw new Error(`Invalid build id: ${buildId}`);
+  return path.join(getProjectsBaseDir(), 'builds', buildId);
+}
+
+function getCgroupRoot(): string {
+  return process.env.MCP_WORKER_CGROUP_ROOT?.trim() || DEFAULT_CGROUP_ROOT;
+}
+
+/** The build's cgroup directory when it exists (used to put agent CLIs in it). */
+export async function findBuildCgroup(buildId: string): Promise<string | undefined> {
+  if (!isValidBuildId(buildId)) return undefined;
+  const dir = path.join(getCgroupRoot(), buildId);
+  try {
+    await fs.access(path.join(dir, 'cgroup.procs'), fsConstants.W_OK);
+    return dir;
+  } catch {
+    return undefined;
+  }
+}
+
+async function findExecutable(name: string): Promise<string | null> {
+  for (const dir of (process.env.PATH ?? '').split(path.delimiter)) {
+    if (!dir) continue;
+    const candidate = path.join(dir, name);
+    try {
+      await fs.access(candidate, fsConstants.X_OK);
+      return candidate;
+    } catch {
+      // not in this directory
+    }
+  }
+  return null;
+}
+
+/** Create the build's cgroup and write its limits. Null when cgroups v2 is not delegated to us. */
+async function createCgroup(buildId: string, limits: WorkerLimits): Promise<string | null> {
+  const root = getCgroupRoot();
+  const dir = path.join(root, buildId);
+  try {
+    await fs.mkdir(dir, { recursive: true });
+    // Controllers must be enabled on the parent; already enabled is fine
+    await fs.writeFile(path.join(root, 'cgroup.subtree_control'), '+memory +cpu +pids').catch(() => {});
+    if (limits.memoryMb) {
+      await fs.writeFile(path.join(dir, 'memory.max'), String(Math.floor(limits.memoryMb * 1024 * 1024)));
+      await fs.writeFile(path.join(dir, 'memory.swap.max'), '0').catch(() => {});
+    }
+    if (limits.cpuPercent) {
+      const period = 100_000;
+      await fs.writeFile(path.join(dir, 'cpu.max'), `${Math.floor((limits.cpuPercent / 100) * period)} ${period}`);
+    }
+    if (limits.maxProcs) {
+      await fs.writeFile(path.join(dir, 'pids.max'), String(Math.floor(limits.maxProcs)));
+    }
+    return dir;
+  } catch (err) {
+    console.warn(`[WorkerSandbox] cgroup ${dir} unavailable; memory/CPU/process limits not enforced:`, err instanceof Error ? err.message : err);
+    await fs.rmdir(dir).catch(() => {});
+    return null;
+  }
+}
+
+/** Prefix `command` with prlimit for the file size / open file limits. */
+async function withRlimits(command: string[], limits: WorkerLimits, enforcement: string[]): Promise<string[]> {
+  if (!limits.maxFileMb && !limits.maxOpenFiles) return command;
+  const prlimit = await findExecutable('prlimit');
+  if (!prlimit) {
+    console.warn('[WorkerSandbox] prlimit not found; file size / open file limits not enforced');
+    return command;
+  }
+  const rlimits: string[] = [];
+  if (limits.maxFileMb) rlimits.push(`--fsize=${Math.floor(limits.maxFileMb * 1024 * 1024)}`);
+  if (limits.maxOpenFiles) rlimits.push(`--nofile=${Math.floor(limits.maxOpenFiles)}`);
+  enforcement.push('prlimit');
+  return [prlimit, ...rlimits, ...command];
+}
+
+/** Prefix `command` so it joins `cgroup` before exec and every descendant is counted. */
+function inCgroup(command: string[], cgroup: string, enforcement: string[]): string[] {
+  enforcement.push('cgroup');
+  return ['/bin/sh', '-c', 'echo $$ > "$1" && shift && exec "$@"', 'sh', path.join(cgroup, 'cgroup.procs'), ...command];
+}
+
+/**
+ * Prepare the command line that runs `argv` (the worker) inside the build's
+ * sandbox: join the cgroup, apply rlimits, then bubblewrap.
+ */
+export async function prepareWorkerSandbox(buildId: string, argv: string[], limits: WorkerLimits = getWorkerLimits()): Promise<WorkerSandbox> {
+  const cwd = getWorkerDir(buildId);
+  await fs.mkdir(path.join(cwd, '.tmp'), { recursive: true });
+  const enforcement: string[] = [];
+  let command = [...argv];
+
+  if (process.env.MCP_WORKER_FS_SANDBOX !== 'off') {
+    const bwrap = await findExecutable('bwrap');
+    if (bwrap) {
+      // No --die-with-parent: workers outlive dispatcher restarts (build-recovery.ts)
+      command = [
+        bwrap,
+        '--ro-bind', '/', '/',
+        '--dev', '/dev',
+        '--proc', '/proc',
+        '--tmpfs', '/tmp',
+        '--bind', cwd, cwd,
+        '--chdir', cwd,
+        '--new-session',
+        ...command,
+      ];
+      enforcement.push('bwrap');
+    } else {
+      console.warn('[WorkerSandbox] bubblewrap (bwrap) not found; worker filesystem is not confined');
+    }
+  }
+
+  command = await withRlimits(command, limits, enforcement);
+
+  let cgroup: string | null = null;
+  if (hasCgroupLimits(limits)) {
+    cgroup = await createCgroup(buildId, limits);
+    if (cgroup) command = inCgroup(command, cgroup, enforcement);
+  }
+
+  return { buildId, command: command[0], args: command.slice(1), cwd, cgroup, limits, enforcement };
+}
+
+const hasCgroupLimits = (limits: WorkerLimits) => !!(limits.memoryMb || limits.cpuPercent || limits.maxProcs);
+
+/** Directories a sandboxed agent or install may write. */
+function agentWritablePaths(options: AgentSandboxOptions): string[] {
+  const cwd = path.resolve(options.cwd);
+  const paths = [cwd];
+  if (options.buildId && isValidBuildId(options.buildId)) {
+    // Build projects live in the build's directory; worktrees and linked node_modules stay writable
+    const buildDir = getWorkerDir(options.buildId);
+    if (cwd === buildDir || cwd.startsWith(buildDir + path.sep)) paths.push(buildDir);
+  }
+  const home = os.homedir();
+  return [...paths, ...AGENT_HOME_STATE.map((name) => path.join(home, name))];
+}
+
+/**
+ * Prepare the command line that runs `argv` (an agent CLI or a package
+ * install) for a project: bubblewrap with only the project (and the tools'
+ * home state) writable, the worker rlimits, and the build's cgroup when it
+ * has one — otherwise a cgroup of its own while limits are configured.
+ * Call cleanup() once the command exited.
+ */
+export async function prepareAgentSandbox(argv: string[], options: AgentSandboxOptions, limits: WorkerLimits = getWorkerLimits()): Promise<AgentSandbox> {
+  const enforcement: string[] = [];
+  let command = [...argv];
+
+  if (process.env.MCP_WORKER_FS_SANDBOX !== 'off') {
+    const bwrap = await findExecutable('bwrap');
+    if (bwrap) {
+      const binds = agentWritablePaths(options).flatMap((p) => ['--bind-try', p, p]);
+      const reads = (options.readOnly ?? []).flatMap((p) => ['--ro-bind-try', p, p]);
+      command = [
+        bwrap,
+        '--ro-bind', '/', '/',
+        '--dev', '/dev',
+        '--proc', '/proc',
+        '--tmpfs', '/tmp',
+        ...binds,
+        ...reads,
+        '--chdir', path.resolve(options.cwd),
+        '--new-session',
+        '--die-with-parent',
+        ...command,
+      ];
+      enforcement.push('bwrap');
+    } else {
+      console.warn('[WorkerSandbox] bubblewrap (bwrap) not found; agent filesystem is not confined');
+    }
+  }
+
+  command = await withRlimits(command, limits, enforcement);
+
+  let cgroup = options.buildId ? await findBuildCgroup(options.buildId) : undefined;
+  let ownCgroup: string | null = null;
+  if (!cgroup && hasCgroupLimits(limits)) {
+    ownCgroup = await createCgroup(options.buildId && isValidBuildId(options.buildId) ? options.buildId : `run-${randomUUID()}`, limits);
+    cgroup = ownCgroup ?? undefined;
+  }
+  if (cgroup) command = inCgroup(command, cgroup, enforcement);
+
+  return {
+    command: command[0],
+    args: command.slice(1),
+    enforcement,
+    cleanup: async () => {
+      if (ownCgroup) await fs.rmdir(ownCgroup).catch(() => {});
+    },
+  };
+}
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Run a shell command (e.g. `npm install`) in the project sandbox with the
+ * agent environment. On Windows, where there is no sandbox, it runs as-is.
+ */
+export async function execSandboxed(
+  command: string,
+  options: AgentSandboxOptions & { timeout?: number }
+): Promise<{ stdout: string; stderr: string }> {
+  const env = buildAgentEnv();
+  const maxBuffer = 10 * 1024 * 1024;
+  if (process.platform === 'win32') {
+    return execFileAsync(command, [], { cwd: options.cwd, timeout: options.timeout, env, shell: true, maxBuffer });
+  }
+  const sandbox = await prepareAgentSandbox(['/bin/sh', '-c', command], options);
+  try {
+    return await execFileAsync(sandbox.command, sandbox.args, { cwd: options.cwd, timeout: options.timeout, env, maxBuffer });
+  } finally {
+    await sandbox.cleanup();
+  }
+}
+
+async function readEventCount(file: string, key: string): Promise<number> {
+  try {
+    const line = (await fs.readFile(file, 'utf-8')).split('\n').find((l) => l.startsWith(`${key} `));
+    return line ? Number(line.split(' ')[1]) || 0 : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/** Tail of a log file, for spotting limit errors. */
+async function readTail(file: string, bytes = 64 * 1024): Promise<string> {
+  try {
+    const handle = await fs.open(file, 'r');
+    try {
+      const { size } = await handle.stat();
+      const length = Math.min(size, bytes);
+      const buffer = Buffer.alloc(length);
+      await handle.read(buffer, 0, length, size - length);
+      return buffer.toString('utf-8');
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Whether a failed worker hit one of its limits. Call after it exited.
+ * Node ignores SIGXFSZ, so an oversized write shows up as EFBIG in the worker's stderr log.
+ */
+export async function detectLimitBreach(
+  sandbox: WorkerSandbox,
+  code: number | null,
+  signal: NodeJS.Signals | null,
+  errLogFile?: string
+): Promise<LimitBreach | null> {
+  const { limits, cgroup } = sandbox;
+  const fileSizeError = signal === 'SIGXFSZ' || (!!errLogFile && (await readTail(errLogFile)).includes('EFBIG'));
+  if (fileSizeError && limits.maxFileMb) {
+    return { reason: 'file_size_limit', limit: limits.maxFileMb, message: `Build worker exceeded the file size limit (${limits.maxFileMb} MB).` };
+  }
+  if (cgroup && limits.memoryMb && (await readEventCount(path.join(cgroup, 'memory.events'), 'oom_kill')) > 0) {
+    return { reason: 'memory_limit', limit: limits.memoryMb, message: `Build worker exceeded the memory limit (${limits.memoryMb} MB).` };
+  }
+  if (cgroup && limits.maxProcs && (await readEventCount(path.join(cgroup, 'pids.events'), 'max')) > 0) {
+    return { reason: 'process_limit', limit: limits.maxProcs, message: `Build worker exceeded the process limit (${limits.maxProcs}).` };
+  }
+  return null;
+}
+
+/** Remove the build's cgroup once its processes are gone. */
+export async function cleanupWorkerSandbox(sandbox: WorkerSandbox): Promise<void> {
+  if (!sandbox.cgroup) return;
+  await fs.rmdir(sandbox.cgroup).catch(() => {
+    // Still has processes (e.g. an agent CLI finishing); it is reused or removed next time
+  });
+}